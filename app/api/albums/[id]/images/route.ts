@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AlbumImageError, albumService } from '../../../../../lib/services/albumService';
+import { requireOwner } from '../../../../../lib/auth/session';
+import { ApiResponse } from '../../../../../types/gallery';
+
+interface AlbumImagesRequest {
+  imageIds: string[];
+  position?: number;
+}
+
+// Parse and validate the list of image IDs sent to add or remove
+async function parseImageIds(request: NextRequest): Promise<AlbumImagesRequest | NextResponse> {
+  let body: AlbumImagesRequest;
+  try {
+    body = await request.json();
+  } catch {
+    const response: ApiResponse = {
+      success: false,
+      message: 'Invalid request body',
+      error: 'Request body must be JSON',
+    };
+    return NextResponse.json(response, { status: 400 });
+  }
+
+  if (!body || !Array.isArray(body.imageIds) || body.imageIds.length === 0 ||
+      !body.imageIds.every(imageId => typeof imageId === 'string')) {
+    const response: ApiResponse = {
+      success: false,
+      message: 'Invalid image IDs',
+      error: 'imageIds must be a non-empty array of image ID strings',
+    };
+    return NextResponse.json(response, { status: 400 });
+  }
+
+  if (body.position !== undefined && (!Number.isInteger(body.position) || body.position < 0)) {
+    const response: ApiResponse = {
+      success: false,
+      message: 'Invalid position',
+      error: 'position must be a non-negative integer',
+    };
+    return NextResponse.json(response, { status: 400 });
+  }
+
+  return body;
+}
+
+// POST add images to an album
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const { id } = params;
+
+    // Only the album's creator or an admin may change it
+    const existingAlbum = await albumService.getAlbumById(id);
+    if (!existingAlbum) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Album not found',
+        error: 'No album found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const user = await requireOwner(request, existingAlbum.createdBy);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const body = await parseImageIds(request);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+
+    const album = await albumService.addImages(id, body.imageIds, user, body.position);
+
+    if (!album) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Album not found',
+        error: 'No album found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Images added to album',
+      data: album,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    if (error instanceof AlbumImageError) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid image IDs',
+        error: error.message,
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    console.error('Add album images API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to add images to album',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// DELETE remove images from an album; the images stay in the gallery
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const { id } = params;
+
+    // Only the album's creator or an admin may change it
+    const existingAlbum = await albumService.getAlbumById(id);
+    if (!existingAlbum) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Album not found',
+        error: 'No album found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const user = await requireOwner(request, existingAlbum.createdBy);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const body = await parseImageIds(request);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+
+    const album = await albumService.removeImages(id, body.imageIds);
+
+    if (!album) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Album not found',
+        error: 'No album found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Images removed from album',
+      data: album,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Remove album images API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to remove images from album',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -0,0 +1,226 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AlbumImageError, albumService, canViewAlbum } from '../../../../lib/services/albumService';
+import { getCurrentUser, requireOwner } from '../../../../lib/auth/session';
+import { ApiResponse, UpdateAlbumRequest } from '../../../../types/gallery';
+
+// GET a single album with its images
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const { id } = params;
+
+    // Private albums are reported missing to everyone but their creator and admins
+    const viewer = await getCurrentUser(request);
+    const album = await albumService.getAlbumById(id, viewer);
+
+    if (!album || !canViewAlbum(album, viewer)) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Album not found',
+        error: 'No album found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Album retrieved successfully',
+      data: album,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Get album API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to retrieve album',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// PUT update an album's details, cover or image order
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const { id } = params;
+
+    // Only the album's creator or an admin may change it
+    const existingAlbum = await albumService.getAlbumById(id);
+    if (!existingAlbum) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Album not found',
+        error: 'No album found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const user = await requireOwner(request, existingAlbum.createdBy);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    let body: UpdateAlbumRequest;
+    try {
+      body = await request.json();
+    } catch {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid request body',
+        error: 'Request body must be JSON',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const updateData: UpdateAlbumRequest = {};
+
+    if (body.title !== undefined) {
+      if (typeof body.title !== 'string' || body.title.trim().length === 0) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Title cannot be empty',
+          error: 'Title field is required',
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+      updateData.title = body.title.trim();
+    }
+
+    if (typeof body.description === 'string') {
+      updateData.description = body.description.trim();
+    }
+
+    if (typeof body.isPublic === 'boolean') {
+      updateData.isPublic = body.isPublic;
+    }
+
+    if (body.coverImageId === null || typeof body.coverImageId === 'string') {
+      updateData.coverImageId = body.coverImageId;
+    }
+
+    if (body.imageIds !== undefined) {
+      if (!Array.isArray(body.imageIds) || !body.imageIds.every(imageId => typeof imageId === 'string')) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Invalid image IDs',
+          error: 'imageIds must be an array of image ID strings',
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+      updateData.imageIds = body.imageIds;
+    }
+
+    const album = await albumService.updateAlbum(id, updateData, user);
+
+    if (!album) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Album not found',
+        error: 'No album found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Album updated successfully',
+      data: album,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    if (error instanceof AlbumImageError) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid image IDs',
+        error: error.message,
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    console.error('Update album API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to update album',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// DELETE an album; its images stay in the gallery
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const { id } = params;
+
+    // Only the album's creator or an admin may change it
+    const existingAlbum = await albumService.getAlbumById(id);
+    if (!existingAlbum) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Album not found',
+        error: 'No album found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const user = await requireOwner(request, existingAlbum.createdBy);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const deleted = await albumService.deleteAlbum(id);
+
+    if (!deleted) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Album not found',
+        error: 'No album found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Album deleted successfully',
+      data: { id, deleted: true },
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Delete album API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to delete album',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AlbumImageError, albumService } from '../../../lib/services/albumService';
+import { getCurrentUser, requireUser } from '../../../lib/auth/session';
+import { ApiResponse, CreateAlbumRequest } from '../../../types/gallery';
+
+// GET the public albums and the caller's own (all albums for admins), optionally filtered by
+// visibility or by an image they contain
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const viewer = await getCurrentUser(request);
+
+    const albums = await albumService.getAlbums({
+      isPublic: searchParams.get('isPublic') ? searchParams.get('isPublic') === 'true' : undefined,
+      imageId: searchParams.get('imageId') || undefined,
+    }, viewer);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Albums retrieved successfully',
+      data: albums,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Get albums API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to retrieve albums',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// POST create a new album
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    let body: CreateAlbumRequest;
+    try {
+      body = await request.json();
+    } catch {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid request body',
+        error: 'Request body must be JSON',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (!body || typeof body.title !== 'string' || body.title.trim().length === 0) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Title is required',
+        error: 'Title field cannot be empty',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (body.imageIds !== undefined && (!Array.isArray(body.imageIds) || !body.imageIds.every(id => typeof id === 'string'))) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid image IDs',
+        error: 'imageIds must be an array of image ID strings',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const album = await albumService.createAlbum({
+      title: body.title.trim(),
+      description: typeof body.description === 'string' ? body.description.trim() : undefined,
+      coverImageId: typeof body.coverImageId === 'string' ? body.coverImageId : undefined,
+      imageIds: body.imageIds,
+      isPublic: typeof body.isPublic === 'boolean' ? body.isPublic : undefined,
+    }, user);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Album created successfully',
+      data: album,
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    if (error instanceof AlbumImageError) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid image IDs',
+        error: error.message,
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    console.error('Create album API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to create album',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
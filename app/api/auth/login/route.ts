@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authService } from '../../../../lib/services/authService';
+import { setSessionCookie } from '../../../../lib/auth/session';
+import { ApiResponse, AuthCredentials } from '../../../../types/gallery';
+
+// POST sign in with a username and password
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    let body: AuthCredentials;
+    try {
+      body = await request.json();
+    } catch {
+      body = { username: '', password: '' };
+    }
+
+    if (typeof body?.username !== 'string' || typeof body.password !== 'string' || !body.username || !body.password) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Username and password are required',
+        error: 'Missing credentials',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const login = await authService.login(body);
+
+    if (!login) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid credentials',
+        error: 'Username or password is incorrect',
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Signed in successfully',
+      data: login.user,
+    };
+
+    const nextResponse = NextResponse.json(response, { status: 200 });
+    setSessionCookie(nextResponse, login.token, login.expiresAt);
+    return nextResponse;
+  } catch (error) {
+    console.error('Login API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to sign in',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authService } from '../../../../lib/services/authService';
+import { clearSessionCookie, SESSION_COOKIE } from '../../../../lib/auth/session';
+import { ApiResponse } from '../../../../types/gallery';
+
+// POST end the current session
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    if (token) {
+      await authService.logout(token);
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Signed out successfully',
+    };
+
+    const nextResponse = NextResponse.json(response, { status: 200 });
+    clearSessionCookie(nextResponse);
+    return nextResponse;
+  } catch (error) {
+    console.error('Logout API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to sign out',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, requireUser } from '../../../../lib/auth/session';
+import { authService } from '../../../../lib/services/authService';
+import { parseResizeSettings } from '../../../../lib/uploadValidation';
+import { ApiResponse, PublicUser } from '../../../../types/gallery';
+
+// GET the signed-in user, or null when anonymous
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getCurrentUser(request);
+
+    const response: ApiResponse = {
+      success: true,
+      message: user ? 'Signed in' : 'Not signed in',
+      data: user,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Current user API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to retrieve current user',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// PUT save the signed-in user's preferences; currently { uploadSettings } for resizing images before upload
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    let body: { uploadSettings?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid request body',
+        error: 'Request body must be valid JSON',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const uploadSettings = parseResizeSettings(body?.uploadSettings);
+    if (!uploadSettings) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid upload settings',
+        error: 'uploadSettings needs enabled (true or false), maxLongEdge (256 to 16384 pixels) and quality (0.1 to 1)',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const updatedUser = await authService.updateUploadSettings(user.id, uploadSettings);
+    if (!updatedUser) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not found',
+        error: 'The signed-in account no longer exists',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const response: ApiResponse<PublicUser> = {
+      success: true,
+      message: 'Settings saved',
+      data: updatedUser,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Update user settings API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to save settings',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authService } from '../../../../lib/services/authService';
+import { setSessionCookie } from '../../../../lib/auth/session';
+import { ApiResponse, AuthCredentials } from '../../../../types/gallery';
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+// POST create an account and sign it in; the first account becomes an admin
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    if (process.env.ALLOW_REGISTRATION === 'false') {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Registration is disabled',
+        error: 'New accounts cannot be created on this gallery',
+      };
+      return NextResponse.json(response, { status: 403 });
+    }
+
+    let body: AuthCredentials;
+    try {
+      body = await request.json();
+    } catch {
+      body = { username: '', password: '' };
+    }
+
+    if (typeof body?.username !== 'string' || !USERNAME_PATTERN.test(body.username.trim())) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid username',
+        error: 'Username must be 3-32 letters, digits, dots, dashes or underscores',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (typeof body.password !== 'string' || body.password.length < MIN_PASSWORD_LENGTH) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid password',
+        error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const user = await authService.register(body);
+
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Username taken',
+        error: 'An account with this username already exists',
+      };
+      return NextResponse.json(response, { status: 409 });
+    }
+
+    const login = await authService.login(body);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Account created successfully',
+      data: user,
+    };
+
+    const nextResponse = NextResponse.json(response, { status: 201 });
+    if (login) {
+      setSessionCookie(nextResponse, login.token, login.expiresAt);
+    }
+    return nextResponse;
+  } catch (error) {
+    console.error('Register API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to create account',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
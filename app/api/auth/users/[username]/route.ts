@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '../../../../../lib/auth/session';
+import { authService, WORKSPACE_PATTERN } from '../../../../../lib/services/authService';
+import { ApiResponse, PublicUser } from '../../../../../types/gallery';
+
+// PUT move a user into a workspace, whose upload policy then applies to their uploads (admins only).
+// Send { workspace: "name" }, or { workspace: null } to return the user to the default policy
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { username: string } }
+): Promise<NextResponse> {
+  try {
+    const admin = await requireAdmin(request);
+    if (admin instanceof NextResponse) {
+      return admin;
+    }
+
+    let body: { workspace?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid request body',
+        error: 'Request body must be valid JSON',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const workspace = body?.workspace;
+    if (workspace !== null && (typeof workspace !== 'string' || !WORKSPACE_PATTERN.test(workspace.trim()))) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid workspace',
+        error: 'workspace must be 1-64 letters, digits, dots, dashes or underscores, or null',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const user = await authService.setWorkspace(params.username, workspace);
+    if (!user) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'User not found',
+        error: 'No account found with the provided username',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const response: ApiResponse<PublicUser> = {
+      success: true,
+      message: workspace ? 'Workspace assigned' : 'Workspace removed',
+      data: user,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Update user workspace API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to update user',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'PUT, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
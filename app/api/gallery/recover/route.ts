@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { galleryService, DEFAULT_RECOVERY_MIN_AGE_MS } from '../../../../lib/services/galleryService';
+import { requireAdmin } from '../../../../lib/auth/session';
+import { ApiResponse } from '../../../../types/gallery';
+
+// GET operations that have not finished yet
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const operations = await galleryService.getPendingOperations();
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Pending operations retrieved successfully',
+      data: operations,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Pending operations API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to retrieve pending operations',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// POST complete or roll back interrupted uploads and deletes
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await requireAdmin(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const minAgeSeconds = searchParams.get('minAgeSeconds');
+
+    let minAgeMs = DEFAULT_RECOVERY_MIN_AGE_MS;
+    if (minAgeSeconds !== null) {
+      const parsed = parseInt(minAgeSeconds);
+      if (isNaN(parsed) || parsed < 0) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Invalid minimum age',
+          error: 'minAgeSeconds must be a non-negative number',
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+      minAgeMs = parsed * 1000;
+    }
+
+    const report = await galleryService.recoverPendingOperations(minAgeMs);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Recovery completed successfully',
+      data: report,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Recovery API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to recover pending operations',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
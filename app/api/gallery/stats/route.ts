@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { galleryService } from '../../../../lib/services/galleryService';
+import { getCurrentUser } from '../../../../lib/auth/session';
 import { ApiResponse } from '../../../../types/gallery';
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
-    const stats = await galleryService.getStats();
+    // Counts cover only the images the caller may see
+    const stats = await galleryService.getStats(await getCurrentUser(request));
 
     const response: ApiResponse = {
       success: true,
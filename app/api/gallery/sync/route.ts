@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { galleryService } from '../../../../lib/services/galleryService';
-import { ApiResponse } from '../../../../types/gallery';
+import { requireAdmin } from '../../../../lib/auth/session';
+import { ApiResponse, SyncRepairAction, SyncRepairRequest } from '../../../../types/gallery';
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
@@ -26,13 +27,71 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
   }
 }
 
+const repairActions: SyncRepairAction[] = ['import', 'remove', 'reupload', 'refresh'];
+
+// POST repair discrepancies between MongoDB and storage
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await requireAdmin(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    let body: SyncRepairRequest;
+    try {
+      body = await request.json();
+    } catch {
+      body = {};
+    }
+
+    if (body.items !== undefined) {
+      const validItems = Array.isArray(body.items) && body.items.every(item =>
+        item && typeof item.cloudinaryId === 'string' &&
+        (item.action === undefined || repairActions.includes(item.action))
+      );
+
+      if (!validItems) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Invalid repair items',
+          error: `Each item needs a cloudinaryId and an optional action (${repairActions.join(', ')})`,
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+    }
+
+    const report = await galleryService.repairSync({
+      dryRun: body.dryRun === true,
+      items: body.items,
+    }, user.username);
+
+    const response: ApiResponse = {
+      success: true,
+      message: report.dryRun ? 'Repair plan generated successfully' : 'Repairs completed successfully',
+      data: report,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Sync repair API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to repair synchronization discrepancies',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
 // Handle OPTIONS request for CORS
 export async function OPTIONS(request: NextRequest) {
   return new NextResponse(null, {
     status: 200,
     headers: {
       'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
       'Access-Control-Allow-Headers': 'Content-Type',
     },
   });
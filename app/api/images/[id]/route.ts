@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { galleryService } from '../../../../lib/services/galleryService';
+import { uploadPolicyService } from '../../../../lib/services/uploadPolicyService';
+import { canViewImage, getCurrentUser, requireOwner } from '../../../../lib/auth/session';
+import { getSingleUploadLimit, getUploadErrorStatus, parseBoolean, parseTags, toUploadedImageData, UploadValidationError, validateImageFile } from '../../../../lib/uploadValidation';
 import { ApiResponse } from '../../../../types/gallery';
 
 // GET single image by ID
@@ -19,9 +22,10 @@ export async function GET(
       return NextResponse.json(response, { status: 400 });
     }
 
+    // A private image is reported missing to anyone but its uploader and admins
     const image = await galleryService.getImageById(id);
 
-    if (!image) {
+    if (!image || !canViewImage(await getCurrentUser(request), image)) {
       const response: ApiResponse = {
         success: false,
         message: 'Image not found',
@@ -67,6 +71,22 @@ export async function PUT(
       return NextResponse.json(response, { status: 400 });
     }
 
+    // Only the uploader or an admin may change an image
+    const existingImage = await galleryService.getImageById(id);
+    if (!existingImage) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Image not found',
+        error: 'No image found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const user = await requireOwner(request, existingImage.uploadedBy);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
     // Parse the form data
     const formData = await request.formData();
     const file = formData.get('file') as File | null;
@@ -74,6 +94,7 @@ export async function PUT(
     const description = formData.get('description') as string;
     const tags = formData.get('tags') as string;
     const isPublic = formData.get('isPublic') as string;
+    const stripGps = formData.get('stripGps') as string | null;
 
     // Prepare update data
     const updateData: any = {};
@@ -95,39 +116,32 @@ export async function PUT(
     }
 
     if (tags !== null && tags !== undefined) {
-      updateData.tags = tags ? tags.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0) : [];
+      updateData.tags = tags ? parseTags(tags) : [];
     }
 
     if (isPublic !== null && isPublic !== undefined) {
-      updateData.isPublic = isPublic === 'true' || isPublic === '1' || isPublic === 'on';
+      updateData.isPublic = parseBoolean(isPublic);
     }
 
     let fileBuffer: Buffer | undefined;
 
     // If a new file is provided, validate and convert it
     if (file) {
-      // Validate file type
-      if (!file.type.startsWith('image/')) {
-        const response: ApiResponse = {
-          success: false,
-          message: 'Invalid file type',
-          error: 'Only image files are allowed',
-        };
-        return NextResponse.json(response, { status: 400 });
-      }
-
-      // Validate file size (10MB limit)
-      const maxSize = 10 * 1024 * 1024; // 10MB in bytes
-      if (file.size > maxSize) {
+      // The file is held to the policy of the workspace the image was uploaded to
+      const policy = await uploadPolicyService.getPolicyForUser(existingImage.uploadedBy);
+      const invalidFile = validateImageFile(file, getSingleUploadLimit(policy), policy.allowedFormats);
+      if (invalidFile) {
         const response: ApiResponse = {
           success: false,
-          message: 'File too large',
-          error: 'File size must be less than 10MB',
+          ...invalidFile,
         };
         return NextResponse.json(response, { status: 400 });
       }
 
       fileBuffer = Buffer.from(await file.arrayBuffer());
+      updateData.originalFilename = file.name;
+      updateData.mimeType = file.type;
+      updateData.stripGps = stripGps !== null && parseBoolean(stripGps);
     }
 
     // Update the image using the gallery service
@@ -145,25 +159,21 @@ export async function PUT(
     const response: ApiResponse = {
       success: true,
       message: 'Image updated successfully',
-      data: {
-        id: updatedImage._id,
-        title: updatedImage.title,
-        description: updatedImage.description,
-        cloudinaryUrl: updatedImage.cloudinaryUrl,
-        cloudinaryId: updatedImage.cloudinaryId,
-        format: updatedImage.format,
-        width: updatedImage.width,
-        height: updatedImage.height,
-        bytes: updatedImage.bytes,
-        tags: updatedImage.tags,
-        isPublic: updatedImage.isPublic,
-        createdAt: updatedImage.createdAt,
-        updatedAt: updatedImage.updatedAt,
-      },
+      data: toUploadedImageData(updatedImage),
     };
 
     return NextResponse.json(response, { status: 200 });
   } catch (error) {
+    if (error instanceof UploadValidationError) {
+      const response: ApiResponse = {
+        success: false,
+        code: error.code,
+        message: error.title,
+        error: error.message,
+      };
+      return NextResponse.json(response, { status: getUploadErrorStatus(error.code) });
+    }
+
     console.error('Update image API error:', error);
     
     const response: ApiResponse = {
@@ -176,7 +186,7 @@ export async function PUT(
   }
 }
 
-// DELETE image by ID
+// DELETE move image to the trash by ID
 export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
@@ -193,6 +203,22 @@ export async function DELETE(
       return NextResponse.json(response, { status: 400 });
     }
 
+    // Only the uploader or an admin may change an image
+    const existingImage = await galleryService.getImageById(id);
+    if (!existingImage) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Image not found',
+        error: 'No image found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const user = await requireOwner(request, existingImage.uploadedBy);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
     const deleted = await galleryService.deleteImage(id);
 
     if (!deleted) {
@@ -206,8 +232,8 @@ export async function DELETE(
 
     const response: ApiResponse = {
       success: true,
-      message: 'Image deleted successfully',
-      data: { id, deleted: true },
+      message: 'Image moved to trash',
+      data: { id, deleted: true, trashed: true },
     };
 
     return NextResponse.json(response, { status: 200 });
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { galleryService } from '../../../../../../lib/services/galleryService';
+import { shareService } from '../../../../../../lib/services/shareService';
+import { requireOwner } from '../../../../../../lib/auth/session';
+import { ApiResponse } from '../../../../../../types/gallery';
+
+// DELETE revoke a share link; it stays listed as revoked
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; shareId: string } }
+): Promise<NextResponse> {
+  try {
+    const { id, shareId } = params;
+
+    const image = await galleryService.getImageById(id);
+    if (!image) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Image not found',
+        error: 'No image found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const user = await requireOwner(request, image.uploadedBy);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const link = await shareService.revokeLink(image._id!, shareId);
+
+    if (!link) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Share link not found',
+        error: 'No share link found with the provided ID for this image',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Share link revoked successfully',
+      data: link,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Revoke share link API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to revoke share link',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
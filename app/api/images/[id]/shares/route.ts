@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { galleryService } from '../../../../../lib/services/galleryService';
+import { shareService } from '../../../../../lib/services/shareService';
+import { requireOwner } from '../../../../../lib/auth/session';
+import { ApiResponse, CreateShareLinkRequest, GalleryImage, PublicUser } from '../../../../../types/gallery';
+
+// Longest expiry a share link can be created with: one year
+const MAX_EXPIRY_HOURS = 24 * 365;
+
+// Get the image if it exists and the signed-in user may share it, otherwise a 401/403/404 response
+async function getShareableImage(request: NextRequest, id: string): Promise<{ image: GalleryImage; user: PublicUser } | NextResponse> {
+  const image = await galleryService.getImageById(id);
+  if (!image || image.deletedAt) {
+    const response: ApiResponse = {
+      success: false,
+      message: 'Image not found',
+      error: 'No image found with the provided ID',
+    };
+    return NextResponse.json(response, { status: 404 });
+  }
+
+  const user = await requireOwner(request, image.uploadedBy);
+  return user instanceof NextResponse ? user : { image, user };
+}
+
+function parseShareOptions(body: unknown): CreateShareLinkRequest | NextResponse {
+  const { expiresInHours, password } = (body || {}) as Record<string, unknown>;
+
+  if (
+    expiresInHours !== undefined && expiresInHours !== null &&
+    (typeof expiresInHours !== 'number' || !Number.isFinite(expiresInHours) || expiresInHours <= 0 || expiresInHours > MAX_EXPIRY_HOURS)
+  ) {
+    const response: ApiResponse = {
+      success: false,
+      message: 'Invalid expiry',
+      error: `expiresInHours must be a number of hours between 0 and ${MAX_EXPIRY_HOURS}`,
+    };
+    return NextResponse.json(response, { status: 400 });
+  }
+
+  if (password !== undefined && password !== null && password !== '' && typeof password !== 'string') {
+    const response: ApiResponse = {
+      success: false,
+      message: 'Invalid password',
+      error: 'password must be a string',
+    };
+    return NextResponse.json(response, { status: 400 });
+  }
+
+  return {
+    expiresInHours: typeof expiresInHours === 'number' ? expiresInHours : undefined,
+    password: typeof password === 'string' && password ? password : undefined,
+  };
+}
+
+// GET every share link created for an image, for auditing
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const shareable = await getShareableImage(request, params.id);
+    if (shareable instanceof NextResponse) {
+      return shareable;
+    }
+
+    const links = await shareService.getLinksForImage(shareable.image._id!);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Share links retrieved successfully',
+      data: links,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Get share links API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to retrieve share links',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// POST create a share link, optionally expiring and password protected
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const shareable = await getShareableImage(request, params.id);
+    if (shareable instanceof NextResponse) {
+      return shareable;
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      body = {};
+    }
+
+    const options = parseShareOptions(body);
+    if (options instanceof NextResponse) {
+      return options;
+    }
+
+    const link = await shareService.createLink(shareable.image._id!, options, shareable.user.username);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Share link created successfully',
+      data: link,
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error('Create share link API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to create share link',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
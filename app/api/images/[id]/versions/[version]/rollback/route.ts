@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { galleryService } from '../../../../../../../lib/services/galleryService';
+import { requireOwner } from '../../../../../../../lib/auth/session';
+import { ApiResponse } from '../../../../../../../types/gallery';
+
+// POST make an earlier file the image's current file again
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; version: string } }
+): Promise<NextResponse> {
+  try {
+    const { id } = params;
+    const version = Number(params.version);
+
+    if (!Number.isInteger(version) || version < 1) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid version',
+        error: 'Version must be a positive integer',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const existingImage = await galleryService.getImageById(id);
+    if (!existingImage) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Image not found',
+        error: 'No image found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const user = await requireOwner(request, existingImage.uploadedBy);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const image = await galleryService.rollbackImage(id, version);
+
+    if (!image) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Version not found',
+        error: 'No version found with the provided number for this image',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: `Image rolled back to version ${version}`,
+      data: image,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Rollback image API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to roll back image',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
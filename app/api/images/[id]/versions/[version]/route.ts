@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { galleryService } from '../../../../../../lib/services/galleryService';
+import { canViewImage, getCurrentUser } from '../../../../../../lib/auth/session';
+import { ApiResponse } from '../../../../../../types/gallery';
+
+// GET a single earlier file of an image, including the URL to preview it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; version: string } }
+): Promise<NextResponse> {
+  try {
+    const { id } = params;
+    const version = Number(params.version);
+
+    if (!Number.isInteger(version) || version < 1) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid version',
+        error: 'Version must be a positive integer',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    // A private image is reported missing to anyone but its uploader and admins
+    const image = await galleryService.getImageById(id);
+    if (!image || !canViewImage(await getCurrentUser(request), image)) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Image not found',
+        error: 'No image found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const imageVersion = await galleryService.getImageVersion(id, version);
+
+    if (!imageVersion) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Version not found',
+        error: 'No version found with the provided number for this image',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Image version retrieved successfully',
+      data: imageVersion,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Get image version API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to retrieve image version',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
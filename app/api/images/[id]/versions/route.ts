@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { galleryService } from '../../../../../lib/services/galleryService';
+import { canViewImage, getCurrentUser } from '../../../../../lib/auth/session';
+import { ApiResponse } from '../../../../../types/gallery';
+
+// GET earlier files of an image, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const { id } = params;
+
+    // A private image is reported missing to anyone but its uploader and admins
+    const image = await galleryService.getImageById(id);
+    if (!image || !canViewImage(await getCurrentUser(request), image)) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Image not found',
+        error: 'No image found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const versions = await galleryService.getImageVersions(id);
+
+    if (!versions) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Image not found',
+        error: 'No image found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Image versions retrieved successfully',
+      data: versions,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Get image versions API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to retrieve image versions',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
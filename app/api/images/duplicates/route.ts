@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { galleryService } from '../../../../lib/services/galleryService';
+import { requireUser } from '../../../../lib/auth/session';
+import { ApiResponse, DuplicateReport, HashBackfillReport } from '../../../../types/gallery';
+
+// Most images hashed by one backfill request
+const MAX_BACKFILL_BATCH = 200;
+
+// GET groups of the signed-in user's images that are identical or look alike; admins see every uploader's.
+// Largest groups come first, paged with ?page and ?limit
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = parseInt(searchParams.get('limit') || '20');
+
+    // Validate pagination parameters
+    if (!(page >= 1)) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid page number',
+        error: 'Page number must be greater than 0',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (!(limit >= 1 && limit <= 100)) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid limit',
+        error: 'Limit must be between 1 and 100',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const report = await galleryService.findDuplicateGroups(user.role === 'admin' ? undefined : user.username, page, limit);
+
+    const response: ApiResponse<DuplicateReport> = {
+      success: true,
+      message: report.unhashed > 0
+        ? `Found ${report.totalGroups} groups of duplicates; ${report.unhashed} older images have not been hashed yet`
+        : `Found ${report.totalGroups} groups of duplicates`,
+      data: report,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Duplicate report API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to find duplicate images',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// POST hash a batch of images uploaded before duplicate detection, so the report can include them.
+// Repeat until "remaining" reaches 0; images that cannot be hashed are counted in "unhashable" and
+// not retried. ?limit sets the batch size.
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), MAX_BACKFILL_BATCH);
+
+    const report = await galleryService.hashExistingImages(user.role === 'admin' ? undefined : user.username, limit);
+
+    const response: ApiResponse<HashBackfillReport> = {
+      success: true,
+      message: report.unhashable > 0
+        ? `Hashed ${report.hashed} images; ${report.remaining} remaining, ${report.unhashable} could not be hashed`
+        : `Hashed ${report.hashed} images; ${report.remaining} remaining`,
+      data: report,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Hash backfill API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to hash images',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { galleryService } from '../../../../lib/services/galleryService';
+import { uploadPolicyService } from '../../../../lib/services/uploadPolicyService';
+import { requireUser } from '../../../../lib/auth/session';
+import { fetchRemoteImage } from '../../../../lib/remoteImage';
+import { buildCreateImageRequest, DuplicateImageError, getSingleUploadLimit, parseDuplicatePolicy, titleFromFilename, toUploadedImageData, UploadValidationError, validateImageFile } from '../../../../lib/uploadValidation';
+import { ApiResponse, ImportUrlItem, ImportUrlReport, ImportUrlRequest, ImportUrlResult } from '../../../../types/gallery';
+
+// Most URLs accepted in one import request
+const MAX_IMPORT_URLS = 20;
+
+// Read the "urls" field: each entry is a URL string, or an object with a url and its own fields
+function parseUrls(body: ImportUrlRequest): ImportUrlItem[] | NextResponse {
+  const entries = Array.isArray(body?.urls) ? body.urls : [];
+  const items = entries.map(entry => (typeof entry === 'string' ? { url: entry } : entry));
+
+  if (items.length === 0 || !items.every(item => item && typeof item === 'object' && typeof item.url === 'string')) {
+    const response: ApiResponse = {
+      success: false,
+      message: 'No URLs provided',
+      error: 'urls must be a non-empty array of URLs, or of objects with a url and optional title, description, tags or isPublic',
+    };
+    return NextResponse.json(response, { status: 400 });
+  }
+
+  if (items.length > MAX_IMPORT_URLS) {
+    const response: ApiResponse = {
+      success: false,
+      message: 'Too many URLs',
+      error: `An import can contain at most ${MAX_IMPORT_URLS} URLs`,
+    };
+    return NextResponse.json(response, { status: 400 });
+  }
+
+  return items;
+}
+
+// POST download images from remote URLs and add them to the gallery. Each URL takes its title,
+// description, tags and visibility from its own entry, then from the shared fields; URLs without
+// any title are named after the file. Private and loopback addresses are refused.
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    let body: ImportUrlRequest;
+    try {
+      body = await request.json();
+    } catch {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid request body',
+        error: 'Request body must be valid JSON',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const items = parseUrls(body);
+    if (items instanceof NextResponse) {
+      return items;
+    }
+
+    // URLs are fetched one at a time so a large import does not hold every download in memory at once
+    const results: ImportUrlResult[] = [];
+    const policy = await uploadPolicyService.getPolicy(user.workspace);
+    const maxBytes = getSingleUploadLimit(policy);
+    for (const [index, item] of items.entries()) {
+      const url = item.url.trim();
+
+      try {
+        const remote = await fetchRemoteImage(url, maxBytes);
+
+        const invalidFile = validateImageFile({ type: remote.mimeType, size: remote.buffer.length }, maxBytes, policy.allowedFormats);
+        if (invalidFile) {
+          results.push({ index, url, outcome: 'failed', error: invalidFile.error, code: invalidFile.code });
+          continue;
+        }
+
+        const imageData = buildCreateImageRequest({
+          title: item.title?.trim() || body.title?.trim() || titleFromFilename(remote.filename),
+          description: item.description ?? body.description,
+          tags: item.tags ?? body.tags,
+          isPublic: item.isPublic ?? body.isPublic,
+        });
+
+        const { image, linked } = await galleryService.createOrLinkImage(
+          { ...imageData, sourceUrl: url, originalFilename: remote.filename, mimeType: remote.mimeType, stripGps: body.stripGps === true },
+          remote.buffer,
+          user.username,
+          parseDuplicatePolicy(body.onDuplicate)
+        );
+        results.push({ index, url, outcome: linked ? 'linked' : 'imported', image: toUploadedImageData(image) });
+      } catch (error) {
+        results.push({
+          index,
+          url,
+          outcome: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error occurred',
+          ...(error instanceof UploadValidationError || error instanceof DuplicateImageError ? { code: error.code } : {}),
+          ...(error instanceof DuplicateImageError ? { image: toUploadedImageData(error.existing) } : {}),
+        });
+      }
+    }
+
+    const report: ImportUrlReport = {
+      imported: results.filter(result => result.outcome === 'imported').length,
+      linked: results.filter(result => result.outcome === 'linked').length,
+      failed: results.filter(result => result.outcome === 'failed').length,
+      results,
+    };
+
+    const succeeded = report.imported + report.linked;
+    const linkedNote = report.linked > 0 ? ` (${report.linked} already uploaded)` : '';
+    const response: ApiResponse<ImportUrlReport> = {
+      success: succeeded > 0,
+      message: report.failed === 0
+        ? `Imported ${succeeded} images${linkedNote}`
+        : `Imported ${succeeded} of ${items.length} images${linkedNote}; ${report.failed} failed`,
+      data: report,
+    };
+
+    // 207 tells clients to check each result when only some URLs were imported
+    const status = report.failed === 0 ? 201 : succeeded === 0 ? 400 : 207;
+    return NextResponse.json(response, { status });
+  } catch (error) {
+    console.error('Import URL API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to import images',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { importJobService } from '../../../../lib/services/importJobService';
+import { requireUser } from '../../../../lib/auth/session';
+import { getMaxImportArchiveBytes, parseBoolean, parseDuplicatePolicy, parseTags } from '../../../../lib/uploadValidation';
+import { ApiResponse, BatchUploadItem, ImportJob } from '../../../../types/gallery';
+
+// Types browsers and tools send for ZIP files; some send a generic type, so the extension counts too
+const ZIP_TYPES = ['application/zip', 'application/x-zip-compressed', 'application/x-zip', 'application/octet-stream', ''];
+
+// POST start importing a ZIP archive of images. The import runs in the background; poll the job
+// at the returned Location for progress and the final report. Per-file fields come from a
+// manifest.json or manifest.csv in the archive, then from the shared description, tags and isPublic fields.
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const formData = await request.formData();
+    const archive = formData.get('archive');
+    const description = formData.get('description') as string | null;
+    const tags = formData.get('tags') as string | null;
+    const isPublic = formData.get('isPublic') as string | null;
+    const stripGps = formData.get('stripGps') as string | null;
+
+    if (!archive || typeof archive === 'string') {
+      const response: ApiResponse = {
+        success: false,
+        message: 'No archive provided',
+        error: 'A ZIP file is required in the "archive" field',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (!ZIP_TYPES.includes(archive.type) || !archive.name.toLowerCase().endsWith('.zip')) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid file type',
+        error: 'Only ZIP archives can be imported',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const maxBytes = getMaxImportArchiveBytes();
+    if (archive.size > maxBytes) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'File too large',
+        error: `Archive size must be less than ${Math.round(maxBytes / (1024 * 1024))}MB`,
+      };
+      return NextResponse.json(response, { status: 413 });
+    }
+
+    const defaults: BatchUploadItem = {
+      ...(description?.trim() ? { description: description.trim() } : {}),
+      ...(tags?.trim() ? { tags: parseTags(tags) } : {}),
+      ...(isPublic !== null ? { isPublic: parseBoolean(isPublic) } : {}),
+    };
+
+    const result = await importJobService.startZipImport(
+      archive,
+      archive.name,
+      defaults,
+      user.username,
+      { stripGps: stripGps !== null && parseBoolean(stripGps), onDuplicate: parseDuplicatePolicy(formData.get('onDuplicate')) }
+    );
+
+    if (result.status === 'invalid_archive') {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid archive',
+        error: result.error,
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const response: ApiResponse<ImportJob> = {
+      success: true,
+      message: 'Import started',
+      data: result.job,
+    };
+
+    return NextResponse.json(response, {
+      status: 202,
+      headers: { Location: `/api/import-jobs/${result.job._id!.toString()}` },
+    });
+  } catch (error) {
+    console.error('ZIP import API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to start import',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { galleryService } from '../../../lib/services/galleryService';
+import { ImageFilterError } from '../../../lib/imageFilter';
+import { InvalidCursorError } from '../../../lib/pageCursor';
+import { getCurrentUser } from '../../../lib/auth/session';
 import { ApiResponse, PaginationQuery } from '../../../types/gallery';
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
@@ -10,12 +13,26 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
     const query: PaginationQuery = {
       page: parseInt(searchParams.get('page') || '1'),
       limit: parseInt(searchParams.get('limit') || '20'),
-      sortBy: (searchParams.get('sortBy') as 'createdAt' | 'updatedAt' | 'title') || 'createdAt',
+      sortBy: (searchParams.get('sortBy') as PaginationQuery['sortBy']) || 'createdAt',
       sortOrder: (searchParams.get('sortOrder') as 'asc' | 'desc') || 'desc',
       tags: searchParams.get('tags') || undefined,
       isPublic: searchParams.get('isPublic') ? searchParams.get('isPublic') === 'true' : undefined,
+      filter: searchParams.get('filter')?.trim() || undefined,
+      pagination: (searchParams.get('pagination') as PaginationQuery['pagination']) || undefined,
+      cursor: searchParams.get('cursor') || undefined,
+      includeTotal: searchParams.get('includeTotal') ? searchParams.get('includeTotal') === 'true' : undefined,
+      includeFacets: searchParams.get('includeFacets') === 'true',
     };
 
+    if (query.pagination && query.pagination !== 'offset' && query.pagination !== 'cursor') {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid pagination',
+        error: 'pagination must be "offset" or "cursor"',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
     // Validate pagination parameters
     if (query.page! < 1) {
       const response: ApiResponse = {
@@ -35,20 +52,41 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       return NextResponse.json(response, { status: 400 });
     }
 
+    // Private images are only listed for their uploader and admins
+    const viewer = await getCurrentUser(request);
+
     // Check for search query
     const searchTerm = searchParams.get('search');
     
     let result;
     if (searchTerm) {
       // Perform text search
-      result = await galleryService.searchImages(searchTerm, query);
+      result = await galleryService.searchImages(searchTerm, query, viewer);
     } else {
       // Get all images with filters
-      result = await galleryService.getImages(query);
+      result = await galleryService.getImages(query, viewer);
     }
 
     return NextResponse.json(result, { status: 200 });
   } catch (error) {
+    if (error instanceof ImageFilterError) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid filter',
+        error: error.message,
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (error instanceof InvalidCursorError) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid cursor',
+        error: error.message,
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
     console.error('Get images API error:', error);
     
     const response: ApiResponse = {
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { galleryService } from '../../../../../lib/services/galleryService';
+import { uploadPolicyService } from '../../../../../lib/services/uploadPolicyService';
+import { requireUser } from '../../../../../lib/auth/session';
+import { buildCreateImageRequest, DuplicateImageError, getSingleUploadLimit, parseBoolean, parseDuplicatePolicy, titleFromFilename, UploadValidationError, validateImageFile } from '../../../../../lib/uploadValidation';
+import { ApiResponse, BatchUploadItem, BatchUploadReport, BatchUploadResult } from '../../../../../types/gallery';
+
+// Most files accepted in one batch request
+const MAX_BATCH_FILES = 50;
+
+// Read the optional "items" field: a JSON array of per-file fields, in the same order as the files
+function parseItems(value: FormDataEntryValue | null): BatchUploadItem[] | NextResponse {
+  if (value === null || value === '') {
+    return [];
+  }
+
+  try {
+    const items = JSON.parse(value as string);
+    if (Array.isArray(items) && items.every(item => item && typeof item === 'object')) {
+      return items;
+    }
+  } catch {
+    // Fall through to the error response
+  }
+
+  const response: ApiResponse = {
+    success: false,
+    message: 'Invalid items',
+    error: 'items must be a JSON array of objects with title, description, tags or isPublic',
+  };
+  return NextResponse.json(response, { status: 400 });
+}
+
+// POST upload several files at once. Each file takes its title, description, tags and visibility
+// from its entry in "items", then from the shared fields; files without any title are named after the file.
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const formData = await request.formData();
+    const files = formData.getAll('files').filter((entry): entry is File => typeof entry !== 'string');
+    const title = formData.get('title') as string | null;
+    const description = formData.get('description') as string | null;
+    const tags = formData.get('tags') as string | null;
+    const isPublic = formData.get('isPublic') as string | null;
+    const stripGps = formData.get('stripGps') as string | null;
+    const onDuplicate = parseDuplicatePolicy(formData.get('onDuplicate'));
+
+    if (files.length === 0) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'No files provided',
+        error: 'At least one file is required for upload',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (files.length > MAX_BATCH_FILES) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Too many files',
+        error: `A batch can contain at most ${MAX_BATCH_FILES} files`,
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const items = parseItems(formData.get('items'));
+    if (items instanceof NextResponse) {
+      return items;
+    }
+
+    // Files are stored one at a time so a large batch does not hold every buffer in memory at once
+    const results: BatchUploadResult[] = [];
+    const policy = await uploadPolicyService.getPolicy(user.workspace);
+    for (const [index, file] of files.entries()) {
+      const item = items[index] || {};
+
+      const invalidFile = validateImageFile(file, getSingleUploadLimit(policy), policy.allowedFormats);
+      if (invalidFile) {
+        results.push({ index, filename: file.name, outcome: 'failed', error: invalidFile.error, code: invalidFile.code });
+        continue;
+      }
+
+      try {
+        const imageData = buildCreateImageRequest({
+          title: item.title?.trim() || title?.trim() || titleFromFilename(file.name),
+          description: item.description ?? description,
+          tags: item.tags ?? tags,
+          isPublic: item.isPublic ?? isPublic,
+        });
+
+        const { image, linked } = await galleryService.createOrLinkImage(
+          { ...imageData, originalFilename: file.name, mimeType: file.type, stripGps: stripGps !== null && parseBoolean(stripGps) },
+          Buffer.from(await file.arrayBuffer()),
+          user.username,
+          onDuplicate
+        );
+        results.push({ index, filename: file.name, outcome: linked ? 'linked' : 'uploaded', image });
+      } catch (error) {
+        results.push({
+          index,
+          filename: file.name,
+          outcome: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error occurred',
+          ...(error instanceof UploadValidationError || error instanceof DuplicateImageError ? { code: error.code } : {}),
+          ...(error instanceof DuplicateImageError ? { image: error.existing } : {}),
+        });
+      }
+    }
+
+    const report: BatchUploadReport = {
+      uploaded: results.filter(result => result.outcome === 'uploaded').length,
+      linked: results.filter(result => result.outcome === 'linked').length,
+      failed: results.filter(result => result.outcome === 'failed').length,
+      results,
+    };
+
+    const succeeded = report.uploaded + report.linked;
+    const linkedNote = report.linked > 0 ? ` (${report.linked} already uploaded)` : '';
+    const response: ApiResponse<BatchUploadReport> = {
+      success: succeeded > 0,
+      message: report.failed === 0
+        ? `Uploaded ${succeeded} images${linkedNote}`
+        : `Uploaded ${succeeded} of ${files.length} images${linkedNote}; ${report.failed} failed`,
+      data: report,
+    };
+
+    // 207 tells clients to check each result when only part of the batch went through
+    const status = report.failed === 0 ? 201 : succeeded === 0 ? 400 : 207;
+    return NextResponse.json(response, { status });
+  } catch (error) {
+    console.error('Batch upload API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to upload images',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
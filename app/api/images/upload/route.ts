@@ -1,9 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { galleryService } from '../../../../lib/services/galleryService';
+import { uploadPolicyService } from '../../../../lib/services/uploadPolicyService';
+import { requireUser } from '../../../../lib/auth/session';
+import { buildCreateImageRequest, DuplicateImageError, getSingleUploadLimit, getUploadErrorStatus, parseBoolean, parseDuplicatePolicy, parseOriginalImageInfo, parseUploadId, toUploadedImageData, UploadCancelledError, UploadValidationError, validateImageFile } from '../../../../lib/uploadValidation';
 import { ApiResponse } from '../../../../types/gallery';
 
 export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
     // Parse the form data
     const formData = await request.formData();
     const file = formData.get('file') as File;
@@ -11,6 +19,12 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     const description = formData.get('description') as string;
     const tags = formData.get('tags') as string;
     const isPublic = formData.get('isPublic') as string;
+    const stripGps = formData.get('stripGps') as string | null;
+    const onDuplicate = parseDuplicatePolicy(formData.get('onDuplicate'));
+    // Lets the client cancel the upload with DELETE while the server is still storing it
+    const uploadId = parseUploadId(formData.get('uploadId'));
+    // Sent when the browser resized the file, so the original size is still recorded
+    const resizedFrom = parseOriginalImageInfo(formData.get('resizedFrom'));
 
     // Validate required fields
     if (!file) {
@@ -31,23 +45,12 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       return NextResponse.json(response, { status: 400 });
     }
 
-    // Validate file type
-    if (!file.type.startsWith('image/')) {
-      const response: ApiResponse = {
-        success: false,
-        message: 'Invalid file type',
-        error: 'Only image files are allowed',
-      };
-      return NextResponse.json(response, { status: 400 });
-    }
-
-    // Validate file size (10MB limit)
-    const maxSize = 10 * 1024 * 1024; // 10MB in bytes
-    if (file.size > maxSize) {
+    const policy = await uploadPolicyService.getPolicy(user.workspace);
+    const invalidFile = validateImageFile(file, getSingleUploadLimit(policy), policy.allowedFormats);
+    if (invalidFile) {
       const response: ApiResponse = {
         success: false,
-        message: 'File too large',
-        error: 'File size must be less than 10MB',
+        ...invalidFile,
       };
       return NextResponse.json(response, { status: 400 });
     }
@@ -57,37 +60,56 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
     // Prepare image data
     const imageData = {
-      title: title.trim(),
-      description: description?.trim() || '',
-      tags: tags ? tags.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0) : [],
-      isPublic: isPublic === 'true' || isPublic === '1' || isPublic === 'on',
+      ...buildCreateImageRequest({ title, description, tags, isPublic }),
+      originalFilename: file.name,
+      mimeType: file.type,
+      stripGps: stripGps !== null && parseBoolean(stripGps),
+      ...(uploadId ? { uploadId } : {}),
+      ...(resizedFrom ? { resizedFrom } : {}),
     };
 
-    // Create the image using the gallery service
-    const createdImage = await galleryService.createImage(imageData, fileBuffer);
+    // Create the image using the gallery service; a file already uploaded returns its image with onDuplicate=link
+    const { image, linked } = await galleryService.createOrLinkImage(imageData, fileBuffer, user.username, onDuplicate);
 
     const response: ApiResponse = {
       success: true,
-      message: 'Image uploaded successfully',
-      data: {
-        id: createdImage._id,
-        title: createdImage.title,
-        description: createdImage.description,
-        cloudinaryUrl: createdImage.cloudinaryUrl,
-        cloudinaryId: createdImage.cloudinaryId,
-        format: createdImage.format,
-        width: createdImage.width,
-        height: createdImage.height,
-        bytes: createdImage.bytes,
-        tags: createdImage.tags,
-        isPublic: createdImage.isPublic,
-        createdAt: createdImage.createdAt,
-        updatedAt: createdImage.updatedAt,
-      },
+      message: linked ? 'Image already uploaded; returning the existing image' : 'Image uploaded successfully',
+      data: toUploadedImageData(image),
     };
 
-    return NextResponse.json(response, { status: 201 });
+    return NextResponse.json(response, { status: linked ? 200 : 201 });
   } catch (error) {
+    if (error instanceof DuplicateImageError) {
+      const response: ApiResponse = {
+        success: false,
+        code: error.code,
+        message: 'Duplicate image',
+        error: error.message,
+        data: toUploadedImageData(error.existing),
+      };
+      return NextResponse.json(response, { status: 409 });
+    }
+
+    if (error instanceof UploadCancelledError) {
+      const response: ApiResponse = {
+        success: false,
+        code: error.code,
+        message: 'Upload cancelled',
+        error: error.message,
+      };
+      return NextResponse.json(response, { status: 409 });
+    }
+
+    if (error instanceof UploadValidationError) {
+      const response: ApiResponse = {
+        success: false,
+        code: error.code,
+        message: error.title,
+        error: error.message,
+      };
+      return NextResponse.json(response, { status: getUploadErrorStatus(error.code) });
+    }
+
     console.error('Upload API error:', error);
     
     const response: ApiResponse = {
@@ -100,13 +122,55 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
   }
 }
 
+// DELETE cancel an upload started with ?uploadId=. Anything already stored for it is removed, and an
+// upload that has not arrived yet is refused when it does.
+export async function DELETE(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const uploadId = parseUploadId(searchParams.get('uploadId'));
+    if (!uploadId) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid upload ID',
+        error: 'uploadId must be 8 to 64 letters, digits or dashes',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const outcome = await galleryService.cancelUpload(uploadId, user.username);
+
+    const response: ApiResponse<{ uploadId: string; outcome: 'cancelled' | 'removed' }> = {
+      success: true,
+      message: outcome === 'removed' ? 'Upload cancelled; the saved image was removed' : 'Upload cancelled',
+      data: { uploadId, outcome },
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Cancel upload API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to cancel upload',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
 // Handle OPTIONS request for CORS
 export async function OPTIONS(request: NextRequest) {
   return new NextResponse(null, {
     status: 200,
     headers: {
       'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Methods': 'POST, DELETE, OPTIONS',
       'Access-Control-Allow-Headers': 'Content-Type',
     },
   });
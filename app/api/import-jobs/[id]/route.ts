@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { importJobService, MAX_IMPORT_ENTRY_PAGE_SIZE } from '../../../../lib/services/importJobService';
+import { requireOwner } from '../../../../lib/auth/session';
+import { ApiResponse, ImportJob, ImportJobEntry } from '../../../../types/gallery';
+
+const OUTCOMES: ImportJobEntry['outcome'][] = ['imported', 'skipped', 'failed'];
+
+// GET an import job's progress and, once it has finished, its report. The report's entries are
+// paged with ?page and ?limit, and ?outcome=skipped,failed lists only entries with those outcomes
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = parseInt(searchParams.get('limit') || '100');
+    const outcomes = searchParams.get('outcome')?.split(',').map(outcome => outcome.trim());
+
+    // Validate pagination parameters
+    if (!(page >= 1)) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid page number',
+        error: 'Page number must be greater than 0',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (!(limit >= 1 && limit <= MAX_IMPORT_ENTRY_PAGE_SIZE)) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid limit',
+        error: `Limit must be between 1 and ${MAX_IMPORT_ENTRY_PAGE_SIZE}`,
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (outcomes && !outcomes.every(outcome => OUTCOMES.includes(outcome as ImportJobEntry['outcome']))) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid outcome',
+        error: `outcome must be a comma-separated list of ${OUTCOMES.join(', ')}`,
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const job = await importJobService.getJob(params.id, {
+      page,
+      limit,
+      outcomes: outcomes as ImportJobEntry['outcome'][] | undefined,
+    });
+    if (!job) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Import job not found',
+        error: 'No import job found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const user = await requireOwner(request, job.createdBy);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const response: ApiResponse<ImportJob> = {
+      success: true,
+      message: 'Import job retrieved successfully',
+      data: job,
+    };
+
+    return NextResponse.json(response, { status: 200, headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    console.error('Get import job API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to retrieve import job',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
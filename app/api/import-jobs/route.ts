@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { importJobService } from '../../../lib/services/importJobService';
+import { requireUser } from '../../../lib/auth/session';
+import { ApiResponse, ImportJob } from '../../../types/gallery';
+
+// GET the signed-in user's recent import jobs, newest first
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const jobs = await importJobService.getJobsForUser(user.username);
+
+    const response: ApiResponse<ImportJob[]> = {
+      success: true,
+      message: 'Import jobs retrieved successfully',
+      data: jobs,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Get import jobs API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to retrieve import jobs',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { canViewSavedSearch, savedSearchService } from '../../../../../lib/services/savedSearchService';
+import { requireUser } from '../../../../../lib/auth/session';
+import { ImageFilterError } from '../../../../../lib/imageFilter';
+import { InvalidCursorError } from '../../../../../lib/pageCursor';
+import { ApiResponse, PaginationQuery } from '../../../../../types/gallery';
+
+// GET the images a saved search matches right now, paged like /api/images
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const { id } = params;
+    const { searchParams } = new URL(request.url);
+
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const savedSearch = await savedSearchService.getSavedSearchById(id, user);
+    if (!savedSearch || !canViewSavedSearch(savedSearch, user)) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Saved search not found',
+        error: 'No saved search found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    // Only paging comes from the URL; what matches is fixed by the saved search
+    const pagination: PaginationQuery = {
+      page: parseInt(searchParams.get('page') || '1'),
+      limit: parseInt(searchParams.get('limit') || '20'),
+      pagination: (searchParams.get('pagination') as PaginationQuery['pagination']) || undefined,
+      cursor: searchParams.get('cursor') || undefined,
+      includeTotal: searchParams.get('includeTotal') ? searchParams.get('includeTotal') === 'true' : undefined,
+      includeFacets: searchParams.get('includeFacets') === 'true',
+    };
+
+    if (pagination.pagination && pagination.pagination !== 'offset' && pagination.pagination !== 'cursor') {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid pagination',
+        error: 'pagination must be "offset" or "cursor"',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (pagination.page! < 1) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid page number',
+        error: 'Page number must be greater than 0',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (pagination.limit! < 1 || pagination.limit! > 100) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid limit',
+        error: 'Limit must be between 1 and 100',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const result = await savedSearchService.getImages(savedSearch, pagination, user);
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    if (error instanceof ImageFilterError) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid filter',
+        error: error.message,
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (error instanceof InvalidCursorError) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid cursor',
+        error: error.message,
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    console.error('Get saved search images API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to retrieve saved search images',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -0,0 +1,217 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { canViewSavedSearch, parseSavedSearchQuery, savedSearchService } from '../../../../lib/services/savedSearchService';
+import { requireOwner, requireUser } from '../../../../lib/auth/session';
+import { ApiResponse, SavedSearchSummary, UpdateSavedSearchRequest } from '../../../../types/gallery';
+
+// GET a single saved search with how many images it matches now
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const { id } = params;
+
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    // Searches that are not shared are reported missing to everyone but their creator
+    const savedSearch = await savedSearchService.getSavedSearchById(id, user);
+    if (!savedSearch || !canViewSavedSearch(savedSearch, user)) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Saved search not found',
+        error: 'No saved search found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const response: ApiResponse<SavedSearchSummary> = {
+      success: true,
+      message: 'Saved search retrieved successfully',
+      data: savedSearch,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Get saved search API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to retrieve saved search',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// PUT rename, share or change the query of a saved search
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const { id } = params;
+
+    // Only the search's creator or an admin may change it
+    const existingSearch = await savedSearchService.getSavedSearchById(id);
+    if (!existingSearch) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Saved search not found',
+        error: 'No saved search found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const user = await requireOwner(request, existingSearch.createdBy);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    let body: UpdateSavedSearchRequest;
+    try {
+      body = await request.json();
+    } catch {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid request body',
+        error: 'Request body must be JSON',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const updateData: UpdateSavedSearchRequest = {};
+
+    if (body.name !== undefined) {
+      if (typeof body.name !== 'string' || body.name.trim().length === 0) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Name cannot be empty',
+          error: 'Name field is required',
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+      updateData.name = body.name.trim();
+    }
+
+    if (typeof body.description === 'string') {
+      updateData.description = body.description.trim();
+    }
+
+    if (typeof body.shared === 'boolean') {
+      updateData.shared = body.shared;
+    }
+
+    if (body.query !== undefined) {
+      const query = parseSavedSearchQuery(body.query);
+      if (typeof query === 'string') {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Invalid search',
+          error: query,
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+      updateData.query = query;
+    }
+
+    const savedSearch = await savedSearchService.updateSavedSearch(id, updateData);
+
+    if (!savedSearch) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Saved search not found',
+        error: 'No saved search found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Saved search updated successfully',
+      data: savedSearch,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Update saved search API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to update saved search',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// DELETE a saved search; the images it matched stay in the gallery
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const { id } = params;
+
+    // Only the search's creator or an admin may change it
+    const existingSearch = await savedSearchService.getSavedSearchById(id);
+    if (!existingSearch) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Saved search not found',
+        error: 'No saved search found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const user = await requireOwner(request, existingSearch.createdBy);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const deleted = await savedSearchService.deleteSavedSearch(id);
+
+    if (!deleted) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Saved search not found',
+        error: 'No saved search found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Saved search deleted successfully',
+      data: { id, deleted: true },
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Delete saved search API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to delete saved search',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
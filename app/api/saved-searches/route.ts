@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseSavedSearchQuery, savedSearchService } from '../../../lib/services/savedSearchService';
+import { requireUser } from '../../../lib/auth/session';
+import { ApiResponse, CreateSavedSearchRequest, SavedSearchSummary } from '../../../types/gallery';
+
+// GET the saved searches shared with the team and the signed-in user's own, with how many images each matches now
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const savedSearches = await savedSearchService.getSavedSearches(user);
+
+    const response: ApiResponse<SavedSearchSummary[]> = {
+      success: true,
+      message: 'Saved searches retrieved successfully',
+      data: savedSearches,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Get saved searches API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to retrieve saved searches',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// POST save a search: a name and the /api/images parameters to repeat
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    let body: CreateSavedSearchRequest;
+    try {
+      body = await request.json();
+    } catch {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid request body',
+        error: 'Request body must be JSON',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (!body || typeof body.name !== 'string' || body.name.trim().length === 0) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Name is required',
+        error: 'Name field cannot be empty',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const query = parseSavedSearchQuery(body.query);
+    if (typeof query === 'string') {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid search',
+        error: query,
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const savedSearch = await savedSearchService.createSavedSearch({
+      name: body.name.trim(),
+      description: typeof body.description === 'string' ? body.description.trim() : undefined,
+      query,
+      shared: typeof body.shared === 'boolean' ? body.shared : undefined,
+    }, user.username);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Search saved successfully',
+      data: savedSearch,
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error('Create saved search API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to save search',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { shareService } from '../../../../../lib/services/shareService';
+import { getStorageProvider } from '../../../../../lib/storage';
+import { ApiResponse } from '../../../../../types/gallery';
+
+// GET the file behind a share link. The link is checked on every request, so expiring or
+// revoking it also cuts off anyone who opened it before
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+): Promise<NextResponse> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const result = await shareService.openLinkFile(params.token, searchParams.get('access') || undefined);
+
+    switch (result.status) {
+      case 'ok':
+        break;
+      case 'password_required':
+      case 'invalid_password': {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Password required',
+          error: 'Open the share link and enter its password to view this file',
+        };
+        return NextResponse.json(response, { status: 401 });
+      }
+      case 'expired':
+      case 'revoked': {
+        const response: ApiResponse = {
+          success: false,
+          message: result.status === 'expired' ? 'Share link expired' : 'Share link revoked',
+          error: 'This share link is no longer available',
+        };
+        return NextResponse.json(response, { status: 410 });
+      }
+      default: {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Share link not found',
+          error: 'This share link does not exist',
+        };
+        return NextResponse.json(response, { status: 404 });
+      }
+    }
+
+    const { image } = result;
+    const file = await getStorageProvider().download(image.cloudinaryId);
+    if (!file) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'File not found',
+        error: 'The shared image file is missing from storage',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(file), {
+      status: 200,
+      headers: {
+        'Content-Type': image.mimeType || 'application/octet-stream',
+        'Content-Length': file.length.toString(),
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+        // Scripts inside an SVG must not run when the file is opened directly
+        ...(image.format === 'svg' ? { 'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'" } : {}),
+      },
+    });
+  } catch (error) {
+    console.error('Open shared file API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to open shared file',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
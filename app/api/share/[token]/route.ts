@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { shareService } from '../../../../lib/services/shareService';
+import { ApiResponse } from '../../../../types/gallery';
+
+// Open a share link and turn the outcome into a response
+async function openSharedImage(token: string, password?: string): Promise<NextResponse> {
+  const result = await shareService.openLink(token, password);
+
+  switch (result.status) {
+    case 'ok': {
+      const response: ApiResponse = {
+        success: true,
+        message: 'Shared image retrieved successfully',
+        data: result.image,
+      };
+      return NextResponse.json(response, {
+        status: 200,
+        headers: { 'Cache-Control': 'private, no-store' },
+      });
+    }
+    case 'password_required':
+    case 'invalid_password': {
+      const response: ApiResponse = {
+        success: false,
+        message: result.status === 'password_required' ? 'Password required' : 'Incorrect password',
+        error: result.status === 'password_required'
+          ? 'This share link is password protected'
+          : 'The password for this share link is incorrect',
+        data: { passwordRequired: true },
+      };
+      return NextResponse.json(response, { status: 401 });
+    }
+    case 'expired':
+    case 'revoked': {
+      const response: ApiResponse = {
+        success: false,
+        message: result.status === 'expired' ? 'Share link expired' : 'Share link revoked',
+        error: 'This share link is no longer available',
+      };
+      return NextResponse.json(response, { status: 410 });
+    }
+    default: {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Share link not found',
+        error: 'This share link does not exist',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+  }
+}
+
+// GET the image behind a share link that needs no password
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+): Promise<NextResponse> {
+  try {
+    return await openSharedImage(params.token);
+  } catch (error) {
+    console.error('Open share link API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to open share link',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// POST the password of a protected share link to get its image
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+): Promise<NextResponse> {
+  try {
+    let body: { password?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      body = {};
+    }
+
+    const password = typeof body?.password === 'string' ? body.password : undefined;
+    return await openSharedImage(params.token, password);
+  } catch (error) {
+    console.error('Open share link API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to open share link',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
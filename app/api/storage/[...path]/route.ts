@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getStorageProvider, InvalidPublicIdError, LocalFileStorageProvider } from '../../../../lib/storage';
+import { galleryService } from '../../../../lib/services/galleryService';
+import { canModify, canViewImage, getCurrentUser } from '../../../../lib/auth/session';
+import { ApiResponse } from '../../../../types/gallery';
+
+const contentTypes: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  tiff: 'image/tiff',
+  avif: 'image/avif',
+  heic: 'image/heic',
+  svg: 'image/svg+xml',
+};
+
+// GET a file stored by the local storage provider. Files of private or trashed images are only
+// served to their uploader and admins, and files no image refers to only to admins
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { path: string[] } }
+): Promise<NextResponse> {
+  try {
+    const provider = getStorageProvider();
+
+    if (!(provider instanceof LocalFileStorageProvider)) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Local storage is not enabled',
+        error: 'Files are only served here when STORAGE_PROVIDER is "local"',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    // Strip the extension added by getPublicUrl to get the public ID
+    const requestedPath = params.path.join('/');
+    const publicId = requestedPath.replace(/\.[a-z0-9]+$/i, '');
+
+    const viewer = await getCurrentUser(request);
+    const image = await galleryService.getImageByStoredFile(publicId);
+    const allowed = image
+      ? (image.deletedAt ? !!viewer && canModify(viewer, image.uploadedBy) : canViewImage(viewer, image))
+      : viewer?.role === 'admin';
+
+    const stored = allowed ? await provider.readAsset(publicId) : null;
+
+    if (!stored) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'File not found',
+        error: 'No stored file found at the provided path',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(stored.data), {
+      status: 200,
+      headers: {
+        'Content-Type': contentTypes[stored.asset.format] || 'application/octet-stream',
+        'Content-Length': stored.data.length.toString(),
+        'Cache-Control': image?.isPublic && !image.deletedAt ? 'no-cache' : 'private, no-cache',
+        'X-Content-Type-Options': 'nosniff',
+        // Scripts inside an SVG must not run when the file is opened directly
+        ...(stored.asset.format === 'svg' ? { 'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'" } : {}),
+      },
+    });
+  } catch (error) {
+    if (error instanceof InvalidPublicIdError) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid file path',
+        error: error.message,
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    console.error('Storage API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to retrieve file',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_SUGGEST_LIMIT, MAX_SUGGEST_QUERY_LENGTH, suggestService, SuggestType } from '../../../lib/services/suggestService';
+import { ApiResponse, SuggestResults } from '../../../types/gallery';
+
+const SUGGEST_TYPES: SuggestType[] = ['all', 'tags', 'titles'];
+
+// GET tags (with how many images carry them) and titles matching what has been typed in q
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const q = searchParams.get('q') || '';
+    const type = (searchParams.get('type') || 'all') as SuggestType;
+    const limit = parseInt(searchParams.get('limit') || '8');
+
+    if (q.length > MAX_SUGGEST_QUERY_LENGTH) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid query',
+        error: `q must be at most ${MAX_SUGGEST_QUERY_LENGTH} characters`,
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (!SUGGEST_TYPES.includes(type)) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid type',
+        error: `type must be one of ${SUGGEST_TYPES.join(', ')}`,
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_SUGGEST_LIMIT) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid limit',
+        error: `Limit must be between 1 and ${MAX_SUGGEST_LIMIT}`,
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const suggestions = await suggestService.suggest(q, { type, limit });
+
+    const response: ApiResponse<SuggestResults> = {
+      success: true,
+      message: 'Suggestions retrieved successfully',
+      data: suggestions,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Suggest API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to retrieve suggestions',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
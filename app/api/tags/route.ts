@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { galleryService } from '../../../lib/services/galleryService';
+import { getCurrentUser } from '../../../lib/auth/session';
 import { ApiResponse } from '../../../types/gallery';
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
-    const tags = await galleryService.getAllTags();
+    // Tags on private images are only listed for their uploader and admins
+    const tags = await galleryService.getAllTags(await getCurrentUser(request));
 
     const response: ApiResponse = {
       success: true,
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { galleryService } from '../../../../../lib/services/galleryService';
+import { requireOwner } from '../../../../../lib/auth/session';
+import { ApiResponse } from '../../../../../types/gallery';
+
+// POST restore an image from the trash
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const { id } = params;
+
+    if (!id) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Image ID is required',
+        error: 'Missing image ID parameter',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const existingImage = await galleryService.getImageById(id, { includeDeleted: true });
+    if (!existingImage) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Image not found in trash',
+        error: 'No trashed image found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const user = await requireOwner(request, existingImage.uploadedBy);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const image = await galleryService.restoreImage(id);
+
+    if (!image) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Image not found in trash',
+        error: 'No trashed image found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Image restored successfully',
+      data: image,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Restore image API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to restore image',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { galleryService } from '../../../../lib/services/galleryService';
+import { requireOwner } from '../../../../lib/auth/session';
+import { ApiResponse } from '../../../../types/gallery';
+
+// DELETE permanently delete a trashed image and its stored file
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const { id } = params;
+
+    if (!id) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Image ID is required',
+        error: 'Missing image ID parameter',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    // Only images already in the trash can be deleted permanently
+    const image = await galleryService.getImageById(id, { includeDeleted: true });
+
+    if (!image || !image.deletedAt) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Image not found in trash',
+        error: 'No trashed image found with the provided ID',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const user = await requireOwner(request, image.uploadedBy);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const deleted = await galleryService.permanentlyDeleteImage(id);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Image permanently deleted',
+      data: { id, deleted },
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Permanent delete API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to permanently delete image',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { galleryService, getTrashRetentionDays } from '../../../../lib/services/galleryService';
+import { requireAdmin } from '../../../../lib/auth/session';
+import { ApiResponse } from '../../../../types/gallery';
+
+// POST permanently delete images that have been in the trash longer than the retention period.
+// Intended to be called by a scheduler; olderThanDays overrides TRASH_RETENTION_DAYS for one run.
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await requireAdmin(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const { searchParams } = new URL(request.url);
+    const olderThanDays = searchParams.get('olderThanDays');
+
+    let retentionDays = getTrashRetentionDays();
+    if (olderThanDays !== null) {
+      const parsed = Number(olderThanDays);
+      if (olderThanDays === '' || isNaN(parsed) || parsed < 0) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Invalid retention period',
+          error: 'olderThanDays must be a non-negative number',
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+      retentionDays = parsed;
+    }
+
+    const report = await galleryService.purgeTrash(retentionDays);
+
+    const response: ApiResponse = {
+      success: true,
+      message: `Purged ${report.purged} images from the trash`,
+      data: report,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Purge trash API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to purge trash',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
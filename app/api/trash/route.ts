@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { galleryService } from '../../../lib/services/galleryService';
+import { requireUser } from '../../../lib/auth/session';
+import { ApiResponse, PaginationQuery } from '../../../types/gallery';
+
+// GET the signed-in user's images in the trash, or everyone's for admins
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    const query: PaginationQuery = {
+      page: parseInt(searchParams.get('page') || '1'),
+      limit: parseInt(searchParams.get('limit') || '20'),
+    };
+
+    if (isNaN(query.page!) || query.page! < 1) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid page number',
+        error: 'Page number must be greater than 0',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (isNaN(query.limit!) || query.limit! < 1 || query.limit! > 100) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid limit',
+        error: 'Limit must be between 1 and 100',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const result = await galleryService.getTrash(query, user);
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error('Get trash API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to retrieve trash',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -0,0 +1,209 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { uploadPolicyService } from '../../../lib/services/uploadPolicyService';
+import { getCurrentUser, requireAdmin } from '../../../lib/auth/session';
+import { WORKSPACE_PATTERN } from '../../../lib/services/authService';
+import { toImageFormat } from '../../../lib/uploadValidation';
+import { ApiResponse, UpdateUploadPolicyRequest, UploadPolicy, UploadRequiredField } from '../../../types/gallery';
+
+const REQUIRED_FIELD_NAMES: UploadRequiredField[] = ['description', 'tags'];
+const DIMENSION_FIELDS = ['minWidth', 'minHeight', 'maxWidth', 'maxHeight'] as const;
+
+// The workspace named by ?workspace=, in lower case; undefined when none is named, null when the name is invalid
+function getWorkspaceParam(request: NextRequest): string | null | undefined {
+  const workspace = new URL(request.url).searchParams.get('workspace');
+  if (workspace === null) {
+    return undefined;
+  }
+  return WORKSPACE_PATTERN.test(workspace.trim()) ? workspace.trim().toLowerCase() : null;
+}
+
+function invalidWorkspaceResponse(): NextResponse {
+  const response: ApiResponse = {
+    success: false,
+    message: 'Invalid workspace',
+    error: 'workspace must be 1-64 letters, digits, dots, dashes or underscores',
+  };
+  return NextResponse.json(response, { status: 400 });
+}
+
+// Check a policy change and normalize its formats; returns the error to report, or the cleaned-up changes
+function parseChanges(body: unknown): UpdateUploadPolicyRequest | string {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return 'Request body must be a JSON object';
+  }
+  const input = body as Record<string, unknown>;
+  const changes: UpdateUploadPolicyRequest = {};
+
+  if (input.maxBytes !== undefined) {
+    if (!Number.isInteger(input.maxBytes) || (input.maxBytes as number) <= 0) {
+      return 'maxBytes must be a positive integer';
+    }
+    changes.maxBytes = input.maxBytes as number;
+  }
+
+  for (const field of DIMENSION_FIELDS) {
+    const value = input[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (value !== null && (!Number.isInteger(value) || (value as number) <= 0)) {
+      return `${field} must be a positive integer, or null for no limit`;
+    }
+    changes[field] = value as number | null;
+  }
+
+  if (input.allowedFormats !== undefined) {
+    if (!Array.isArray(input.allowedFormats) || input.allowedFormats.some(format => typeof format !== 'string')) {
+      return 'allowedFormats must be an array of formats such as "jpg" or "image/png"';
+    }
+    const formats = (input.allowedFormats as string[]).map(toImageFormat);
+    const unknown = (input.allowedFormats as string[]).filter((_, index) => formats[index] === null);
+    if (unknown.length > 0) {
+      return `Unknown image formats: ${unknown.join(', ')}`;
+    }
+    if (formats.length === 0) {
+      return 'allowedFormats must list at least one format';
+    }
+    changes.allowedFormats = Array.from(new Set(formats as string[]));
+  }
+
+  if (input.requiredFields !== undefined) {
+    if (!Array.isArray(input.requiredFields) || input.requiredFields.some(field => !REQUIRED_FIELD_NAMES.includes(field))) {
+      return `requiredFields may only contain ${REQUIRED_FIELD_NAMES.join(' and ')}`;
+    }
+    changes.requiredFields = Array.from(new Set(input.requiredFields as UploadRequiredField[]));
+  }
+
+  if (input.defaultIsPublic !== undefined) {
+    if (typeof input.defaultIsPublic !== 'boolean') {
+      return 'defaultIsPublic must be true or false';
+    }
+    changes.defaultIsPublic = input.defaultIsPublic;
+  }
+
+  return changes;
+}
+
+// GET the upload policy in force for the caller's workspace, so upload forms can show and pre-check
+// its rules. Admins may look at another workspace's policy with ?workspace=
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await getCurrentUser(request);
+    const workspace = getWorkspaceParam(request);
+
+    if (workspace === null) {
+      return invalidWorkspaceResponse();
+    }
+
+    if (workspace !== undefined && workspace !== user?.workspace && user?.role !== 'admin') {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Permission denied',
+        error: 'Only an admin can view the upload policy of another workspace',
+      };
+      return NextResponse.json(response, { status: 403 });
+    }
+
+    const policy = await uploadPolicyService.getPolicy(workspace ?? user?.workspace);
+
+    const response: ApiResponse<UploadPolicy> = {
+      success: true,
+      message: 'Upload policy retrieved successfully',
+      data: policy,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Upload policy API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to fetch upload policy',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// PUT change the upload policy (admins only): the default policy, or a workspace's with ?workspace=.
+// Send only the rules to change; null removes a dimension limit.
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await requireAdmin(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const workspace = getWorkspaceParam(request);
+    if (workspace === null) {
+      return invalidWorkspaceResponse();
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid request body',
+        error: 'Request body must be valid JSON',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const changes = parseChanges(body);
+    if (typeof changes === 'string') {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid upload policy',
+        error: changes,
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const current = await uploadPolicyService.getPolicy(workspace);
+    const merged = { ...current, ...changes };
+    if ((merged.minWidth && merged.maxWidth && merged.minWidth > merged.maxWidth) ||
+        (merged.minHeight && merged.maxHeight && merged.minHeight > merged.maxHeight)) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid upload policy',
+        error: 'Minimum dimensions cannot be larger than maximum dimensions',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const policy = await uploadPolicyService.updatePolicy(changes, user.username, workspace);
+
+    const response: ApiResponse<UploadPolicy> = {
+      success: true,
+      message: 'Upload policy updated successfully',
+      data: policy,
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Update upload policy API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to update upload policy',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { uploadSessionService } from '../../../../../lib/services/uploadSessionService';
+import { requireOwner } from '../../../../../lib/auth/session';
+import { getUploadErrorStatus, toUploadedImageData } from '../../../../../lib/uploadValidation';
+import { ApiResponse } from '../../../../../types/gallery';
+
+// POST finish an upload once every byte has arrived and store it as a gallery image
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const session = await uploadSessionService.getSession(params.id);
+    if (!session) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Upload not found',
+        error: 'No upload found with the provided ID, or it has expired',
+      };
+      return NextResponse.json(response, { status: 404 });
+    }
+
+    const user = await requireOwner(request, session.uploadedBy);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const result = await uploadSessionService.completeSession(session);
+
+    switch (result.status) {
+      case 'ok': {
+        const response: ApiResponse = {
+          success: true,
+          message: session.replaceImageId
+            ? 'Image file replaced successfully'
+            : result.linked ? 'Image already uploaded; returning the existing image' : 'Image uploaded successfully',
+          data: toUploadedImageData(result.image),
+        };
+        return NextResponse.json(response, { status: session.replaceImageId || result.linked ? 200 : 201 });
+      }
+      case 'incomplete': {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Upload incomplete',
+          error: `Received ${result.offset} of ${session.totalBytes} bytes`,
+          data: { offset: result.offset },
+        };
+        return NextResponse.json(response, { status: 409 });
+      }
+      case 'rejected': {
+        const response: ApiResponse = {
+          success: false,
+          code: result.error.code,
+          message: result.error.title,
+          error: result.error.message,
+        };
+        return NextResponse.json(response, { status: getUploadErrorStatus(result.error.code) });
+      }
+      case 'duplicate': {
+        const response: ApiResponse = {
+          success: false,
+          code: result.error.code,
+          message: 'Duplicate image',
+          error: result.error.message,
+          data: toUploadedImageData(result.error.existing),
+        };
+        return NextResponse.json(response, { status: 409 });
+      }
+      case 'cancelled': {
+        const response: ApiResponse = {
+          success: false,
+          code: result.error.code,
+          message: 'Upload cancelled',
+          error: result.error.message,
+        };
+        return NextResponse.json(response, { status: 409 });
+      }
+      case 'in_progress': {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Upload is being completed',
+          error: 'Another request is already completing this upload',
+        };
+        return NextResponse.json(response, { status: 409 });
+      }
+      default: {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Image not found',
+          error: 'The image this upload was for no longer exists',
+        };
+        return NextResponse.json(response, { status: 404 });
+      }
+    }
+  } catch (error) {
+    console.error('Complete upload API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to complete upload',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
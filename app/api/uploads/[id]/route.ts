@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { toUploadProgress, uploadSessionService } from '../../../../lib/services/uploadSessionService';
+import { requireOwner } from '../../../../lib/auth/session';
+import { ApiResponse, UploadSession } from '../../../../types/gallery';
+
+// Largest chunk accepted in one request
+const MAX_CHUNK_BYTES = 16 * 1024 * 1024;
+
+// Get the upload if it exists and belongs to the signed-in user, otherwise a 401/403/404 response
+async function getOwnedSession(request: NextRequest, id: string): Promise<UploadSession | NextResponse> {
+  const session = await uploadSessionService.getSession(id);
+  if (!session) {
+    const response: ApiResponse = {
+      success: false,
+      message: 'Upload not found',
+      error: 'No upload found with the provided ID, or it has expired',
+    };
+    return NextResponse.json(response, { status: 404 });
+  }
+
+  const user = await requireOwner(request, session.uploadedBy);
+  return user instanceof NextResponse ? user : session;
+}
+
+function offsetHeaders(session: { receivedBytes: number; totalBytes: number }): Record<string, string> {
+  return {
+    'Upload-Offset': String(session.receivedBytes),
+    'Upload-Length': String(session.totalBytes),
+    'Cache-Control': 'no-store',
+  };
+}
+
+// GET how much of an upload the server has, to know where to resume
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const session = await getOwnedSession(request, params.id);
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Upload progress retrieved successfully',
+      data: toUploadProgress(session),
+    };
+
+    return NextResponse.json(response, { status: 200, headers: offsetHeaders(session) });
+  } catch (error) {
+    console.error('Get upload API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to retrieve upload',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// PATCH write the next chunk. The Upload-Offset header must equal the bytes received so far;
+// on a mismatch the response carries the offset to resume from.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const session = await getOwnedSession(request, params.id);
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    const offset = Number(request.headers.get('upload-offset'));
+    if (!request.headers.has('upload-offset') || !Number.isInteger(offset) || offset < 0) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid offset',
+        error: 'The Upload-Offset header must be a non-negative integer',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const contentLength = Number(request.headers.get('content-length'));
+    if (contentLength > MAX_CHUNK_BYTES) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Chunk too large',
+        error: `Chunks must be at most ${MAX_CHUNK_BYTES / (1024 * 1024)}MB`,
+      };
+      return NextResponse.json(response, { status: 413 });
+    }
+
+    const chunk = Buffer.from(await request.arrayBuffer());
+    if (chunk.length === 0 || chunk.length > MAX_CHUNK_BYTES) {
+      const response: ApiResponse = {
+        success: false,
+        message: chunk.length === 0 ? 'Empty chunk' : 'Chunk too large',
+        error: chunk.length === 0
+          ? 'The request body must contain the chunk bytes'
+          : `Chunks must be at most ${MAX_CHUNK_BYTES / (1024 * 1024)}MB`,
+      };
+      return NextResponse.json(response, { status: chunk.length === 0 ? 400 : 413 });
+    }
+
+    const result = await uploadSessionService.writeChunk(session, offset, chunk);
+
+    if (result.status === 'offset_mismatch') {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Offset mismatch',
+        error: `The server has ${result.offset} bytes of this upload; resume from there`,
+        data: { offset: result.offset },
+      };
+      return NextResponse.json(response, {
+        status: 409,
+        headers: offsetHeaders({ receivedBytes: result.offset, totalBytes: session.totalBytes }),
+      });
+    }
+
+    if (result.status === 'too_large') {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Chunk too large',
+        error: 'The chunk goes past the declared size of the upload',
+      };
+      return NextResponse.json(response, { status: 413 });
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Chunk received',
+      data: toUploadProgress(result.session),
+    };
+
+    return NextResponse.json(response, { status: 200, headers: offsetHeaders(result.session) });
+  } catch (error) {
+    console.error('Upload chunk API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to write chunk',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// DELETE cancel an upload and discard the received chunks
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  try {
+    const session = await getOwnedSession(request, params.id);
+    if (session instanceof NextResponse) {
+      return session;
+    }
+
+    await uploadSessionService.abortSession(session);
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Upload cancelled',
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error('Cancel upload API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to cancel upload',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, PATCH, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Upload-Offset',
+      'Access-Control-Expose-Headers': 'Upload-Offset, Upload-Length',
+    },
+  });
+}
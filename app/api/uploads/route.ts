@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { galleryService } from '../../../lib/services/galleryService';
+import { toUploadProgress, uploadSessionService } from '../../../lib/services/uploadSessionService';
+import { uploadPolicyService } from '../../../lib/services/uploadPolicyService';
+import { requireOwner, requireUser } from '../../../lib/auth/session';
+import { buildCreateImageRequest, checkRequiredFields, parseDuplicatePolicy, parseOriginalImageInfo, titleFromFilename, validateImageFile } from '../../../lib/uploadValidation';
+import { ApiResponse, CreateUploadSessionRequest } from '../../../types/gallery';
+
+// Chunk size suggested to clients; chunks may be smaller, or up to MAX_CHUNK_BYTES in the chunk route
+const SUGGESTED_CHUNK_BYTES = 5 * 1024 * 1024;
+
+// POST start a resumable upload. Send the file's name, type and size, plus the new image's
+// title, description, tags and visibility, or replaceImageId to give an existing image a new file.
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    let body: CreateUploadSessionRequest;
+    try {
+      body = await request.json();
+    } catch {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid request body',
+        error: 'Request body must be valid JSON',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (typeof body?.filename !== 'string' || !body.filename.trim() || typeof body.mimeType !== 'string') {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid upload',
+        error: 'filename and mimeType are required',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    if (!Number.isInteger(body.totalBytes) || body.totalBytes <= 0) {
+      const response: ApiResponse = {
+        success: false,
+        message: 'Invalid upload',
+        error: 'totalBytes must be a positive integer',
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const policy = await uploadPolicyService.getPolicy(user.workspace);
+    const invalidFile = validateImageFile({ type: body.mimeType, size: body.totalBytes }, policy.maxBytes, policy.allowedFormats);
+    if (invalidFile) {
+      const response: ApiResponse = {
+        success: false,
+        ...invalidFile,
+      };
+      return NextResponse.json(response, { status: invalidFile.code === 'file_too_large' ? 413 : 400 });
+    }
+
+    let replaceImageId: ObjectId | undefined;
+    if (body.replaceImageId !== undefined) {
+      if (typeof body.replaceImageId !== 'string' || !ObjectId.isValid(body.replaceImageId)) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Invalid upload',
+          error: 'replaceImageId must be a valid image ID',
+        };
+        return NextResponse.json(response, { status: 400 });
+      }
+
+      const existingImage = await galleryService.getImageById(body.replaceImageId);
+      if (!existingImage) {
+        const response: ApiResponse = {
+          success: false,
+          message: 'Image not found',
+          error: 'No image found with the provided replaceImageId',
+        };
+        return NextResponse.json(response, { status: 404 });
+      }
+
+      const owner = await requireOwner(request, existingImage.uploadedBy);
+      if (owner instanceof NextResponse) {
+        return owner;
+      }
+      replaceImageId = existingImage._id;
+    }
+
+    const resizedFrom = parseOriginalImageInfo(body.resizedFrom);
+    const imageData = buildCreateImageRequest({
+      title: body.title?.trim() || titleFromFilename(body.filename.trim()),
+      description: body.description,
+      tags: body.tags,
+      isPublic: body.isPublic,
+    });
+
+    // Refuse a new image missing a required field now, rather than after the whole file has been sent
+    const missingField = replaceImageId ? null : checkRequiredFields(imageData, policy);
+    if (missingField) {
+      const response: ApiResponse = {
+        success: false,
+        ...missingField,
+      };
+      return NextResponse.json(response, { status: 400 });
+    }
+
+    const session = await uploadSessionService.startSession(
+      {
+        filename: body.filename.trim(),
+        mimeType: body.mimeType,
+        totalBytes: body.totalBytes,
+        image: {
+          ...imageData,
+          originalFilename: body.filename.trim(),
+          mimeType: body.mimeType,
+          stripGps: body.stripGps === true,
+          ...(resizedFrom ? { resizedFrom } : {}),
+        },
+        onDuplicate: parseDuplicatePolicy(body.onDuplicate),
+        replaceImageId,
+      },
+      user.username
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      message: 'Upload started',
+      data: {
+        ...toUploadProgress(session),
+        chunkSize: SUGGESTED_CHUNK_BYTES,
+      },
+    };
+
+    return NextResponse.json(response, {
+      status: 201,
+      headers: { Location: `/api/uploads/${session._id!.toString()}` },
+    });
+  } catch (error) {
+    console.error('Start upload API error:', error);
+
+    const response: ApiResponse = {
+      success: false,
+      message: 'Failed to start upload',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
+
+// Handle OPTIONS request for CORS
+export async function OPTIONS(request: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
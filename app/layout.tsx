@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { NotificationProvider } from "../components/Notifications";
+import { AuthProvider } from "../components/Auth";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -61,8 +62,10 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased bg-gray-50 dark:bg-gray-900 min-h-screen`}
       >
         <NotificationProvider>
-          <div id="modal-root" />
-          {children}
+          <AuthProvider>
+            <div id="modal-root" />
+            {children}
+          </AuthProvider>
         </NotificationProvider>
       </body>
     </html>
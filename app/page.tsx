@@ -4,23 +4,31 @@ import { useState } from 'react';
 import ImageUpload from '../components/ImageUpload';
 import Gallery from '../components/Gallery';
 import GalleryStats from '../components/GalleryStats';
+import Trash from '../components/Trash';
+import Albums from '../components/Albums';
+import AuthMenu, { useAuth } from '../components/Auth';
+import ShareLinks from '../components/ShareLinks';
 import { useNotify } from '../components/Notifications';
-import { GalleryImage } from '../types/gallery';
+import { GalleryImage, UploadedImage } from '../types/gallery';
 
-type ActiveTab = 'gallery' | 'upload' | 'stats';
+type ActiveTab = 'gallery' | 'albums' | 'upload' | 'stats' | 'trash';
 
 export default function Home() {
   const [activeTab, setActiveTab] = useState<ActiveTab>('gallery');
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [selectedImage, setSelectedImage] = useState<GalleryImage | null>(null);
+  const [rollingBackVersion, setRollingBackVersion] = useState<number | null>(null);
   const notify = useNotify();
+  const { canModify } = useAuth();
 
-  const handleUploadSuccess = (image: any) => {
+  const handleUploadSuccess = (images: UploadedImage[]) => {
     setRefreshTrigger(prev => prev + 1);
     setActiveTab('gallery'); // Switch to gallery after upload
     notify.success(
       'Upload Successful!',
-      `${image.title} has been uploaded to your gallery.`
+      images.length === 1
+        ? `${images[0].title} has been uploaded to your gallery.`
+        : `${images.length} images have been uploaded to your gallery.`
     );
   };
 
@@ -40,6 +48,31 @@ export default function Home() {
     }
   };
 
+  const handleRollback = async (version: number) => {
+    if (!selectedImage) return;
+
+    try {
+      setRollingBackVersion(version);
+      const response = await fetch(`/api/images/${selectedImage._id?.toString()}/versions/${version}/rollback`, {
+        method: 'POST',
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setSelectedImage(result.data);
+        setRefreshTrigger(prev => prev + 1);
+        notify.success('Version Restored', `${selectedImage.title} was rolled back to version ${version}.`);
+      } else {
+        throw new Error(result.error || result.message || 'Rollback failed');
+      }
+    } catch (error) {
+      console.error('Error rolling back image:', error);
+      notify.error('Rollback Failed', error instanceof Error ? error.message : 'Unknown error occurred');
+    } finally {
+      setRollingBackVersion(null);
+    }
+  };
+
   const closeImageModal = () => {
     setSelectedImage(null);
   };
@@ -63,6 +96,23 @@ export default function Home() {
     }).format(d);
   };
 
+  // Capture times without a UTC offset are stored as UTC, so show them in UTC to keep the camera's clock time
+  const formatCaptureDate = (date: Date | string): string => {
+    const d = typeof date === 'string' ? new Date(date) : date;
+    return new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      timeZone: 'UTC'
+    }).format(d);
+  };
+
+  const formatExposure = (seconds: number): string => {
+    return seconds >= 1 ? `${parseFloat(seconds.toFixed(1))}s` : `1/${Math.round(1 / seconds)}s`;
+  };
+
   const TabButton = ({ tab, label, icon, isActive, onClick }: {
     tab: ActiveTab;
     label: string;
@@ -124,6 +174,17 @@ export default function Home() {
                 isActive={activeTab === 'gallery'}
                 onClick={() => setActiveTab('gallery')}
               />
+              <TabButton
+                tab="albums"
+                label="Albums"
+                icon={
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+                  </svg>
+                }
+                isActive={activeTab === 'albums'}
+                onClick={() => setActiveTab('albums')}
+              />
               <TabButton
                 tab="upload"
                 label="Upload"
@@ -146,7 +207,20 @@ export default function Home() {
                 isActive={activeTab === 'stats'}
                 onClick={() => setActiveTab('stats')}
               />
+              <TabButton
+                tab="trash"
+                label="Trash"
+                icon={
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                }
+                isActive={activeTab === 'trash'}
+                onClick={() => setActiveTab('trash')}
+              />
             </nav>
+
+            <AuthMenu />
           </div>
         </div>
       </header>
@@ -168,6 +242,13 @@ export default function Home() {
             />
           )}
           
+          {activeTab === 'albums' && (
+            <Albums
+              onImageSelect={handleImageSelect}
+              refreshTrigger={refreshTrigger}
+            />
+          )}
+
           {activeTab === 'upload' && (
             <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
               <ImageUpload
@@ -180,6 +261,13 @@ export default function Home() {
           {activeTab === 'stats' && (
             <GalleryStats refreshTrigger={refreshTrigger} />
           )}
+
+          {activeTab === 'trash' && (
+            <Trash
+              onImageRestore={() => setRefreshTrigger(prev => prev + 1)}
+              refreshTrigger={refreshTrigger}
+            />
+          )}
         </div>
       </main>
 
@@ -263,6 +351,9 @@ export default function Home() {
                       <div>
                         <span className="text-gray-500 dark:text-gray-400">Format:</span>
                         <p className="font-medium text-gray-900 dark:text-white uppercase">{selectedImage.format}</p>
+                        {selectedImage.mimeType && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400">{selectedImage.mimeType}</p>
+                        )}
                       </div>
                       <div>
                         <span className="text-gray-500 dark:text-gray-400">File Size:</span>
@@ -318,6 +409,161 @@ export default function Home() {
                     </div>
                   )}
 
+                  {/* Photo Metadata */}
+                  {selectedImage.metadata && (
+                    <div className="card p-6">
+                      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
+                        <svg className="w-5 h-5 mr-2 text-teal-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" />
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" />
+                        </svg>
+                        Photo Metadata
+                      </h3>
+                      <div className="grid grid-cols-2 gap-4 text-sm">
+                        {(selectedImage.metadata.cameraMake || selectedImage.metadata.cameraModel) && (
+                          <div>
+                            <span className="text-gray-500 dark:text-gray-400">Camera:</span>
+                            <p className="font-medium text-gray-900 dark:text-white">
+                              {[selectedImage.metadata.cameraMake, selectedImage.metadata.cameraModel].filter(Boolean).join(' ')}
+                            </p>
+                          </div>
+                        )}
+                        {selectedImage.metadata.lensModel && (
+                          <div>
+                            <span className="text-gray-500 dark:text-gray-400">Lens:</span>
+                            <p className="font-medium text-gray-900 dark:text-white">{selectedImage.metadata.lensModel}</p>
+                          </div>
+                        )}
+                        {selectedImage.metadata.capturedAt && (
+                          <div>
+                            <span className="text-gray-500 dark:text-gray-400">Taken:</span>
+                            <p className="font-medium text-gray-900 dark:text-white">{formatCaptureDate(selectedImage.metadata.capturedAt)}</p>
+                          </div>
+                        )}
+                        {(selectedImage.metadata.exposureTime || selectedImage.metadata.fNumber || selectedImage.metadata.iso || selectedImage.metadata.focalLength) && (
+                          <div>
+                            <span className="text-gray-500 dark:text-gray-400">Exposure:</span>
+                            <p className="font-medium text-gray-900 dark:text-white">
+                              {[
+                                selectedImage.metadata.exposureTime && formatExposure(selectedImage.metadata.exposureTime),
+                                selectedImage.metadata.fNumber && `f/${parseFloat(selectedImage.metadata.fNumber.toFixed(1))}`,
+                                selectedImage.metadata.iso && `ISO ${selectedImage.metadata.iso}`,
+                                selectedImage.metadata.focalLength && `${parseFloat(selectedImage.metadata.focalLength.toFixed(1))}mm`,
+                              ].filter(Boolean).join(' • ')}
+                            </p>
+                          </div>
+                        )}
+                        {selectedImage.metadata.gps && (
+                          <div>
+                            <span className="text-gray-500 dark:text-gray-400">Location:</span>
+                            <p className="font-medium text-gray-900 dark:text-white">
+                              <a
+                                href={`https://www.openstreetmap.org/?mlat=${selectedImage.metadata.gps.latitude}&mlon=${selectedImage.metadata.gps.longitude}#map=15/${selectedImage.metadata.gps.latitude}/${selectedImage.metadata.gps.longitude}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-blue-600 dark:text-blue-400 hover:underline"
+                              >
+                                {selectedImage.metadata.gps.latitude.toFixed(5)}, {selectedImage.metadata.gps.longitude.toFixed(5)}
+                              </a>
+                            </p>
+                          </div>
+                        )}
+                        {selectedImage.metadata.gpsStripped && (
+                          <div>
+                            <span className="text-gray-500 dark:text-gray-400">Location:</span>
+                            <p className="font-medium text-gray-900 dark:text-white">Removed on upload</p>
+                          </div>
+                        )}
+                        {selectedImage.metadata.artist && (
+                          <div>
+                            <span className="text-gray-500 dark:text-gray-400">Artist:</span>
+                            <p className="font-medium text-gray-900 dark:text-white">{selectedImage.metadata.artist}</p>
+                          </div>
+                        )}
+                        {selectedImage.metadata.copyright && (
+                          <div>
+                            <span className="text-gray-500 dark:text-gray-400">Copyright:</span>
+                            <p className="font-medium text-gray-900 dark:text-white">{selectedImage.metadata.copyright}</p>
+                          </div>
+                        )}
+                        {selectedImage.metadata.software && (
+                          <div>
+                            <span className="text-gray-500 dark:text-gray-400">Software:</span>
+                            <p className="font-medium text-gray-900 dark:text-white">{selectedImage.metadata.software}</p>
+                          </div>
+                        )}
+                        {selectedImage.metadata.original && (
+                          <div>
+                            <span className="text-gray-500 dark:text-gray-400">Original:</span>
+                            <p className="font-medium text-gray-900 dark:text-white">
+                              {selectedImage.metadata.original.width} × {selectedImage.metadata.original.height} • {formatFileSize(selectedImage.metadata.original.bytes)} (resized on upload)
+                            </p>
+                          </div>
+                        )}
+                      </div>
+                      {(selectedImage.metadata.title || selectedImage.metadata.caption) && (
+                        <div className="mt-4 text-sm">
+                          <span className="text-gray-500 dark:text-gray-400">Embedded caption:</span>
+                          <p className="text-gray-700 dark:text-gray-300">
+                            {[selectedImage.metadata.title, selectedImage.metadata.caption].filter(Boolean).join(' — ')}
+                          </p>
+                        </div>
+                      )}
+                      {selectedImage.metadata.keywords && selectedImage.metadata.keywords.length > 0 && (
+                        <div className="mt-4 text-sm">
+                          <span className="text-gray-500 dark:text-gray-400">Embedded keywords:</span>
+                          <p className="text-gray-700 dark:text-gray-300">{selectedImage.metadata.keywords.join(', ')}</p>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Share Links */}
+                  {canModify(selectedImage.uploadedBy) && selectedImage._id && (
+                    <ShareLinks imageId={selectedImage._id.toString()} />
+                  )}
+
+                  {/* Version History */}
+                  {selectedImage.versions && selectedImage.versions.length > 0 && (
+                    <div className="card p-6">
+                      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
+                        <svg className="w-5 h-5 mr-2 text-indigo-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                        </svg>
+                        Version History
+                      </h3>
+                      <div className="space-y-3">
+                        {[...selectedImage.versions].reverse().map((version) => (
+                          <div key={version.version} className="flex items-center space-x-4">
+                            <a href={version.cloudinaryUrl} target="_blank" rel="noopener noreferrer" className="flex-shrink-0">
+                              <img
+                                src={version.cloudinaryUrl}
+                                alt={`${selectedImage.title} version ${version.version}`}
+                                className="w-14 h-14 object-cover rounded-lg bg-gray-100 dark:bg-gray-800"
+                              />
+                            </a>
+                            <div className="flex-1 min-w-0 text-sm">
+                              <p className="font-medium text-gray-900 dark:text-white">Version {version.version}</p>
+                              <p className="text-gray-500 dark:text-gray-400">
+                                {version.width} × {version.height} • {version.format.toUpperCase()} • {formatFileSize(version.bytes)}
+                              </p>
+                              <p className="text-gray-500 dark:text-gray-400">Replaced {formatDate(version.archivedAt)}</p>
+                            </div>
+                            {canModify(selectedImage.uploadedBy) && (
+                              <button
+                                onClick={() => handleRollback(version.version)}
+                                disabled={rollingBackVersion !== null}
+                                className="btn-secondary px-3 py-2 text-xs disabled:opacity-50"
+                              >
+                                {rollingBackVersion === version.version ? 'Restoring...' : 'Roll Back'}
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Technical Info */}
                   <div className="card p-6">
                     <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
@@ -339,6 +585,28 @@ export default function Home() {
                           {selectedImage._id?.toString()}
                         </p>
                       </div>
+                      {selectedImage.uploadedBy && (
+                        <div>
+                          <span className="text-gray-500 dark:text-gray-400">Uploaded by:</span>
+                          <p className="font-medium text-gray-900 dark:text-white">{selectedImage.uploadedBy}</p>
+                        </div>
+                      )}
+                      {selectedImage.originalFilename && (
+                        <div>
+                          <span className="text-gray-500 dark:text-gray-400">Original file:</span>
+                          <p className="font-medium text-gray-900 dark:text-white break-all">{selectedImage.originalFilename}</p>
+                        </div>
+                      )}
+                      {selectedImage.sourceUrl && (
+                        <div>
+                          <span className="text-gray-500 dark:text-gray-400">Imported from:</span>
+                          <p className="font-medium text-gray-900 dark:text-white break-all">
+                            <a href={selectedImage.sourceUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+                              {selectedImage.sourceUrl}
+                            </a>
+                          </p>
+                        </div>
+                      )}
                       <div className="grid grid-cols-2 gap-4 pt-2">
                         <div>
                           <span className="text-gray-500 dark:text-gray-400">Created:</span>
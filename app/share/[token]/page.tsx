@@ -0,0 +1,156 @@
+'use client';
+
+import { useState, useEffect, useCallback, FormEvent } from 'react';
+import { useParams } from 'next/navigation';
+import { ApiResponse, SharedImage } from '../../../types/gallery';
+
+type ShareState = 'loading' | 'ready' | 'password' | 'unavailable';
+
+export default function SharePage() {
+  const { token } = useParams<{ token: string }>();
+  const [state, setState] = useState<ShareState>('loading');
+  const [image, setImage] = useState<SharedImage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const openLink = useCallback(async (linkPassword?: string) => {
+    const response = await fetch(`/api/share/${encodeURIComponent(token)}`, linkPassword === undefined
+      ? undefined
+      : {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ password: linkPassword }),
+        });
+    const result: ApiResponse<SharedImage | { passwordRequired: boolean }> = await response.json();
+
+    if (result.success && result.data) {
+      setImage(result.data as SharedImage);
+      setState('ready');
+      return;
+    }
+
+    if (response.status === 401) {
+      setState('password');
+      setError(linkPassword === undefined ? null : result.error || 'Incorrect password');
+      return;
+    }
+
+    setState('unavailable');
+    setError(result.error || result.message || 'This share link is not available');
+  }, [token]);
+
+  useEffect(() => {
+    openLink().catch(err => {
+      console.error('Error opening share link:', err);
+      setState('unavailable');
+      setError('Could not load the shared image');
+    });
+  }, [openLink]);
+
+  const handlePasswordSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSubmitting(true);
+      await openLink(password);
+    } catch (err) {
+      console.error('Error opening share link:', err);
+      setError('Could not load the shared image');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const formatFileSize = (bytes: number): string => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  };
+
+  const formatDate = (date: Date | string): string => {
+    const d = typeof date === 'string' ? new Date(date) : date;
+    return new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).format(d);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-blue-50/30 to-purple-50/20 dark:from-gray-900 dark:via-blue-900/10 dark:to-purple-900/10 flex items-center justify-center p-4">
+      {state === 'loading' && (
+        <div className="w-12 h-12 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />
+      )}
+
+      {state === 'unavailable' && (
+        <div className="card p-8 max-w-md text-center">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Link Unavailable</h1>
+          <p className="text-gray-600 dark:text-gray-400">{error}</p>
+        </div>
+      )}
+
+      {state === 'password' && (
+        <form onSubmit={handlePasswordSubmit} className="card p-8 max-w-md w-full space-y-4">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Password Required</h1>
+          <p className="text-gray-600 dark:text-gray-400">Enter the password you were given to view this image.</p>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            autoFocus
+            className="w-full"
+          />
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          <button type="submit" disabled={submitting || !password} className="btn-primary w-full py-3 disabled:opacity-50">
+            {submitting ? 'Checking...' : 'View Image'}
+          </button>
+        </form>
+      )}
+
+      {state === 'ready' && image && (
+        <div className="max-w-5xl w-full space-y-6">
+          <div className="card overflow-hidden bg-black">
+            <img
+              src={image.fileUrl}
+              alt={image.title}
+              className="w-full max-h-[75vh] object-contain"
+            />
+          </div>
+
+          <div className="card p-6">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">{image.title}</h1>
+            {image.description && (
+              <p className="text-gray-600 dark:text-gray-400 mb-4">{image.description}</p>
+            )}
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {image.width} × {image.height} • {image.format.toUpperCase()} • {formatFileSize(image.bytes)}
+              {' • '}{formatDate(image.createdAt)}
+              {image.uploadedBy && <> • by {image.uploadedBy}</>}
+            </p>
+            {image.tags.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-4">
+                {image.tags.map((tag, index) => (
+                  <span
+                    key={index}
+                    className="bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300 text-xs px-2 py-1 rounded-full"
+                  >
+                    {tag}
+                  </span>
+                ))}
+              </div>
+            )}
+            {image.expiresAt && (
+              <p className="text-xs text-gray-400 mt-4">This link expires {formatDate(image.expiresAt)}.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,557 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { AlbumSummary, AlbumWithImages, ApiResponse, GalleryImage, PaginatedResponse, SavedSearchSummary } from '../types/gallery';
+import { useNotify } from './Notifications';
+import { useConfirmation, confirmations } from './ConfirmationModal';
+import { useAuth } from './Auth';
+import SmartAlbum, { describeSavedSearchQuery } from './SmartAlbum';
+
+interface AlbumsProps {
+  onImageSelect?: (image: GalleryImage) => void;
+  refreshTrigger?: number;
+}
+
+export default function Albums({ onImageSelect, refreshTrigger }: AlbumsProps) {
+  const [albums, setAlbums] = useState<AlbumSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedAlbum, setSelectedAlbum] = useState<AlbumWithImages | null>(null);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [formData, setFormData] = useState({ title: '', description: '', isPublic: true });
+  const [saving, setSaving] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [showImagePicker, setShowImagePicker] = useState(false);
+  const [availableImages, setAvailableImages] = useState<GalleryImage[]>([]);
+  const [pickedImageIds, setPickedImageIds] = useState<Set<string>>(new Set());
+  const [savedSearches, setSavedSearches] = useState<SavedSearchSummary[]>([]);
+  const [selectedSearch, setSelectedSearch] = useState<SavedSearchSummary | null>(null);
+
+  const notify = useNotify();
+  const { user, canModify } = useAuth();
+  const { confirm, ConfirmationComponent } = useConfirmation();
+
+  const fetchAlbums = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/albums');
+      const result: ApiResponse<AlbumSummary[]> = await response.json();
+
+      if (result.success) {
+        setAlbums(result.data || []);
+      } else {
+        throw new Error(result.error || result.message || 'Failed to fetch albums');
+      }
+    } catch (error) {
+      console.error('Error fetching albums:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load albums');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchAlbum = useCallback(async (albumId: string) => {
+    try {
+      const response = await fetch(`/api/albums/${albumId}`);
+      const result: ApiResponse<AlbumWithImages> = await response.json();
+
+      if (result.success && result.data) {
+        setSelectedAlbum(result.data);
+      } else {
+        throw new Error(result.error || result.message || 'Failed to fetch album');
+      }
+    } catch (error) {
+      console.error('Error fetching album:', error);
+      notify.error('Failed to Load Album', error instanceof Error ? error.message : 'Unknown error occurred');
+    }
+  }, [notify]);
+
+  // Saved searches need a signed-in user; a failure only hides the smart albums
+  const fetchSavedSearches = useCallback(async () => {
+    if (!user) {
+      setSavedSearches([]);
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/saved-searches');
+      const result: ApiResponse<SavedSearchSummary[]> = await response.json();
+
+      if (result.success) {
+        setSavedSearches(result.data || []);
+      } else {
+        throw new Error(result.error || result.message || 'Failed to fetch saved searches');
+      }
+    } catch (error) {
+      console.error('Error fetching saved searches:', error);
+      setSavedSearches([]);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchAlbums();
+  }, [fetchAlbums, refreshTrigger]);
+
+  useEffect(() => {
+    fetchSavedSearches();
+  }, [fetchSavedSearches, refreshTrigger]);
+
+  // Send a JSON request to the albums API and return the parsed result
+  const sendAlbumRequest = async (url: string, method: string, body?: unknown): Promise<ApiResponse> => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const result: ApiResponse = await response.json();
+
+    if (!result.success) {
+      throw new Error(result.error || result.message || 'Request failed');
+    }
+    return result;
+  };
+
+  const handleSaveAlbum = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.title.trim()) {
+      notify.warning('Title Required', 'Please give the album a title.');
+      return;
+    }
+
+    try {
+      setSaving(true);
+
+      if (editing && selectedAlbum) {
+        await sendAlbumRequest(`/api/albums/${selectedAlbum._id?.toString()}`, 'PUT', formData);
+        await fetchAlbum(selectedAlbum._id!.toString());
+        notify.success('Album Updated', `${formData.title} has been updated.`);
+      } else {
+        await sendAlbumRequest('/api/albums', 'POST', formData);
+        notify.success('Album Created', `${formData.title} has been created.`);
+      }
+
+      setShowCreateForm(false);
+      setEditing(false);
+      setFormData({ title: '', description: '', isPublic: true });
+      fetchAlbums();
+    } catch (error) {
+      console.error('Error saving album:', error);
+      notify.error('Save Failed', error instanceof Error ? error.message : 'Unknown error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteAlbum = async () => {
+    if (!selectedAlbum) return;
+
+    const confirmed = await confirm(confirmations.deleteAlbum(selectedAlbum.title));
+    if (!confirmed) return;
+
+    try {
+      await sendAlbumRequest(`/api/albums/${selectedAlbum._id?.toString()}`, 'DELETE');
+      notify.success('Album Deleted', `${selectedAlbum.title} has been deleted.`);
+      setSelectedAlbum(null);
+      fetchAlbums();
+    } catch (error) {
+      console.error('Error deleting album:', error);
+      notify.error('Delete Failed', error instanceof Error ? error.message : 'Unknown error occurred');
+    }
+  };
+
+  // Save a new image order or cover for the open album
+  const updateSelectedAlbum = async (update: { imageIds?: string[]; coverImageId?: string | null }) => {
+    if (!selectedAlbum) return;
+
+    try {
+      await sendAlbumRequest(`/api/albums/${selectedAlbum._id?.toString()}`, 'PUT', update);
+      await fetchAlbum(selectedAlbum._id!.toString());
+    } catch (error) {
+      console.error('Error updating album:', error);
+      notify.error('Update Failed', error instanceof Error ? error.message : 'Unknown error occurred');
+    }
+  };
+
+  const moveImage = (index: number, offset: number) => {
+    if (!selectedAlbum) return;
+
+    const imageIds = selectedAlbum.images.map(image => image._id!.toString());
+    const target = index + offset;
+    if (target < 0 || target >= imageIds.length) return;
+
+    [imageIds[index], imageIds[target]] = [imageIds[target], imageIds[index]];
+    updateSelectedAlbum({ imageIds });
+  };
+
+  const handleRemoveImage = async (image: GalleryImage) => {
+    if (!selectedAlbum) return;
+
+    try {
+      await sendAlbumRequest(`/api/albums/${selectedAlbum._id?.toString()}/images`, 'DELETE', {
+        imageIds: [image._id?.toString()],
+      });
+      await fetchAlbum(selectedAlbum._id!.toString());
+    } catch (error) {
+      console.error('Error removing image from album:', error);
+      notify.error('Remove Failed', error instanceof Error ? error.message : 'Unknown error occurred');
+    }
+  };
+
+  const openImagePicker = async () => {
+    try {
+      const response = await fetch('/api/images?limit=100');
+      const result: PaginatedResponse<GalleryImage> = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || result.message || 'Failed to fetch images');
+      }
+
+      const albumImageIds = new Set(selectedAlbum?.images.map(image => image._id?.toString()));
+      setAvailableImages((result.data || []).filter(image => !albumImageIds.has(image._id?.toString())));
+      setPickedImageIds(new Set());
+      setShowImagePicker(true);
+    } catch (error) {
+      console.error('Error fetching images:', error);
+      notify.error('Failed to Load Images', error instanceof Error ? error.message : 'Unknown error occurred');
+    }
+  };
+
+  const togglePickedImage = (imageId: string) => {
+    setPickedImageIds(prev => {
+      const next = new Set(prev);
+      if (next.has(imageId)) {
+        next.delete(imageId);
+      } else {
+        next.add(imageId);
+      }
+      return next;
+    });
+  };
+
+  const handleAddImages = async () => {
+    if (!selectedAlbum || pickedImageIds.size === 0) return;
+
+    try {
+      await sendAlbumRequest(`/api/albums/${selectedAlbum._id?.toString()}/images`, 'POST', {
+        imageIds: Array.from(pickedImageIds),
+      });
+      notify.success('Images Added', `${pickedImageIds.size} images added to ${selectedAlbum.title}.`);
+      setShowImagePicker(false);
+      await fetchAlbum(selectedAlbum._id!.toString());
+    } catch (error) {
+      console.error('Error adding images to album:', error);
+      notify.error('Add Failed', error instanceof Error ? error.message : 'Unknown error occurred');
+    }
+  };
+
+  const startEditing = () => {
+    if (!selectedAlbum) return;
+    setFormData({
+      title: selectedAlbum.title,
+      description: selectedAlbum.description || '',
+      isPublic: selectedAlbum.isPublic,
+    });
+    setEditing(true);
+  };
+
+  const albumForm = (
+    <form onSubmit={handleSaveAlbum} className="card p-6 mb-8 space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Title *</label>
+        <input
+          type="text"
+          value={formData.title}
+          onChange={(e) => setFormData(prev => ({ ...prev, title: e.target.value }))}
+          className="w-full"
+          placeholder="Album title"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Description</label>
+        <textarea
+          value={formData.description}
+          onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+          rows={3}
+          className="w-full"
+          placeholder="What is this album about?"
+        />
+      </div>
+      <label className="flex items-center space-x-3 text-sm text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={formData.isPublic}
+          onChange={(e) => setFormData(prev => ({ ...prev, isPublic: e.target.checked }))}
+          className="w-4 h-4 text-blue-600 border-2 border-gray-300 dark:border-gray-600 rounded"
+        />
+        <span>Public album</span>
+      </label>
+      <div className="flex space-x-3">
+        <button type="submit" disabled={saving} className="btn-primary px-6 py-2 disabled:opacity-50">
+          {saving ? 'Saving...' : editing ? 'Save Changes' : 'Create Album'}
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setShowCreateForm(false);
+            setEditing(false);
+          }}
+          className="btn-secondary px-6 py-2"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+
+  // Smart album detail view
+  if (selectedSearch) {
+    return (
+      <SmartAlbum
+        key={selectedSearch._id?.toString()}
+        savedSearch={selectedSearch}
+        onBack={() => setSelectedSearch(null)}
+        onChange={fetchSavedSearches}
+        onImageSelect={onImageSelect}
+      />
+    );
+  }
+
+  // Album detail view
+  if (selectedAlbum) {
+    const coverId = selectedAlbum.coverImageId?.toString() || selectedAlbum.images[0]?._id?.toString();
+
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {ConfirmationComponent}
+
+        <button
+          onClick={() => {
+            setSelectedAlbum(null);
+            setEditing(false);
+            setShowImagePicker(false);
+            fetchAlbums();
+          }}
+          className="text-sm text-blue-600 dark:text-blue-400 hover:underline mb-6"
+        >
+          ← All albums
+        </button>
+
+        {editing ? albumForm : (
+          <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 mb-8">
+            <div>
+              <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">{selectedAlbum.title}</h2>
+              {selectedAlbum.description && (
+                <p className="text-gray-600 dark:text-gray-400 mb-2">{selectedAlbum.description}</p>
+              )}
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {selectedAlbum.images.length} images • {selectedAlbum.isPublic ? 'Public' : 'Private'}
+              </p>
+            </div>
+            {canModify(selectedAlbum.createdBy) && (
+            <div className="flex space-x-2">
+              <button onClick={openImagePicker} className="btn-primary px-4 py-2 text-sm">Add Images</button>
+              <button onClick={startEditing} className="btn-secondary px-4 py-2 text-sm">Edit</button>
+              <button onClick={handleDeleteAlbum} className="btn-danger px-4 py-2 text-sm">Delete</button>
+            </div>
+            )}
+          </div>
+        )}
+
+        {/* Image Picker */}
+        {showImagePicker && (
+          <div className="card p-6 mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Add images to this album</h3>
+              <div className="flex space-x-2">
+                <button
+                  onClick={handleAddImages}
+                  disabled={pickedImageIds.size === 0}
+                  className="btn-primary px-4 py-2 text-sm disabled:opacity-50"
+                >
+                  Add Selected ({pickedImageIds.size})
+                </button>
+                <button onClick={() => setShowImagePicker(false)} className="btn-secondary px-4 py-2 text-sm">
+                  Close
+                </button>
+              </div>
+            </div>
+            {availableImages.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Every gallery image is already in this album.</p>
+            ) : (
+              <div className="grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-6 gap-3 max-h-96 overflow-y-auto">
+                {availableImages.map(image => {
+                  const imageId = image._id?.toString() || '';
+                  const picked = pickedImageIds.has(imageId);
+                  return (
+                    <button
+                      key={imageId}
+                      type="button"
+                      onClick={() => togglePickedImage(imageId)}
+                      className={`relative aspect-square rounded-lg overflow-hidden border-2 ${
+                        picked ? 'border-blue-600' : 'border-transparent'
+                      }`}
+                    >
+                      <img src={image.cloudinaryUrl} alt={image.title} className="w-full h-full object-cover" loading="lazy" />
+                      {picked && (
+                        <span className="absolute top-1 right-1 w-5 h-5 bg-blue-600 text-white text-xs rounded-full flex items-center justify-center">✓</span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Album Images */}
+        {selectedAlbum.images.length === 0 ? (
+          <div className="text-center py-24 text-gray-500 dark:text-gray-400">
+            This album is empty. Use Add Images to fill it.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+            {selectedAlbum.images.map((image, index) => {
+              const imageId = image._id?.toString() || '';
+              return (
+                <div key={imageId} className="card overflow-hidden">
+                  <div
+                    className="aspect-square bg-gray-100 dark:bg-gray-800 cursor-pointer"
+                    onClick={() => onImageSelect && onImageSelect(image)}
+                  >
+                    <img src={image.cloudinaryUrl} alt={image.title} className="w-full h-full object-cover" loading="lazy" />
+                  </div>
+                  <div className="p-4">
+                    <div className="flex items-center justify-between mb-3">
+                      <h3 className="font-semibold text-gray-900 dark:text-white truncate">{image.title}</h3>
+                      {imageId === coverId && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">Cover</span>
+                      )}
+                    </div>
+                    {canModify(selectedAlbum.createdBy) && (
+                    <div className="flex flex-wrap gap-2 text-xs">
+                      <button onClick={() => moveImage(index, -1)} disabled={index === 0} className="btn-secondary px-2 py-1 disabled:opacity-50">←</button>
+                      <button onClick={() => moveImage(index, 1)} disabled={index === selectedAlbum.images.length - 1} className="btn-secondary px-2 py-1 disabled:opacity-50">→</button>
+                      {imageId !== coverId && (
+                        <button onClick={() => updateSelectedAlbum({ coverImageId: imageId })} className="btn-secondary px-2 py-1">Set Cover</button>
+                      )}
+                      <button onClick={() => handleRemoveImage(image)} className="btn-danger px-2 py-1">Remove</button>
+                    </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // Album list view
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      {ConfirmationComponent}
+
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Albums</h2>
+          <p className="text-gray-600 dark:text-gray-400">Group images into collections; an image can be in several albums.</p>
+        </div>
+        {user && !showCreateForm && (
+          <button
+            onClick={() => {
+              setFormData({ title: '', description: '', isPublic: true });
+              setShowCreateForm(true);
+            }}
+            className="btn-primary px-6 py-3"
+          >
+            New Album
+          </button>
+        )}
+      </div>
+
+      {showCreateForm && albumForm}
+
+      {loading && (
+        <div className="flex justify-center items-center py-24">
+          <div className="animate-spin h-12 w-12 border-4 border-blue-600 border-t-transparent rounded-full"></div>
+        </div>
+      )}
+
+      {error && (
+        <div className="text-center py-24">
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">Failed to load albums</h3>
+          <p className="text-gray-600 dark:text-gray-400 mb-6">{error}</p>
+          <button onClick={fetchAlbums} className="btn-primary px-6 py-3">Try Again</button>
+        </div>
+      )}
+
+      {!loading && !error && albums.length === 0 && (
+        <div className="text-center py-24 text-gray-500 dark:text-gray-400">
+          No albums yet. Create one to start grouping your images.
+        </div>
+      )}
+
+      {!loading && !error && albums.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {albums.map(album => (
+            <button
+              key={album._id?.toString()}
+              onClick={() => fetchAlbum(album._id!.toString())}
+              className="card overflow-hidden text-left hover:shadow-xl transition-all duration-300"
+            >
+              <div className="aspect-video bg-gray-100 dark:bg-gray-800">
+                {album.coverUrl ? (
+                  <img src={album.coverUrl} alt={album.title} className="w-full h-full object-cover" loading="lazy" />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center text-gray-400">
+                    <svg className="w-10 h-10" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                    </svg>
+                  </div>
+                )}
+              </div>
+              <div className="p-4">
+                <h3 className="font-semibold text-gray-900 dark:text-white truncate">{album.title}</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {album.imageCount} images{!album.isPublic && ' • Private'}
+                </p>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Smart Albums */}
+      {savedSearches.length > 0 && (
+        <div className="mt-12">
+          <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Smart Albums</h3>
+          <p className="text-gray-600 dark:text-gray-400 mb-6">Saved searches; they fill themselves with every image that matches.</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {savedSearches.map(savedSearch => (
+              <button
+                key={savedSearch._id?.toString()}
+                onClick={() => setSelectedSearch(savedSearch)}
+                className="card p-4 text-left hover:shadow-xl transition-all duration-300"
+              >
+                <div className="flex items-center justify-between gap-3 mb-1">
+                  <h4 className="font-semibold text-gray-900 dark:text-white truncate">{savedSearch.name}</h4>
+                  <span className="shrink-0 text-xs font-semibold px-2 py-0.5 rounded-full bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300">
+                    {savedSearch.imageCount}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-500 dark:text-gray-400 font-mono truncate">{describeSavedSearchQuery(savedSearch.query)}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {savedSearch.shared ? 'Shared' : 'Only you'}{savedSearch.createdBy !== user?.username && ` • by ${savedSearch.createdBy}`}
+                </p>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+'use client';
+
+import { useState, useEffect, useCallback, createContext, useContext, ReactNode } from 'react';
+import { ApiResponse, PublicUser, ResizeSettings } from '../types/gallery';
+import { useNotify } from './Notifications';
+import { useConfirmation, confirmations } from './ConfirmationModal';
+
+interface AuthContextType {
+  user: PublicUser | null;
+  loading: boolean;
+  login: (username: string, password: string) => Promise<void>;
+  register: (username: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+  // Whether the signed-in user may change something owned by the given username
+  canModify: (owner?: string) => boolean;
+  // Remember the signed-in user's resize settings for the upload form
+  saveUploadSettings: (settings: ResizeSettings) => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+export function AuthProvider({ children }: AuthProviderProps) {
+  const [user, setUser] = useState<PublicUser | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchCurrentUser = async () => {
+      try {
+        const response = await fetch('/api/auth/me');
+        const result: ApiResponse<PublicUser | null> = await response.json();
+        setUser(result.success ? result.data || null : null);
+      } catch (error) {
+        console.error('Error fetching current user:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCurrentUser();
+  }, []);
+
+  const submitCredentials = async (endpoint: string, username: string, password: string) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password }),
+    });
+    const result: ApiResponse<PublicUser> = await response.json();
+
+    if (!result.success || !result.data) {
+      throw new Error(result.error || result.message || 'Authentication failed');
+    }
+    setUser(result.data);
+  };
+
+  const login = (username: string, password: string) => submitCredentials('/api/auth/login', username, password);
+
+  const register = (username: string, password: string) => submitCredentials('/api/auth/register', username, password);
+
+  const logout = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    setUser(null);
+  };
+
+  const canModify = useCallback((owner?: string) => {
+    return !!user && (user.role === 'admin' || (!!owner && user.username === owner));
+  }, [user]);
+
+  const saveUploadSettings = useCallback(async (uploadSettings: ResizeSettings) => {
+    const response = await fetch('/api/auth/me', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ uploadSettings }),
+    });
+    const result: ApiResponse<PublicUser> = await response.json();
+
+    if (!result.success || !result.data) {
+      throw new Error(result.error || result.message || 'Failed to save settings');
+    }
+    setUser(result.data);
+  }, []);
+
+  return (
+    <AuthContext.Provider value={{ user, loading, login, register, logout, canModify, saveUploadSettings }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+// Sign-in controls for the page header
+export default function AuthMenu() {
+  const { user, loading, login, register, logout } = useAuth();
+  const [showForm, setShowForm] = useState(false);
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const notify = useNotify();
+  const { confirm, ConfirmationComponent } = useConfirmation();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSubmitting(true);
+      if (mode === 'login') {
+        await login(username, password);
+        notify.success('Signed In', `Welcome back, ${username}.`);
+      } else {
+        await register(username, password);
+        notify.success('Account Created', `Welcome, ${username}.`);
+      }
+      setShowForm(false);
+      setPassword('');
+    } catch (error) {
+      notify.error(mode === 'login' ? 'Sign In Failed' : 'Sign Up Failed', error instanceof Error ? error.message : 'Unknown error occurred');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    const confirmed = await confirm(confirmations.logout());
+    if (!confirmed) return;
+
+    await logout();
+    notify.info('Signed Out', 'You have been signed out.');
+  };
+
+  if (loading) {
+    return null;
+  }
+
+  if (user) {
+    return (
+      <div className="flex items-center space-x-3">
+        {ConfirmationComponent}
+        <div className="text-right hidden sm:block">
+          <p className="text-sm font-medium text-gray-900 dark:text-white">{user.username}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 capitalize">{user.role}</p>
+        </div>
+        <button onClick={handleLogout} className="btn-secondary px-4 py-2 text-sm">
+          Sign Out
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <button onClick={() => setShowForm(prev => !prev)} className="btn-primary px-4 py-2 text-sm">
+        Sign In
+      </button>
+
+      {showForm && (
+        <form
+          onSubmit={handleSubmit}
+          className="absolute right-0 mt-2 w-72 card p-4 space-y-3 z-50"
+        >
+          <h3 className="font-semibold text-gray-900 dark:text-white">
+            {mode === 'login' ? 'Sign in to your account' : 'Create an account'}
+          </h3>
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Username"
+            autoComplete="username"
+            className="w-full"
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password"
+            autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+            className="w-full"
+          />
+          <button type="submit" disabled={submitting || !username || !password} className="btn-primary w-full py-2 text-sm disabled:opacity-50">
+            {submitting ? 'Please wait...' : mode === 'login' ? 'Sign In' : 'Create Account'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setMode(prev => prev === 'login' ? 'register' : 'login')}
+            className="w-full text-xs text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            {mode === 'login' ? 'No account yet? Create one' : 'Already have an account? Sign in'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
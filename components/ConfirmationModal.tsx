@@ -256,13 +256,45 @@ export function useConfirmation() {
 // Utility function for common confirmation patterns
 export const confirmations = {
   delete: (itemName: string = 'item') => ({
-    title: 'Delete Confirmation',
-    message: `Are you sure you want to delete this ${itemName}? This action cannot be undone.`,
-    confirmText: 'Delete',
+    title: 'Move to Trash',
+    message: `Move ${itemName} to the trash? You can restore it from the Trash tab until it is purged.`,
+    confirmText: 'Move to Trash',
+    cancelText: 'Cancel',
+    type: 'warning' as const,
+  }),
+
+  permanentDelete: (itemName: string = 'item') => ({
+    title: 'Delete Permanently',
+    message: `Are you sure you want to permanently delete ${itemName}? This action cannot be undone.`,
+    confirmText: 'Delete Forever',
+    cancelText: 'Cancel',
+    type: 'danger' as const,
+  }),
+
+  deleteAlbum: (albumName: string = 'album') => ({
+    title: 'Delete Album',
+    message: `Delete the album ${albumName}? The images in it stay in your gallery.`,
+    confirmText: 'Delete Album',
     cancelText: 'Cancel',
     type: 'danger' as const,
   }),
 
+  deleteSavedSearch: (searchName: string = 'saved search') => ({
+    title: 'Delete Smart Album',
+    message: `Delete the saved search ${searchName}? The images it matches stay in your gallery.`,
+    confirmText: 'Delete Search',
+    cancelText: 'Cancel',
+    type: 'danger' as const,
+  }),
+
+  revokeShareLink: () => ({
+    title: 'Revoke Share Link',
+    message: 'Anyone with this link will lose access to the image. The link stays listed as revoked.',
+    confirmText: 'Revoke Link',
+    cancelText: 'Cancel',
+    type: 'warning' as const,
+  }),
+
   unsavedChanges: () => ({
     title: 'Unsaved Changes',
     message: 'You have unsaved changes. Are you sure you want to leave without saving?',
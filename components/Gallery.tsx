@@ -1,9 +1,12 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { GalleryImage, PaginatedResponse } from '../types/gallery';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ApiResponse, GalleryImage, ImageFacets, PaginatedResponse } from '../types/gallery';
 import { useNotify } from './Notifications';
 import { useConfirmation, confirmations } from './ConfirmationModal';
+import { useAuth } from './Auth';
+import SuggestInput, { Suggestion } from './SuggestInput';
+import TagInput from './TagInput';
 
 interface GalleryProps {
   onImageSelect?: (image: GalleryImage) => void;
@@ -11,67 +14,220 @@ interface GalleryProps {
   refreshTrigger?: number;
 }
 
+// Extra filters of the filter bar; each one becomes a term of the structured filter sent to /api/images
+interface FilterFields {
+  excludedTags: string;
+  format: string;
+  orientation: string;
+  createdFrom: string;
+  createdTo: string;
+  minWidth: string;
+  minHeight: string;
+  maxSizeMb: string;
+  // An upload month from the facets, as YYYY-MM
+  uploadMonth: string;
+  // A size bucket from the facets, as "min:max" in bytes with max left empty for the last one
+  sizeRange: string;
+}
+
+const EMPTY_FILTER_FIELDS: FilterFields = {
+  excludedTags: '',
+  format: '',
+  orientation: '',
+  createdFrom: '',
+  createdTo: '',
+  minWidth: '',
+  minHeight: '',
+  maxSizeMb: '',
+  uploadMonth: '',
+  sizeRange: '',
+};
+
+const FILTER_FORMATS = ['jpg', 'png', 'gif', 'webp', 'avif', 'heic', 'tiff', 'svg'];
+
+const splitTags = (tags: string): string[] => tags.split(',').map(tag => tag.trim()).filter(tag => tag);
+
+// Quote a filter value that contains spaces or commas, e.g. a tag such as "new york"
+const quoteFilterValue = (value: string): string =>
+  /[\s,"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+
+// Name an upload month facet, e.g. "2024-03" becomes "Mar 2024"
+const formatMonth = (month: string): string =>
+  new Intl.DateTimeFormat('en-US', { year: 'numeric', month: 'short', timeZone: 'UTC' }).format(new Date(`${month}-01T00:00:00Z`));
+
+const withCount = (label: string, count?: number): string => count !== undefined ? `${label} (${count})` : label;
+
+// Compose the structured filter for the filter bar; the language is described in lib/imageFilter.ts
+function buildFilterText(fields: FilterFields, requiredTags: string[], customFilter: string): string {
+  const terms = requiredTags.map(tag => `tag:${quoteFilterValue(tag)}`);
+
+  const excludedTags = splitTags(fields.excludedTags);
+  if (excludedTags.length > 0) {
+    terms.push(`-tag:${excludedTags.map(quoteFilterValue).join(',')}`);
+  }
+  if (fields.format) {
+    terms.push(`format:${fields.format}`);
+  }
+  if (fields.orientation) {
+    terms.push(`orientation:${fields.orientation}`);
+  }
+  if (fields.createdFrom || fields.createdTo) {
+    terms.push(`created:${fields.createdFrom}..${fields.createdTo}`);
+  }
+  if (/^\d+$/.test(fields.minWidth)) {
+    terms.push(`width:>=${fields.minWidth}`);
+  }
+  if (/^\d+$/.test(fields.minHeight)) {
+    terms.push(`height:>=${fields.minHeight}`);
+  }
+  if (/^\d+(\.\d+)?$/.test(fields.maxSizeMb)) {
+    terms.push(`size:<=${fields.maxSizeMb}mb`);
+  }
+  if (fields.uploadMonth) {
+    terms.push(`created:${fields.uploadMonth}`);
+  }
+  if (fields.sizeRange) {
+    const [min, max] = fields.sizeRange.split(':');
+    terms.push(`size:>=${min}`);
+    if (max) {
+      terms.push(`size:<${max}`);
+    }
+  }
+  if (customFilter) {
+    terms.push(customFilter);
+  }
+  return terms.join(' ');
+}
+
 export default function Gallery({ onImageSelect, onImageDelete, refreshTrigger }: GalleryProps) {
   const [images, setImages] = useState<GalleryImage[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [currentPage, setCurrentPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(1);
   const [totalItems, setTotalItems] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedTags, setSelectedTags] = useState('');
-  const [sortBy, setSortBy] = useState<'createdAt' | 'updatedAt' | 'title'>('createdAt');
+  const [sortBy, setSortBy] = useState<'createdAt' | 'updatedAt' | 'title' | 'capturedAt'>('createdAt');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [showPublicOnly, setShowPublicOnly] = useState<boolean | undefined>(undefined);
+  const [tagMatch, setTagMatch] = useState<'any' | 'all'>('any');
+  const [filterFields, setFilterFields] = useState<FilterFields>(EMPTY_FILTER_FIELDS);
+  const [customFilterDraft, setCustomFilterDraft] = useState('');
+  const [customFilter, setCustomFilter] = useState('');
+  const [showMoreFilters, setShowMoreFilters] = useState(false);
   const [availableTags, setAvailableTags] = useState<string[]>([]);
+  const [facets, setFacets] = useState<ImageFacets | null>(null);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [deletingImageId, setDeletingImageId] = useState<string | null>(null);
+  const [showSaveSearch, setShowSaveSearch] = useState(false);
+  const [saveSearchName, setSaveSearchName] = useState('');
+  const [saveSearchShared, setSaveSearchShared] = useState(false);
+  const [savingSearch, setSavingSearch] = useState(false);
 
   const notify = useNotify();
+  const { user, canModify } = useAuth();
   const { confirm, ConfirmationComponent } = useConfirmation();
 
-  const fetchImages = useCallback(async () => {
+  // Numbers each request, so a response that arrives after the filters changed is ignored
+  const requestCounter = useRef(0);
+
+  // Load the first page, or with a cursor the page after the images already shown. Cursors keep
+  // "Load More" stable while images are uploaded, and only the first page counts the matches.
+  const fetchPage = useCallback(async (cursor?: string) => {
+    const request = ++requestCounter.current;
     try {
-      setLoading(true);
+      if (cursor) {
+        setLoadingMore(true);
+      } else {
+        setLoading(true);
+      }
       setError(null);
 
       const params = new URLSearchParams({
-        page: currentPage.toString(),
         limit: viewMode === 'grid' ? '16' : '10',
         sortBy,
         sortOrder,
+        pagination: 'cursor',
       });
 
+      if (cursor) {
+        params.append('cursor', cursor);
+      } else {
+        // Counts and facets cover every match, so the first page fetches them for the rest
+        params.append('includeTotal', 'true');
+        params.append('includeFacets', 'true');
+      }
+
       if (searchTerm) {
         params.append('search', searchTerm);
       }
 
-      if (selectedTags) {
+      // Any of the tags can go in the tag list; requiring all of them needs a term per tag
+      if (selectedTags && tagMatch === 'any') {
         params.append('tags', selectedTags);
       }
 
+      const filterText = buildFilterText(filterFields, tagMatch === 'all' ? splitTags(selectedTags) : [], customFilter);
+      if (filterText) {
+        params.append('filter', filterText);
+      }
+
       if (showPublicOnly !== undefined) {
         params.append('isPublic', showPublicOnly.toString());
       }
 
       const response = await fetch(`/api/images?${params.toString()}`);
       const result: PaginatedResponse<GalleryImage> = await response.json();
+      if (request !== requestCounter.current) {
+        return;
+      }
 
       if (result.success) {
-        setImages(result.data || []);
-        setTotalPages(result.pagination.totalPages);
-        setTotalItems(result.pagination.totalItems);
+        const page = result.data || [];
+        if (cursor) {
+          setImages(prev => {
+            const shown = new Set(prev.map(image => image._id?.toString()));
+            return [...prev, ...page.filter(image => !shown.has(image._id?.toString()))];
+          });
+        } else {
+          setImages(page);
+          setTotalItems(result.pagination.totalItems ?? page.length);
+          setFacets(result.facets ?? null);
+        }
+        setNextCursor(result.pagination.nextCursor ?? null);
       } else {
         throw new Error(result.error || result.message || 'Failed to fetch images');
       }
     } catch (error) {
+      if (request !== requestCounter.current) {
+        return;
+      }
       console.error('Error fetching images:', error);
-      setError(error instanceof Error ? error.message : 'Failed to load images');
-      setImages([]);
+      // A failed "Load More" keeps the images already shown
+      if (cursor) {
+        notify.error('Failed to Load More Images', error instanceof Error ? error.message : 'Unknown error occurred');
+      } else {
+        setError(error instanceof Error ? error.message : 'Failed to load images');
+        setImages([]);
+        setNextCursor(null);
+        setFacets(null);
+      }
     } finally {
-      setLoading(false);
+      if (request === requestCounter.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  }, [searchTerm, selectedTags, tagMatch, filterFields, customFilter, sortBy, sortOrder, showPublicOnly, viewMode, notify]);
+
+  const fetchImages = useCallback(() => fetchPage(), [fetchPage]);
+
+  const loadMore = () => {
+    if (nextCursor && !loadingMore) {
+      fetchPage(nextCursor);
     }
-  }, [currentPage, searchTerm, selectedTags, sortBy, sortOrder, showPublicOnly, viewMode]);
+  };
 
   const fetchTags = useCallback(async () => {
     try {
@@ -88,7 +244,7 @@ export default function Gallery({ onImageSelect, onImageDelete, refreshTrigger }
 
   useEffect(() => {
     fetchImages();
-  }, [currentPage, searchTerm, selectedTags, sortBy, sortOrder, showPublicOnly, viewMode]);
+  }, [searchTerm, selectedTags, tagMatch, filterFields, customFilter, sortBy, sortOrder, showPublicOnly, viewMode]);
 
   useEffect(() => {
     fetchTags();
@@ -102,10 +258,42 @@ export default function Gallery({ onImageSelect, onImageDelete, refreshTrigger }
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    setCurrentPage(1);
+    // The typed filter only applies on submit, so half-written terms are not sent
+    setCustomFilter(customFilterDraft.trim());
     // fetchImages will be called automatically due to dependency change
   };
 
+  // A picked title becomes the search; a picked tag joins the tag filter instead
+  const handleSuggestionSelect = (suggestion: Suggestion) => {
+    if (suggestion.kind === 'title') {
+      setSearchTerm(suggestion.value);
+      return;
+    }
+
+    const currentTags = splitTags(selectedTags);
+    if (!currentTags.includes(suggestion.value)) {
+      setSelectedTags([...currentTags, suggestion.value].join(', '));
+    }
+    setSearchTerm('');
+  };
+
+  const updateFilterField = (field: keyof FilterFields, value: string) => {
+    setFilterFields(prev => ({ ...prev, [field]: value }));
+  };
+
+  const extraFilterCount = Object.values(filterFields).filter(value => value).length + (customFilter ? 1 : 0);
+  const hasFilters = !!(searchTerm || selectedTags || extraFilterCount > 0);
+
+  // Facet values with no matching images are hidden, except the one currently chosen
+  const selectedTagList = splitTags(selectedTags);
+  const tagCounts = new Map(facets?.tags.map(facet => [facet.value, facet.count]));
+  const facetTags = facets ? facets.tags.slice(0, 12).map(facet => facet.value) : availableTags.slice(0, 12);
+  const tagChoices = [...facetTags, ...selectedTagList.filter(tag => !facetTags.includes(tag))];
+  const formatChoices = facets ? facets.formats.map(facet => facet.value) : FILTER_FORMATS;
+  const formatCounts = new Map(facets?.formats.map(facet => [facet.value, facet.count]));
+  const monthChoices = facets?.months ?? [];
+  const sizeChoices = (facets?.sizes ?? []).map(bucket => ({ ...bucket, value: `${bucket.min}:${bucket.max ?? ''}` }));
+
   const handleDelete = useCallback(async (imageId: string, imageName: string) => {
     const confirmed = await confirm(confirmations.delete(imageName));
     
@@ -127,7 +315,7 @@ export default function Gallery({ onImageSelect, onImageDelete, refreshTrigger }
           onImageDelete(imageId);
         }
 
-        notify.success('Image Deleted', `${imageName} has been permanently deleted from your gallery.`);
+        notify.success('Moved to Trash', `${imageName} has been moved to the trash.`);
       } else {
         throw new Error(result.error || result.message || 'Delete failed');
       }
@@ -158,13 +346,61 @@ export default function Gallery({ onImageSelect, onImageDelete, refreshTrigger }
     }).format(d);
   };
 
+  // Save what is on screen as a smart album, with the same parameters fetchPage sends
+  const handleSaveSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!saveSearchName.trim()) {
+      notify.warning('Name Required', 'Please give the search a name.');
+      return;
+    }
+
+    try {
+      setSavingSearch(true);
+      const response = await fetch('/api/saved-searches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: saveSearchName.trim(),
+          shared: saveSearchShared,
+          query: {
+            search: searchTerm || undefined,
+            tags: selectedTags && tagMatch === 'any' ? selectedTags : undefined,
+            filter: buildFilterText(filterFields, tagMatch === 'all' ? splitTags(selectedTags) : [], customFilter) || undefined,
+            isPublic: showPublicOnly,
+            sortBy,
+            sortOrder,
+          },
+        }),
+      });
+      const result: ApiResponse = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.error || result.message || 'Failed to save search');
+      }
+
+      notify.success('Search Saved', `${saveSearchName.trim()} is now in your smart albums.`);
+      setShowSaveSearch(false);
+      setSaveSearchName('');
+      setSaveSearchShared(false);
+    } catch (error) {
+      console.error('Error saving search:', error);
+      notify.error('Save Failed', error instanceof Error ? error.message : 'Unknown error occurred');
+    } finally {
+      setSavingSearch(false);
+    }
+  };
+
   const clearFilters = () => {
     setSearchTerm('');
     setSelectedTags('');
+    setTagMatch('any');
+    setFilterFields(EMPTY_FILTER_FIELDS);
+    setCustomFilterDraft('');
+    setCustomFilter('');
     setShowPublicOnly(undefined);
     setSortBy('createdAt');
     setSortOrder('desc');
-    setCurrentPage(1);
   };
 
   // Handle error notifications separately to avoid dependency issues
@@ -196,10 +432,10 @@ export default function Gallery({ onImageSelect, onImageDelete, refreshTrigger }
         <form onSubmit={handleSearch} className="space-y-6">
           {/* Search Bar */}
           <div className="relative">
-            <input
-              type="text"
+            <SuggestInput
               value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              onChange={setSearchTerm}
+              onSelect={handleSuggestionSelect}
               placeholder="Search images by title or description..."
               className="pl-10 pr-32 py-4 w-full text-lg rounded-lg"
             />
@@ -223,13 +459,24 @@ export default function Gallery({ onImageSelect, onImageDelete, refreshTrigger }
               <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
                 Filter by Tags
               </label>
-              <input
-                type="text"
-                value={selectedTags}
-                onChange={(e) => setSelectedTags(e.target.value)}
-                placeholder="nature, landscape, photography..."
-                className="w-full"
-              />
+              <div className="flex gap-2">
+                <div className="flex-1 min-w-0">
+                  <TagInput
+                    tags={splitTags(selectedTags)}
+                    onChange={(next) => setSelectedTags(next.join(', '))}
+                    placeholder="nature, landscape, photography..."
+                  />
+                </div>
+                <select
+                  value={tagMatch}
+                  onChange={(e) => setTagMatch(e.target.value as 'any' | 'all')}
+                  aria-label="Tag matching"
+                  className="pr-8 appearance-none bg-[length:20px_20px] bg-[right_12px_center] bg-no-repeat bg-[url('data:image/svg+xml;charset=utf-8,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%20viewBox%3D%220%200%2020%2020%22%20fill%3D%22currentColor%22%20aria-hidden%3D%22true%22%3E%3Cpath%20fill-rule%3D%22evenodd%22%20d%3D%22M5.293%207.293a1%201%200%20011.414%200L10%2010.586l3.293-3.293a1%201%200%20111.414%201.414l-4%204a1%201%200%2001-1.414%200l-4-4a1%201%200%20010-1.414z%22%20clip-rule%3D%22evenodd%22%2F%3E%3C%2Fsvg%3E')]"
+                >
+                  <option value="any">Any</option>
+                  <option value="all">All</option>
+                </select>
+              </div>
             </div>
 
             {/* Sort By */}
@@ -239,11 +486,12 @@ export default function Gallery({ onImageSelect, onImageDelete, refreshTrigger }
               </label>
               <select
                 value={sortBy}
-                onChange={(e) => setSortBy(e.target.value as 'createdAt' | 'updatedAt' | 'title')}
+                onChange={(e) => setSortBy(e.target.value as 'createdAt' | 'updatedAt' | 'title' | 'capturedAt')}
                 className="w-full pr-8 appearance-none bg-[length:20px_20px] bg-[right_12px_center] bg-no-repeat bg-[url('data:image/svg+xml;charset=utf-8,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%20viewBox%3D%220%200%2020%2020%22%20fill%3D%22currentColor%22%20aria-hidden%3D%22true%22%3E%3Cpath%20fill-rule%3D%22evenodd%22%20d%3D%22M5.293%207.293a1%201%200%20011.414%200L10%2010.586l3.293-3.293a1%201%200%20111.414%201.414l-4%204a1%201%200%2001-1.414%200l-4-4a1%201%200%20010-1.414z%22%20clip-rule%3D%22evenodd%22%2F%3E%3C%2Fsvg%3E')]"
               >
                 <option value="createdAt">Date Created</option>
                 <option value="updatedAt">Date Updated</option>
+                <option value="capturedAt">Date Taken</option>
                 <option value="title">Title</option>
               </select>
             </div>
@@ -277,20 +525,223 @@ export default function Gallery({ onImageSelect, onImageDelete, refreshTrigger }
                 className="w-full pr-8 appearance-none bg-[length:20px_20px] bg-[right_12px_center] bg-no-repeat bg-[url('data:image/svg+xml;charset=utf-8,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%20viewBox%3D%220%200%2020%2020%22%20fill%3D%22currentColor%22%20aria-hidden%3D%22true%22%3E%3Cpath%20fill-rule%3D%22evenodd%22%20d%3D%22M5.293%207.293a1%201%200%20011.414%200L10%2010.586l3.293-3.293a1%201%200%20111.414%201.414l-4%204a1%201%200%2001-1.414%200l-4-4a1%201%200%20010-1.414z%22%20clip-rule%3D%22evenodd%22%2F%3E%3C%2Fsvg%3E')]"
               >
                 <option value="all">All Images</option>
-                <option value="true">Public Only</option>
-                <option value="false">Private Only</option>
+                {(!facets || facets.visibility.public > 0 || showPublicOnly === true) && (
+                  <option value="true">{withCount('Public Only', facets?.visibility.public)}</option>
+                )}
+                {(!facets || facets.visibility.private > 0 || showPublicOnly === false) && (
+                  <option value="false">{withCount('Private Only', facets?.visibility.private)}</option>
+                )}
               </select>
             </div>
           </div>
 
+          {/* More Filters */}
+          <div>
+            <button
+              type="button"
+              onClick={() => setShowMoreFilters(prev => !prev)}
+              className="text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline flex items-center"
+              aria-expanded={showMoreFilters}
+            >
+              <svg className={`w-4 h-4 mr-1 transition-transform ${showMoreFilters ? 'rotate-90' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+              More Filters{extraFilterCount > 0 ? ` (${extraFilterCount})` : ''}
+            </button>
+
+            {showMoreFilters && (
+              <div className="mt-4 space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                  {/* Excluded Tags */}
+                  <div className="lg:col-span-2">
+                    <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                      Exclude Tags
+                    </label>
+                    <input
+                      type="text"
+                      value={filterFields.excludedTags}
+                      onChange={(e) => updateFilterField('excludedTags', e.target.value)}
+                      placeholder="draft, private..."
+                      className="w-full"
+                    />
+                  </div>
+
+                  {/* Format */}
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                      Format
+                    </label>
+                    <select
+                      value={filterFields.format}
+                      onChange={(e) => updateFilterField('format', e.target.value)}
+                      className="w-full pr-8 appearance-none bg-[length:20px_20px] bg-[right_12px_center] bg-no-repeat bg-[url('data:image/svg+xml;charset=utf-8,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%20viewBox%3D%220%200%2020%2020%22%20fill%3D%22currentColor%22%20aria-hidden%3D%22true%22%3E%3Cpath%20fill-rule%3D%22evenodd%22%20d%3D%22M5.293%207.293a1%201%200%20011.414%200L10%2010.586l3.293-3.293a1%201%200%20111.414%201.414l-4%204a1%201%200%2001-1.414%200l-4-4a1%201%200%20010-1.414z%22%20clip-rule%3D%22evenodd%22%2F%3E%3C%2Fsvg%3E')]"
+                    >
+                      <option value="">Any Format</option>
+                      {formatChoices.map(format => (
+                        <option key={format} value={format}>{withCount(format.toUpperCase(), formatCounts.get(format))}</option>
+                      ))}
+                      {filterFields.format && !formatChoices.includes(filterFields.format) && (
+                        <option value={filterFields.format}>{filterFields.format.toUpperCase()}</option>
+                      )}
+                    </select>
+                  </div>
+
+                  {/* Orientation */}
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                      Orientation
+                    </label>
+                    <select
+                      value={filterFields.orientation}
+                      onChange={(e) => updateFilterField('orientation', e.target.value)}
+                      className="w-full pr-8 appearance-none bg-[length:20px_20px] bg-[right_12px_center] bg-no-repeat bg-[url('data:image/svg+xml;charset=utf-8,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%20viewBox%3D%220%200%2020%2020%22%20fill%3D%22currentColor%22%20aria-hidden%3D%22true%22%3E%3Cpath%20fill-rule%3D%22evenodd%22%20d%3D%22M5.293%207.293a1%201%200%20011.414%200L10%2010.586l3.293-3.293a1%201%200%20111.414%201.414l-4%204a1%201%200%2001-1.414%200l-4-4a1%201%200%20010-1.414z%22%20clip-rule%3D%22evenodd%22%2F%3E%3C%2Fsvg%3E')]"
+                    >
+                      <option value="">Any Orientation</option>
+                      <option value="landscape">Landscape</option>
+                      <option value="portrait">Portrait</option>
+                      <option value="square">Square</option>
+                    </select>
+                  </div>
+
+                  {/* Upload Date Range */}
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                      Uploaded From
+                    </label>
+                    <input
+                      type="date"
+                      value={filterFields.createdFrom}
+                      onChange={(e) => updateFilterField('createdFrom', e.target.value)}
+                      className="w-full"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                      Uploaded To
+                    </label>
+                    <input
+                      type="date"
+                      value={filterFields.createdTo}
+                      onChange={(e) => updateFilterField('createdTo', e.target.value)}
+                      className="w-full"
+                    />
+                  </div>
+
+                  {/* Dimensions and Size */}
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                      Min Width / Height (px)
+                    </label>
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        min={1}
+                        value={filterFields.minWidth}
+                        onChange={(e) => updateFilterField('minWidth', e.target.value)}
+                        placeholder="Width"
+                        className="w-full min-w-0"
+                      />
+                      <input
+                        type="number"
+                        min={1}
+                        value={filterFields.minHeight}
+                        onChange={(e) => updateFilterField('minHeight', e.target.value)}
+                        placeholder="Height"
+                        className="w-full min-w-0"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                      Max File Size (MB)
+                    </label>
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={filterFields.maxSizeMb}
+                      onChange={(e) => updateFilterField('maxSizeMb', e.target.value)}
+                      placeholder="e.g. 5"
+                      className="w-full"
+                    />
+                  </div>
+
+                  {/* Upload Month */}
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                      Uploaded In
+                    </label>
+                    <select
+                      value={filterFields.uploadMonth}
+                      onChange={(e) => updateFilterField('uploadMonth', e.target.value)}
+                      className="w-full pr-8 appearance-none bg-[length:20px_20px] bg-[right_12px_center] bg-no-repeat bg-[url('data:image/svg+xml;charset=utf-8,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%20viewBox%3D%220%200%2020%2020%22%20fill%3D%22currentColor%22%20aria-hidden%3D%22true%22%3E%3Cpath%20fill-rule%3D%22evenodd%22%20d%3D%22M5.293%207.293a1%201%200%20011.414%200L10%2010.586l3.293-3.293a1%201%200%20111.414%201.414l-4%204a1%201%200%2001-1.414%200l-4-4a1%201%200%20010-1.414z%22%20clip-rule%3D%22evenodd%22%2F%3E%3C%2Fsvg%3E')]"
+                    >
+                      <option value="">Any Month</option>
+                      {monthChoices.map(month => (
+                        <option key={month.value} value={month.value}>{withCount(formatMonth(month.value), month.count)}</option>
+                      ))}
+                      {filterFields.uploadMonth && !monthChoices.some(month => month.value === filterFields.uploadMonth) && (
+                        <option value={filterFields.uploadMonth}>{formatMonth(filterFields.uploadMonth)}</option>
+                      )}
+                    </select>
+                  </div>
+
+                  {/* Size Range */}
+                  <div>
+                    <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                      Size Range
+                    </label>
+                    <select
+                      value={filterFields.sizeRange}
+                      onChange={(e) => updateFilterField('sizeRange', e.target.value)}
+                      className="w-full pr-8 appearance-none bg-[length:20px_20px] bg-[right_12px_center] bg-no-repeat bg-[url('data:image/svg+xml;charset=utf-8,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%20viewBox%3D%220%200%2020%2020%22%20fill%3D%22currentColor%22%20aria-hidden%3D%22true%22%3E%3Cpath%20fill-rule%3D%22evenodd%22%20d%3D%22M5.293%207.293a1%201%200%20011.414%200L10%2010.586l3.293-3.293a1%201%200%20111.414%201.414l-4%204a1%201%200%2001-1.414%200l-4-4a1%201%200%20010-1.414z%22%20clip-rule%3D%22evenodd%22%2F%3E%3C%2Fsvg%3E')]"
+                    >
+                      <option value="">Any Size</option>
+                      {sizeChoices.map(bucket => (
+                        <option key={bucket.value} value={bucket.value}>
+                          {withCount(
+                            bucket.max !== undefined
+                              ? `${bucket.min === 0 ? 'Under' : formatFileSize(bucket.min) + ' to'} ${formatFileSize(bucket.max)}`
+                              : `${formatFileSize(bucket.min)} and over`,
+                            bucket.count
+                          )}
+                        </option>
+                      ))}
+                      {filterFields.sizeRange && !sizeChoices.some(bucket => bucket.value === filterFields.sizeRange) && (
+                        <option value={filterFields.sizeRange}>Selected range</option>
+                      )}
+                    </select>
+                  </div>
+                </div>
+
+                {/* Typed Filter */}
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                    Advanced Filter
+                  </label>
+                  <input
+                    type="text"
+                    value={customFilterDraft}
+                    onChange={(e) => setCustomFilterDraft(e.target.value)}
+                    placeholder="tag:beach,sunset -tag:draft updated:2024-03 size:<5mb width:>3000"
+                    className="w-full font-mono text-sm"
+                  />
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Press Enter to apply. Filters: tag, format, created, updated, size, width, height, orientation, has; ranges use &gt;, &lt;, &gt;=, &lt;= or from..to.
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+
           {/* Available Tags */}
-          {availableTags.length > 0 && (
+          {tagChoices.length > 0 && (
             <div>
               <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
-                Popular Tags
+                {facets ? 'Tags in These Results' : 'Popular Tags'}
               </label>
               <div className="flex flex-wrap gap-2">
-                {availableTags.slice(0, 12).map((tag) => (
+                {tagChoices.map((tag) => (
                   <button
                     key={tag}
                     type="button"
@@ -309,6 +760,9 @@ export default function Gallery({ onImageSelect, onImageDelete, refreshTrigger }
                     }`}
                   >
                     {tag}
+                    {tagCounts.has(tag) && (
+                      <span className="ml-1.5 text-xs opacity-75">{tagCounts.get(tag)}</span>
+                    )}
                   </button>
                 ))}
               </div>
@@ -329,6 +783,19 @@ export default function Gallery({ onImageSelect, onImageDelete, refreshTrigger }
                 </svg>
                 Clear Filters
               </button>
+              {user && (
+                <button
+                  type="button"
+                  onClick={() => setShowSaveSearch(prev => !prev)}
+                  className="btn-secondary px-4 py-2 text-sm flex items-center ml-2"
+                  aria-expanded={showSaveSearch}
+                >
+                  <svg className="w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                  </svg>
+                  Save Search
+                </button>
+              )}
             </div>
 
             {/* View Mode Toggle */}
@@ -362,6 +829,32 @@ export default function Gallery({ onImageSelect, onImageDelete, refreshTrigger }
             </div>
           </div>
         </form>
+
+        {/* Save Search */}
+        {user && showSaveSearch && (
+          <form onSubmit={handleSaveSearch} className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700 flex flex-col md:flex-row md:items-center gap-3">
+            <input
+              type="text"
+              value={saveSearchName}
+              onChange={(e) => setSaveSearchName(e.target.value)}
+              placeholder="Name this search, e.g. Beach shots this year"
+              className="flex-1 min-w-0"
+              autoFocus
+            />
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={saveSearchShared}
+                onChange={(e) => setSaveSearchShared(e.target.checked)}
+                className="w-4 h-4 text-blue-600 border-2 border-gray-300 dark:border-gray-600 rounded"
+              />
+              <span>Share with the team</span>
+            </label>
+            <button type="submit" disabled={savingSearch} className="btn-primary px-6 py-2 text-sm disabled:opacity-50">
+              {savingSearch ? 'Saving...' : 'Save as Smart Album'}
+            </button>
+          </form>
+        )}
       </div>
 
       {/* Results Info */}
@@ -376,9 +869,6 @@ export default function Gallery({ onImageSelect, onImageDelete, refreshTrigger }
               </span>
             )}
           </div>
-          <div className="text-sm text-gray-500 dark:text-gray-400">
-            Page {currentPage} of {totalPages}
-          </div>
         </div>
       )}
 
@@ -427,12 +917,12 @@ export default function Gallery({ onImageSelect, onImageDelete, refreshTrigger }
               </div>
               <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-3">No images found</h3>
               <p className="text-gray-600 dark:text-gray-400 mb-6 max-w-md mx-auto">
-                {searchTerm || selectedTags
+                {hasFilters
                   ? 'Try adjusting your search criteria or filters to find more images.'
                   : 'Start building your gallery by uploading some beautiful images.'
                 }
               </p>
-              {(searchTerm || selectedTags) && (
+              {hasFilters && (
                 <button
                   onClick={clearFilters}
                   className="btn-secondary px-6 py-3 mr-4"
@@ -472,6 +962,7 @@ export default function Gallery({ onImageSelect, onImageDelete, refreshTrigger }
                             <p className="text-xs text-gray-300 mb-2 line-clamp-2">{image.description}</p>
                             <div className="text-xs text-gray-400">
                               {formatDate(image.createdAt)} • {formatFileSize(image.bytes)}
+                              {image.uploadedBy && <> • by {image.uploadedBy}</>}
                             </div>
                           </div>
                         </div>
@@ -491,6 +982,7 @@ export default function Gallery({ onImageSelect, onImageDelete, refreshTrigger }
                     </div>
 
                     {/* Action buttons */}
+                    {canModify(image.uploadedBy) && (
                     <div className="absolute top-3 right-3 flex flex-col gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
                       <button
                         onClick={(e) => {
@@ -509,6 +1001,7 @@ export default function Gallery({ onImageSelect, onImageDelete, refreshTrigger }
                         )}
                       </button>
                     </div>
+                    )}
                   </div>
 
                   {/* Card content */}
@@ -592,6 +1085,14 @@ export default function Gallery({ onImageSelect, onImageDelete, refreshTrigger }
                               </svg>
                               {formatDate(image.createdAt)}
                             </span>
+                            {image.uploadedBy && (
+                              <span className="flex items-center gap-1">
+                                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+                                </svg>
+                                {image.uploadedBy}
+                              </span>
+                            )}
                             {!image.isPublic && (
                               <span className="flex items-center gap-1 text-yellow-600 dark:text-yellow-400">
                                 <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -621,6 +1122,7 @@ export default function Gallery({ onImageSelect, onImageDelete, refreshTrigger }
                           )}
                         </div>
                         
+                        {canModify(image.uploadedBy) && (
                         <div className="flex items-center space-x-2 ml-6">
                           <button
                             onClick={(e) => {
@@ -645,6 +1147,7 @@ export default function Gallery({ onImageSelect, onImageDelete, refreshTrigger }
                             )}
                           </button>
                         </div>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -653,83 +1156,29 @@ export default function Gallery({ onImageSelect, onImageDelete, refreshTrigger }
             </div>
           )}
 
-          {/* Pagination */}
-          {totalPages > 1 && (
+          {/* Load More */}
+          {nextCursor && (
             <div className="mt-12 flex justify-center">
-              <nav className="flex items-center space-x-1">
-                <button
-                  onClick={() => setCurrentPage(1)}
-                  disabled={currentPage === 1}
-                  className="px-4 py-2 text-sm font-medium text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
-                >
-                  <svg className="w-4 h-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 19l-7-7 7-7m8 14l-7-7 7-7" />
-                  </svg>
-                  First
-                </button>
-                
-                <button
-                  onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
-                  disabled={currentPage === 1}
-                  className="px-4 py-2 text-sm font-medium text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
-                >
-                  <svg className="w-4 h-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
-                  </svg>
-                  Previous
-                </button>
-                
-                <div className="flex items-center space-x-1">
-                  {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-                    let pageNum;
-                    if (totalPages <= 5) {
-                      pageNum = i + 1;
-                    } else if (currentPage <= 3) {
-                      pageNum = i + 1;
-                    } else if (currentPage >= totalPages - 2) {
-                      pageNum = totalPages - 4 + i;
-                    } else {
-                      pageNum = currentPage - 2 + i;
-                    }
-                    
-                    return (
-                      <button
-                        key={pageNum}
-                        onClick={() => setCurrentPage(pageNum)}
-                        className={`px-4 py-2 text-sm font-medium rounded-lg transition-all ${
-                          currentPage === pageNum
-                            ? 'bg-blue-600 text-white shadow-lg'
-                            : 'text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
-                        }`}
-                      >
-                        {pageNum}
-                      </button>
-                    );
-                  })}
-                </div>
-                
-                <button
-                  onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
-                  disabled={currentPage === totalPages}
-                  className="px-4 py-2 text-sm font-medium text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
-                >
-                  Next
-                  <svg className="w-4 h-4 ml-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-                  </svg>
-                </button>
-                
-                <button
-                  onClick={() => setCurrentPage(totalPages)}
-                  disabled={currentPage === totalPages}
-                  className="px-4 py-2 text-sm font-medium text-gray-500 dark:text-gray-400 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
-                >
-                  Last
-                  <svg className="w-4 h-4 ml-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 5l7 7-7 7M5 5l7 7-7 7" />
-                  </svg>
-                </button>
-              </nav>
+              <button
+                type="button"
+                onClick={loadMore}
+                disabled={loadingMore}
+                className="btn-secondary px-8 py-3 flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loadingMore ? (
+                  <>
+                    <div className="animate-spin h-4 w-4 border-2 border-current border-t-transparent rounded-full mr-2"></div>
+                    Loading...
+                  </>
+                ) : (
+                  <>
+                    <svg className="w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                    Load More
+                  </>
+                )}
+              </button>
             </div>
           )}
         </>
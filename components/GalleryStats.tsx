@@ -1,9 +1,15 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { DatabaseStats, SyncStatus, ApiResponse } from '../types/gallery';
+import { DatabaseStats, SyncStatus, ApiResponse, SyncRepairAction, SyncRepairReport, SyncDiscrepancy, SyncDiscrepancyKind } from '../types/gallery';
 import { useNotify } from './Notifications';
 
+const discrepancyKindLabels: Record<SyncDiscrepancyKind, string> = {
+  missing_in_storage: 'Missing in Cloudinary',
+  missing_in_database: 'Missing in MongoDB',
+  field_mismatch: 'Field mismatch',
+};
+
 interface GalleryStatsProps {
   refreshTrigger?: number;
 }
@@ -14,6 +20,10 @@ export default function GalleryStats({ refreshTrigger }: GalleryStatsProps) {
   const [loading, setLoading] = useState(true);
   const [syncLoading, setSyncLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [selectedDiscrepancies, setSelectedDiscrepancies] = useState<Set<string>>(new Set());
+  const [repairActions, setRepairActions] = useState<Record<string, SyncRepairAction>>({});
+  const [repairLoading, setRepairLoading] = useState(false);
+  const [repairPlan, setRepairPlan] = useState<SyncRepairReport | null>(null);
   const notify = useNotify();
 
   const fetchStats = async () => {
@@ -72,6 +82,85 @@ export default function GalleryStats({ refreshTrigger }: GalleryStatsProps) {
     fetchSyncStatus();
   }, []);
 
+  // Reset the repair selection whenever a new sync status arrives
+  useEffect(() => {
+    setSelectedDiscrepancies(new Set(syncStatus?.discrepancies.map(discrepancy => discrepancy.cloudinaryId) || []));
+    setRepairActions({});
+    setRepairPlan(null);
+  }, [syncStatus]);
+
+  const toggleDiscrepancy = (cloudinaryId: string) => {
+    setSelectedDiscrepancies(prev => {
+      const next = new Set(prev);
+      if (next.has(cloudinaryId)) {
+        next.delete(cloudinaryId);
+      } else {
+        next.add(cloudinaryId);
+      }
+      return next;
+    });
+    setRepairPlan(null);
+  };
+
+  const getRepairActionOptions = (discrepancy: SyncDiscrepancy): { value: SyncRepairAction | ''; label: string }[] => {
+    if (discrepancy.kind === 'missing_in_database') {
+      return [{ value: 'import', label: 'Import as new image' }];
+    }
+    if (discrepancy.kind === 'field_mismatch') {
+      return [{ value: 'refresh', label: 'Update record from Cloudinary' }];
+    }
+    return [
+      { value: '', label: 'Restore from backup, else remove' },
+      { value: 'reupload', label: 'Re-upload from backup' },
+      { value: 'remove', label: 'Remove record' },
+    ];
+  };
+
+  const runRepair = async (dryRun: boolean) => {
+    if (selectedDiscrepancies.size === 0) {
+      notify.warning('Nothing Selected', 'Select at least one discrepancy to repair.');
+      return;
+    }
+
+    try {
+      setRepairLoading(true);
+      const response = await fetch('/api/gallery/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          dryRun,
+          items: Array.from(selectedDiscrepancies).map(cloudinaryId => ({
+            cloudinaryId,
+            action: repairActions[cloudinaryId],
+          })),
+        }),
+      });
+      const result: ApiResponse<SyncRepairReport> = await response.json();
+
+      if (!result.success || !result.data) {
+        throw new Error(result.error || result.message || 'Repair failed');
+      }
+
+      if (dryRun) {
+        setRepairPlan(result.data);
+        return;
+      }
+
+      const { repaired, skipped, failed } = result.data;
+      if (failed > 0) {
+        notify.warning('Repair Partially Completed', `${repaired} repaired, ${skipped} skipped, ${failed} failed.`);
+      } else {
+        notify.success('Repair Completed', `${repaired} repaired, ${skipped} skipped.`);
+      }
+      await loadAllData();
+    } catch (error) {
+      console.error('Error repairing sync discrepancies:', error);
+      notify.error('Repair Failed', error instanceof Error ? error.message : 'Unknown error occurred');
+    } finally {
+      setRepairLoading(false);
+    }
+  };
+
   useEffect(() => {
     loadAllData();
   }, [loadAllData]);
@@ -262,6 +351,7 @@ export default function GalleryStats({ refreshTrigger }: GalleryStatsProps) {
             <StatCard
               title="Total Images"
               value={stats.totalImages.toLocaleString()}
+              subtitle={stats.trashedImages > 0 ? `${stats.trashedImages.toLocaleString()} more in trash` : undefined}
               icon={
                 <svg className="w-6 h-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
@@ -404,6 +494,9 @@ export default function GalleryStats({ refreshTrigger }: GalleryStatsProps) {
                       {syncStatus.discrepancies.length} discrepancies detected
                     </p>
                   )}
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Scanned {syncStatus.cloudinaryCount.toLocaleString()} files in {(syncStatus.durationMs / 1000).toFixed(1)}s
+                  </p>
                 </div>
               </div>
             </div>
@@ -421,31 +514,92 @@ export default function GalleryStats({ refreshTrigger }: GalleryStatsProps) {
                 Synchronization Issues ({syncStatus.discrepancies.length})
               </h3>
               <div className="space-y-3 max-h-96 overflow-y-auto">
-                {syncStatus.discrepancies.map((discrepancy, index) => (
+                {syncStatus.discrepancies.map((discrepancy) => (
                   <div
-                    key={index}
+                    key={discrepancy.cloudinaryId}
                     className="flex items-start space-x-3 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800/50 rounded-xl"
                   >
                     <div className="flex-shrink-0 mt-0.5">
-                      <svg className="w-5 h-5 text-red-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                      </svg>
+                      <input
+                        type="checkbox"
+                        checked={selectedDiscrepancies.has(discrepancy.cloudinaryId)}
+                        onChange={() => toggleDiscrepancy(discrepancy.cloudinaryId)}
+                        className="w-4 h-4 text-blue-600 border-2 border-gray-300 dark:border-gray-600 rounded"
+                      />
                     </div>
-                    <p className="text-sm text-red-800 dark:text-red-300 flex-1">
-                      {discrepancy}
-                    </p>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-red-800 dark:text-red-300">
+                        {discrepancy.message}
+                      </p>
+                      {discrepancy.differences && (
+                        <ul className="mt-2 text-xs text-red-700 dark:text-red-300 space-y-0.5">
+                          {discrepancy.differences.map(difference => (
+                            <li key={difference.field} className="break-all">
+                              <span className="font-medium">{difference.field}:</span>{' '}
+                              MongoDB {String(difference.mongoValue ?? '—')} / Cloudinary {String(difference.cloudinaryValue ?? '—')}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      <span className="inline-flex mt-2 items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300">
+                        {discrepancyKindLabels[discrepancy.kind]}
+                      </span>
+                    </div>
+                    <select
+                      value={repairActions[discrepancy.cloudinaryId] || ''}
+                      onChange={(e) => {
+                        const action = e.target.value as SyncRepairAction | '';
+                        setRepairActions(prev => {
+                          const next = { ...prev };
+                          if (action) {
+                            next[discrepancy.cloudinaryId] = action;
+                          } else {
+                            delete next[discrepancy.cloudinaryId];
+                          }
+                          return next;
+                        });
+                        setRepairPlan(null);
+                      }}
+                      className="text-sm flex-shrink-0"
+                    >
+                      {getRepairActionOptions(discrepancy).map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
                   </div>
                 ))}
               </div>
-              
-              <div className="mt-6 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-xl">
-                <h4 className="text-sm font-medium text-blue-900 dark:text-blue-300 mb-2">Recommended Actions:</h4>
-                <ul className="text-sm text-blue-800 dark:text-blue-300 space-y-1">
-                  <li>• Review and delete orphaned records</li>
-                  <li>• Re-upload missing images if needed</li>
-                  <li>• Check for network connectivity issues</li>
-                  <li>• Verify API credentials are correct</li>
-                </ul>
+
+              {/* Repair Plan */}
+              {repairPlan && (
+                <div className="mt-6 p-4 bg-gray-50 dark:bg-gray-800/50 border border-gray-200 dark:border-gray-700 rounded-xl">
+                  <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Repair Preview:</h4>
+                  <ul className="text-sm text-gray-700 dark:text-gray-300 space-y-1">
+                    {repairPlan.results.map((result) => (
+                      <li key={result.cloudinaryId}>
+                        • {result.message}
+                        {result.status === 'skipped' && <span className="text-yellow-600 dark:text-yellow-400"> (skipped)</span>}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="mt-6 flex flex-wrap gap-3 justify-end">
+                <button
+                  onClick={() => runRepair(true)}
+                  disabled={repairLoading || selectedDiscrepancies.size === 0}
+                  className="btn-secondary px-4 py-2 text-sm disabled:opacity-50"
+                >
+                  Preview Repairs
+                </button>
+                <button
+                  onClick={() => runRepair(false)}
+                  disabled={repairLoading || selectedDiscrepancies.size === 0}
+                  className="btn-primary px-4 py-2 text-sm disabled:opacity-50"
+                >
+                  {repairLoading ? 'Repairing...' : `Repair Selected (${selectedDiscrepancies.size})`}
+                </button>
               </div>
             </div>
           </div>
@@ -1,52 +1,276 @@
 'use client';
 
-import { useState, useRef, ChangeEvent, FormEvent } from 'react';
+import { useState, useRef, useEffect, ChangeEvent, FormEvent } from 'react';
 import { useNotify } from './Notifications';
+import { useAuth } from './Auth';
+import TagInput from './TagInput';
+import { DEFAULT_RESIZE_SETTINGS, resizeImageFile, ResizeResult, resizeSettingsKey } from '../lib/browserImageResize';
+import { ApiResponse, ImportJob, ImportUrlReport, OriginalImageInfo, ResizeSettings, UploadedImage, UploadPolicy, UploadSessionProgress } from '../types/gallery';
 
 interface ImageUploadProps {
-  onUploadSuccess?: (image: any) => void;
+  onUploadSuccess?: (images: UploadedImage[]) => void;
   onUploadError?: (error: string) => void;
 }
 
+type QueueItemStatus = 'pending' | 'uploading' | 'uploaded' | 'failed' | 'cancelled';
+
+interface QueueItem {
+  id: string;
+  file: File;
+  preview: string;
+  title: string;
+  status: QueueItemStatus;
+  error?: string;
+  // Resumable upload session for large files, kept so a retry continues where it stopped
+  uploadId?: string;
+  // ID sent with a single-request upload so the server can drop it if it is cancelled
+  requestId?: string;
+  bytesSent?: number;
+  // When the current attempt started and how many bytes were already sent then, for the time estimate
+  startedAt?: number;
+  startBytes?: number;
+  // Smaller copy made in the browser, and the resize settings the item was last prepared with
+  resized?: ResizeResult;
+  resizeKey?: string;
+}
+
+// How many files are sent to the server at the same time
+const MAX_CONCURRENT_UPLOADS = 3;
+// Browsers often leave the type empty for HEIC and AVIF photos; the server identifies them from their contents
+const UNTYPED_IMAGE_PATTERN = /\.(avif|heic|heif)$/i;
+// Files up to this size go in one request; larger ones are sent in chunks that survive a dropped connection
+const SINGLE_REQUEST_LIMIT = 10 * 1024 * 1024; // 10MB
+// Used until the server's upload policy has loaded
+const DEFAULT_MAX_FILE_SIZE = 200 * 1024 * 1024; // 200MB
+const DEFAULT_FORMATS = ['jpg', 'png', 'gif', 'webp', 'avif', 'heic', 'tiff'];
+// Other names for formats, as found in MIME subtypes and file extensions
+const FORMAT_ALIASES: Record<string, string> = { jpeg: 'jpg', tif: 'tiff', heif: 'heic', 'svg+xml': 'svg' };
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+
+const statusStyles: Record<QueueItemStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  uploading: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  uploaded: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  cancelled: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+};
+
+const titleFromFilename = (filename: string) => filename.replace(/\.[^.]+$/, '').replace(/[_-]/g, ' ').trim() || filename;
+
+// randomUUID is only available on secure origins, so fall back to a random string elsewhere
+const newRequestId = () => typeof crypto.randomUUID === 'function'
+  ? crypto.randomUUID()
+  : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+
+// Long edges offered for resizing, in pixels
+const LONG_EDGE_OPTIONS = [1024, 1600, 2048, 3072, 4096];
+
+// Size of what will actually be sent for an item
+const sendSize = (item: QueueItem) => item.resized?.file.size ?? item.file.size;
+
+const sameResizeSettings = (first: ResizeSettings, second: ResizeSettings) =>
+  first.enabled === second.enabled && first.maxLongEdge === second.maxLongEdge && first.quality === second.quality;
+
+// Guess a file's format from its type, or its extension when the browser gave no type
+const formatOfFile = (file: File) => {
+  const name = file.type.startsWith('image/') ? file.type.slice('image/'.length) : file.name.split('.').pop()?.toLowerCase() || '';
+  return FORMAT_ALIASES[name] || name;
+};
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// Send a request with XMLHttpRequest, which unlike fetch reports how much of the body has gone out
+function sendWithProgress<T>(
+  method: string,
+  url: string,
+  body: XMLHttpRequestBodyInit,
+  options: { headers?: Record<string, string>; signal: AbortSignal; onProgress: (loaded: number) => void }
+): Promise<{ status: number; result: ApiResponse<T> }> {
+  return new Promise((resolve, reject) => {
+    if (options.signal.aborted) {
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    Object.entries(options.headers || {}).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    xhr.upload.onprogress = event => options.onProgress(event.loaded);
+    xhr.onload = () => {
+      try {
+        resolve({ status: xhr.status, result: JSON.parse(xhr.responseText) });
+      } catch {
+        reject(new Error(`Upload failed with status ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Network error during upload'));
+    xhr.onabort = () => reject(new DOMException('Upload cancelled', 'AbortError'));
+    options.signal.addEventListener('abort', () => xhr.abort(), { once: true });
+
+    xhr.send(body);
+  });
+}
+
 export default function ImageUpload({ onUploadSuccess, onUploadError }: ImageUploadProps) {
-  const [title, setTitle] = useState('');
+  const [queue, setQueue] = useState<QueueItem[]>([]);
   const [description, setDescription] = useState('');
   const [tags, setTags] = useState('');
   const [isPublic, setIsPublic] = useState(true);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [preview, setPreview] = useState<string | null>(null);
+  const [policy, setPolicy] = useState<UploadPolicy | null>(null);
+  const [resizeSettings, setResizeSettings] = useState<ResizeSettings>(DEFAULT_RESIZE_SETTINGS);
+  const [stripGps, setStripGps] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [dragOver, setDragOver] = useState(false);
+  const [importUrls, setImportUrls] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [importJob, setImportJob] = useState<ImportJob | null>(null);
+  const [isStartingZipImport, setIsStartingZipImport] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const previewsRef = useRef<string[]>([]);
+  // Abort controllers for the uploads in flight, by queue item ID
+  const abortControllersRef = useRef(new Map<string, AbortController>());
   const notify = useNotify();
+  const { user, saveUploadSettings } = useAuth();
+  // The user whose saved resize settings have been loaded into the form
+  const settingsLoadedForRef = useRef<string | null>(null);
+  const resizingRef = useRef(false);
+  const resizeKey = resizeSettingsKey(resizeSettings);
+
+  // Load the upload rules so files can be checked before they are sent
+  useEffect(() => {
+    const loadPolicy = async () => {
+      try {
+        const response = await fetch('/api/upload-policy');
+        const result: ApiResponse<UploadPolicy> = await response.json();
+        if (result.success && result.data) {
+          setPolicy(result.data);
+          setIsPublic(result.data.defaultIsPublic);
+        }
+      } catch (error) {
+        console.error('Error loading upload policy:', error);
+      }
+    };
+
+    loadPolicy();
+  }, []);
+
+  // Start from the resize settings the signed-in user chose last time
+  useEffect(() => {
+    if (user && settingsLoadedForRef.current !== user.id) {
+      settingsLoadedForRef.current = user.id;
+      setResizeSettings(user.uploadSettings || DEFAULT_RESIZE_SETTINGS);
+    }
+  }, [user]);
 
-  const handleFileSelect = (file: File) => {
-    if (!file.type.startsWith('image/')) {
-      notify.error('Invalid File Type', 'Please select a valid image file (JPG, PNG, GIF, WebP).');
+  // Remember changed resize settings shortly after the last change
+  useEffect(() => {
+    if (!user || settingsLoadedForRef.current !== user.id ||
+        sameResizeSettings(user.uploadSettings || DEFAULT_RESIZE_SETTINGS, resizeSettings)) {
       return;
     }
 
-    if (file.size > 10 * 1024 * 1024) { // 10MB limit
-      notify.error('File Too Large', 'File size must be less than 10MB. Please choose a smaller image.');
+    const timer = setTimeout(() => {
+      saveUploadSettings(resizeSettings).catch(error => console.error('Error saving upload settings:', error));
+    }, 800);
+
+    return () => clearTimeout(timer);
+  }, [user, resizeSettings, saveUploadSettings]);
+
+  // Resize queued files one at a time, so the queue can show what will be sent
+  useEffect(() => {
+    if (resizingRef.current) {
+      return;
+    }
+    const next = queue.find(item => item.status === 'pending' && item.resizeKey !== resizeKey);
+    if (!next) {
       return;
     }
 
-    setSelectedFile(file);
-    
-    // Create preview
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      setPreview(e.target?.result as string);
-    };
-    reader.readAsDataURL(file);
+    resizingRef.current = true;
+    resizeImageFile(next.file, resizeSettings)
+      .catch(() => null)
+      .then(resized => {
+        resizingRef.current = false;
+        updateItem(next.id, { resized: resized || undefined, resizeKey });
+      });
+  }, [queue, resizeKey, resizeSettings]);
+
+  const maxFileSize = policy?.maxBytes ?? DEFAULT_MAX_FILE_SIZE;
+  const allowedFormats = policy?.allowedFormats ?? DEFAULT_FORMATS;
+  const formatList = allowedFormats.map(format => format.toUpperCase()).join(', ');
+  const requiresDescription = !!policy?.requiredFields.includes('description');
+  const requiresTags = !!policy?.requiredFields.includes('tags');
+  const dimensionRules = [
+    policy?.minWidth && `At least ${policy.minWidth}px wide`,
+    policy?.minHeight && `At least ${policy.minHeight}px high`,
+    policy?.maxWidth && `At most ${policy.maxWidth}px wide`,
+    policy?.maxHeight && `At most ${policy.maxHeight}px high`,
+  ].filter((rule): rule is string => !!rule);
+
+  // Release preview URLs when the component goes away
+  useEffect(() => {
+    const previews = previewsRef.current;
+    return () => previews.forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  // Follow a ZIP import until the server reports it finished
+  const importJobId = importJob?._id?.toString();
+  const importJobRunning = importJob?.status === 'queued' || importJob?.status === 'running';
+  useEffect(() => {
+    if (!importJobId || !importJobRunning) {
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/import-jobs/${importJobId}?outcome=skipped,failed`);
+        const result: ApiResponse<ImportJob> = await response.json();
+        if (result.success && result.data) {
+          setImportJob(result.data);
+        }
+      } catch (error) {
+        console.error('Error checking import job:', error);
+      }
+    }, 1500);
 
-    // Auto-fill title if empty
-    if (!title) {
-      const fileName = file.name.split('.')[0];
-      setTitle(fileName.replace(/[_-]/g, ' '));
+    return () => clearTimeout(timer);
+  }, [importJobId, importJobRunning, importJob]);
+
+  const handleFilesSelect = (files: File[]) => {
+    const accepted: QueueItem[] = [];
+    const rejected: string[] = [];
+
+    for (const file of files) {
+      const isImage = file.type.startsWith('image/') || (!file.type && UNTYPED_IMAGE_PATTERN.test(file.name));
+      if (!isImage || !allowedFormats.includes(formatOfFile(file)) || file.size > maxFileSize) {
+        rejected.push(file.name);
+        continue;
+      }
+
+      const preview = URL.createObjectURL(file);
+      previewsRef.current.push(preview);
+      accepted.push({
+        id: `${file.name}-${file.size}-${file.lastModified}-${Math.random().toString(36).slice(2)}`,
+        file,
+        preview,
+        title: titleFromFilename(file.name),
+        status: 'pending',
+      });
     }
 
-    notify.success('File Selected', `Selected ${file.name} (${formatFileSize(file.size)})`);
+    if (rejected.length > 0) {
+      notify.error(
+        'Some Files Skipped',
+        `${rejected.join(', ')} ${rejected.length === 1 ? 'is' : 'are'} not an accepted image (${formatList}) under ${formatFileSize(maxFileSize)}.`
+      );
+    }
+
+    if (accepted.length > 0) {
+      setQueue(prev => [...prev, ...accepted]);
+      notify.success('Files Added', `Added ${accepted.length} ${accepted.length === 1 ? 'file' : 'files'} to the upload queue.`);
+    }
   };
 
   const formatFileSize = (bytes: number): string => {
@@ -57,11 +281,27 @@ export default function ImageUpload({ onUploadSuccess, onUploadError }: ImageUpl
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      handleFileSelect(file);
+  // Estimate the time left from the average speed of the current attempt; null until there is enough to go on
+  const formatTimeRemaining = (item: QueueItem): string | null => {
+    if (item.bytesSent === undefined || item.startedAt === undefined) {
+      return null;
     }
+
+    const elapsed = (Date.now() - item.startedAt) / 1000;
+    const sent = item.bytesSent - (item.startBytes || 0);
+    if (elapsed < 1 || sent <= 0) {
+      return null;
+    }
+
+    const seconds = Math.ceil((sendSize(item) - item.bytesSent) / (sent / elapsed));
+    if (seconds < 60) return `${seconds}s left`;
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s left`;
+    return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m left`;
+  };
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    handleFilesSelect(Array.from(e.target.files || []));
+    e.target.value = '';
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -77,95 +317,353 @@ export default function ImageUpload({ onUploadSuccess, onUploadError }: ImageUpl
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setDragOver(false);
-    
-    const file = e.dataTransfer.files?.[0];
-    if (file) {
-      handleFileSelect(file);
+    handleFilesSelect(Array.from(e.dataTransfer.files || []));
+  };
+
+  const updateItem = (id: string, changes: Partial<QueueItem>) => {
+    setQueue(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const removeItems = (shouldRemove: (item: QueueItem) => boolean) => {
+    const removed = queue.filter(shouldRemove);
+
+    // Unfinished resumable uploads are cancelled so the server can drop their chunks
+    removed
+      .filter(item => item.uploadId && item.status !== 'uploaded')
+      .forEach(item => fetch(`/api/uploads/${item.uploadId}`, { method: 'DELETE' }).catch(() => undefined));
+    removed.forEach(item => URL.revokeObjectURL(item.preview));
+
+    setQueue(prev => prev.filter(item => !shouldRemove(item)));
+  };
+
+  // Get the file to send for an item: the resized copy made for the queue, or a new one if the
+  // settings changed since. resizedFrom is set when the file was resized.
+  const prepareFile = async (item: QueueItem): Promise<{ file: File; resizedFrom?: OriginalImageInfo }> => {
+    let resized = item.resized;
+    if (item.resizeKey !== resizeKey) {
+      resized = (await resizeImageFile(item.file, resizeSettings).catch(() => null)) || undefined;
+      updateItem(item.id, { resized, resizeKey });
     }
+    return resized ? { file: resized.file, resizedFrom: resized.original } : { file: item.file };
   };
 
-  const handleSubmit = async (e: FormEvent) => {
-    e.preventDefault();
-    
-    if (!selectedFile) {
-      notify.error('No File Selected', 'Please select an image to upload.');
-      return;
+  // Send a large file in chunks, resuming a previous attempt when the server still has it
+  const uploadResumable = async (
+    item: QueueItem,
+    { file, resizedFrom }: { file: File; resizedFrom?: OriginalImageInfo },
+    signal: AbortSignal
+  ): Promise<UploadedImage> => {
+    let uploadId = item.uploadId;
+    let offset = 0;
+    let chunkSize = DEFAULT_CHUNK_SIZE;
+
+    if (uploadId) {
+      const response = await fetch(`/api/uploads/${uploadId}`, { signal });
+      const result: ApiResponse<UploadSessionProgress> = await response.json();
+      if (result.success && result.data && result.data.totalBytes === file.size) {
+        offset = result.data.offset;
+      } else {
+        // The earlier attempt sent a different file, resized with other settings, so start again
+        if (result.success) {
+          fetch(`/api/uploads/${uploadId}`, { method: 'DELETE' }).catch(() => undefined);
+        }
+        uploadId = undefined;
+      }
     }
 
-    if (!title.trim()) {
-      notify.error('Title Required', 'Please enter a title for the image.');
-      return;
+    if (!uploadId) {
+      const response = await fetch('/api/uploads', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          filename: file.name,
+          mimeType: file.type,
+          totalBytes: file.size,
+          title: item.title.trim() || titleFromFilename(file.name),
+          description: description.trim(),
+          tags,
+          isPublic,
+          stripGps,
+          resizedFrom,
+        }),
+        signal,
+      });
+      const result: ApiResponse<UploadSessionProgress & { chunkSize: number }> = await response.json();
+      if (!result.success || !result.data) {
+        throw new Error(result.error || result.message || 'Upload failed');
+      }
+
+      uploadId = result.data.id;
+      chunkSize = result.data.chunkSize || DEFAULT_CHUNK_SIZE;
+      updateItem(item.id, { uploadId });
     }
 
-    setIsUploading(true);
+    updateItem(item.id, { bytesSent: offset, startedAt: Date.now(), startBytes: offset });
+
+    while (offset < file.size) {
+      const chunkStart = offset;
+      const { status, result } = await sendWithProgress<{ offset: number }>(
+        'PATCH',
+        `/api/uploads/${uploadId}`,
+        file.slice(offset, offset + chunkSize),
+        {
+          headers: {
+            'Content-Type': 'application/offset+octet-stream',
+            'Upload-Offset': String(offset),
+          },
+          signal,
+          onProgress: loaded => updateItem(item.id, { bytesSent: chunkStart + loaded }),
+        }
+      );
+
+      // On a conflict the server says where it is, so continue from there
+      if (!result.data || (!result.success && status !== 409)) {
+        throw new Error(result.error || result.message || 'Upload failed');
+      }
+
+      offset = result.data.offset;
+      updateItem(item.id, { bytesSent: offset });
+    }
+
+    const response = await fetch(`/api/uploads/${uploadId}/complete`, { method: 'POST', signal });
+    const result: ApiResponse<UploadedImage> = await response.json();
+    if (!result.success || !result.data) {
+      throw new Error(result.error || result.message || 'Upload failed');
+    }
+    return result.data;
+  };
+
+  // Upload one queued file; returns the created image, or why there is none
+  const uploadItem = async (item: QueueItem): Promise<UploadedImage | 'failed' | 'cancelled'> => {
+    const controller = new AbortController();
+    abortControllersRef.current.set(item.id, controller);
+    // A new ID each attempt, since the server refuses IDs that were cancelled
+    const requestId = newRequestId();
+    updateItem(item.id, { status: 'uploading', error: undefined, requestId, bytesSent: undefined });
 
     try {
+      const upload = await prepareFile(item);
+      if (controller.signal.aborted) {
+        throw new DOMException('Upload cancelled', 'AbortError');
+      }
+
+      if (upload.file.size > SINGLE_REQUEST_LIMIT) {
+        const image = await uploadResumable(item, upload, controller.signal);
+        updateItem(item.id, { status: 'uploaded' });
+        return image;
+      }
+
       const formData = new FormData();
-      formData.append('file', selectedFile);
-      formData.append('title', title.trim());
+      formData.append('file', upload.file);
+      formData.append('title', item.title.trim() || titleFromFilename(item.file.name));
       formData.append('description', description.trim());
       formData.append('tags', tags);
       formData.append('isPublic', isPublic.toString());
+      formData.append('stripGps', stripGps.toString());
+      formData.append('uploadId', requestId);
+      if (upload.resizedFrom) {
+        formData.append('resizedFrom', JSON.stringify(upload.resizedFrom));
+      }
 
-      const response = await fetch('/api/images/upload', {
-        method: 'POST',
-        body: formData,
+      updateItem(item.id, { bytesSent: 0, startedAt: Date.now(), startBytes: 0 });
+      const { result } = await sendWithProgress<UploadedImage>('POST', '/api/images/upload', formData, {
+        signal: controller.signal,
+        // The form adds a little to the file's size, so cap the count at the file size
+        onProgress: loaded => updateItem(item.id, { bytesSent: Math.min(loaded, upload.file.size) }),
       });
 
-      const result = await response.json();
-
-      if (result.success) {
-        // Reset form
-        setTitle('');
-        setDescription('');
-        setTags('');
-        setIsPublic(true);
-        setSelectedFile(null);
-        setPreview(null);
-        if (fileInputRef.current) {
-          fileInputRef.current.value = '';
+      if (!result.success || !result.data) {
+        throw new Error(result.error || result.message || 'Upload failed');
+      }
+
+      updateItem(item.id, { status: 'uploaded' });
+      return result.data;
+    } catch (error) {
+      if (controller.signal.aborted || isAbortError(error)) {
+        // The server discarded the partial upload, so a retry starts from the beginning
+        updateItem(item.id, { status: 'cancelled', uploadId: undefined, bytesSent: undefined });
+        return 'cancelled';
+      }
+      console.error(`Upload error for ${item.file.name}:`, error);
+      updateItem(item.id, { status: 'failed', error: error instanceof Error ? error.message : 'Upload failed' });
+      return 'failed';
+    } finally {
+      abortControllersRef.current.delete(item.id);
+    }
+  };
+
+  // Stop an upload in progress and have the server discard whatever it already received or stored
+  const cancelItem = (item: QueueItem) => {
+    abortControllersRef.current.get(item.id)?.abort();
+
+    const url = item.uploadId
+      ? `/api/uploads/${item.uploadId}`
+      : `/api/images/upload?uploadId=${encodeURIComponent(item.requestId || '')}`;
+    fetch(url, { method: 'DELETE' }).catch(() => undefined);
+  };
+
+  // Upload the given items, a few at a time
+  const uploadItems = async (items: QueueItem[]) => {
+    if (!user) {
+      notify.error('Sign In Required', 'Please sign in to upload images.');
+      return;
+    }
+    if (items.length === 0) {
+      return;
+    }
+    if (requiresDescription && !description.trim()) {
+      notify.error('Description Required', 'Please add a description; every image needs one.');
+      return;
+    }
+    if (requiresTags && !tags.split(',').some(tag => tag.trim())) {
+      notify.error('Tags Required', 'Please add at least one tag; every image needs one.');
+      return;
+    }
+
+    setIsUploading(true);
+
+    const uploaded: UploadedImage[] = [];
+    let failed = 0;
+    let next = 0;
+
+    const worker = async () => {
+      while (next < items.length) {
+        const outcome = await uploadItem(items[next++]);
+        if (outcome === 'failed') {
+          failed++;
+        } else if (outcome !== 'cancelled') {
+          uploaded.push(outcome);
         }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_UPLOADS, items.length) }, worker));
+    setIsUploading(false);
+
+    if (failed > 0) {
+      const errorMessage = `${failed} of ${items.length} ${items.length === 1 ? 'upload' : 'uploads'} failed. Retry them from the queue.`;
+      if (onUploadError) {
+        onUploadError(errorMessage);
+      }
+    } else if (onUploadSuccess && uploaded.length > 0) {
+      onUploadSuccess(uploaded);
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const pending = queue.filter(item => item.status === 'pending');
+    if (pending.length === 0) {
+      notify.error('No Files Queued', 'Please add images to upload.');
+      return;
+    }
+
+    await uploadItems(pending);
+  };
+
+  // Have the server fetch the listed URLs, one per line, using the shared description, tags and visibility
+  const importFromUrls = async () => {
+    if (!user) {
+      notify.error('Sign In Required', 'Please sign in to import images.');
+      return;
+    }
+
+    const urls = importUrls.split(/\s+/).map(url => url.trim()).filter(url => url.length > 0);
+    if (urls.length === 0) {
+      notify.error('No URLs Entered', 'Please enter at least one image URL.');
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const response = await fetch('/api/images/import-url', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ urls, description, tags, isPublic, stripGps }),
+      });
+      const result: ApiResponse<ImportUrlReport> = await response.json();
 
-        notify.success(
-          'Upload Successful!',
-          `${result.data.title} has been uploaded to your gallery.`,
-          {
-            action: {
-              label: 'View Gallery',
-              onClick: () => window.location.hash = '#gallery'
-            }
-          }
-        );
-
-        if (onUploadSuccess) {
-          onUploadSuccess(result.data);
+      if (!result.data) {
+        throw new Error(result.error || 'Import failed');
+      }
+
+      const imported = result.data.results.filter(item => item.outcome !== 'failed');
+      const failed = result.data.results.filter(item => item.outcome === 'failed');
+
+      // Keep the URLs that failed so they can be corrected and tried again
+      setImportUrls(failed.map(item => item.url).join('\n'));
+
+      if (failed.length > 0) {
+        const details = failed.map(item => `${item.url}: ${item.error}`).join('; ');
+        if (onUploadError) {
+          onUploadError(`${failed.length} of ${urls.length} imports failed. ${details}`);
         }
-      } else {
-        throw new Error(result.error || result.message || 'Upload failed');
+      } else if (onUploadSuccess) {
+        onUploadSuccess(imported.map(item => item.image!));
       }
     } catch (error) {
-      console.error('Upload error:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Upload failed';
-      
-      notify.error('Upload Failed', errorMessage);
-      
+      console.error('Import error:', error);
       if (onUploadError) {
-        onUploadError(errorMessage);
+        onUploadError(error instanceof Error ? error.message : 'Import failed');
       }
     } finally {
-      setIsUploading(false);
+      setIsImporting(false);
     }
   };
 
-  const clearSelection = () => {
-    setSelectedFile(null);
-    setPreview(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
+  // Send a ZIP archive to be imported in the background, with the shared description, tags and visibility
+  const importZip = async (e: ChangeEvent<HTMLInputElement>) => {
+    const archive = e.target.files?.[0];
+    e.target.value = '';
+    if (!archive) {
+      return;
+    }
+    if (!user) {
+      notify.error('Sign In Required', 'Please sign in to import images.');
+      return;
+    }
+
+    setIsStartingZipImport(true);
+    try {
+      const formData = new FormData();
+      formData.append('archive', archive);
+      formData.append('description', description);
+      formData.append('tags', tags);
+      formData.append('isPublic', isPublic.toString());
+      formData.append('stripGps', stripGps.toString());
+
+      const response = await fetch('/api/images/import-zip', { method: 'POST', body: formData });
+      const result: ApiResponse<ImportJob> = await response.json();
+
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Import failed');
+      }
+
+      setImportJob(result.data);
+      notify.info('Import Started', `${archive.name} is being imported. You can keep using the gallery meanwhile.`);
+    } catch (error) {
+      console.error('ZIP import error:', error);
+      if (onUploadError) {
+        onUploadError(error instanceof Error ? error.message : 'Import failed');
+      }
+    } finally {
+      setIsStartingZipImport(false);
     }
-    notify.info('Selection Cleared', 'File selection has been cleared.');
   };
 
+  const retryFailed = () => uploadItems(queue.filter(item => item.status === 'failed'));
+
+  const clearQueue = () => {
+    removeItems(item => item.status !== 'uploading');
+    notify.info('Queue Cleared', 'The upload queue has been cleared.');
+  };
+
+  const pendingCount = queue.filter(item => item.status === 'pending').length;
+  const failedCount = queue.filter(item => item.status === 'failed').length;
+  const uploadedCount = queue.filter(item => item.status === 'uploaded').length;
+  const cancelledCount = queue.filter(item => item.status === 'cancelled').length;
+
   return (
     <div className="max-w-4xl mx-auto">
       <div className="card p-8">
@@ -177,189 +675,331 @@ export default function ImageUpload({ onUploadSuccess, onUploadError }: ImageUpl
             </svg>
           </div>
           <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
-            Upload New Image
+            Upload Images
           </h2>
           <p className="text-gray-600 dark:text-gray-300">
-            Share your photos with the world. Drag and drop or click to select your image.
+            Share your photos with the world. Drag and drop or click to select one or more images.
           </p>
+          {!user && (
+            <p className="mt-4 text-sm text-yellow-700 dark:text-yellow-300 bg-yellow-50 dark:bg-yellow-900/20 rounded-xl px-4 py-3">
+              Sign in to upload images. Uploads are credited to your account and only you or an admin can change them.
+            </p>
+          )}
         </div>
-        
+
         <form onSubmit={handleSubmit} className="space-y-8">
           {/* File Upload Area */}
           <div className="space-y-4">
             <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300">
-              Select Image *
+              Select Images *
             </label>
-            
+
             <div
               className={`
                 relative border-2 border-dashed rounded-2xl p-12 text-center transition-all duration-300 cursor-pointer
                 ${dragOver
                   ? 'border-blue-400 bg-blue-50 dark:bg-blue-900/20 scale-105'
-                  : selectedFile
-                  ? 'border-green-400 bg-green-50 dark:bg-green-900/20'
                   : 'border-gray-300 dark:border-gray-600 hover:border-gray-400 dark:hover:border-gray-500 hover:bg-gray-50 dark:hover:bg-gray-800/50'
                 }
               `}
               onDragOver={handleDragOver}
               onDragLeave={handleDragLeave}
               onDrop={handleDrop}
-              onClick={() => !selectedFile && fileInputRef.current?.click()}
+              onClick={() => fileInputRef.current?.click()}
             >
-              {preview ? (
-                <div className="space-y-6">
-                  <div className="relative inline-block">
-                    <img
-                      src={preview}
-                      alt="Preview"
-                      className="max-w-full max-h-80 mx-auto rounded-xl shadow-lg border-4 border-white dark:border-gray-700"
-                    />
-                    <div className="absolute -top-2 -right-2">
-                      <button
-                        type="button"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          clearSelection();
-                        }}
-                        className="w-8 h-8 bg-red-500 text-white rounded-full flex items-center justify-center hover:bg-red-600 transition-colors shadow-lg"
-                      >
-                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                        </svg>
-                      </button>
-                    </div>
-                  </div>
-                  
-                  <div className="bg-white dark:bg-gray-800 rounded-lg p-4 border border-gray-200 dark:border-gray-700 inline-block">
-                    <div className="flex items-center space-x-3">
-                      <div className="flex-shrink-0">
-                        <svg className="w-8 h-8 text-green-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
-                        </svg>
-                      </div>
-                      <div className="text-left">
-                        <p className="font-medium text-gray-900 dark:text-white">{selectedFile?.name}</p>
-                        <p className="text-sm text-gray-500 dark:text-gray-400">
-                          {selectedFile && formatFileSize(selectedFile.size)} • Ready to upload
-                        </p>
-                      </div>
-                    </div>
-                  </div>
+              <div className="space-y-6">
+                <div className="mx-auto w-24 h-24 bg-gradient-to-br from-blue-100 to-purple-100 dark:from-blue-900/50 dark:to-purple-900/50 rounded-full flex items-center justify-center">
+                  <svg className="w-12 h-12 text-blue-600 dark:text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 48 48">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M28 8H12a4 4 0 00-4 4v20m32-12v8m0 0v8a4 4 0 01-4 4H12a4 4 0 01-4-4v-4m32-4l-3.172-3.172a4 4 0 00-5.656 0L28 28M8 32l9.172-9.172a4 4 0 015.656 0L28 28m0 0l4 4m4-24h8m-4-4v8m-12 4h.02" />
+                  </svg>
                 </div>
-              ) : (
-                <div className="space-y-6">
-                  <div className="mx-auto w-24 h-24 bg-gradient-to-br from-blue-100 to-purple-100 dark:from-blue-900/50 dark:to-purple-900/50 rounded-full flex items-center justify-center">
-                    <svg className="w-12 h-12 text-blue-600 dark:text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 48 48">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M28 8H12a4 4 0 00-4 4v20m32-12v8m0 0v8a4 4 0 01-4 4H12a4 4 0 01-4-4v-4m32-4l-3.172-3.172a4 4 0 00-5.656 0L28 28M8 32l9.172-9.172a4 4 0 015.656 0L28 28m0 0l4 4m4-24h8m-4-4v8m-12 4h.02" />
-                    </svg>
-                  </div>
-                  
-                  <div>
-                    <p className="text-xl font-semibold text-gray-700 dark:text-gray-300 mb-2">
-                      Drop your image here, or{' '}
-                      <span className="text-blue-600 dark:text-blue-400 underline cursor-pointer hover:text-blue-700 dark:hover:text-blue-300">
-                        browse files
-                      </span>
-                    </p>
-                    <p className="text-gray-500 dark:text-gray-400">
-                      Supports JPG, PNG, GIF, WebP • Maximum size: 10MB
+
+                <div>
+                  <p className="text-xl font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                    Drop your images here, or{' '}
+                    <span className="text-blue-600 dark:text-blue-400 underline cursor-pointer hover:text-blue-700 dark:hover:text-blue-300">
+                      browse files
+                    </span>
+                  </p>
+                  <p className="text-gray-500 dark:text-gray-400">
+                    Supports {formatList} • Maximum size: {formatFileSize(maxFileSize)} per file
+                  </p>
+                  {dimensionRules.length > 0 && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                      {dimensionRules.join(' • ')}
                     </p>
-                  </div>
-                  
-                  <div className="flex justify-center">
-                    <div className="flex items-center space-x-6 text-sm text-gray-500 dark:text-gray-400">
-                      <div className="flex items-center space-x-1">
-                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
-                        </svg>
-                        <span>Secure</span>
-                      </div>
-                      <div className="flex items-center space-x-1">
-                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-                        </svg>
-                        <span>Fast</span>
-                      </div>
-                      <div className="flex items-center space-x-1">
-                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
-                        </svg>
-                        <span>Cloud Storage</span>
-                      </div>
+                  )}
+                </div>
+
+                <div className="flex justify-center">
+                  <div className="flex items-center space-x-6 text-sm text-gray-500 dark:text-gray-400">
+                    <div className="flex items-center space-x-1">
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                      </svg>
+                      <span>Secure</span>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                      </svg>
+                      <span>Fast</span>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                      <span>Cloud Storage</span>
                     </div>
                   </div>
                 </div>
-              )}
+              </div>
             </div>
-            
+
             <input
               type="file"
               ref={fileInputRef}
               onChange={handleFileChange}
-              accept="image/*"
+              accept="image/*,.heic,.heif,.avif"
+              multiple
               className="hidden"
             />
           </div>
 
+          {/* Import from URL */}
+          <div className="space-y-3">
+            <label htmlFor="importUrls" className="block text-sm font-semibold text-gray-700 dark:text-gray-300">
+              Or Import from URL
+            </label>
+            <div className="flex flex-col sm:flex-row gap-3">
+              <textarea
+                id="importUrls"
+                value={importUrls}
+                onChange={(e) => setImportUrls(e.target.value)}
+                rows={2}
+                placeholder="https://example.com/photo.jpg (one URL per line)"
+                className="flex-1 px-4 py-3 text-gray-900 dark:text-white resize-none"
+              />
+              <button
+                type="button"
+                onClick={importFromUrls}
+                disabled={isImporting || isUploading || !user || importUrls.trim().length === 0}
+                className="btn-secondary px-6 py-3 text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isImporting ? 'Importing...' : 'Import'}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              The server downloads each image (up to 10MB) and applies the description, tags and visibility below.
+            </p>
+          </div>
+
+          {/* Import ZIP archive */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="text-sm font-semibold text-gray-700 dark:text-gray-300">Or Import a ZIP Archive</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Add a manifest.json or manifest.csv to set each file&apos;s title, description, tags and visibility.
+                  Otherwise titles come from file names.
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => zipInputRef.current?.click()}
+                disabled={isStartingZipImport || importJobRunning || !user}
+                className="btn-secondary px-6 py-3 text-sm font-semibold whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isStartingZipImport ? 'Sending...' : importJobRunning ? 'Importing...' : 'Choose ZIP'}
+              </button>
+              <input
+                type="file"
+                ref={zipInputRef}
+                onChange={importZip}
+                accept=".zip,application/zip"
+                className="hidden"
+              />
+            </div>
+
+            {importJob && (
+              <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-4 text-sm space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-gray-900 dark:text-white truncate">{importJob.filename}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400 capitalize">{importJob.status}</span>
+                </div>
+                <p className="text-gray-600 dark:text-gray-300">
+                  {importJob.imported + importJob.skipped + importJob.failed} of {importJob.total} entries processed •{' '}
+                  {importJob.imported} imported • {importJob.skipped} skipped • {importJob.failed} failed
+                </p>
+                {importJob.error && (
+                  <p className="text-red-600 dark:text-red-400">{importJob.error}</p>
+                )}
+                {!importJobRunning && importJob.entries?.some(entry => entry.outcome !== 'imported') && (
+                  <ul className="max-h-40 overflow-y-auto space-y-1 text-xs">
+                    {importJob.entries?.filter(entry => entry.outcome !== 'imported').map(entry => (
+                      <li key={entry.path} className={entry.outcome === 'failed' ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}>
+                        {entry.path}: {entry.reason}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Upload Queue */}
+          {queue.length > 0 && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+                  Upload Queue ({queue.length})
+                </h3>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {pendingCount} pending • {uploadedCount} uploaded • {failedCount} failed
+                  {cancelledCount > 0 && ` • ${cancelledCount} cancelled`}
+                </p>
+              </div>
+
+              <div className="max-h-96 overflow-y-auto space-y-2 pr-1">
+                {queue.map(item => (
+                  <div
+                    key={item.id}
+                    className="flex items-center space-x-4 bg-gray-50 dark:bg-gray-800/50 rounded-xl p-3 border border-gray-200 dark:border-gray-700"
+                  >
+                    <img
+                      src={item.preview}
+                      alt={item.title}
+                      className="w-14 h-14 object-cover rounded-lg flex-shrink-0"
+                    />
+                    <div className="flex-1 min-w-0 space-y-1">
+                      {item.status === 'pending' || item.status === 'failed' || item.status === 'cancelled' ? (
+                        <input
+                          type="text"
+                          value={item.title}
+                          onChange={(e) => updateItem(item.id, { title: e.target.value })}
+                          aria-label={`Title for ${item.file.name}`}
+                          className="w-full px-3 py-1 text-sm text-gray-900 dark:text-white"
+                        />
+                      ) : (
+                        <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{item.title}</p>
+                      )}
+                      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {item.file.name} • {formatFileSize(item.file.size)}
+                        {item.resized && (
+                          <span className="text-green-600 dark:text-green-400">
+                            {' '}→ {formatFileSize(item.resized.file.size)} ({item.resized.original.width}×{item.resized.original.height} → {item.resized.width}×{item.resized.height})
+                          </span>
+                        )}
+                        {resizeSettings.enabled && item.status === 'pending' && item.resizeKey !== resizeKey && ' • Resizing...'}
+                      </p>
+                      {item.status === 'uploading' && item.bytesSent !== undefined && (
+                        <div className="space-y-1">
+                          <div className="h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                            <div
+                              className="h-full bg-blue-500 transition-all"
+                              style={{ width: `${(item.bytesSent / sendSize(item)) * 100}%` }}
+                            />
+                          </div>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {item.bytesSent >= sendSize(item)
+                              ? 'Processing on the server...'
+                              : `${formatFileSize(item.bytesSent)} of ${formatFileSize(sendSize(item))}${formatTimeRemaining(item) ? ` • ${formatTimeRemaining(item)}` : ''}`}
+                          </p>
+                        </div>
+                      )}
+                      {item.error && (
+                        <p className="text-xs text-red-600 dark:text-red-400">{item.error}</p>
+                      )}
+                    </div>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize flex-shrink-0 ${statusStyles[item.status]}`}>
+                      {item.status === 'uploading'
+                        ? item.bytesSent !== undefined
+                          ? `Uploading ${Math.floor((item.bytesSent / sendSize(item)) * 100)}%`
+                          : 'Uploading...'
+                        : item.status}
+                    </span>
+                    <div className="flex space-x-2 flex-shrink-0">
+                      {item.status === 'uploading' && (
+                        <button
+                          type="button"
+                          onClick={() => cancelItem(item)}
+                          className="btn-secondary px-2 py-1 text-xs"
+                        >
+                          Cancel
+                        </button>
+                      )}
+                      {(item.status === 'failed' || item.status === 'cancelled') && (
+                        <button
+                          type="button"
+                          onClick={() => uploadItems([item])}
+                          disabled={isUploading}
+                          className="btn-secondary px-2 py-1 text-xs disabled:opacity-50"
+                        >
+                          Retry
+                        </button>
+                      )}
+                      {item.status !== 'uploading' && (
+                        <button
+                          type="button"
+                          onClick={() => removeItems(queued => queued.id === item.id)}
+                          disabled={isUploading && item.status === 'pending'}
+                          aria-label={`Remove ${item.file.name}`}
+                          className="w-7 h-7 bg-red-500 text-white rounded-full flex items-center justify-center hover:bg-red-600 transition-colors disabled:opacity-50"
+                        >
+                          <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Form Fields */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
             {/* Left Column */}
             <div className="space-y-6">
-              {/* Title Input */}
-              <div>
-                <label htmlFor="title" className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
-                  Title *
-                </label>
-                <input
-                  type="text"
-                  id="title"
-                  value={title}
-                  onChange={(e) => setTitle(e.target.value)}
-                  required
-                  placeholder="Enter a descriptive title for your image"
-                  className="w-full px-4 py-3 text-gray-900 dark:text-white"
-                />
-              </div>
-
               {/* Tags Input */}
               <div>
                 <label htmlFor="tags" className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
-                  Tags
+                  Tags {requiresTags && <span className="text-red-500">*</span>}
                 </label>
-                <input
-                  type="text"
+                <TagInput
                   id="tags"
-                  value={tags}
-                  onChange={(e) => setTags(e.target.value)}
+                  tags={tags.split(',').map(tag => tag.trim()).filter(tag => tag)}
+                  onChange={(next) => setTags(next.join(', '))}
                   placeholder="nature, photography, sunset, landscape..."
-                  className="w-full px-4 py-3 text-gray-900 dark:text-white"
                 />
                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 flex items-center">
                   <svg className="w-3 h-3 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                   </svg>
-                  Separate multiple tags with commas
+                  Press Enter or comma after each tag, or pick an existing one; they apply to every file in the queue
+                  {requiresTags && ' (at least one is required)'}
                 </p>
               </div>
-            </div>
 
-            {/* Right Column */}
-            <div className="space-y-6">
               {/* Description Input */}
               <div>
                 <label htmlFor="description" className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
-                  Description
+                  Description {requiresDescription && <span className="text-red-500">*</span>}
                 </label>
                 <textarea
                   id="description"
                   value={description}
                   onChange={(e) => setDescription(e.target.value)}
                   rows={4}
-                  placeholder="Describe your image, its story, or any interesting details..."
+                  placeholder="Describe your images, their story, or any interesting details..."
                   className="w-full px-4 py-3 text-gray-900 dark:text-white resize-none"
                 />
               </div>
+            </div>
 
+            {/* Right Column */}
+            <div className="space-y-6">
               {/* Visibility Toggle */}
               <div className="bg-gray-50 dark:bg-gray-800/50 rounded-xl p-6 border border-gray-200 dark:border-gray-700">
                 <div className="flex items-start space-x-4">
@@ -374,12 +1014,12 @@ export default function ImageUpload({ onUploadSuccess, onUploadError }: ImageUpl
                   </div>
                   <div className="flex-1">
                     <label htmlFor="isPublic" className="font-medium text-gray-900 dark:text-white cursor-pointer">
-                      Make this image public
+                      Make these images public
                     </label>
                     <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-                      {isPublic 
-                        ? 'This image will be visible to everyone and included in public galleries.'
-                        : 'This image will be private and only visible to you.'
+                      {isPublic
+                        ? 'These images will be visible to everyone and included in public galleries.'
+                        : 'These images will be private and only visible to you.'
                       }
                     </p>
                   </div>
@@ -401,6 +1041,94 @@ export default function ImageUpload({ onUploadSuccess, onUploadError }: ImageUpl
                   </div>
                 </div>
               </div>
+
+              {/* Location Toggle */}
+              <div className="bg-gray-50 dark:bg-gray-800/50 rounded-xl p-6 border border-gray-200 dark:border-gray-700">
+                <div className="flex items-start space-x-4">
+                  <div className="flex items-center h-6">
+                    <input
+                      type="checkbox"
+                      id="stripGps"
+                      checked={stripGps}
+                      onChange={(e) => setStripGps(e.target.checked)}
+                      className="w-5 h-5 text-blue-600 border-2 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 dark:focus:ring-blue-400"
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <label htmlFor="stripGps" className="font-medium text-gray-900 dark:text-white cursor-pointer">
+                      Remove location (GPS) data
+                    </label>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                      {stripGps
+                        ? 'Where each photo was taken is removed from the file before it is stored.'
+                        : 'Location data in the files is kept and shown with each image.'
+                      }
+                    </p>
+                  </div>
+                </div>
+              </div>
+
+              {/* Resize Settings */}
+              <div className="bg-gray-50 dark:bg-gray-800/50 rounded-xl p-6 border border-gray-200 dark:border-gray-700">
+                <div className="flex items-start space-x-4">
+                  <div className="flex items-center h-6">
+                    <input
+                      type="checkbox"
+                      id="resizeEnabled"
+                      checked={resizeSettings.enabled}
+                      onChange={(e) => setResizeSettings(prev => ({ ...prev, enabled: e.target.checked }))}
+                      className="w-5 h-5 text-blue-600 border-2 border-gray-300 dark:border-gray-600 rounded focus:ring-blue-500 dark:focus:ring-blue-400"
+                    />
+                  </div>
+                  <div className="flex-1 space-y-3">
+                    <div>
+                      <label htmlFor="resizeEnabled" className="font-medium text-gray-900 dark:text-white cursor-pointer">
+                        Resize before uploading
+                      </label>
+                      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                        {resizeSettings.enabled
+                          ? 'Large photos are shrunk in your browser first, so they upload faster. The original size is still recorded.'
+                          : 'Files are uploaded at full size.'
+                        }
+                      </p>
+                    </div>
+                    {resizeSettings.enabled && (
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label htmlFor="maxLongEdge" className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+                            Longest side
+                          </label>
+                          <select
+                            id="maxLongEdge"
+                            value={resizeSettings.maxLongEdge}
+                            onChange={(e) => setResizeSettings(prev => ({ ...prev, maxLongEdge: Number(e.target.value) }))}
+                            className="w-full px-3 py-2 text-sm text-gray-900 dark:text-white"
+                          >
+                            {LONG_EDGE_OPTIONS.map(edge => (
+                              <option key={edge} value={edge}>{edge}px</option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <label htmlFor="resizeQuality" className="block text-xs font-semibold text-gray-700 dark:text-gray-300 mb-1">
+                            Quality: {Math.round(resizeSettings.quality * 100)}%
+                          </label>
+                          <input
+                            type="range"
+                            id="resizeQuality"
+                            min={50}
+                            max={100}
+                            step={5}
+                            value={Math.round(resizeSettings.quality * 100)}
+                            onChange={(e) => setResizeSettings(prev => ({ ...prev, quality: Number(e.target.value) / 100 }))}
+                            className="w-full"
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
             </div>
           </div>
 
@@ -409,17 +1137,28 @@ export default function ImageUpload({ onUploadSuccess, onUploadError }: ImageUpl
             <div className="flex flex-col sm:flex-row gap-4 justify-center">
               <button
                 type="button"
-                onClick={clearSelection}
-                disabled={!selectedFile || isUploading}
-                className="btn-secondary px-8 py-4 text-base font-semibold disabled:opacity-50 disabled:cursor-not-allowed order-2 sm:order-1"
+                onClick={clearQueue}
+                disabled={queue.length === 0 || isUploading}
+                className="btn-secondary px-8 py-4 text-base font-semibold disabled:opacity-50 disabled:cursor-not-allowed order-3 sm:order-1"
               >
-                Clear Selection
+                Clear Queue
               </button>
-              
+
+              {failedCount > 0 && (
+                <button
+                  type="button"
+                  onClick={retryFailed}
+                  disabled={isUploading || !user}
+                  className="btn-warning px-8 py-4 text-base font-semibold disabled:opacity-50 disabled:cursor-not-allowed order-2"
+                >
+                  Retry Failed ({failedCount})
+                </button>
+              )}
+
               <button
                 type="submit"
-                disabled={isUploading || !selectedFile || !title.trim()}
-                className="btn-primary px-12 py-4 text-base font-semibold min-w-[200px] order-1 sm:order-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={isUploading || !user || pendingCount === 0}
+                className="btn-primary px-12 py-4 text-base font-semibold min-w-[200px] order-1 sm:order-3 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {isUploading ? (
                   <div className="flex items-center justify-center space-x-3">
@@ -435,12 +1174,12 @@ export default function ImageUpload({ onUploadSuccess, onUploadError }: ImageUpl
                     <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
                     </svg>
-                    <span>Upload to Gallery</span>
+                    <span>{pendingCount > 1 ? `Upload ${pendingCount} Images` : 'Upload to Gallery'}</span>
                   </div>
                 )}
               </button>
             </div>
-            
+
             <p className="text-center text-sm text-gray-500 dark:text-gray-400 mt-4">
               By uploading, you agree to our terms of service and privacy policy
             </p>
@@ -449,4 +1188,4 @@ export default function ImageUpload({ onUploadSuccess, onUploadError }: ImageUpl
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
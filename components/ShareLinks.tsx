@@ -0,0 +1,219 @@
+'use client';
+
+import { useState, useEffect, useCallback, FormEvent } from 'react';
+import { ApiResponse, ShareLinkStatus, ShareLinkSummary } from '../types/gallery';
+import { useNotify } from './Notifications';
+import { useConfirmation, confirmations } from './ConfirmationModal';
+
+interface ShareLinksProps {
+  imageId: string;
+}
+
+const expiryOptions = [
+  { label: 'Never', hours: 0 },
+  { label: '1 hour', hours: 1 },
+  { label: '1 day', hours: 24 },
+  { label: '7 days', hours: 24 * 7 },
+  { label: '30 days', hours: 24 * 30 },
+];
+
+const statusStyles: Record<ShareLinkStatus, string> = {
+  active: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  expired: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+  revoked: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+};
+
+// Create, audit and revoke share links for one image
+export default function ShareLinks({ imageId }: ShareLinksProps) {
+  const [links, setLinks] = useState<ShareLinkSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expiresInHours, setExpiresInHours] = useState(24 * 7);
+  const [password, setPassword] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const notify = useNotify();
+  const { confirm, ConfirmationComponent } = useConfirmation();
+
+  const fetchLinks = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/images/${imageId}/shares`);
+      const result: ApiResponse<ShareLinkSummary[]> = await response.json();
+
+      if (result.success && result.data) {
+        setLinks(result.data);
+      } else {
+        throw new Error(result.error || result.message || 'Failed to load share links');
+      }
+    } catch (error) {
+      console.error('Error fetching share links:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load share links');
+    } finally {
+      setLoading(false);
+    }
+  }, [imageId]);
+
+  useEffect(() => {
+    fetchLinks();
+  }, [fetchLinks]);
+
+  const getShareUrl = (link: ShareLinkSummary) => `${window.location.origin}/share/${link.token}`;
+
+  const copyLink = async (link: ShareLinkSummary) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(link));
+      notify.success('Link Copied', 'The share link is on your clipboard.');
+    } catch {
+      notify.error('Copy Failed', getShareUrl(link));
+    }
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setCreating(true);
+      const response = await fetch(`/api/images/${imageId}/shares`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          expiresInHours: expiresInHours || undefined,
+          password: password || undefined,
+        }),
+      });
+      const result: ApiResponse<ShareLinkSummary> = await response.json();
+
+      if (result.success && result.data) {
+        setLinks(prev => [result.data!, ...prev]);
+        setPassword('');
+        await copyLink(result.data);
+      } else {
+        throw new Error(result.error || result.message || 'Failed to create share link');
+      }
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      notify.error('Share Failed', error instanceof Error ? error.message : 'Unknown error occurred');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLinkSummary) => {
+    const confirmed = await confirm(confirmations.revokeShareLink());
+    if (!confirmed) return;
+
+    try {
+      setRevokingId(link.id);
+      const response = await fetch(`/api/images/${imageId}/shares/${link.id}`, { method: 'DELETE' });
+      const result: ApiResponse<ShareLinkSummary> = await response.json();
+
+      if (result.success && result.data) {
+        setLinks(prev => prev.map(existing => existing.id === link.id ? result.data! : existing));
+        notify.success('Link Revoked', 'The share link no longer works.');
+      } else {
+        throw new Error(result.error || result.message || 'Failed to revoke share link');
+      }
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      notify.error('Revoke Failed', error instanceof Error ? error.message : 'Unknown error occurred');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const formatDate = (date: Date | string): string => {
+    const d = typeof date === 'string' ? new Date(date) : date;
+    return new Intl.DateTimeFormat('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).format(d);
+  };
+
+  return (
+    <div className="card p-6">
+      {ConfirmationComponent}
+
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
+        <svg className="w-5 h-5 mr-2 text-teal-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
+        </svg>
+        Share Links
+      </h3>
+
+      <form onSubmit={handleCreate} className="space-y-3 mb-4">
+        <div className="grid grid-cols-2 gap-3">
+          <select
+            value={expiresInHours}
+            onChange={(e) => setExpiresInHours(Number(e.target.value))}
+            className="text-sm"
+            aria-label="Link expiry"
+          >
+            {expiryOptions.map(option => (
+              <option key={option.hours} value={option.hours}>Expires: {option.label}</option>
+            ))}
+          </select>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password (optional)"
+            autoComplete="new-password"
+            className="text-sm"
+          />
+        </div>
+        <button type="submit" disabled={creating} className="btn-primary w-full py-2 text-sm disabled:opacity-50">
+          {creating ? 'Creating...' : 'Create Share Link'}
+        </button>
+      </form>
+
+      {loading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading share links...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : links.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">This image has not been shared.</p>
+      ) : (
+        <div className="space-y-3">
+          {links.map(link => (
+            <div key={link.id} className="text-sm border-t border-gray-200 dark:border-gray-700 pt-3">
+              <div className="flex items-center justify-between gap-2">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${statusStyles[link.status]}`}>
+                  {link.status}
+                </span>
+                <div className="flex gap-2">
+                  {link.status === 'active' && (
+                    <>
+                      <button onClick={() => copyLink(link)} className="btn-secondary px-2 py-1 text-xs">Copy</button>
+                      <button
+                        onClick={() => handleRevoke(link)}
+                        disabled={revokingId === link.id}
+                        className="btn-danger px-2 py-1 text-xs disabled:opacity-50"
+                      >
+                        Revoke
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+              <p className="text-gray-500 dark:text-gray-400 mt-1">
+                Created {formatDate(link.createdAt)}{link.createdBy && <> by {link.createdBy}</>}
+                {' • '}{link.expiresAt ? `Expires ${formatDate(link.expiresAt)}` : 'No expiry'}
+                {link.hasPassword && ' • Password'}
+              </p>
+              <p className="text-gray-500 dark:text-gray-400">
+                {link.viewCount} {link.viewCount === 1 ? 'view' : 'views'}
+                {link.lastViewedAt && <>, last {formatDate(link.lastViewedAt)}</>}
+                {link.revokedAt && <> • Revoked {formatDate(link.revokedAt)}</>}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ApiResponse, GalleryImage, PaginatedResponse, SavedSearch, SavedSearchQuery, SavedSearchSummary } from '../types/gallery';
+import { useNotify } from './Notifications';
+import { useConfirmation, confirmations } from './ConfirmationModal';
+import { useAuth } from './Auth';
+
+interface SmartAlbumProps {
+  savedSearch: SavedSearchSummary;
+  onBack: () => void;
+  onChange: () => void;
+  onImageSelect?: (image: GalleryImage) => void;
+}
+
+// Describe a saved query in a line, e.g. `"sunset" • tags: beach • public • size:<5mb`
+export function describeSavedSearchQuery(query: SavedSearchQuery): string {
+  const parts: string[] = [];
+  if (query.search) parts.push(`"${query.search}"`);
+  if (query.tags) parts.push(`tags: ${query.tags}`);
+  if (query.isPublic !== undefined) parts.push(query.isPublic ? 'public' : 'private');
+  if (query.filter) parts.push(query.filter);
+  return parts.length > 0 ? parts.join(' • ') : 'All images';
+}
+
+// A saved search opened as an album: its images are whatever matches the search right now
+export default function SmartAlbum({ savedSearch, onBack, onChange, onImageSelect }: SmartAlbumProps) {
+  const [images, setImages] = useState<GalleryImage[]>([]);
+  const [totalItems, setTotalItems] = useState(savedSearch.imageCount);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [shared, setShared] = useState(savedSearch.shared);
+
+  const notify = useNotify();
+  const { canModify } = useAuth();
+  const { confirm, ConfirmationComponent } = useConfirmation();
+
+  const searchId = savedSearch._id!.toString();
+  const requestCounter = useRef(0);
+
+  const fetchPage = useCallback(async (cursor?: string) => {
+    const request = ++requestCounter.current;
+    try {
+      if (cursor) {
+        setLoadingMore(true);
+      } else {
+        setLoading(true);
+      }
+      setError(null);
+
+      const params = new URLSearchParams({ limit: '16', pagination: 'cursor' });
+      if (cursor) {
+        params.append('cursor', cursor);
+      } else {
+        params.append('includeTotal', 'true');
+      }
+
+      const response = await fetch(`/api/saved-searches/${searchId}/images?${params.toString()}`);
+      const result: PaginatedResponse<GalleryImage> = await response.json();
+      if (request !== requestCounter.current) {
+        return;
+      }
+
+      if (!result.success) {
+        throw new Error(result.error || result.message || 'Failed to fetch images');
+      }
+
+      const page = result.data || [];
+      if (cursor) {
+        setImages(prev => {
+          const shown = new Set(prev.map(image => image._id?.toString()));
+          return [...prev, ...page.filter(image => !shown.has(image._id?.toString()))];
+        });
+      } else {
+        setImages(page);
+        setTotalItems(result.pagination.totalItems ?? page.length);
+      }
+      setNextCursor(result.pagination.nextCursor ?? null);
+    } catch (error) {
+      if (request !== requestCounter.current) {
+        return;
+      }
+      console.error('Error fetching smart album images:', error);
+      if (cursor) {
+        notify.error('Failed to Load More Images', error instanceof Error ? error.message : 'Unknown error occurred');
+      } else {
+        setError(error instanceof Error ? error.message : 'Failed to load images');
+      }
+    } finally {
+      if (request === requestCounter.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  }, [searchId, notify]);
+
+  useEffect(() => {
+    fetchPage();
+  }, [fetchPage]);
+
+  // Send a JSON request to the saved searches API and return the parsed result
+  const sendSearchRequest = async (method: string, body?: unknown): Promise<ApiResponse<SavedSearch>> => {
+    const response = await fetch(`/api/saved-searches/${searchId}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const result: ApiResponse<SavedSearch> = await response.json();
+    if (!result.success) {
+      throw new Error(result.error || result.message || 'Request failed');
+    }
+    return result;
+  };
+
+  const toggleShared = async () => {
+    try {
+      await sendSearchRequest('PUT', { shared: !shared });
+      setShared(!shared);
+      notify.success(
+        shared ? 'Search Unshared' : 'Search Shared',
+        shared ? `${savedSearch.name} is now visible only to you.` : `${savedSearch.name} is now visible to the whole team.`
+      );
+      onChange();
+    } catch (error) {
+      console.error('Error sharing saved search:', error);
+      notify.error('Update Failed', error instanceof Error ? error.message : 'Unknown error occurred');
+    }
+  };
+
+  const handleDelete = async () => {
+    const confirmed = await confirm(confirmations.deleteSavedSearch(savedSearch.name));
+    if (!confirmed) return;
+
+    try {
+      await sendSearchRequest('DELETE');
+      notify.success('Smart Album Deleted', `${savedSearch.name} has been deleted.`);
+      onChange();
+      onBack();
+    } catch (error) {
+      console.error('Error deleting saved search:', error);
+      notify.error('Delete Failed', error instanceof Error ? error.message : 'Unknown error occurred');
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      {ConfirmationComponent}
+
+      <button onClick={onBack} className="text-sm text-blue-600 dark:text-blue-400 hover:underline mb-6">
+        ← All albums
+      </button>
+
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 mb-8">
+        <div>
+          <div className="flex items-center gap-3 mb-2">
+            <h2 className="text-3xl font-bold text-gray-900 dark:text-white">{savedSearch.name}</h2>
+            <span className="text-xs px-2 py-0.5 rounded-full bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300">Smart</span>
+          </div>
+          {savedSearch.description && (
+            <p className="text-gray-600 dark:text-gray-400 mb-2">{savedSearch.description}</p>
+          )}
+          <p className="text-sm text-gray-500 dark:text-gray-400 font-mono mb-1">{describeSavedSearchQuery(savedSearch.query)}</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {totalItems} images • {shared ? 'Shared with the team' : 'Only you'} • by {savedSearch.createdBy}
+          </p>
+        </div>
+        {canModify(savedSearch.createdBy) && (
+          <div className="flex space-x-2">
+            <button onClick={toggleShared} className="btn-secondary px-4 py-2 text-sm">
+              {shared ? 'Stop Sharing' : 'Share with Team'}
+            </button>
+            <button onClick={handleDelete} className="btn-danger px-4 py-2 text-sm">Delete</button>
+          </div>
+        )}
+      </div>
+
+      {loading && (
+        <div className="flex justify-center items-center py-24">
+          <div className="animate-spin h-12 w-12 border-4 border-blue-600 border-t-transparent rounded-full"></div>
+        </div>
+      )}
+
+      {error && (
+        <div className="text-center py-24">
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">Failed to load images</h3>
+          <p className="text-gray-600 dark:text-gray-400 mb-6">{error}</p>
+          <button onClick={() => fetchPage()} className="btn-primary px-6 py-3">Try Again</button>
+        </div>
+      )}
+
+      {!loading && !error && images.length === 0 && (
+        <div className="text-center py-24 text-gray-500 dark:text-gray-400">
+          No images match this search yet. New uploads that match will appear here.
+        </div>
+      )}
+
+      {!loading && !error && images.length > 0 && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+            {images.map(image => (
+              <div key={image._id?.toString()} className="card overflow-hidden">
+                <div
+                  className="aspect-square bg-gray-100 dark:bg-gray-800 cursor-pointer"
+                  onClick={() => onImageSelect && onImageSelect(image)}
+                >
+                  <img src={image.cloudinaryUrl} alt={image.title} className="w-full h-full object-cover" loading="lazy" />
+                </div>
+                <div className="p-4">
+                  <h3 className="font-semibold text-gray-900 dark:text-white truncate">{image.title}</h3>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {nextCursor && (
+            <div className="flex justify-center mt-8">
+              <button
+                onClick={() => fetchPage(nextCursor)}
+                disabled={loadingMore}
+                className="btn-secondary px-6 py-3 disabled:opacity-50"
+              >
+                {loadingMore ? 'Loading...' : 'Load More'}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+'use client';
+
+import { useState, useEffect, useRef, useId } from 'react';
+import { ApiResponse, SuggestionMatch, SuggestResults } from '../types/gallery';
+
+// Wait this long after the last keystroke before asking for suggestions
+const SUGGEST_DEBOUNCE_MS = 120;
+
+export interface Suggestion {
+  kind: 'tag' | 'title';
+  value: string;
+  // Images with the tag; titles have none
+  count?: number;
+  match: SuggestionMatch;
+}
+
+// Fetch suggestions for what is typed, debounced, with answers kept for the life of the component
+// so retyping or deleting back is instant
+export function useSuggestions(text: string, type: 'all' | 'tags' | 'titles', enabled = true): Suggestion[] {
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const cache = useRef(new Map<string, Suggestion[]>());
+
+  useEffect(() => {
+    if (!enabled) {
+      setSuggestions([]);
+      return;
+    }
+
+    const key = `${type}:${text.trim().toLowerCase()}`;
+    const cached = cache.current.get(key);
+    if (cached) {
+      setSuggestions(cached);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q: text.trim(), type });
+        const response = await fetch(`/api/suggest?${params.toString()}`, { signal: controller.signal });
+        const result: ApiResponse<SuggestResults> = await response.json();
+        if (!result.success || !result.data) {
+          return;
+        }
+
+        const found: Suggestion[] = [
+          ...result.data.tags.map(tag => ({ kind: 'tag' as const, value: tag.value, count: tag.count, match: tag.match })),
+          ...result.data.titles.map(title => ({ kind: 'title' as const, value: title.value, match: title.match })),
+        ];
+        cache.current.set(key, found);
+        setSuggestions(found);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Error fetching suggestions:', error);
+        }
+      }
+    }, SUGGEST_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [text, type, enabled]);
+
+  return suggestions;
+}
+
+// Move the highlighted suggestion with the arrow keys, wrapping at either end; -1 is none
+export function moveHighlight(current: number, key: string, total: number): number {
+  if (total === 0) return -1;
+  if (key === 'ArrowDown') return current + 1 >= total ? 0 : current + 1;
+  return current - 1 < 0 ? total - 1 : current - 1;
+}
+
+interface SuggestionListProps {
+  id: string;
+  suggestions: Suggestion[];
+  highlighted: number;
+  onSelect: (suggestion: Suggestion) => void;
+  onHighlight: (index: number) => void;
+}
+
+// The dropdown under an input; options are picked on mousedown so the input keeps focus
+export function SuggestionList({ id, suggestions, highlighted, onSelect, onHighlight }: SuggestionListProps) {
+  return (
+    <ul
+      id={id}
+      role="listbox"
+      className="absolute z-20 left-0 right-0 mt-1 max-h-72 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg py-1"
+    >
+      {suggestions.map((suggestion, index) => (
+        <li
+          key={`${suggestion.kind}:${suggestion.value}`}
+          id={`${id}-${index}`}
+          role="option"
+          aria-selected={index === highlighted}
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onSelect(suggestion);
+          }}
+          onMouseEnter={() => onHighlight(index)}
+          className={`flex items-center justify-between gap-3 px-3 py-2 text-sm cursor-pointer ${
+            index === highlighted
+              ? 'bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+              : 'text-gray-700 dark:text-gray-300'
+          }`}
+        >
+          <span className="flex items-center gap-2 min-w-0">
+            <span className="shrink-0 text-xs uppercase tracking-wide text-gray-400">{suggestion.kind === 'tag' ? 'Tag' : 'Title'}</span>
+            <span className="truncate">{suggestion.value}</span>
+            {suggestion.match === 'fuzzy' && (
+              <span className="shrink-0 text-xs text-gray-400">similar</span>
+            )}
+          </span>
+          {suggestion.count !== undefined && (
+            <span className="shrink-0 text-xs text-gray-500 dark:text-gray-400">{suggestion.count}</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface SuggestInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Called with the picked suggestion; without it a pick just fills in the value
+  onSelect?: (suggestion: Suggestion) => void;
+  type?: 'all' | 'tags' | 'titles';
+  placeholder?: string;
+  className?: string;
+}
+
+// A text input with a keyboard-navigable dropdown of matching tags and titles. Enter with nothing
+// highlighted is left alone, so the surrounding form still submits
+export default function SuggestInput({ value, onChange, onSelect, type = 'all', placeholder, className }: SuggestInputProps) {
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const listId = useId();
+
+  const suggestions = useSuggestions(value, type, open && value.trim().length > 0);
+  const showList = open && suggestions.length > 0;
+
+  useEffect(() => {
+    setHighlighted(-1);
+  }, [suggestions]);
+
+  const select = (suggestion: Suggestion) => {
+    if (onSelect) {
+      onSelect(suggestion);
+    } else {
+      onChange(suggestion.value);
+    }
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setOpen(true);
+      setHighlighted(current => moveHighlight(current, e.key, suggestions.length));
+    } else if (e.key === 'Enter' && showList && highlighted >= 0) {
+      e.preventDefault();
+      select(suggestions[highlighted]);
+    } else if (e.key === 'Escape' && showList) {
+      e.preventDefault();
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        className={className}
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-activedescendant={showList && highlighted >= 0 ? `${listId}-${highlighted}` : undefined}
+        autoComplete="off"
+      />
+      {showList && (
+        <SuggestionList
+          id={listId}
+          suggestions={suggestions}
+          highlighted={highlighted}
+          onSelect={select}
+          onHighlight={setHighlighted}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import { useState, useEffect, useId } from 'react';
+import { moveHighlight, Suggestion, SuggestionList, useSuggestions } from './SuggestInput';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  id?: string;
+  placeholder?: string;
+}
+
+// Tags entered as chips. Enter, comma or Tab adds the highlighted suggestion or the typed text,
+// Backspace in an empty input removes the last chip, and existing tags are suggested with their counts
+// so near-duplicates like "Beach" and "beaches" are easy to avoid
+export default function TagInput({ tags, onChange, id, placeholder }: TagInputProps) {
+  const [draft, setDraft] = useState('');
+  const [focused, setFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const listId = useId();
+
+  const chosen = new Set(tags.map(tag => tag.toLowerCase()));
+  const suggestions = useSuggestions(draft, 'tags', focused)
+    .filter(suggestion => !chosen.has(suggestion.value.trim().toLowerCase()));
+  const showList = focused && suggestions.length > 0;
+
+  useEffect(() => {
+    setHighlighted(-1);
+  }, [draft]);
+
+  // Add a tag unless it is already there in any capitalisation
+  const addTag = (value: string) => {
+    const tag = value.trim();
+    if (tag && !chosen.has(tag.toLowerCase())) {
+      onChange([...tags, tag]);
+    }
+    setDraft('');
+  };
+
+  const removeTag = (index: number) => {
+    onChange(tags.filter((_, tagIndex) => tagIndex !== index));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(current => moveHighlight(current, e.key, suggestions.length));
+    } else if (e.key === 'Enter' || e.key === ',' || (e.key === 'Tab' && (draft.trim() || highlighted >= 0))) {
+      // Enter adds a tag rather than submitting the form, unless there is nothing to add
+      if (e.key === 'Enter' && !draft.trim() && highlighted < 0) {
+        return;
+      }
+      e.preventDefault();
+      addTag(showList && highlighted >= 0 ? suggestions[highlighted].value : draft);
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      removeTag(tags.length - 1);
+    } else if (e.key === 'Escape' && showList) {
+      e.preventDefault();
+      setHighlighted(-1);
+      setFocused(false);
+    }
+  };
+
+  // Pasting "a, b, c" adds each tag
+  const handleChange = (value: string) => {
+    if (value.includes(',')) {
+      const parts = value.split(',');
+      const added = parts.slice(0, -1).map(part => part.trim()).filter(part => part);
+      const next = [...tags];
+      for (const tag of added) {
+        if (!next.some(existing => existing.toLowerCase() === tag.toLowerCase())) {
+          next.push(tag);
+        }
+      }
+      onChange(next);
+      setDraft(parts[parts.length - 1]);
+    } else {
+      setDraft(value);
+    }
+    setFocused(true);
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 w-full min-h-[2.75rem] px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 focus-within:ring-2 focus-within:ring-blue-500">
+        {tags.map((tag, index) => (
+          <span
+            key={`${tag}-${index}`}
+            className="inline-flex items-center gap-1 px-2.5 py-1 text-sm rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300"
+          >
+            {tag}
+            <button
+              type="button"
+              onClick={() => removeTag(index)}
+              className="text-blue-600 dark:text-blue-300 hover:text-blue-900 dark:hover:text-white"
+              aria-label={`Remove tag ${tag}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          id={id}
+          type="text"
+          value={draft}
+          onChange={(e) => handleChange(e.target.value)}
+          onFocus={() => setFocused(true)}
+          onBlur={() => {
+            setFocused(false);
+            addTag(draft);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder={tags.length === 0 ? placeholder : ''}
+          className="flex-1 min-w-[8rem] border-0 p-0 bg-transparent focus:ring-0 focus:outline-none"
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={showList}
+          aria-controls={listId}
+          aria-activedescendant={showList && highlighted >= 0 ? `${listId}-${highlighted}` : undefined}
+          autoComplete="off"
+        />
+      </div>
+      {showList && (
+        <SuggestionList
+          id={listId}
+          suggestions={suggestions}
+          highlighted={highlighted}
+          onSelect={(suggestion: Suggestion) => addTag(suggestion.value)}
+          onHighlight={setHighlighted}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { GalleryImage, PaginatedResponse } from '../types/gallery';
+import { useNotify } from './Notifications';
+import { useConfirmation, confirmations } from './ConfirmationModal';
+import { useAuth } from './Auth';
+
+interface TrashProps {
+  onImageRestore?: (imageId: string) => void;
+  refreshTrigger?: number;
+}
+
+export default function Trash({ onImageRestore, refreshTrigger }: TrashProps) {
+  const [images, setImages] = useState<GalleryImage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalItems, setTotalItems] = useState(0);
+  const [busyImageId, setBusyImageId] = useState<string | null>(null);
+
+  const notify = useNotify();
+  const { canModify } = useAuth();
+  const { confirm, ConfirmationComponent } = useConfirmation();
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/trash?page=${currentPage}&limit=20`);
+      const result: PaginatedResponse<GalleryImage> = await response.json();
+
+      if (result.success) {
+        setImages(result.data || []);
+        setTotalPages(result.pagination.totalPages ?? 1);
+        setTotalItems(result.pagination.totalItems ?? 0);
+      } else {
+        throw new Error(result.error || result.message || 'Failed to fetch trash');
+      }
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load trash');
+      setImages([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentPage]);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash, refreshTrigger]);
+
+  const removeFromList = (imageId: string) => {
+    setImages(prev => prev.filter(img => img._id?.toString() !== imageId));
+    setTotalItems(prev => prev - 1);
+  };
+
+  const handleRestore = async (imageId: string, imageName: string) => {
+    try {
+      setBusyImageId(imageId);
+      const response = await fetch(`/api/trash/${imageId}/restore`, { method: 'POST' });
+      const result = await response.json();
+
+      if (result.success) {
+        removeFromList(imageId);
+        if (onImageRestore) {
+          onImageRestore(imageId);
+        }
+        notify.success('Image Restored', `${imageName} is back in your gallery.`);
+      } else {
+        throw new Error(result.error || result.message || 'Restore failed');
+      }
+    } catch (error) {
+      console.error('Error restoring image:', error);
+      notify.error('Restore Failed', error instanceof Error ? error.message : 'Unknown error occurred');
+    } finally {
+      setBusyImageId(null);
+    }
+  };
+
+  const handlePermanentDelete = async (imageId: string, imageName: string) => {
+    const confirmed = await confirm(confirmations.permanentDelete(imageName));
+
+    if (!confirmed) return;
+
+    try {
+      setBusyImageId(imageId);
+      const response = await fetch(`/api/trash/${imageId}`, { method: 'DELETE' });
+      const result = await response.json();
+
+      if (result.success) {
+        removeFromList(imageId);
+        notify.success('Image Deleted', `${imageName} has been permanently deleted.`);
+      } else {
+        throw new Error(result.error || result.message || 'Delete failed');
+      }
+    } catch (error) {
+      console.error('Error permanently deleting image:', error);
+      notify.error('Delete Failed', error instanceof Error ? error.message : 'Unknown error occurred');
+    } finally {
+      setBusyImageId(null);
+    }
+  };
+
+  const formatDate = (date: Date | string): string => {
+    const d = typeof date === 'string' ? new Date(date) : date;
+    return new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    }).format(d);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+      {ConfirmationComponent}
+
+      <div className="mb-8">
+        <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Trash</h2>
+        <p className="text-gray-600 dark:text-gray-400">
+          Deleted images stay here until they are restored or purged after the retention period.
+        </p>
+      </div>
+
+      {/* Loading State */}
+      {loading && (
+        <div className="flex justify-center items-center py-24">
+          <div className="animate-spin h-12 w-12 border-4 border-blue-600 border-t-transparent rounded-full"></div>
+        </div>
+      )}
+
+      {/* Error State */}
+      {error && (
+        <div className="text-center py-24">
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">Failed to load trash</h3>
+          <p className="text-gray-600 dark:text-gray-400 mb-6 max-w-md mx-auto">{error}</p>
+          <button onClick={fetchTrash} className="btn-primary px-6 py-3">
+            Try Again
+          </button>
+        </div>
+      )}
+
+      {/* Empty State */}
+      {!loading && !error && images.length === 0 && (
+        <div className="text-center py-24">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-gray-100 dark:bg-gray-800 rounded-full mb-6">
+            <svg className="w-8 h-8 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          </div>
+          <h3 className="text-xl font-semibold text-gray-900 dark:text-white">Trash is empty</h3>
+        </div>
+      )}
+
+      {/* Trashed Images */}
+      {!loading && !error && images.length > 0 && (
+        <>
+          <div className="text-gray-600 dark:text-gray-400 mb-6">
+            <span className="font-semibold text-gray-900 dark:text-white">{totalItems}</span> images in the trash
+          </div>
+
+          <div className="space-y-4">
+            {images.map((image) => {
+              const imageId = image._id?.toString() || '';
+              const isBusy = busyImageId === imageId;
+
+              return (
+                <div key={imageId} className="card p-6">
+                  <div className="flex items-center space-x-6">
+                    <div className="flex-shrink-0 w-20 h-20 overflow-hidden rounded-xl bg-gray-100 dark:bg-gray-800">
+                      <img
+                        src={image.cloudinaryUrl}
+                        alt={image.title}
+                        className="w-full h-full object-cover opacity-75"
+                        loading="lazy"
+                      />
+                    </div>
+
+                    <div className="flex-1 min-w-0">
+                      <h3 className="text-lg font-semibold text-gray-900 dark:text-white truncate">{image.title}</h3>
+                      {image.deletedAt && (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                          Deleted {formatDate(image.deletedAt)}
+                        </p>
+                      )}
+                    </div>
+
+                    {canModify(image.uploadedBy) && (
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => handleRestore(imageId, image.title)}
+                        disabled={isBusy}
+                        className="btn-primary px-4 py-2 text-sm disabled:opacity-50"
+                      >
+                        Restore
+                      </button>
+                      <button
+                        onClick={() => handlePermanentDelete(imageId, image.title)}
+                        disabled={isBusy}
+                        className="btn-danger px-4 py-2 text-sm disabled:opacity-50"
+                      >
+                        Delete Forever
+                      </button>
+                    </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="mt-8 flex justify-center items-center space-x-4">
+              <button
+                onClick={() => setCurrentPage(prev => Math.max(prev - 1, 1))}
+                disabled={currentPage === 1}
+                className="btn-secondary px-4 py-2 text-sm disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                Page {currentPage} of {totalPages}
+              </span>
+              <button
+                onClick={() => setCurrentPage(prev => Math.min(prev + 1, totalPages))}
+                disabled={currentPage === totalPages}
+                className="btn-secondary px-4 py-2 text-sm disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
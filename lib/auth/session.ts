@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authService } from '../services/authService';
+import { ApiResponse, PublicUser } from '../../types/gallery';
+
+export const SESSION_COOKIE = 'gallery_session';
+
+// Get the signed-in user for a request, or null for anonymous requests
+export async function getCurrentUser(request: NextRequest): Promise<PublicUser | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  return token ? authService.getUserBySessionToken(token) : null;
+}
+
+// Get the signed-in user, or a 401 response to return when there is none
+export async function requireUser(request: NextRequest): Promise<PublicUser | NextResponse> {
+  const user = await getCurrentUser(request);
+  if (user) {
+    return user;
+  }
+
+  const response: ApiResponse = {
+    success: false,
+    message: 'Authentication required',
+    error: 'Sign in to perform this action',
+  };
+  return NextResponse.json(response, { status: 401 });
+}
+
+// Whether a user may change something owned by the given username
+export function canModify(user: PublicUser, owner?: string): boolean {
+  return user.role === 'admin' || (!!owner && user.username === owner);
+}
+
+// Whether a user, or an anonymous visitor when null, may see an image: private images are only
+// shown to their uploader and admins
+export function canViewImage(user: PublicUser | null, image: { isPublic: boolean; uploadedBy?: string }): boolean {
+  return image.isPublic || (!!user && canModify(user, image.uploadedBy));
+}
+
+// Get the signed-in user if they own the resource or are an admin, otherwise a 401/403 response
+export async function requireOwner(request: NextRequest, owner?: string): Promise<PublicUser | NextResponse> {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse || canModify(user, owner)) {
+    return user;
+  }
+
+  const response: ApiResponse = {
+    success: false,
+    message: 'Permission denied',
+    error: 'Only the owner or an admin can perform this action',
+  };
+  return NextResponse.json(response, { status: 403 });
+}
+
+// Get the signed-in user if they are an admin, otherwise a 401/403 response
+export async function requireAdmin(request: NextRequest): Promise<PublicUser | NextResponse> {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse || user.role === 'admin') {
+    return user;
+  }
+
+  const response: ApiResponse = {
+    success: false,
+    message: 'Permission denied',
+    error: 'Only an admin can perform this action',
+  };
+  return NextResponse.json(response, { status: 403 });
+}
+
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date): void {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: new Date(0),
+  });
+}
@@ -0,0 +1,171 @@
+import { OriginalImageInfo, ResizeSettings } from '../types/gallery';
+
+// Runs in the browser: shrinks images with a canvas before they are uploaded
+
+export const DEFAULT_RESIZE_SETTINGS: ResizeSettings = {
+  enabled: false,
+  maxLongEdge: 2048,
+  quality: 0.85,
+};
+
+export interface ResizeResult {
+  file: File;
+  width: number;
+  height: number;
+  original: OriginalImageInfo;
+}
+
+// Animated GIFs would lose their frames and SVGs are already resolution independent
+const SKIPPED_TYPES = ['image/gif', 'image/svg+xml'];
+// Formats that may be transparent keep their type; everything else becomes JPEG
+const KEPT_TYPES = ['image/png', 'image/webp'];
+
+const JPEG_APP1 = 0xffe1;
+const JPEG_APP13 = 0xffed;
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+// Identify the settings a resize was made with, so a change can be detected
+export function resizeSettingsKey(settings: ResizeSettings): string {
+  return settings.enabled ? `${settings.maxLongEdge}:${settings.quality}` : 'off';
+}
+
+// Get the EXIF, XMP (APP1) and IPTC (APP13) segments of a JPEG, so they can be carried over to
+// the re-encoded file. Colour profiles are left behind because the canvas output is sRGB.
+function readJpegMetadataSegments(bytes: Uint8Array): Uint8Array[] {
+  const segments: Uint8Array[] = [];
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    return segments;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = view.getUint16(offset);
+    // Start of scan: the image data follows and there are no more headers
+    if (marker === 0xffda) {
+      break;
+    }
+    const length = view.getUint16(offset + 2);
+    if (marker === JPEG_APP1 || marker === JPEG_APP13) {
+      segments.push(bytes.slice(offset, offset + 2 + length));
+    }
+    offset += 2 + length;
+  }
+  return segments;
+}
+
+// Set the EXIF orientation in an APP1 segment to upright, since the canvas has already rotated the pixels
+function resetExifOrientation(segment: Uint8Array): void {
+  const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength);
+  // Marker, length, then "Exif\0\0" before the TIFF header
+  if (segment.length < 18 || String.fromCharCode(...segment.slice(4, 8)) !== 'Exif') {
+    return;
+  }
+
+  const tiff = 10;
+  const littleEndian = view.getUint16(tiff) === 0x4949;
+  const ifd0 = tiff + view.getUint32(tiff + 4, littleEndian);
+  if (ifd0 + 2 > segment.length) {
+    return;
+  }
+
+  const entries = view.getUint16(ifd0, littleEndian);
+  for (let index = 0; index < entries; index++) {
+    const entry = ifd0 + 2 + index * 12;
+    if (entry + 12 > segment.length) {
+      return;
+    }
+    if (view.getUint16(entry, littleEndian) === EXIF_ORIENTATION_TAG) {
+      view.setUint16(entry + 8, 1, littleEndian);
+      return;
+    }
+  }
+}
+
+// Put metadata segments straight after the start-of-image marker of a JPEG
+function insertJpegSegments(jpeg: Uint8Array, segments: Uint8Array[]): Uint8Array {
+  const length = segments.reduce((total, segment) => total + segment.length, jpeg.length);
+  const output = new Uint8Array(length);
+  output.set(jpeg.subarray(0, 2), 0);
+
+  let offset = 2;
+  for (const segment of segments) {
+    output.set(segment, offset);
+    offset += segment.length;
+  }
+  output.set(jpeg.subarray(2), offset);
+  return output;
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('The image could not be encoded')), type, quality);
+  });
+}
+
+// Downscale an image so its long edge is at most the configured size, and re-encode it at the
+// configured quality. Returns null when resizing is off, the browser cannot decode the file
+// (HEIC outside Safari, for example), or the result would not be smaller than the original.
+export async function resizeImageFile(file: File, settings: ResizeSettings): Promise<ResizeResult | null> {
+  if (!settings.enabled || SKIPPED_TYPES.includes(file.type)) {
+    return null;
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    return null;
+  }
+
+  try {
+    const original: OriginalImageInfo = {
+      width: bitmap.width,
+      height: bitmap.height,
+      bytes: file.size,
+      ...(file.type ? { mimeType: file.type } : {}),
+    };
+    const scale = Math.min(1, settings.maxLongEdge / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      return null;
+    }
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    const type = KEPT_TYPES.includes(file.type) ? file.type : 'image/jpeg';
+    const blob = await canvasToBlob(canvas, type, settings.quality);
+
+    // Keep the camera details, capture date and captions of JPEG photos
+    let body: Blob = blob;
+    if (blob.type === 'image/jpeg' && file.type === 'image/jpeg') {
+      const segments = readJpegMetadataSegments(new Uint8Array(await file.arrayBuffer()));
+      segments.filter(segment => segment[1] === 0xe1).forEach(resetExifOrientation);
+      if (segments.length > 0) {
+        const encoded = insertJpegSegments(new Uint8Array(await blob.arrayBuffer()), segments);
+        body = new Blob([encoded.buffer as ArrayBuffer], { type: blob.type });
+      }
+    }
+
+    if (body.size >= file.size) {
+      return null;
+    }
+
+    const extension = blob.type === 'image/jpeg' ? 'jpg' : blob.type.replace('image/', '');
+    const name = blob.type === file.type ? file.name : `${file.name.replace(/\.[^.]+$/, '')}.${extension}`;
+    return {
+      file: new File([body], name, { type: blob.type, lastModified: file.lastModified }),
+      width,
+      height,
+      original,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -1,4 +1,4 @@
-import { v2 as cloudinary } from 'cloudinary';
+import { v2 as cloudinary, UploadApiResponse } from 'cloudinary';
 
 // Configure Cloudinary
 cloudinary.config({
@@ -12,11 +12,13 @@ export async function uploadImage(file: Buffer, publicId?: string): Promise<any>
   return new Promise((resolve, reject) => {
     const uploadOptions: any = {
       resource_type: 'image',
-      folder: 'gallery',
     };
 
+    // A given public_id already includes the folder; only new images are placed in it
     if (publicId) {
       uploadOptions.public_id = publicId;
+    } else {
+      uploadOptions.folder = 'gallery';
     }
 
     cloudinary.uploader.upload_stream(
@@ -46,6 +48,22 @@ export async function updateImage(publicId: string, file: Buffer): Promise<any>
   }
 }
 
+// Copy an image to another public_id by uploading it from its delivery URL
+export async function copyImage(sourcePublicId: string, targetPublicId: string): Promise<UploadApiResponse> {
+  try {
+    const source = await cloudinary.api.resource(sourcePublicId);
+    return await cloudinary.uploader.upload(source.secure_url, {
+      resource_type: 'image',
+      public_id: targetPublicId,
+      overwrite: true,
+      invalidate: true,
+    });
+  } catch (error) {
+    console.error('Cloudinary copy error:', error);
+    throw error;
+  }
+}
+
 // Delete image from Cloudinary
 export async function deleteImage(publicId: string): Promise<any> {
   try {
@@ -69,13 +87,14 @@ export async function getImageDetails(publicId: string): Promise<any> {
 }
 
 // List all images in the gallery folder
-export async function listImages(maxResults: number = 50): Promise<any> {
+export async function listImages(maxResults: number = 50, nextCursor?: string): Promise<any> {
   try {
     const result = await cloudinary.api.resources({
       type: 'upload',
       prefix: 'gallery',
       max_results: maxResults,
       resource_type: 'image',
+      next_cursor: nextCursor,
     });
     return result;
   } catch (error) {
@@ -0,0 +1,342 @@
+import { Filter } from 'mongodb';
+import { toImageFormat } from './uploadValidation';
+import { GalleryImage, PublicUser } from '../types/gallery';
+
+// Parses the gallery's filter language into a MongoDB filter. A filter is a list of terms that
+// must all hold, for example:
+//
+//   tag:beach tag:sunset -tag:draft created:2024-03 format:png width:>3000
+//
+//   tag:a,b            tagged a or b; repeat the term to require several tags
+//   -tag:a,b           tagged neither a nor b
+//   format:png,jpg     stored as one of the formats; -format: excludes them
+//   created:, updated: a date range (see below), in UTC
+//   size:              file size, e.g. size:<5mb or size:100kb..2mb
+//   width:, height:    pixel dimensions, e.g. width:>=1920
+//   orientation:       landscape, portrait or square
+//   has:tags           has at least one tag (or a description with has:description); -has: negates
+//
+// Ranges are a single value, >x, >=x, <x, <=x, or x..y where either end may be left open.
+// Dates are a year (2024), month (2024-03) or day (2024-03-15), and a single date means that
+// whole period. today, yesterday, 7d and 2w are relative to now: created:7d is the last seven
+// days, so saved filters keep up with the calendar. Values containing spaces or commas are
+// quoted: tag:"new york".
+
+export class ImageFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageFilterError';
+  }
+}
+
+type ImageCondition = Filter<GalleryImage>;
+
+interface Bound<T> {
+  start: T;
+  end: T;
+}
+
+// Longest filter accepted, to keep a hostile query from building a huge database filter
+const MAX_FILTER_LENGTH = 1000;
+const MAX_FILTER_TERMS = 40;
+
+const FILTER_FIELDS = ['tag', 'format', 'created', 'updated', 'size', 'width', 'height', 'orientation', 'has'];
+const NEGATABLE_FIELDS = ['tag', 'format', 'has'];
+const ORIENTATIONS = ['landscape', 'portrait', 'square'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// What has: checks for, and the condition for an image with and without it
+const HAS_CONDITIONS: Record<string, [ImageCondition, ImageCondition]> = {
+  tags: [{ 'tags.0': { $exists: true } }, { 'tags.0': { $exists: false } }],
+  // Only non-empty strings sort after '', so this also catches a missing or null description
+  description: [{ description: { $gt: '' } }, { description: { $not: { $gt: '' } } }],
+};
+
+// Storage providers report some formats under a different name, e.g. "jpeg" for "jpg"
+const STORED_FORMAT_NAMES: Record<string, string[]> = {
+  jpg: ['jpg', 'jpeg'],
+  tiff: ['tiff', 'tif'],
+  heic: ['heic', 'heif'],
+};
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 * 1024,
+  gb: 1024 * 1024 * 1024,
+};
+
+// Split a filter into terms on whitespace, keeping quoted values together
+function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (const char of text) {
+    if (char === '"') {
+      quoted = !quoted;
+      current += char;
+    } else if (/\s/.test(char) && !quoted) {
+      if (current) {
+        terms.push(current);
+      }
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ImageFilterError('A quoted value is missing its closing quote');
+  }
+  if (current) {
+    terms.push(current);
+  }
+  return terms;
+}
+
+// Split a comma-separated value, honouring quotes, e.g. "new york",beach
+function splitList(value: string, term: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (const char of value) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      items.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current.trim());
+
+  if (items.some(item => item.length === 0)) {
+    throw new ImageFilterError(`"${term}" has an empty value`);
+  }
+  return items;
+}
+
+// Read a relative date: today or yesterday (UTC days), or the last N days or weeks up to now
+function parseRelativeDateBound(value: string): Bound<Date> | null {
+  const now = Date.now();
+  const startOfToday = Math.floor(now / DAY_MS) * DAY_MS;
+
+  switch (value.toLowerCase()) {
+    case 'today':
+      return { start: new Date(startOfToday), end: new Date(startOfToday + DAY_MS) };
+    case 'yesterday':
+      return { start: new Date(startOfToday - DAY_MS), end: new Date(startOfToday) };
+  }
+
+  const match = /^(\d{1,4})([dw])$/i.exec(value);
+  if (!match) {
+    return null;
+  }
+  const days = Number(match[1]) * (match[2].toLowerCase() === 'w' ? 7 : 1);
+  return { start: new Date(now - days * DAY_MS), end: new Date(now) };
+}
+
+// Read a date as the period it names: a year, a month or a day, in UTC, or a relative date
+function parseDateBound(value: string, term: string): Bound<Date> {
+  const relative = parseRelativeDateBound(value);
+  if (relative) {
+    return relative;
+  }
+
+  const match = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/.exec(value);
+  if (!match) {
+    throw new ImageFilterError(`"${term}" needs dates written as YYYY, YYYY-MM, YYYY-MM-DD, today, yesterday, 7d or 2w`);
+  }
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : undefined;
+  const day = match[3] ? Number(match[3]) : undefined;
+
+  const start = new Date(Date.UTC(year, month ?? 0, day ?? 1));
+  // Date.UTC rolls invalid dates over, e.g. 2024-02-30 becomes March 1st
+  if ((month !== undefined && (month > 11 || start.getUTCMonth() !== month)) ||
+      (day !== undefined && start.getUTCDate() !== day)) {
+    throw new ImageFilterError(`"${term}" contains a date that does not exist: ${value}`);
+  }
+
+  const end = day !== undefined
+    ? new Date(Date.UTC(year, month!, day + 1))
+    : month !== undefined
+      ? new Date(Date.UTC(year, month + 1, 1))
+      : new Date(Date.UTC(year + 1, 0, 1));
+  return { start, end };
+}
+
+// Read a byte count such as 500kb or 1.5mb; a bare number is bytes
+function parseSizeBound(value: string, term: string): Bound<number> {
+  const match = /^(\d+(?:\.\d+)?)(b|kb|mb|gb)?$/i.exec(value);
+  if (!match) {
+    throw new ImageFilterError(`"${term}" needs sizes such as 500kb, 2mb or 1048576`);
+  }
+  const bytes = Math.round(Number(match[1]) * SIZE_UNITS[(match[2] || 'b').toLowerCase()]);
+  return { start: bytes, end: bytes };
+}
+
+// Read a pixel count; "px" may be written after it
+function parsePixelBound(value: string, term: string): Bound<number> {
+  const match = /^(\d{1,6})(?:px)?$/i.exec(value);
+  if (!match) {
+    throw new ImageFilterError(`"${term}" needs a whole number of pixels`);
+  }
+  const pixels = Number(match[1]);
+  return { start: pixels, end: pixels };
+}
+
+// Turn a range into comparison operators. Bounds are periods: for dates the end is exclusive
+// (2024-03 runs up to April 1st), for numbers the single value is both start and end.
+function parseRange<T extends number | Date>(
+  value: string,
+  term: string,
+  parseBound: (value: string, term: string) => Bound<T>,
+  exclusiveEnd: boolean
+): Record<string, T> {
+  const endOperator = exclusiveEnd ? '$lt' : '$lte';
+
+  const comparison = /^(>=|<=|>|<)(.+)$/.exec(value);
+  if (comparison) {
+    const bound = parseBound(comparison[2], term);
+    switch (comparison[1]) {
+      case '>':
+        return exclusiveEnd ? { $gte: bound.end } : { $gt: bound.end };
+      case '>=':
+        return { $gte: bound.start };
+      case '<':
+        return { $lt: bound.start };
+      default:
+        return { [endOperator]: bound.end };
+    }
+  }
+
+  if (value.includes('..')) {
+    const [from, to, ...rest] = value.split('..');
+    if (rest.length > 0 || (!from && !to)) {
+      throw new ImageFilterError(`"${term}" is not a valid range; write it as from..to`);
+    }
+    const range: Record<string, T> = {};
+    const lower = from ? parseBound(from, term) : undefined;
+    const upper = to ? parseBound(to, term) : undefined;
+    if (lower) {
+      range.$gte = lower.start;
+    }
+    if (upper) {
+      range[endOperator] = upper.end;
+    }
+    if (lower && upper && (exclusiveEnd ? Number(lower.start) >= Number(upper.end) : Number(lower.start) > Number(upper.end))) {
+      throw new ImageFilterError(`"${term}" has its range the wrong way round`);
+    }
+    return range;
+  }
+
+  const bound = parseBound(value, term);
+  return { $gte: bound.start, [endOperator]: bound.end };
+}
+
+function parseFormats(value: string, term: string): string[] {
+  const names = splitList(value, term).map(item => {
+    const format = toImageFormat(item);
+    if (!format) {
+      throw new ImageFilterError(`"${term}" names an unknown image format: ${item}`);
+    }
+    return STORED_FORMAT_NAMES[format] || [format];
+  });
+  return Array.from(new Set(names.flat()));
+}
+
+function parseOrientation(value: string, term: string): ImageCondition {
+  switch (value.toLowerCase()) {
+    case 'landscape':
+      return { $expr: { $gt: ['$width', '$height'] } };
+    case 'portrait':
+      return { $expr: { $lt: ['$width', '$height'] } };
+    case 'square':
+      return { $expr: { $eq: ['$width', '$height'] } };
+    default:
+      throw new ImageFilterError(`"${term}" must be one of ${ORIENTATIONS.join(', ')}`);
+  }
+}
+
+// Build the database condition for a single term
+function parseTerm(term: string): ImageCondition {
+  const negated = term.startsWith('-');
+  const body = negated ? term.slice(1) : term;
+  const separator = body.indexOf(':');
+  if (separator <= 0) {
+    throw new ImageFilterError(`"${term}" is not a filter; use field:value with one of ${FILTER_FIELDS.join(', ')}`);
+  }
+
+  const field = body.slice(0, separator).toLowerCase();
+  const value = body.slice(separator + 1);
+  if (!FILTER_FIELDS.includes(field)) {
+    throw new ImageFilterError(`"${field}" is not a filter field; use one of ${FILTER_FIELDS.join(', ')}`);
+  }
+  if (negated && !NEGATABLE_FIELDS.includes(field)) {
+    throw new ImageFilterError(`"${term}" cannot be negated; only ${NEGATABLE_FIELDS.join(', ')} can be`);
+  }
+  if (!value) {
+    throw new ImageFilterError(`"${term}" has an empty value`);
+  }
+
+  switch (field) {
+    case 'tag': {
+      const tags = splitList(value, term);
+      return { tags: negated ? { $nin: tags } : { $in: tags } };
+    }
+    case 'format': {
+      const formats = parseFormats(value, term);
+      return { format: negated ? { $nin: formats } : { $in: formats } };
+    }
+    case 'created':
+      return { createdAt: parseRange(value, term, parseDateBound, true) };
+    case 'updated':
+      return { updatedAt: parseRange(value, term, parseDateBound, true) };
+    case 'size':
+      return { bytes: parseRange(value, term, parseSizeBound, false) };
+    case 'width':
+      return { width: parseRange(value, term, parsePixelBound, false) };
+    case 'height':
+      return { height: parseRange(value, term, parsePixelBound, false) };
+    case 'has': {
+      const conditions = HAS_CONDITIONS[value.toLowerCase()];
+      if (!conditions) {
+        throw new ImageFilterError(`"${term}" must be has:${Object.keys(HAS_CONDITIONS).join(' or has:')}`);
+      }
+      return negated ? conditions[1] : conditions[0];
+    }
+    default:
+      return parseOrientation(value, term);
+  }
+}
+
+// Parse a filter into the conditions it imposes; an empty filter imposes none.
+// Throws ImageFilterError describing the first term that cannot be understood.
+export function parseImageFilter(text: string): ImageCondition[] {
+  if (text.length > MAX_FILTER_LENGTH) {
+    throw new ImageFilterError(`Filters are limited to ${MAX_FILTER_LENGTH} characters`);
+  }
+
+  const terms = tokenize(text);
+  if (terms.length > MAX_FILTER_TERMS) {
+    throw new ImageFilterError(`Filters are limited to ${MAX_FILTER_TERMS} terms`);
+  }
+  return terms.map(parseTerm);
+}
+
+// Images a viewer may see: admins see everything, signed-in users public images and their own,
+// and anonymous visitors (null) only public images
+export function buildViewerFilter(viewer: PublicUser | null): Filter<GalleryImage> | null {
+  if (viewer?.role === 'admin') {
+    return null;
+  }
+  return viewer
+    ? { $or: [{ isPublic: true }, { uploadedBy: viewer.username }] }
+    : { isPublic: true };
+}
@@ -0,0 +1,73 @@
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+
+// Hashes at most this many bits apart are treated as the same picture, unless NEAR_DUPLICATE_DISTANCE says otherwise
+export const DEFAULT_NEAR_DUPLICATE_DISTANCE = 6;
+
+// Perceptual hashes are also kept split into this many 8-bit bands. Two hashes fewer bits apart
+// than there are bands agree on at least one whole band, so near-duplicates can be found by looking
+// up equal bands instead of comparing against every hash
+export const PERCEPTUAL_HASH_BANDS = 8;
+export const MAX_NEAR_DUPLICATE_DISTANCE = PERCEPTUAL_HASH_BANDS - 1;
+
+// Get the largest perceptual hash distance at which two images count as near-duplicates
+export function getNearDuplicateDistance(): number {
+  const value = process.env.NEAR_DUPLICATE_DISTANCE;
+  if (!value) {
+    return DEFAULT_NEAR_DUPLICATE_DISTANCE;
+  }
+
+  const distance = Number(value);
+  return Number.isInteger(distance) && distance >= 0 && distance <= MAX_NEAR_DUPLICATE_DISTANCE ? distance : DEFAULT_NEAR_DUPLICATE_DISTANCE;
+}
+
+// The bands of a perceptual hash, each tagged with its position, e.g. ["0:f3", "1:07", ...]
+export function getHashBands(perceptualHash: string): string[] {
+  const bandLength = perceptualHash.length / PERCEPTUAL_HASH_BANDS;
+  return Array.from({ length: PERCEPTUAL_HASH_BANDS }, (_, index) =>
+    `${index}:${perceptualHash.slice(index * bandLength, (index + 1) * bandLength)}`
+  );
+}
+
+// SHA-256 of the file's bytes, as hex; equal hashes mean identical files
+export function computeContentHash(file: Buffer): string {
+  return createHash('sha256').update(file).digest('hex');
+}
+
+// 64-bit difference hash (dHash) of the picture, as 16 hex digits. The image is shrunk to 9x8 grey
+// pixels and each bit records whether a pixel is brighter than its right neighbour, so resized,
+// recompressed or lightly edited copies get the same or a close hash. Returns null when the
+// image cannot be decoded.
+export async function computePerceptualHash(file: Buffer): Promise<string | null> {
+  try {
+    const pixels = await sharp(file, { failOn: 'none' })
+      .rotate()
+      .greyscale()
+      .resize(9, 8, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+
+    let hash = BigInt(0);
+    for (let row = 0; row < 8; row++) {
+      for (let column = 0; column < 8; column++) {
+        const bit = pixels[row * 9 + column] > pixels[row * 9 + column + 1] ? BigInt(1) : BigInt(0);
+        hash = (hash << BigInt(1)) | bit;
+      }
+    }
+    return hash.toString(16).padStart(16, '0');
+  } catch (error) {
+    console.error('Error computing perceptual hash:', error);
+    return null;
+  }
+}
+
+// Number of bits that differ between two perceptual hashes
+export function hashDistance(first: string, second: string): number {
+  let difference = BigInt(`0x${first}`) ^ BigInt(`0x${second}`);
+  let distance = 0;
+  while (difference > BigInt(0)) {
+    distance += Number(difference & BigInt(1));
+    difference >>= BigInt(1);
+  }
+  return distance;
+}
@@ -0,0 +1,291 @@
+export interface ImageInfo {
+  format: string;
+  width: number;
+  height: number;
+}
+
+export interface DetectedImageType {
+  format: string;
+  mimeType: string;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  heic: 'image/heic',
+  tiff: 'image/tiff',
+  svg: 'image/svg+xml',
+};
+
+// Brands in the ftyp box of AVIF and HEIC files, which share the HEIF container
+const AVIF_BRANDS = ['avif', 'avis'];
+const HEIC_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1'];
+
+// Identify an image from its leading bytes, ignoring any file name or declared type
+export function detectImageType(buffer: Buffer): DetectedImageType | null {
+  let format: string | null = null;
+
+  if (isPng(buffer)) {
+    format = 'png';
+  } else if (isJpeg(buffer)) {
+    format = 'jpg';
+  } else if (isGif(buffer)) {
+    format = 'gif';
+  } else if (isWebp(buffer)) {
+    format = 'webp';
+  } else if (isTiff(buffer)) {
+    format = 'tiff';
+  } else {
+    format = getHeifFormat(buffer) || (findSvgRoot(buffer) ? 'svg' : null);
+  }
+
+  return format ? { format, mimeType: MIME_TYPES[format] } : null;
+}
+
+// Read the format and pixel dimensions from an image header without decoding it
+export function readImageInfo(buffer: Buffer): ImageInfo | null {
+  if (isPng(buffer)) {
+    return readPngInfo(buffer);
+  }
+  if (isJpeg(buffer)) {
+    return readJpegInfo(buffer);
+  }
+  if (isGif(buffer)) {
+    return readGifInfo(buffer);
+  }
+  if (isWebp(buffer)) {
+    return readWebpInfo(buffer);
+  }
+  if (isTiff(buffer)) {
+    return readTiffInfo(buffer);
+  }
+  const heifFormat = getHeifFormat(buffer);
+  if (heifFormat) {
+    return readHeifInfo(buffer, heifFormat);
+  }
+  const svgRoot = findSvgRoot(buffer);
+  if (svgRoot) {
+    return readSvgInfo(svgRoot);
+  }
+  return null;
+}
+
+function isPng(buffer: Buffer): boolean {
+  return buffer.length >= 24 &&
+    buffer.readUInt32BE(0) === 0x89504e47 &&
+    buffer.readUInt32BE(4) === 0x0d0a1a0a;
+}
+
+function isJpeg(buffer: Buffer): boolean {
+  return buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff;
+}
+
+function isGif(buffer: Buffer): boolean {
+  return buffer.length >= 10 && buffer.toString('ascii', 0, 4) === 'GIF8';
+}
+
+function isWebp(buffer: Buffer): boolean {
+  return buffer.length >= 30 &&
+    buffer.toString('ascii', 0, 4) === 'RIFF' &&
+    buffer.toString('ascii', 8, 12) === 'WEBP';
+}
+
+function isTiff(buffer: Buffer): boolean {
+  return buffer.length >= 8 && (
+    (buffer.toString('ascii', 0, 2) === 'II' && buffer.readUInt16LE(2) === 42) ||
+    (buffer.toString('ascii', 0, 2) === 'MM' && buffer.readUInt16BE(2) === 42)
+  );
+}
+
+// List the major and compatible brands of an ISO media file's leading ftyp box
+function readFtypBrands(buffer: Buffer): string[] | null {
+  if (buffer.length < 16 || buffer.toString('ascii', 4, 8) !== 'ftyp') {
+    return null;
+  }
+
+  const boxSize = buffer.readUInt32BE(0);
+  if (boxSize < 16 || boxSize > buffer.length) {
+    return null;
+  }
+
+  const brands = [buffer.toString('ascii', 8, 12)];
+  for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+    brands.push(buffer.toString('ascii', offset, offset + 4));
+  }
+  return brands;
+}
+
+// AVIF files also list the generic mif1 brand, so AVIF brands are checked first
+function getHeifFormat(buffer: Buffer): string | null {
+  const brands = readFtypBrands(buffer);
+  if (!brands) {
+    return null;
+  }
+  if (brands.some(brand => AVIF_BRANDS.includes(brand))) {
+    return 'avif';
+  }
+  if (brands.some(brand => HEIC_BRANDS.includes(brand))) {
+    return 'heic';
+  }
+  return null;
+}
+
+// The root <svg> tag, allowing an XML declaration, comments and a doctype before it
+function findSvgRoot(buffer: Buffer): string | null {
+  const text = buffer.toString('utf8', 0, Math.min(buffer.length, 8192)).replace(/^\uFEFF/, '');
+  const match = text.match(/^\s*(?:<\?xml[^>]*\?>\s*)?(?:(?:<!--[\s\S]*?-->|<!DOCTYPE[^>]*>)\s*)*(<svg[\s>][^>]*>?)/i);
+  return match ? match[1] : null;
+}
+
+function readPngInfo(buffer: Buffer): ImageInfo {
+  return {
+    format: 'png',
+    width: buffer.readUInt32BE(16),
+    height: buffer.readUInt32BE(20),
+  };
+}
+
+function readGifInfo(buffer: Buffer): ImageInfo {
+  return {
+    format: 'gif',
+    width: buffer.readUInt16LE(6),
+    height: buffer.readUInt16LE(8),
+  };
+}
+
+function readJpegInfo(buffer: Buffer): ImageInfo | null {
+  let offset = 2;
+
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      return null;
+    }
+
+    const marker = buffer[offset + 1];
+
+    // Skip fill bytes between markers
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+
+    const segmentLength = buffer.readUInt16BE(offset + 2);
+
+    // SOF0-SOF15 carry the frame size, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        format: 'jpg',
+        height: buffer.readUInt16BE(offset + 5),
+        width: buffer.readUInt16BE(offset + 7),
+      };
+    }
+
+    offset += 2 + segmentLength;
+  }
+
+  return null;
+}
+
+function readWebpInfo(buffer: Buffer): ImageInfo | null {
+  const chunk = buffer.toString('ascii', 12, 16);
+
+  if (chunk === 'VP8 ') {
+    return {
+      format: 'webp',
+      width: buffer.readUInt16LE(26) & 0x3fff,
+      height: buffer.readUInt16LE(28) & 0x3fff,
+    };
+  }
+
+  if (chunk === 'VP8L') {
+    const bits = buffer.readUInt32LE(21);
+    return {
+      format: 'webp',
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >> 14) & 0x3fff) + 1,
+    };
+  }
+
+  if (chunk === 'VP8X') {
+    return {
+      format: 'webp',
+      width: buffer.readUIntLE(24, 3) + 1,
+      height: buffer.readUIntLE(27, 3) + 1,
+    };
+  }
+
+  return null;
+}
+
+// TIFF keeps the size in the first image file directory, as ImageWidth (256) and ImageLength (257) entries
+function readTiffInfo(buffer: Buffer): ImageInfo | null {
+  const littleEndian = buffer[0] === 0x49;
+  const readUInt16 = (offset: number) => littleEndian ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset);
+  const readUInt32 = (offset: number) => littleEndian ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset);
+
+  const directoryOffset = readUInt32(4);
+  if (directoryOffset + 2 > buffer.length) {
+    return null;
+  }
+
+  let width = 0;
+  let height = 0;
+  const entryCount = readUInt16(directoryOffset);
+
+  for (let i = 0; i < entryCount; i++) {
+    const entry = directoryOffset + 2 + i * 12;
+    if (entry + 12 > buffer.length) {
+      break;
+    }
+
+    const tag = readUInt16(entry);
+    // SHORT (3) values sit in the first two bytes of the value field, LONG (4) values fill it
+    const value = readUInt16(entry + 2) === 3 ? readUInt16(entry + 8) : readUInt32(entry + 8);
+
+    if (tag === 256) {
+      width = value;
+    } else if (tag === 257) {
+      height = value;
+    }
+  }
+
+  return width && height ? { format: 'tiff', width, height } : null;
+}
+
+// HEIF images record their size in ispe boxes; grid images have one per tile plus one for the
+// whole picture, so the largest is used
+function readHeifInfo(buffer: Buffer, format: string): ImageInfo | null {
+  const marker = Buffer.from('ispe');
+  const searchEnd = Math.min(buffer.length, 1024 * 1024);
+  let width = 0;
+  let height = 0;
+
+  for (let offset = buffer.indexOf(marker); offset >= 0 && offset + 16 <= searchEnd; offset = buffer.indexOf(marker, offset + 4)) {
+    const boxWidth = buffer.readUInt32BE(offset + 8);
+    const boxHeight = buffer.readUInt32BE(offset + 12);
+    if (boxWidth * boxHeight > width * height) {
+      width = boxWidth;
+      height = boxHeight;
+    }
+  }
+
+  return width && height ? { format, width, height } : null;
+}
+
+// SVG size comes from pixel width and height attributes, then the viewBox, then the
+// 300x150 browsers use for replaced elements without a size
+function readSvgInfo(rootTag: string): ImageInfo {
+  const attribute = (name: string) => {
+    const match = rootTag.match(new RegExp(`\\s${name}\\s*=\\s*["']\\s*([\\d.]+)(?:px)?\\s*["']`));
+    return match ? Math.round(parseFloat(match[1])) : 0;
+  };
+  const viewBox = rootTag.match(/\sviewBox\s*=\s*["']\s*[-\d.]+[\s,]+[-\d.]+[\s,]+([\d.]+)[\s,]+([\d.]+)\s*["']/);
+
+  const width = attribute('width') || (viewBox ? Math.round(parseFloat(viewBox[1])) : 0);
+  const height = attribute('height') || (viewBox ? Math.round(parseFloat(viewBox[2])) : 0);
+
+  return { format: 'svg', width: width || 300, height: height || 150 };
+}
@@ -0,0 +1,682 @@
+import zlib from 'zlib';
+import { detectImageType } from './imageInfo';
+import { ImageMetadata } from '../types/gallery';
+
+// A TIFF structure inside a file (the EXIF block of a JPEG, or a whole TIFF file);
+// offsets stored in it are relative to start
+interface TiffView {
+  buffer: Buffer;
+  start: number;
+  end: number;
+  littleEndian: boolean;
+}
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  // Absolute position of the value, which sits in the entry itself when it fits in four bytes
+  valueOffset: number;
+  size: number;
+}
+
+// Where each kind of metadata was found in a file
+interface MetadataSources {
+  exif: TiffView[];
+  iptc: Buffer[];
+  xmp: { start: number; end: number }[];
+  // PNG chunks whose checksums must be updated after their contents change, by data offset
+  pngChunks: Map<number, number>;
+  // Compressed XMP that cannot be edited in place, as [chunk start, chunk end, inflated text]
+  compressedXmp: [number, number, string][];
+}
+
+// Sizes in bytes of the EXIF field types
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const EXIF_HEADER = Buffer.from('Exif\0\0', 'latin1');
+const XMP_JPEG_HEADER = Buffer.from('http://ns.adobe.com/xap/1.0/\0', 'latin1');
+const PHOTOSHOP_HEADER = Buffer.from('Photoshop 3.0\0', 'latin1');
+
+const MAX_TEXT_LENGTH = 500;
+const MAX_KEYWORDS = 100;
+
+// Whether STRIP_GPS makes every upload drop its location data
+export function isGpsStrippingForced(): boolean {
+  return process.env.STRIP_GPS === 'true';
+}
+
+function cleanText(value: string | undefined): string | undefined {
+  const text = value?.replace(/\0+$/, '').trim();
+  return text ? text.slice(0, MAX_TEXT_LENGTH) : undefined;
+}
+
+// ---- TIFF / EXIF ----
+
+function createTiffView(buffer: Buffer, start: number, end: number): TiffView | null {
+  if (end - start < 8) {
+    return null;
+  }
+  const order = buffer.toString('latin1', start, start + 2);
+  if (order !== 'II' && order !== 'MM') {
+    return null;
+  }
+  const view = { buffer, start, end, littleEndian: order === 'II' };
+  return readUInt16(view, start + 2) === 42 ? view : null;
+}
+
+function readUInt16(view: TiffView, offset: number): number {
+  return view.littleEndian ? view.buffer.readUInt16LE(offset) : view.buffer.readUInt16BE(offset);
+}
+
+function readUInt32(view: TiffView, offset: number): number {
+  return view.littleEndian ? view.buffer.readUInt32LE(offset) : view.buffer.readUInt32BE(offset);
+}
+
+// Absolute position of an image file directory, from its offset relative to the TIFF header
+function ifdPosition(view: TiffView, relativeOffset: number): number | null {
+  const position = view.start + relativeOffset;
+  return relativeOffset >= 8 && position + 2 <= view.end ? position : null;
+}
+
+function readIfd(view: TiffView, relativeOffset: number): Map<number, IfdEntry> {
+  const entries = new Map<number, IfdEntry>();
+  const position = ifdPosition(view, relativeOffset);
+  if (position === null) {
+    return entries;
+  }
+
+  const count = readUInt16(view, position);
+  for (let index = 0; index < count; index++) {
+    const entryOffset = position + 2 + index * 12;
+    if (entryOffset + 12 > view.end) {
+      break;
+    }
+
+    const type = readUInt16(view, entryOffset + 2);
+    const valueCount = readUInt32(view, entryOffset + 4);
+    const size = (TYPE_SIZES[type] || 0) * valueCount;
+    const valueOffset = size <= 4 ? entryOffset + 8 : view.start + readUInt32(view, entryOffset + 8);
+
+    if (size > 0 && valueOffset + size <= view.end) {
+      entries.set(readUInt16(view, entryOffset), { type, count: valueCount, valueOffset, size });
+    }
+  }
+  return entries;
+}
+
+function readAscii(view: TiffView, entry: IfdEntry | undefined): string | undefined {
+  if (!entry || (entry.type !== 2 && entry.type !== 7 && entry.type !== 1)) {
+    return undefined;
+  }
+  return cleanText(view.buffer.toString('utf8', entry.valueOffset, entry.valueOffset + entry.size));
+}
+
+function readInteger(view: TiffView, entry: IfdEntry | undefined, index: number = 0): number | undefined {
+  if (!entry || index >= entry.count) {
+    return undefined;
+  }
+  switch (entry.type) {
+    case 1:
+    case 7:
+      return view.buffer[entry.valueOffset + index];
+    case 3:
+      return readUInt16(view, entry.valueOffset + index * 2);
+    case 4:
+      return readUInt32(view, entry.valueOffset + index * 4);
+    default:
+      return undefined;
+  }
+}
+
+function readRational(view: TiffView, entry: IfdEntry | undefined, index: number = 0): number | undefined {
+  if (!entry || index >= entry.count || (entry.type !== 5 && entry.type !== 10)) {
+    return undefined;
+  }
+  const offset = entry.valueOffset + index * 8;
+  // Type 10 (SRATIONAL) holds signed values
+  const read = (position: number) => entry.type === 5
+    ? readUInt32(view, position)
+    : view.littleEndian ? view.buffer.readInt32LE(position) : view.buffer.readInt32BE(position);
+  const denominator = read(offset + 4);
+  return denominator ? read(offset) / denominator : undefined;
+}
+
+// EXIF dates look like "2024:06:01 14:30:00"; an OffsetTime tag may give the UTC offset
+function parseExifDate(value: string | undefined, offset?: string): Date | undefined {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === '0000') {
+    return undefined;
+  }
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : 'Z';
+  const date = new Date(`${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}${zone}`);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function readGpsCoordinate(view: TiffView, entry: IfdEntry | undefined, reference: string | undefined): number | undefined {
+  const degrees = readRational(view, entry, 0);
+  if (degrees === undefined) {
+    return undefined;
+  }
+  const value = degrees + (readRational(view, entry, 1) || 0) / 60 + (readRational(view, entry, 2) || 0) / 3600;
+  return reference === 'S' || reference === 'W' ? -value : value;
+}
+
+// Tag numbers used below are from the TIFF, EXIF and EXIF GPS specifications
+function parseExif(view: TiffView): { metadata: ImageMetadata; xmp?: string; iptc?: Buffer } {
+  const ifd0 = readIfd(view, readUInt32(view, view.start + 4));
+  const exifPointer = readInteger(view, ifd0.get(0x8769));
+  const gpsPointer = readInteger(view, ifd0.get(0x8825));
+  const exif = exifPointer ? readIfd(view, exifPointer) : new Map<number, IfdEntry>();
+  const gps = gpsPointer ? readIfd(view, gpsPointer) : new Map<number, IfdEntry>();
+
+  const metadata: ImageMetadata = {
+    cameraMake: readAscii(view, ifd0.get(0x010f)),
+    cameraModel: readAscii(view, ifd0.get(0x0110)),
+    lensModel: readAscii(view, exif.get(0xa434)),
+    capturedAt: parseExifDate(readAscii(view, exif.get(0x9003)), readAscii(view, exif.get(0x9011))) ||
+      parseExifDate(readAscii(view, exif.get(0x9004)), readAscii(view, exif.get(0x9012))),
+    orientation: readInteger(view, ifd0.get(0x0112)),
+    exposureTime: readRational(view, exif.get(0x829a)),
+    fNumber: readRational(view, exif.get(0x829d)),
+    iso: readInteger(view, exif.get(0x8827)),
+    focalLength: readRational(view, exif.get(0x920a)),
+    caption: readAscii(view, ifd0.get(0x010e)),
+    artist: readAscii(view, ifd0.get(0x013b)),
+    copyright: readAscii(view, ifd0.get(0x8298)),
+    software: readAscii(view, ifd0.get(0x0131)),
+  };
+
+  const latitude = readGpsCoordinate(view, gps.get(2), readAscii(view, gps.get(1)));
+  const longitude = readGpsCoordinate(view, gps.get(4), readAscii(view, gps.get(3)));
+  if (latitude !== undefined && longitude !== undefined) {
+    const altitude = readRational(view, gps.get(6));
+    metadata.gps = {
+      latitude,
+      longitude,
+      ...(altitude !== undefined ? { altitude: readInteger(view, gps.get(5)) === 1 ? -altitude : altitude } : {}),
+    };
+  }
+
+  // TIFF files can carry XMP (tag 700) and IPTC (tag 33723) in the first directory
+  const xmpEntry = ifd0.get(700);
+  const iptcEntry = ifd0.get(33723);
+  return {
+    metadata,
+    xmp: xmpEntry ? view.buffer.toString('utf8', xmpEntry.valueOffset, xmpEntry.valueOffset + xmpEntry.size) : undefined,
+    iptc: iptcEntry ? view.buffer.subarray(iptcEntry.valueOffset, iptcEntry.valueOffset + iptcEntry.size) : undefined,
+  };
+}
+
+// Clear the GPS directory of an EXIF block: its values are zeroed and its entry count set to 0
+function stripExifGps(view: TiffView): boolean {
+  const ifd0 = readIfd(view, readUInt32(view, view.start + 4));
+  const gpsPointer = readInteger(view, ifd0.get(0x8825));
+  const position = gpsPointer ? ifdPosition(view, gpsPointer) : null;
+  if (position === null) {
+    return false;
+  }
+
+  const gps = readIfd(view, gpsPointer!);
+  if (gps.size === 0) {
+    return false;
+  }
+
+  for (const entry of gps.values()) {
+    view.buffer.fill(0, entry.valueOffset, entry.valueOffset + entry.size);
+  }
+  const count = readUInt16(view, position);
+  view.buffer.fill(0, position + 2, Math.min(view.end, position + 2 + count * 12));
+  if (view.littleEndian) {
+    view.buffer.writeUInt16LE(0, position);
+  } else {
+    view.buffer.writeUInt16BE(0, position);
+  }
+  return true;
+}
+
+// ---- IPTC ----
+
+// Read IPTC-IIM datasets from record 2 (application record)
+function parseIptc(data: Buffer): ImageMetadata {
+  const values = new Map<number, string[]>();
+  let utf8 = false;
+  let offset = 0;
+
+  while (offset + 5 <= data.length && data[offset] === 0x1c) {
+    const record = data[offset + 1];
+    const dataset = data[offset + 2];
+    const length = data.readUInt16BE(offset + 3);
+    // Extended lengths are only used for large binary datasets
+    if (length & 0x8000) {
+      break;
+    }
+
+    const value = data.subarray(offset + 5, offset + 5 + length);
+    if (record === 1 && dataset === 90) {
+      utf8 = value.includes(Buffer.from('\x1b%G', 'latin1'));
+    } else if (record === 2) {
+      const text = value.toString(utf8 ? 'utf8' : 'latin1');
+      values.set(dataset, [...(values.get(dataset) || []), text]);
+    }
+    offset += 5 + length;
+  }
+
+  const first = (dataset: number) => cleanText(values.get(dataset)?.[0]);
+  const date = first(55)?.match(/^(\d{4})(\d{2})(\d{2})$/);
+  const time = first(60)?.match(/^(\d{2})(\d{2})(\d{2})([+-]\d{2})?(\d{2})?/);
+
+  let capturedAt: Date | undefined;
+  if (date) {
+    const zone = time?.[4] ? `${time[4]}:${time[5] || '00'}` : 'Z';
+    const parsed = new Date(`${date[1]}-${date[2]}-${date[3]}T${time ? `${time[1]}:${time[2]}:${time[3]}` : '00:00:00'}${zone}`);
+    capturedAt = isNaN(parsed.getTime()) ? undefined : parsed;
+  }
+
+  return {
+    title: first(5),
+    keywords: values.get(25)?.map(keyword => keyword.trim()).filter(Boolean),
+    capturedAt,
+    artist: first(80),
+    copyright: first(116),
+    caption: first(120),
+  };
+}
+
+// Photoshop image resources (8BIM blocks) hold the IPTC data as resource 0x0404
+function findIptcInPhotoshopResources(data: Buffer): Buffer | null {
+  let offset = 0;
+  while (offset + 12 <= data.length && data.toString('latin1', offset, offset + 4) === '8BIM') {
+    const id = data.readUInt16BE(offset + 4);
+    const nameLength = data[offset + 6];
+    // The name is a Pascal string padded to an even length, counting its length byte
+    const sizeOffset = offset + 6 + ((nameLength + 2) & ~1);
+    if (sizeOffset + 4 > data.length) {
+      break;
+    }
+    const size = data.readUInt32BE(sizeOffset);
+    const start = sizeOffset + 4;
+    if (id === 0x0404) {
+      return data.subarray(start, Math.min(data.length, start + size));
+    }
+    offset = start + size + (size % 2);
+  }
+  return null;
+}
+
+// ---- XMP ----
+
+function decodeXmlText(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+// A property given as an attribute or an element, taking the first item of an rdf:Alt or rdf:Seq
+function xmpValue(xmp: string, name: string): string | undefined {
+  const attribute = xmp.match(new RegExp(`\\s${name}="([^"]*)"`));
+  if (attribute) {
+    return cleanText(decodeXmlText(attribute[1]));
+  }
+
+  const element = xmp.match(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`));
+  if (!element) {
+    return undefined;
+  }
+  const item = element[1].match(/<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/);
+  return cleanText(decodeXmlText(item ? item[1] : element[1]));
+}
+
+function xmpList(xmp: string, name: string): string[] | undefined {
+  const element = xmp.match(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`));
+  if (!element) {
+    return undefined;
+  }
+  const items = [...element[1].matchAll(/<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/g)]
+    .map(item => cleanText(decodeXmlText(item[1])))
+    .filter((item): item is string => item !== undefined);
+  return items.length > 0 ? items : undefined;
+}
+
+// XMP dates are ISO 8601; a time without a UTC offset is read as UTC
+function parseXmpDate(value: string | undefined): Date | undefined {
+  if (!value || !/^\d{4}-\d{2}-\d{2}/.test(value)) {
+    return undefined;
+  }
+  const hasZone = /(?:Z|[+-]\d{2}:\d{2})$/.test(value) || !value.includes('T');
+  const date = new Date(hasZone ? value : `${value}Z`);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// XMP coordinates look like "37,46.512N" or "37,46,30.7N"
+function parseXmpCoordinate(value: string | undefined): number | undefined {
+  const match = value?.match(/^(\d+),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/i);
+  if (!match) {
+    return undefined;
+  }
+  const coordinate = Number(match[1]) + Number(match[2]) / 60 + Number(match[3] || 0) / 3600;
+  return /[SW]/i.test(match[4]) ? -coordinate : coordinate;
+}
+
+function parseXmp(xmp: string): ImageMetadata {
+  const metadata: ImageMetadata = {
+    cameraMake: xmpValue(xmp, 'tiff:Make'),
+    cameraModel: xmpValue(xmp, 'tiff:Model'),
+    lensModel: xmpValue(xmp, 'exifEX:LensModel') || xmpValue(xmp, 'aux:Lens'),
+    capturedAt: parseXmpDate(xmpValue(xmp, 'exif:DateTimeOriginal')) ||
+      parseXmpDate(xmpValue(xmp, 'photoshop:DateCreated')) ||
+      parseXmpDate(xmpValue(xmp, 'xmp:CreateDate')),
+    title: xmpValue(xmp, 'dc:title'),
+    caption: xmpValue(xmp, 'dc:description'),
+    keywords: xmpList(xmp, 'dc:subject'),
+    artist: xmpValue(xmp, 'dc:creator'),
+    copyright: xmpValue(xmp, 'dc:rights'),
+    software: xmpValue(xmp, 'xmp:CreatorTool'),
+  };
+
+  const latitude = parseXmpCoordinate(xmpValue(xmp, 'exif:GPSLatitude'));
+  const longitude = parseXmpCoordinate(xmpValue(xmp, 'exif:GPSLongitude'));
+  if (latitude !== undefined && longitude !== undefined) {
+    metadata.gps = { latitude, longitude };
+  }
+  return metadata;
+}
+
+// GPS properties as attributes, or as elements with their content
+const XMP_GPS_PATTERN = /\sexif:GPS\w+="[^"]*"|<exif:GPS(\w+)(?:\s[^>]*)?\/>|<exif:GPS(\w+)(?:\s[^>]*)?>[\s\S]*?<\/exif:GPS\2>/g;
+
+function hasXmpGps(xmp: string): boolean {
+  return new RegExp(XMP_GPS_PATTERN.source).test(xmp);
+}
+
+// Blank out GPS properties with spaces, keeping the packet's length so nothing around it moves
+function stripXmpGps(buffer: Buffer, start: number, end: number): boolean {
+  // Latin-1 maps each byte to one character, so lengths match byte for byte
+  const xmp = buffer.toString('latin1', start, end);
+  if (!hasXmpGps(xmp)) {
+    return false;
+  }
+  buffer.write(xmp.replace(XMP_GPS_PATTERN, match => ' '.repeat(match.length)), start, 'latin1');
+  return true;
+}
+
+// ---- Containers ----
+
+function emptySources(): MetadataSources {
+  return { exif: [], iptc: [], xmp: [], pngChunks: new Map(), compressedXmp: [] };
+}
+
+function startsWith(buffer: Buffer, offset: number, prefix: Buffer): boolean {
+  return offset + prefix.length <= buffer.length && buffer.subarray(offset, offset + prefix.length).equals(prefix);
+}
+
+function locateJpegMetadata(buffer: Buffer, sources: MetadataSources): void {
+  let offset = 2;
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // Metadata segments all come before the image data
+    if (marker === 0xda || marker === 0xd9) {
+      break;
+    }
+
+    const length = buffer.readUInt16BE(offset + 2);
+    const dataStart = offset + 4;
+    const end = Math.min(buffer.length, offset + 2 + length);
+
+    if (marker === 0xe1 && startsWith(buffer, dataStart, EXIF_HEADER)) {
+      const view = createTiffView(buffer, dataStart + EXIF_HEADER.length, end);
+      if (view) {
+        sources.exif.push(view);
+      }
+    } else if (marker === 0xe1 && startsWith(buffer, dataStart, XMP_JPEG_HEADER)) {
+      sources.xmp.push({ start: dataStart + XMP_JPEG_HEADER.length, end });
+    } else if (marker === 0xed && startsWith(buffer, dataStart, PHOTOSHOP_HEADER)) {
+      const iptc = findIptcInPhotoshopResources(buffer.subarray(dataStart + PHOTOSHOP_HEADER.length, end));
+      if (iptc) {
+        sources.iptc.push(iptc);
+      }
+    }
+
+    offset += 2 + length;
+  }
+}
+
+function locatePngMetadata(buffer: Buffer, sources: MetadataSources): void {
+  let offset = 8;
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    const dataStart = offset + 8;
+    const dataEnd = dataStart + length;
+    if (dataEnd + 4 > buffer.length || type === 'IEND') {
+      break;
+    }
+
+    if (type === 'eXIf') {
+      const view = createTiffView(buffer, dataStart, dataEnd);
+      if (view) {
+        sources.exif.push(view);
+        sources.pngChunks.set(dataStart, length);
+      }
+    } else if (type === 'iTXt') {
+      // keyword\0, compression flag, compression method, language\0, translated keyword\0, text
+      const keywordEnd = buffer.indexOf(0, dataStart);
+      if (keywordEnd > 0 && keywordEnd < dataEnd && buffer.toString('latin1', dataStart, keywordEnd) === 'XML:com.adobe.xmp') {
+        const compressed = buffer[keywordEnd + 1] === 1;
+        const languageEnd = buffer.indexOf(0, keywordEnd + 3);
+        const translatedEnd = languageEnd >= 0 ? buffer.indexOf(0, languageEnd + 1) : -1;
+        if (translatedEnd >= 0 && translatedEnd < dataEnd) {
+          if (!compressed) {
+            sources.xmp.push({ start: translatedEnd + 1, end: dataEnd });
+            sources.pngChunks.set(dataStart, length);
+          } else {
+            try {
+              const text = zlib.inflateSync(buffer.subarray(translatedEnd + 1, dataEnd)).toString('utf8');
+              sources.compressedXmp.push([offset, dataEnd + 4, text]);
+            } catch {
+              // Ignore unreadable XMP
+            }
+          }
+        }
+      }
+    }
+
+    offset = dataEnd + 4;
+  }
+}
+
+function locateWebpMetadata(buffer: Buffer, sources: MetadataSources): void {
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const type = buffer.toString('latin1', offset, offset + 4);
+    const length = buffer.readUInt32LE(offset + 4);
+    const dataStart = offset + 8;
+    const dataEnd = Math.min(buffer.length, dataStart + length);
+
+    if (type === 'EXIF') {
+      // Some writers keep the JPEG "Exif\0\0" prefix in the chunk
+      const tiffStart = startsWith(buffer, dataStart, EXIF_HEADER) ? dataStart + EXIF_HEADER.length : dataStart;
+      const view = createTiffView(buffer, tiffStart, dataEnd);
+      if (view) {
+        sources.exif.push(view);
+      }
+    } else if (type === 'XMP ') {
+      sources.xmp.push({ start: dataStart, end: dataEnd });
+    }
+
+    offset = dataStart + length + (length % 2);
+  }
+}
+
+// HEIC, AVIF and other containers: look for an EXIF block and an XMP packet anywhere in the file
+function scanForMetadata(buffer: Buffer, sources: MetadataSources): void {
+  for (let offset = buffer.indexOf(EXIF_HEADER); offset >= 0; offset = buffer.indexOf(EXIF_HEADER, offset + 1)) {
+    const view = createTiffView(buffer, offset + EXIF_HEADER.length, buffer.length);
+    if (view) {
+      sources.exif.push(view);
+      break;
+    }
+  }
+
+  const xmpStart = buffer.indexOf('<x:xmpmeta');
+  const xmpEnd = xmpStart >= 0 ? buffer.indexOf('</x:xmpmeta>', xmpStart) : -1;
+  if (xmpEnd > 0) {
+    sources.xmp.push({ start: xmpStart, end: xmpEnd + '</x:xmpmeta>'.length });
+  }
+}
+
+function locateMetadata(buffer: Buffer): MetadataSources {
+  const sources = emptySources();
+  const format = detectImageType(buffer)?.format;
+
+  if (format === 'jpg') {
+    locateJpegMetadata(buffer, sources);
+  } else if (format === 'png') {
+    locatePngMetadata(buffer, sources);
+  } else if (format === 'webp') {
+    locateWebpMetadata(buffer, sources);
+  } else if (format === 'tiff') {
+    const view = createTiffView(buffer, 0, buffer.length);
+    if (view) {
+      sources.exif.push(view);
+    }
+  } else if (format === 'avif' || format === 'heic') {
+    scanForMetadata(buffer, sources);
+  }
+  return sources;
+}
+
+// Fill in fields the first source left out from the later ones
+function mergeMetadata(...parts: ImageMetadata[]): ImageMetadata {
+  const merged: Record<string, unknown> = {};
+  for (const part of parts) {
+    for (const [key, value] of Object.entries(part)) {
+      if (value !== undefined && merged[key] === undefined) {
+        merged[key] = value;
+      }
+    }
+  }
+  return merged as ImageMetadata;
+}
+
+// Read EXIF, IPTC and XMP metadata from an image. EXIF wins for camera details and XMP for
+// descriptions, as XMP is what editing tools update; returns null when the file has none.
+export function readImageMetadata(buffer: Buffer): ImageMetadata | null {
+  try {
+    const sources = locateMetadata(buffer);
+
+    const exifParts = sources.exif.map(view => parseExif(view));
+    const xmpTexts = [
+      ...sources.xmp.map(({ start, end }) => buffer.toString('utf8', start, end)),
+      ...sources.compressedXmp.map(([, , text]) => text),
+      ...exifParts.map(part => part.xmp).filter((text): text is string => text !== undefined),
+    ];
+    const iptcBlocks = [...sources.iptc, ...exifParts.map(part => part.iptc).filter((block): block is Buffer => block !== undefined)];
+
+    const exif = mergeMetadata(...exifParts.map(part => part.metadata));
+    const xmp = mergeMetadata(...xmpTexts.map(parseXmp));
+    const iptc = mergeMetadata(...iptcBlocks.map(parseIptc));
+
+    const technical = mergeMetadata(exif, xmp);
+    const descriptive = mergeMetadata(xmp, iptc, exif);
+    const keywords = [...new Set([...(iptc.keywords || []), ...(xmp.keywords || [])])].slice(0, MAX_KEYWORDS);
+
+    const metadata = mergeMetadata({
+      cameraMake: technical.cameraMake,
+      cameraModel: technical.cameraModel,
+      lensModel: technical.lensModel,
+      capturedAt: exif.capturedAt || xmp.capturedAt || iptc.capturedAt,
+      orientation: technical.orientation,
+      exposureTime: technical.exposureTime,
+      fNumber: technical.fNumber,
+      iso: technical.iso,
+      focalLength: technical.focalLength,
+      gps: technical.gps,
+      title: descriptive.title,
+      caption: descriptive.caption,
+      keywords: keywords.length > 0 ? keywords : undefined,
+      artist: descriptive.artist,
+      copyright: descriptive.copyright,
+      software: technical.software,
+    });
+
+    return Object.keys(metadata).length > 0 ? metadata : null;
+  } catch (error) {
+    // Metadata is optional; a malformed block should not stop the upload
+    console.error('Error reading image metadata:', error);
+    return null;
+  }
+}
+
+// CRC-32 as used by PNG chunk checksums
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit++) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Return a copy of the image without GPS location data. EXIF GPS values are zeroed and XMP GPS
+// properties blanked in place, so the file keeps its layout; compressed PNG XMP is dropped.
+export function stripGpsMetadata(buffer: Buffer): { file: Buffer; stripped: boolean } {
+  const file = Buffer.from(buffer);
+  const sources = locateMetadata(file);
+  let stripped = false;
+
+  for (const view of sources.exif) {
+    stripped = stripExifGps(view) || stripped;
+  }
+  for (const { start, end } of sources.xmp) {
+    stripped = stripXmpGps(file, start, end) || stripped;
+  }
+
+  if (stripped) {
+    for (const [dataStart, length] of sources.pngChunks) {
+      file.writeUInt32BE(crc32(file.subarray(dataStart - 4, dataStart + length)), dataStart + length);
+    }
+  }
+
+  const droppedChunks = sources.compressedXmp.filter(([, , text]) => hasXmpGps(text));
+  if (droppedChunks.length === 0) {
+    return { file, stripped };
+  }
+
+  const parts: Buffer[] = [];
+  let offset = 0;
+  for (const [chunkStart, chunkEnd] of droppedChunks) {
+    parts.push(file.subarray(offset, chunkStart));
+    offset = chunkEnd;
+  }
+  parts.push(file.subarray(offset));
+  return { file: Buffer.concat(parts), stripped: true };
+}
+
+// Read an upload's metadata and, when asked or when STRIP_GPS is set, remove its location first.
+// The returned file is the one to store.
+export function processImageMetadata(file: Buffer, options: { stripGps?: boolean } = {}): { file: Buffer; metadata: ImageMetadata | null } {
+  const metadata = readImageMetadata(file);
+  if (!metadata?.gps || !(options.stripGps || isGpsStrippingForced())) {
+    return { file, metadata };
+  }
+
+  const stripped: ImageMetadata = { ...metadata, gpsStripped: true };
+  delete stripped.gps;
+  return { file: stripGpsMetadata(file).file, metadata: stripped };
+}
@@ -0,0 +1,145 @@
+import path from 'path';
+import { parseBoolean, parseTags } from './uploadValidation';
+import { BatchUploadItem } from '../types/gallery';
+
+// Per-file fields from an import manifest, keyed by the file's path in the archive
+export type ImportManifest = Map<string, BatchUploadItem>;
+
+const FILE_KEYS = ['file', 'filename', 'path'];
+
+export function isManifestFile(name: string): boolean {
+  return /^manifest\.(json|csv)$/i.test(path.posix.basename(name));
+}
+
+// Turn one manifest record into image fields, ignoring empty values and values of the wrong type
+function toItem(record: Record<string, unknown>): BatchUploadItem {
+  const item: BatchUploadItem = {};
+  if (typeof record.title === 'string' && record.title.trim()) {
+    item.title = record.title.trim();
+  }
+  if (typeof record.description === 'string' && record.description.trim()) {
+    item.description = record.description;
+  }
+  if (Array.isArray(record.tags)) {
+    item.tags = parseTags(record.tags.filter((tag): tag is string => typeof tag === 'string'));
+  } else if (typeof record.tags === 'string' && record.tags.trim()) {
+    // CSV cells already use commas, so semicolons separate tags there too
+    item.tags = parseTags(record.tags.replace(/;/g, ','));
+  }
+  if (typeof record.isPublic === 'boolean') {
+    item.isPublic = record.isPublic;
+  } else if (typeof record.isPublic === 'string' && record.isPublic.trim()) {
+    item.isPublic = parseBoolean(record.isPublic.trim().toLowerCase());
+  }
+  return item;
+}
+
+function fileOf(record: Record<string, unknown>): string | null {
+  const key = FILE_KEYS.find(name => typeof record[name] === 'string' && (record[name] as string).trim());
+  return key ? (record[key] as string).trim().replace(/\\/g, '/').replace(/^\.?\//, '') : null;
+}
+
+// JSON manifests are an array of records with a file name, or an object keyed by file name
+function parseJsonManifest(content: string): ImportManifest {
+  const data = JSON.parse(content);
+  const manifest: ImportManifest = new Map();
+
+  const records = Array.isArray(data) ? data : Array.isArray(data?.images) ? data.images : null;
+  if (records) {
+    for (const record of records) {
+      const file = record && typeof record === 'object' ? fileOf(record) : null;
+      if (file) {
+        manifest.set(file, toItem(record));
+      }
+    }
+    return manifest;
+  }
+
+  if (data && typeof data === 'object') {
+    for (const [file, record] of Object.entries(data)) {
+      if (record && typeof record === 'object') {
+        manifest.set(file.replace(/\\/g, '/').replace(/^\.?\//, ''), toItem(record as Record<string, unknown>));
+      }
+    }
+    return manifest;
+  }
+
+  throw new Error('manifest.json must be an array of entries or an object keyed by file name');
+}
+
+// Split CSV text into rows of cells, honouring quoted cells with commas, quotes and line breaks
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[index + 1] === '\n') {
+        index++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(value => value.trim()));
+}
+
+// CSV manifests have a header row naming the filename, title, description, tags and isPublic columns
+function parseCsvManifest(content: string): ImportManifest {
+  const [header, ...rows] = parseCsvRows(content.replace(/^\uFEFF/, ''));
+  if (!header) {
+    throw new Error('manifest.csv is empty');
+  }
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  if (!columns.some(name => FILE_KEYS.includes(name))) {
+    throw new Error('manifest.csv needs a filename column');
+  }
+
+  const manifest: ImportManifest = new Map();
+  for (const cells of rows) {
+    const record: Record<string, unknown> = {};
+    columns.forEach((name, index) => {
+      record[name === 'ispublic' ? 'isPublic' : name] = cells[index] ?? '';
+    });
+
+    const file = fileOf(record);
+    if (file) {
+      manifest.set(file, toItem(record));
+    }
+  }
+  return manifest;
+}
+
+// Parse a manifest.json or manifest.csv found in an import archive
+export function parseManifest(name: string, content: Buffer): ImportManifest {
+  const text = content.toString('utf8');
+  return name.toLowerCase().endsWith('.json') ? parseJsonManifest(text) : parseCsvManifest(text);
+}
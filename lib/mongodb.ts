@@ -1,47 +1,54 @@
 import { MongoClient, Db } from 'mongodb';
 
-if (!process.env.MONGODB_URI) {
-  throw new Error('Invalid/Missing environment variable: "MONGODB_URI"');
-}
-
-const uri = process.env.MONGODB_URI;
 const options = {};
 
-let client: MongoClient;
-let clientPromise: Promise<MongoClient>;
+let clientPromise: Promise<MongoClient> | null = null;
 
-if (process.env.NODE_ENV === 'development') {
-  // In development mode, use a global variable so that the value
-  // is preserved across module reloads caused by HMR (Hot Module Replacement).
-  let globalWithMongo = global as typeof globalThis & {
-    _mongoClientPromise?: Promise<MongoClient>;
-  };
+// Connect lazily so that modules importing this file can load without MONGODB_URI
+function getClientPromise(): Promise<MongoClient> {
+  if (!process.env.MONGODB_URI) {
+    throw new Error('Invalid/Missing environment variable: "MONGODB_URI"');
+  }
 
-  if (!globalWithMongo._mongoClientPromise) {
-    client = new MongoClient(uri, options);
-    globalWithMongo._mongoClientPromise = client.connect();
+  const uri = process.env.MONGODB_URI;
+
+  if (!clientPromise) {
+    if (process.env.NODE_ENV === 'development') {
+      // In development mode, use a global variable so that the value
+      // is preserved across module reloads caused by HMR (Hot Module Replacement).
+      const globalWithMongo = global as typeof globalThis & {
+        _mongoClientPromise?: Promise<MongoClient>;
+      };
+
+      if (!globalWithMongo._mongoClientPromise) {
+        const client = new MongoClient(uri, options);
+        globalWithMongo._mongoClientPromise = client.connect();
+      }
+      clientPromise = globalWithMongo._mongoClientPromise;
+    } else {
+      // In production mode, it's best to not use a global variable.
+      const client = new MongoClient(uri, options);
+      clientPromise = client.connect();
+    }
   }
-  clientPromise = globalWithMongo._mongoClientPromise;
-} else {
-  // In production mode, it's best to not use a global variable.
-  client = new MongoClient(uri, options);
-  clientPromise = client.connect();
+
+  return clientPromise;
 }
 
-// Export a module-scoped MongoClient promise. By doing this in a
+// Export the shared MongoClient promise getter. By doing this in a
 // separate module, the client can be shared across functions.
-export default clientPromise;
+export default getClientPromise;
 
 // Helper function to get the database
 export async function getDatabase(): Promise<Db> {
-  const client = await clientPromise;
+  const client = await getClientPromise();
   return client.db(process.env.MONGODB_DB || 'cloudinary_gallery');
 }
 
 // Helper function to test the connection
 export async function testConnection(): Promise<boolean> {
   try {
-    const client = await clientPromise;
+    const client = await getClientPromise();
     await client.db('admin').command({ ping: 1 });
     console.log('Successfully connected to MongoDB');
     return true;
@@ -49,4 +56,4 @@ export async function testConnection(): Promise<boolean> {
     console.error('MongoDB connection failed:', error);
     return false;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,159 @@
+import { Document, Filter, ObjectId } from 'mongodb';
+import { SortSpec } from './repositories';
+
+// Keyset pagination: a cursor names an item by its sort field values and _id, and the next page
+// is everything strictly after it in the sort order. Unlike skip/limit this costs the same on
+// every page, and items uploaded while someone is paging do not shift the pages they have yet to see.
+
+export class InvalidCursorError extends Error {
+  constructor(message = 'The cursor is invalid or was made for a different sort order') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// A sort with _id as its last field, which gives every item a unique position
+export type KeysetSort = Record<string, 1 | -1>;
+export type CursorDirection = 'after' | 'before';
+
+export interface PageCursor {
+  values: unknown[];
+  id: ObjectId;
+  direction: CursorDirection;
+}
+
+// JSON form of a sort value; dates are tagged so they come back as dates
+type EncodedValue = string | number | boolean | null | { $date: string };
+
+interface EncodedCursor {
+  // The sort the cursor was made for, so it is not used with another order
+  s: string;
+  k: EncodedValue[];
+  id: string;
+  d: CursorDirection;
+}
+
+// Sort by the given fields with _id as the tiebreaker, so every item has a unique position.
+// Text score ordering cannot be resumed from a cursor and is left out.
+export function getKeysetSort(sort: SortSpec): KeysetSort {
+  const keyset: KeysetSort = {};
+  let lastDirection: 1 | -1 = 1;
+  for (const [field, direction] of Object.entries(sort)) {
+    if ((direction === 1 || direction === -1) && field !== '_id') {
+      keyset[field] = direction;
+      lastDirection = direction;
+    }
+  }
+  keyset._id = lastDirection;
+  return keyset;
+}
+
+// The same sort, backwards, for fetching the page before a cursor
+export function reverseSort(sort: KeysetSort): KeysetSort {
+  return Object.fromEntries(Object.entries(sort).map(([field, direction]) => [field, -direction])) as KeysetSort;
+}
+
+function describeSort(sort: KeysetSort): string {
+  return Object.entries(sort).map(([field, direction]) => `${field}:${direction}`).join(',');
+}
+
+function sortFields(sort: KeysetSort): [string, 1 | -1][] {
+  return Object.entries(sort).filter(([field]) => field !== '_id');
+}
+
+// Read a (possibly dotted) field of a document
+function readField(doc: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, segment) => value && typeof value === 'object' ? (value as Record<string, unknown>)[segment] : undefined,
+    doc
+  );
+}
+
+function encodeValue(value: unknown): EncodedValue {
+  if (value instanceof Date) {
+    return { $date: value.toISOString() };
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  return null;
+}
+
+function decodeValue(value: unknown): unknown {
+  if (value === null || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (value && typeof value === 'object' && typeof (value as { $date?: unknown }).$date === 'string') {
+    const date = new Date((value as { $date: string }).$date);
+    if (!isNaN(date.getTime())) {
+      return date;
+    }
+  }
+  throw new InvalidCursorError();
+}
+
+// Make an opaque cursor for the page after (or before) a document
+export function encodeCursor(doc: { _id?: ObjectId }, sort: KeysetSort, direction: CursorDirection): string {
+  const cursor: EncodedCursor = {
+    s: describeSort(sort),
+    k: sortFields(sort).map(([field]) => encodeValue(readField(doc, field))),
+    id: doc._id!.toString(),
+    d: direction,
+  };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// Read a cursor made by encodeCursor for the same sort; throws InvalidCursorError otherwise
+export function decodeCursor(text: string, sort: KeysetSort): PageCursor {
+  let cursor: EncodedCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(text, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  if (!cursor || typeof cursor !== 'object' || cursor.s !== describeSort(sort) ||
+      !Array.isArray(cursor.k) || cursor.k.length !== sortFields(sort).length ||
+      typeof cursor.id !== 'string' || !ObjectId.isValid(cursor.id) ||
+      (cursor.d !== 'after' && cursor.d !== 'before')) {
+    throw new InvalidCursorError();
+  }
+
+  return {
+    values: cursor.k.map(decodeValue),
+    id: new ObjectId(cursor.id),
+    direction: cursor.d,
+  };
+}
+
+// Condition for a field coming strictly later than a value in an ascending (1) or descending (-1)
+// sort. Missing values sort first, as MongoDB orders them; null means nothing is later when descending.
+function laterThan(field: string, value: unknown, direction: 1 | -1): Filter<Document> | null {
+  if (value === null) {
+    return direction === 1 ? { [field]: { $ne: null } } : null;
+  }
+  return direction === 1
+    ? { [field]: { $gt: value } }
+    : { $or: [{ [field]: { $lt: value } }, { [field]: null }] };
+}
+
+// Filter for the items strictly after the cursor's item in the sort order, or strictly before it
+// when the cursor points backwards
+export function buildCursorFilter(cursor: PageCursor, sort: KeysetSort): Filter<Document> {
+  const fields: [string, 1 | -1, unknown][] = [
+    ...sortFields(sort).map(([field, direction], index): [string, 1 | -1, unknown] => [field, direction, cursor.values[index]]),
+    ['_id', sort._id, cursor.id],
+  ];
+
+  // Later on the first field, or equal on it and later on the next, and so on
+  const branches: Filter<Document>[] = [];
+  fields.forEach(([field, direction, value], index) => {
+    const later = laterThan(field, value, cursor.direction === 'after' ? direction : (-direction as 1 | -1));
+    if (later) {
+      const equal = fields.slice(0, index).map(([previous, , previousValue]) => ({ [previous]: previousValue }));
+      branches.push(equal.length > 0 ? { $and: [...equal, later] } : later);
+    }
+  });
+
+  return { $or: branches };
+}
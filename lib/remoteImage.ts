@@ -0,0 +1,220 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import path from 'path';
+import { MAX_UPLOAD_BYTES } from './uploadValidation';
+
+// Give up on a remote image that has not fully arrived within this time
+const FETCH_TIMEOUT_MS = 15 * 1000;
+
+// Redirects followed before giving up; each hop is checked like the original URL
+const MAX_REDIRECTS = 3;
+
+export interface RemoteImage {
+  buffer: Buffer;
+  mimeType: string;
+  filename: string;
+}
+
+// Addresses an import must never reach: loopback, private networks, link-local (including cloud
+// metadata endpoints), carrier-grade NAT, multicast and other reserved ranges
+const blockedAddresses = new net.BlockList();
+blockedAddresses.addSubnet('0.0.0.0', 8, 'ipv4');
+blockedAddresses.addSubnet('10.0.0.0', 8, 'ipv4');
+blockedAddresses.addSubnet('100.64.0.0', 10, 'ipv4');
+blockedAddresses.addSubnet('127.0.0.0', 8, 'ipv4');
+blockedAddresses.addSubnet('169.254.0.0', 16, 'ipv4');
+blockedAddresses.addSubnet('172.16.0.0', 12, 'ipv4');
+blockedAddresses.addSubnet('192.0.0.0', 24, 'ipv4');
+blockedAddresses.addSubnet('192.168.0.0', 16, 'ipv4');
+blockedAddresses.addSubnet('198.18.0.0', 15, 'ipv4');
+blockedAddresses.addSubnet('224.0.0.0', 3, 'ipv4');
+blockedAddresses.addAddress('::', 'ipv6');
+blockedAddresses.addAddress('::1', 'ipv6');
+blockedAddresses.addSubnet('fc00::', 7, 'ipv6');
+blockedAddresses.addSubnet('fe80::', 10, 'ipv6');
+blockedAddresses.addSubnet('ff00::', 8, 'ipv6');
+
+// Whether an IP address is private, loopback or otherwise not on the public internet
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 4) {
+    return blockedAddresses.check(address, 'ipv4');
+  }
+  if (family === 6) {
+    // IPv4-mapped and NAT64 addresses lead to the embedded IPv4 address
+    const embedded = address.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/i);
+    if (embedded) {
+      return isBlockedAddress(embedded[1]);
+    }
+    const mapped = address.match(/^(?:::ffff:|64:ff9b::)([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+    if (mapped) {
+      const high = parseInt(mapped[1], 16);
+      const low = parseInt(mapped[2], 16);
+      return isBlockedAddress(`${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`);
+    }
+    return blockedAddresses.check(address, 'ipv6');
+  }
+  return true;
+}
+
+// DNS lookup used for every connection, so a host cannot resolve to a public address when
+// checked and a private one when connected to
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    const blocked = addresses.find(entry => isBlockedAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      callback(new Error(`${hostname} resolves to a private or reserved address`), '', 0);
+      return;
+    }
+
+    if (options.all) {
+      (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// Parse and check a URL given for import; only public http(s) addresses without credentials are allowed
+export function parseImportUrl(value: string): URL {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new Error('Invalid URL');
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Only http and https URLs can be imported');
+  }
+  if (url.username || url.password) {
+    throw new Error('URLs with credentials cannot be imported');
+  }
+
+  // IP literals skip the DNS lookup, so check them here
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && isBlockedAddress(host)) {
+    throw new Error('URLs pointing to private or reserved addresses cannot be imported');
+  }
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    throw new Error('URLs pointing to private or reserved addresses cannot be imported');
+  }
+
+  return url;
+}
+
+// Name for the imported file, taken from the last path segment of the URL
+function filenameFromUrl(url: URL): string {
+  try {
+    const name = path.posix.basename(decodeURIComponent(url.pathname));
+    return name || url.hostname;
+  } catch {
+    return url.hostname;
+  }
+}
+
+// Send one GET request without following redirects
+function requestOnce(url: URL, signal: AbortSignal): Promise<http.IncomingMessage> {
+  const client = url.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = client.get(url, {
+      lookup: safeLookup,
+      signal,
+      headers: {
+        Accept: 'image/*',
+        'User-Agent': 'CloudinaryGallery-Importer/1.0',
+      },
+    });
+    request.on('response', resolve);
+    request.on('error', reject);
+  });
+}
+
+// Read a response body, stopping as soon as it goes past maxBytes
+function readBody(response: http.IncomingMessage, maxBytes: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let received = 0;
+
+    response.on('data', (chunk: Buffer) => {
+      received += chunk.length;
+      if (received > maxBytes) {
+        response.destroy();
+        reject(new Error(`File size must be less than ${Math.round(maxBytes / (1024 * 1024))}MB`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    response.on('end', () => resolve(Buffer.concat(chunks)));
+    response.on('error', reject);
+    response.on('close', () => {
+      if (!response.complete) {
+        reject(new Error('The download was interrupted'));
+      }
+    });
+  });
+}
+
+// Download an image from a public URL, refusing private addresses, non-image responses,
+// files over maxBytes and downloads that take longer than the timeout
+export async function fetchRemoteImage(value: string, maxBytes: number = MAX_UPLOAD_BYTES): Promise<RemoteImage> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    let url = parseImportUrl(value);
+
+    for (let redirects = 0; ; redirects++) {
+      const response = await requestOnce(url, controller.signal);
+      const status = response.statusCode || 0;
+
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        if (redirects >= MAX_REDIRECTS) {
+          throw new Error('Too many redirects');
+        }
+        url = parseImportUrl(new URL(response.headers.location, url).toString());
+        continue;
+      }
+
+      if (status !== 200) {
+        response.resume();
+        throw new Error(`The server responded with status ${status}`);
+      }
+
+      const mimeType = (response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+      if (!mimeType.startsWith('image/')) {
+        response.resume();
+        throw new Error('The URL does not point to an image');
+      }
+
+      const declaredLength = Number(response.headers['content-length']);
+      if (declaredLength > maxBytes) {
+        response.destroy();
+        throw new Error(`File size must be less than ${Math.round(maxBytes / (1024 * 1024))}MB`);
+      }
+
+      const buffer = await readBody(response, maxBytes);
+      if (buffer.length === 0) {
+        throw new Error('The URL returned an empty file');
+      }
+
+      return { buffer, mimeType, filename: filenameFromUrl(url) };
+    }
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`Timed out after ${FETCH_TIMEOUT_MS / 1000} seconds`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,198 @@
+import { Filter, IndexDescription } from 'mongodb';
+import { FacetCount, GalleryImage, ImageFacets, SizeFacetCount } from '../../types/gallery';
+import { Repository } from './repository';
+import { MongoRepository } from './mongoRepository';
+import { MemoryRepository } from './memoryRepository';
+
+export interface ImageSizeStats {
+  totalSize: number;
+  averageSize: number;
+}
+
+// Persistence for gallery image records
+export interface ImageRepository extends Repository<GalleryImage> {
+  getSizeStats(filter?: Filter<GalleryImage>): Promise<ImageSizeStats>;
+  getFacets(filter?: Filter<GalleryImage>): Promise<ImageFacets>;
+  // Every tag on the matching images with how many carry it, most common first
+  getTagCounts(filter?: Filter<GalleryImage>): Promise<FacetCount[]>;
+}
+
+// Most tags and upload months reported in facets; the rest are left out
+const TAG_FACET_LIMIT = 30;
+const MONTH_FACET_LIMIT = 24;
+
+// Lower bounds of the file size facet buckets, in bytes; the last bucket has no upper bound
+const SIZE_FACET_BOUNDARIES = [0, 100 * 1024, 1024 * 1024, 5 * 1024 * 1024, 20 * 1024 * 1024];
+
+function toSizeFacet(min: number, count: number): SizeFacetCount {
+  const max = SIZE_FACET_BOUNDARIES[SIZE_FACET_BOUNDARIES.indexOf(min) + 1];
+  return max !== undefined ? { min, max, count } : { min, count };
+}
+
+// Count values most common first, ties in value order
+function countValues(values: string[]): FacetCount[] {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || (a.value < b.value ? -1 : 1));
+}
+
+export const IMAGE_COLLECTION = 'images';
+
+export const imageIndexes: IndexDescription[] = [
+  { key: { cloudinaryId: 1 }, unique: true },
+  { key: { createdAt: -1 } },
+  { key: { 'metadata.capturedAt': -1 } },
+  { key: { contentHash: 1 } },
+  { key: { perceptualHashBands: 1 } },
+  { key: { tags: 1 } },
+  { key: { isPublic: 1 } },
+  { key: { deletedAt: 1 } },
+  { key: { title: 'text', description: 'text' } },
+];
+
+export class MongoImageRepository extends MongoRepository<GalleryImage> implements ImageRepository {
+  constructor() {
+    super(IMAGE_COLLECTION, imageIndexes);
+  }
+
+  async getSizeStats(filter: Filter<GalleryImage> = {}): Promise<ImageSizeStats> {
+    const collection = await this.getCollection();
+
+    const sizeStats = await collection.aggregate([
+      { $match: filter },
+      {
+        $group: {
+          _id: null,
+          totalSize: { $sum: '$bytes' },
+          averageSize: { $avg: '$bytes' },
+        },
+      },
+    ]).toArray();
+
+    return {
+      totalSize: sizeStats[0]?.totalSize || 0,
+      averageSize: sizeStats[0]?.averageSize || 0,
+    };
+  }
+
+  // Count every facet in one pass over the matching images
+  async getFacets(filter: Filter<GalleryImage> = {}): Promise<ImageFacets> {
+    const collection = await this.getCollection();
+    const byCount = { $sort: { count: -1, _id: 1 } };
+
+    const [result] = await collection.aggregate<Record<keyof ImageFacets, { _id: unknown; count: number }[]>>([
+      { $match: filter },
+      {
+        $facet: {
+          tags: [
+            { $unwind: '$tags' },
+            { $group: { _id: '$tags', count: { $sum: 1 } } },
+            byCount,
+            { $limit: TAG_FACET_LIMIT },
+          ],
+          formats: [
+            { $group: { _id: '$format', count: { $sum: 1 } } },
+            byCount,
+          ],
+          visibility: [
+            { $group: { _id: '$isPublic', count: { $sum: 1 } } },
+          ],
+          months: [
+            { $group: { _id: { $dateToString: { format: '%Y-%m', date: '$createdAt' } }, count: { $sum: 1 } } },
+            { $sort: { _id: -1 } },
+            { $limit: MONTH_FACET_LIMIT },
+          ],
+          sizes: [
+            {
+              $bucket: {
+                groupBy: '$bytes',
+                boundaries: [...SIZE_FACET_BOUNDARIES, Number.MAX_SAFE_INTEGER],
+                default: 'unknown',
+                output: { count: { $sum: 1 } },
+              },
+            },
+          ],
+        },
+      },
+    ]).toArray();
+
+    const toCounts = (groups: { _id: unknown; count: number }[]): FacetCount[] =>
+      groups.filter(group => typeof group._id === 'string').map(group => ({ value: group._id as string, count: group.count }));
+
+    return {
+      tags: toCounts(result.tags),
+      formats: toCounts(result.formats),
+      visibility: {
+        public: result.visibility.find(group => group._id === true)?.count || 0,
+        private: result.visibility.filter(group => group._id !== true).reduce((sum, group) => sum + group.count, 0),
+      },
+      months: toCounts(result.months),
+      sizes: result.sizes
+        .filter(group => typeof group._id === 'number')
+        .map(group => toSizeFacet(group._id as number, group.count)),
+    };
+  }
+
+  async getTagCounts(filter: Filter<GalleryImage> = {}): Promise<FacetCount[]> {
+    const collection = await this.getCollection();
+
+    const groups = await collection.aggregate<{ _id: unknown; count: number }>([
+      { $match: filter },
+      { $unwind: '$tags' },
+      { $group: { _id: '$tags', count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+    ]).toArray();
+
+    return groups
+      .filter(group => typeof group._id === 'string')
+      .map(group => ({ value: group._id as string, count: group.count }));
+  }
+}
+
+export class MemoryImageRepository extends MemoryRepository<GalleryImage> implements ImageRepository {
+  constructor() {
+    super(IMAGE_COLLECTION, { textFields: ['title', 'description'] }, ['cloudinaryId']);
+  }
+
+  async getSizeStats(filter: Filter<GalleryImage> = {}): Promise<ImageSizeStats> {
+    const images = this.matching(filter);
+    const totalSize = images.reduce((sum, image) => sum + (image.bytes || 0), 0);
+
+    return {
+      totalSize,
+      averageSize: images.length > 0 ? totalSize / images.length : 0,
+    };
+  }
+
+  async getFacets(filter: Filter<GalleryImage> = {}): Promise<ImageFacets> {
+    const images = this.matching(filter);
+
+    const sizes = SIZE_FACET_BOUNDARIES
+      .map((min, index) => {
+        const max = SIZE_FACET_BOUNDARIES[index + 1];
+        const count = images.filter(image =>
+          typeof image.bytes === 'number' && image.bytes >= min && (max === undefined || image.bytes < max)
+        ).length;
+        return toSizeFacet(min, count);
+      })
+      .filter(bucket => bucket.count > 0);
+
+    return {
+      tags: countValues(images.flatMap(image => image.tags || [])).slice(0, TAG_FACET_LIMIT),
+      formats: countValues(images.map(image => image.format).filter(format => !!format)),
+      visibility: {
+        public: images.filter(image => image.isPublic === true).length,
+        private: images.filter(image => image.isPublic !== true).length,
+      },
+      months: countValues(images.map(image => new Date(image.createdAt).toISOString().slice(0, 7)))
+        .sort((a, b) => (a.value < b.value ? 1 : -1))
+        .slice(0, MONTH_FACET_LIMIT),
+      sizes,
+    };
+  }
+
+  async getTagCounts(filter: Filter<GalleryImage> = {}): Promise<FacetCount[]> {
+    return countValues(this.matching(filter).flatMap(image => image.tags || []));
+  }
+}
@@ -0,0 +1,51 @@
+import { IndexDescription } from 'mongodb';
+import { BaseDocument, Repository } from './repository';
+import { MongoRepository } from './mongoRepository';
+import { MemoryRepository } from './memoryRepository';
+import { ImageRepository, MemoryImageRepository, MongoImageRepository } from './imageRepository';
+
+export type { BaseDocument, Repository, FindOptions, SortSpec } from './repository';
+export type { ImageRepository, ImageSizeStats } from './imageRepository';
+export { MongoRepository } from './mongoRepository';
+export { MemoryRepository, resetMemoryCollections } from './memoryRepository';
+export { MongoImageRepository, MemoryImageRepository } from './imageRepository';
+
+export type DataStore = 'mongodb' | 'memory';
+
+// Get the persistence backend selected by DATA_STORE ("mongodb" or "memory")
+export function getDataStore(): DataStore {
+  const store = process.env.DATA_STORE || 'mongodb';
+  if (store !== 'mongodb' && store !== 'memory') {
+    throw new Error(`Invalid DATA_STORE "${store}". Expected "mongodb" or "memory"`);
+  }
+  return store;
+}
+
+export interface RepositoryOptions {
+  indexes?: IndexDescription[];
+  // Fields covered by the collection's text index, used by the memory store for $text
+  textFields?: string[];
+}
+
+// Create a repository for a collection using the configured data store
+export function createRepository<T extends BaseDocument>(collectionName: string, options: RepositoryOptions = {}): Repository<T> {
+  const { indexes = [], textFields } = options;
+
+  if (getDataStore() === 'memory') {
+    const uniqueFields = indexes
+      .filter(index => index.unique && Object.keys(index.key).length === 1)
+      .map(index => Object.keys(index.key)[0]);
+    return new MemoryRepository<T>(collectionName, { textFields }, uniqueFields);
+  }
+  return new MongoRepository<T>(collectionName, indexes);
+}
+
+let imageRepository: ImageRepository | null = null;
+
+// Get the shared repository for gallery images
+export function getImageRepository(): ImageRepository {
+  if (!imageRepository) {
+    imageRepository = getDataStore() === 'memory' ? new MemoryImageRepository() : new MongoImageRepository();
+  }
+  return imageRepository;
+}
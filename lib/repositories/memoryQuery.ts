@@ -0,0 +1,340 @@
+import { ObjectId } from 'mongodb';
+import { SortSpec } from './repository';
+
+// Evaluates the subset of MongoDB query and update syntax used by the gallery
+// against plain JavaScript objects, for the in-memory repositories.
+
+type Doc = Record<string, unknown>;
+type Condition = Record<string, unknown>;
+
+export interface MatchOptions {
+  // Fields searched by $text, mirroring the collection's text index
+  textFields?: string[];
+}
+
+// Deep-copy a document while keeping ObjectId and Date instances intact
+export function cloneDocument<T>(value: T): T {
+  if (value instanceof ObjectId) {
+    return new ObjectId(value.toHexString()) as T;
+  }
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as T;
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.from(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => cloneDocument(item)) as T;
+  }
+  if (value && typeof value === 'object') {
+    const copy: Doc = {};
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = cloneDocument(item);
+    }
+    return copy as T;
+  }
+  return value;
+}
+
+// Read a (possibly dotted) field path, collecting values through arrays
+export function getPath(doc: unknown, path: string): unknown {
+  let current: unknown = doc;
+  for (const segment of path.split('.')) {
+    if (current === null || current === undefined) {
+      return undefined;
+    }
+    if (Array.isArray(current) && !/^\d+$/.test(segment)) {
+      current = current.map(item => getPath(item, segment)).flat();
+      continue;
+    }
+    current = (current as Doc)[segment];
+  }
+  return current;
+}
+
+function setPath(doc: Doc, path: string, value: unknown): void {
+  const segments = path.split('.');
+  let current = doc;
+  for (const segment of segments.slice(0, -1)) {
+    if (!current[segment] || typeof current[segment] !== 'object') {
+      current[segment] = {};
+    }
+    current = current[segment] as Doc;
+  }
+  current[segments[segments.length - 1]] = value;
+}
+
+function unsetPath(doc: Doc, path: string): void {
+  const segments = path.split('.');
+  let current = doc;
+  for (const segment of segments.slice(0, -1)) {
+    if (!current[segment] || typeof current[segment] !== 'object') {
+      return;
+    }
+    current = current[segment] as Doc;
+  }
+  delete current[segments[segments.length - 1]];
+}
+
+function normalize(value: unknown): unknown {
+  if (value instanceof ObjectId) {
+    return value.toHexString();
+  }
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  return value;
+}
+
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === null || a === undefined) {
+    return b === null || b === undefined;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => valuesEqual(item, b[index]));
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object' &&
+      !(a instanceof ObjectId) && !(a instanceof Date)) {
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    return keysA.length === keysB.length &&
+      keysA.every(key => valuesEqual((a as Doc)[key], (b as Doc)[key]));
+  }
+  return normalize(a) === normalize(b);
+}
+
+// Order two values the way a MongoDB sort would for same-typed fields
+export function compareValues(a: unknown, b: unknown): number {
+  const left = normalize(a);
+  const right = normalize(b);
+
+  if (left === right) return 0;
+  if (left === null || left === undefined) return -1;
+  if (right === null || right === undefined) return 1;
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left - right;
+  }
+  return String(left) < String(right) ? -1 : 1;
+}
+
+// Apply a condition to a single (non-array) value
+function matchesValue(value: unknown, condition: unknown): boolean {
+  if (condition instanceof RegExp) {
+    return typeof value === 'string' && condition.test(value);
+  }
+  if (isOperatorObject(condition)) {
+    return Object.entries(condition).every(([operator, operand]) =>
+      matchesOperator(value, operator, operand, condition)
+    );
+  }
+  return valuesEqual(value, condition);
+}
+
+function isOperatorObject(condition: unknown): condition is Condition {
+  return !!condition && typeof condition === 'object' &&
+    !(condition instanceof ObjectId) && !(condition instanceof Date) && !Array.isArray(condition) &&
+    Object.keys(condition).length > 0 &&
+    Object.keys(condition).every(key => key.startsWith('$'));
+}
+
+// Match a field value (which may be an array) against a condition
+function matchesField(value: unknown, condition: unknown): boolean {
+  if (isOperatorObject(condition)) {
+    return Object.entries(condition).every(([operator, operand]) => {
+      // Array-aware operators look at the array as a whole
+      if (['$size', '$all', '$exists', '$elemMatch', '$not', '$ne', '$nin', '$options'].includes(operator)) {
+        return matchesOperator(value, operator, operand, condition);
+      }
+      if (Array.isArray(value)) {
+        return value.some(item => matchesOperator(item, operator, operand, condition));
+      }
+      return matchesOperator(value, operator, operand, condition);
+    });
+  }
+
+  if (Array.isArray(value) && !Array.isArray(condition)) {
+    return value.some(item => matchesValue(item, condition));
+  }
+  return matchesValue(value, condition);
+}
+
+function matchesOperator(value: unknown, operator: string, operand: unknown, condition: Condition): boolean {
+  switch (operator) {
+    case '$eq':
+      return matchesField(value, operand);
+    case '$ne':
+      return !matchesField(value, operand);
+    case '$gt':
+      return value !== undefined && value !== null && compareValues(value, operand) > 0;
+    case '$gte':
+      return value !== undefined && value !== null && compareValues(value, operand) >= 0;
+    case '$lt':
+      return value !== undefined && value !== null && compareValues(value, operand) < 0;
+    case '$lte':
+      return value !== undefined && value !== null && compareValues(value, operand) <= 0;
+    case '$in':
+      return (operand as unknown[]).some(candidate => matchesField(value, candidate));
+    case '$nin':
+      return !(operand as unknown[]).some(candidate => matchesField(value, candidate));
+    case '$all':
+      return Array.isArray(value) &&
+        (operand as unknown[]).every(candidate => value.some(item => matchesValue(item, candidate)));
+    case '$size':
+      return Array.isArray(value) && value.length === operand;
+    case '$exists':
+      return operand ? value !== undefined : value === undefined;
+    case '$elemMatch':
+      return Array.isArray(value) && value.some(item =>
+        isOperatorObject(operand) ? matchesValue(item, operand) : matchesFilter(item, operand as Condition)
+      );
+    case '$not':
+      return !matchesField(value, operand);
+    case '$regex': {
+      const pattern = operand instanceof RegExp
+        ? operand
+        : new RegExp(String(operand), typeof condition.$options === 'string' ? condition.$options : '');
+      return typeof value === 'string' && pattern.test(value);
+    }
+    case '$options':
+      return true;
+    default:
+      throw new Error(`Unsupported query operator in memory store: ${operator}`);
+  }
+}
+
+// Resolve an aggregation expression operand: "$field" reads the document, anything else is a literal
+function resolveExpressionOperand(doc: unknown, operand: unknown): unknown {
+  return typeof operand === 'string' && operand.startsWith('$') ? getPath(doc, operand.slice(1)) : operand;
+}
+
+// Evaluate the comparison expressions $expr supports, e.g. { $gt: ['$width', '$height'] }
+function matchesExpression(doc: unknown, expression: Condition): boolean {
+  return Object.entries(expression).every(([operator, operands]) => {
+    const [left, right] = (operands as unknown[]).map(operand => resolveExpressionOperand(doc, operand));
+    switch (operator) {
+      case '$eq':
+        return valuesEqual(left, right);
+      case '$ne':
+        return !valuesEqual(left, right);
+      case '$gt':
+        return compareValues(left, right) > 0;
+      case '$gte':
+        return compareValues(left, right) >= 0;
+      case '$lt':
+        return compareValues(left, right) < 0;
+      case '$lte':
+        return compareValues(left, right) <= 0;
+      default:
+        throw new Error(`Unsupported expression operator in memory store: ${operator}`);
+    }
+  });
+}
+
+function matchesText(doc: unknown, search: string, options: MatchOptions): boolean {
+  const terms = search.toLowerCase().split(/\s+/).filter(term => term.length > 0);
+  const fields = options.textFields || [];
+  const text = fields
+    .map(field => getPath(doc, field))
+    .filter(value => typeof value === 'string')
+    .join(' ')
+    .toLowerCase();
+  return terms.some(term => text.includes(term));
+}
+
+// Check whether a document satisfies a MongoDB-style filter
+export function matchesFilter(doc: unknown, filter: Condition = {}, options: MatchOptions = {}): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    switch (key) {
+      case '$and':
+        return (condition as Condition[]).every(sub => matchesFilter(doc, sub, options));
+      case '$or':
+        return (condition as Condition[]).some(sub => matchesFilter(doc, sub, options));
+      case '$nor':
+        return !(condition as Condition[]).some(sub => matchesFilter(doc, sub, options));
+      case '$text':
+        return matchesText(doc, (condition as { $search: string }).$search, options);
+      case '$expr':
+        return matchesExpression(doc, condition as Condition);
+      default:
+        return matchesField(getPath(doc, key), condition);
+    }
+  });
+}
+
+// Sort documents by a MongoDB-style sort specification.
+// Text score ordering has no in-memory equivalent and is ignored.
+export function sortDocuments<T>(documents: T[], sort: SortSpec): T[] {
+  const keys = Object.entries(sort).filter(([, direction]) => typeof direction === 'number') as [string, 1 | -1][];
+  return [...documents].sort((a, b) => {
+    for (const [field, direction] of keys) {
+      const result = compareValues(getPath(a, field), getPath(b, field));
+      if (result !== 0) {
+        return result * direction;
+      }
+    }
+    return 0;
+  });
+}
+
+// $pull removes items equal to a value, or subdocuments matching a query
+function matchesPullCondition(item: unknown, condition: unknown): boolean {
+  if (isOperatorObject(condition)) {
+    return matchesValue(item, condition);
+  }
+  if (condition && typeof condition === 'object' && !Array.isArray(condition) &&
+      !(condition instanceof ObjectId) && !(condition instanceof Date)) {
+    return matchesFilter(item, condition as Condition);
+  }
+  return valuesEqual(item, condition);
+}
+
+// Apply a MongoDB-style update document in place
+export function applyUpdate(doc: Doc, update: Condition): void {
+  for (const [operator, fields] of Object.entries(update)) {
+    for (const [path, value] of Object.entries(fields as Condition)) {
+      switch (operator) {
+        case '$set':
+          setPath(doc, path, cloneDocument(value));
+          break;
+        case '$unset':
+          unsetPath(doc, path);
+          break;
+        case '$inc':
+          setPath(doc, path, ((getPath(doc, path) as number) || 0) + (value as number));
+          break;
+        case '$push': {
+          const current = [...((getPath(doc, path) as unknown[]) || [])];
+          const items = isOperatorObject(value) && '$each' in value ? (value.$each as unknown[]) : [value];
+          const position = isOperatorObject(value) && typeof value.$position === 'number' ? value.$position : current.length;
+          current.splice(position < 0 ? Math.max(current.length + position, 0) : position, 0, ...items.map(item => cloneDocument(item)));
+          setPath(doc, path, current);
+          break;
+        }
+        case '$addToSet': {
+          const current = [...((getPath(doc, path) as unknown[]) || [])];
+          const items = isOperatorObject(value) && '$each' in value ? (value.$each as unknown[]) : [value];
+          for (const item of items) {
+            if (!current.some(existing => valuesEqual(existing, item))) {
+              current.push(cloneDocument(item));
+            }
+          }
+          setPath(doc, path, current);
+          break;
+        }
+        case '$pull': {
+          const current = (getPath(doc, path) as unknown[]) || [];
+          setPath(doc, path, current.filter(item => !matchesPullCondition(item, value)));
+          break;
+        }
+        case '$pullAll': {
+          const current = (getPath(doc, path) as unknown[]) || [];
+          const values = value as unknown[];
+          setPath(doc, path, current.filter(item => !values.some(removed => valuesEqual(item, removed))));
+          break;
+        }
+        default:
+          throw new Error(`Unsupported update operator in memory store: ${operator}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import { Filter, ObjectId, UpdateFilter } from 'mongodb';
+import { BaseDocument, FindOptions, Repository } from './repository';
+import { applyUpdate, cloneDocument, getPath, matchesFilter, MatchOptions, sortDocuments, valuesEqual } from './memoryQuery';
+
+// Keep collections on a global so that data survives module reloads caused by HMR
+const globalWithMemoryStore = global as typeof globalThis & {
+  _memoryCollections?: Map<string, BaseDocument[]>;
+};
+
+function getMemoryCollection(name: string): BaseDocument[] {
+  if (!globalWithMemoryStore._memoryCollections) {
+    globalWithMemoryStore._memoryCollections = new Map();
+  }
+  const collections = globalWithMemoryStore._memoryCollections;
+  if (!collections.has(name)) {
+    collections.set(name, []);
+  }
+  return collections.get(name)!;
+}
+
+// Remove every in-memory collection
+export function resetMemoryCollections(): void {
+  globalWithMemoryStore._memoryCollections?.clear();
+}
+
+// Repository that keeps documents in process memory, for tests and demo mode
+export class MemoryRepository<T extends BaseDocument> implements Repository<T> {
+  constructor(
+    private readonly collectionName: string,
+    private readonly matchOptions: MatchOptions = {},
+    private readonly uniqueFields: string[] = [],
+  ) {}
+
+  protected get documents(): T[] {
+    return getMemoryCollection(this.collectionName) as T[];
+  }
+
+  protected matching(filter: Filter<T> = {}): T[] {
+    return this.documents.filter(doc => matchesFilter(doc, filter as Record<string, unknown>, this.matchOptions));
+  }
+
+  async find(filter: Filter<T> = {}, options: FindOptions = {}): Promise<T[]> {
+    let results = this.matching(filter);
+
+    if (options.sort) {
+      results = sortDocuments(results, options.sort);
+    }
+
+    const start = options.skip || 0;
+    const end = options.limit ? start + options.limit : undefined;
+    return results.slice(start, end).map(doc => cloneDocument(doc));
+  }
+
+  async findOne(filter: Filter<T>): Promise<T | null> {
+    const doc = this.matching(filter)[0];
+    return doc ? cloneDocument(doc) : null;
+  }
+
+  async countDocuments(filter: Filter<T> = {}): Promise<number> {
+    return this.matching(filter).length;
+  }
+
+  async insertOne(document: T): Promise<T> {
+    const stored = cloneDocument({ ...document, _id: document._id || new ObjectId() });
+    this.assertUnique(stored);
+    this.documents.push(stored);
+    return cloneDocument(stored);
+  }
+
+  async findOneAndUpdate(filter: Filter<T>, update: UpdateFilter<T>): Promise<T | null> {
+    const doc = this.matching(filter)[0];
+    if (!doc) {
+      return null;
+    }
+    this.applyChecked(doc, update);
+    return cloneDocument(doc);
+  }
+
+  async updateMany(filter: Filter<T>, update: UpdateFilter<T>): Promise<number> {
+    const docs = this.matching(filter);
+    for (const doc of docs) {
+      this.applyChecked(doc, update);
+    }
+    return docs.length;
+  }
+
+  async deleteOne(filter: Filter<T>): Promise<boolean> {
+    const doc = this.matching(filter)[0];
+    if (!doc) {
+      return false;
+    }
+    this.documents.splice(this.documents.indexOf(doc), 1);
+    return true;
+  }
+
+  async deleteMany(filter: Filter<T>): Promise<number> {
+    const docs = new Set(this.matching(filter));
+    const remaining = this.documents.filter(doc => !docs.has(doc));
+    this.documents.splice(0, this.documents.length, ...remaining);
+    return docs.size;
+  }
+
+  async distinct(field: string, filter: Filter<T> = {}): Promise<unknown[]> {
+    const values: unknown[] = [];
+    for (const doc of this.matching(filter)) {
+      const value = getPath(doc, field);
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (item !== undefined && !values.some(existing => valuesEqual(existing, item))) {
+          values.push(cloneDocument(item));
+        }
+      }
+    }
+    return values;
+  }
+
+  // Apply an update, restoring the document if it would break a unique field
+  private applyChecked(doc: T, update: UpdateFilter<T>): void {
+    const original = cloneDocument(doc);
+    applyUpdate(doc as Record<string, unknown>, update as Record<string, unknown>);
+    try {
+      this.assertUnique(doc);
+    } catch (error) {
+      for (const key of Object.keys(doc)) {
+        delete (doc as Record<string, unknown>)[key];
+      }
+      Object.assign(doc, original);
+      throw error;
+    }
+  }
+
+  private assertUnique(candidate: T): void {
+    for (const field of ['_id', ...this.uniqueFields]) {
+      const value = getPath(candidate, field);
+      if (value === undefined) {
+        continue;
+      }
+      const duplicate = this.documents.some(doc =>
+        doc !== candidate && valuesEqual(getPath(doc, field), value)
+      );
+      if (duplicate) {
+        throw new Error(`Duplicate key error: ${this.collectionName}.${field}`);
+      }
+    }
+  }
+}
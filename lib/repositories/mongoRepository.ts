@@ -0,0 +1,95 @@
+import { Collection, Filter, IndexDescription, OptionalUnlessRequiredId, Sort, UpdateFilter } from 'mongodb';
+import { getDatabase } from '../mongodb';
+import { BaseDocument, FindOptions, Repository } from './repository';
+
+// Repository backed by a MongoDB collection
+export class MongoRepository<T extends BaseDocument> implements Repository<T> {
+  private collection: Collection<T> | null = null;
+
+  constructor(
+    private readonly collectionName: string,
+    private readonly indexes: IndexDescription[] = [],
+  ) {}
+
+  // Initialize the database collection
+  protected async getCollection(): Promise<Collection<T>> {
+    if (!this.collection) {
+      const db = await getDatabase();
+      const collection = db.collection<T>(this.collectionName);
+
+      // Create indexes for better performance
+      if (this.indexes.length > 0) {
+        await collection.createIndexes(this.indexes);
+      }
+      this.collection = collection;
+    }
+    return this.collection;
+  }
+
+  async find(filter: Filter<T> = {}, options: FindOptions = {}): Promise<T[]> {
+    const collection = await this.getCollection();
+    let cursor = collection.find(filter);
+
+    if (options.sort) {
+      cursor = cursor.sort(options.sort as Sort);
+    }
+    if (options.skip) {
+      cursor = cursor.skip(options.skip);
+    }
+    if (options.limit) {
+      cursor = cursor.limit(options.limit);
+    }
+
+    return (await cursor.toArray()) as T[];
+  }
+
+  async findOne(filter: Filter<T>): Promise<T | null> {
+    const collection = await this.getCollection();
+    return (await collection.findOne(filter)) as T | null;
+  }
+
+  async countDocuments(filter: Filter<T> = {}): Promise<number> {
+    const collection = await this.getCollection();
+    return collection.countDocuments(filter);
+  }
+
+  async insertOne(document: T): Promise<T> {
+    const collection = await this.getCollection();
+    const result = await collection.insertOne(document as OptionalUnlessRequiredId<T>);
+
+    if (!result.insertedId) {
+      throw new Error(`Failed to insert document into ${this.collectionName}`);
+    }
+
+    return { ...document, _id: result.insertedId };
+  }
+
+  async findOneAndUpdate(filter: Filter<T>, update: UpdateFilter<T>): Promise<T | null> {
+    const collection = await this.getCollection();
+    const result = await collection.findOneAndUpdate(filter, update, { returnDocument: 'after' });
+    return result as T | null;
+  }
+
+  async updateMany(filter: Filter<T>, update: UpdateFilter<T>): Promise<number> {
+    const collection = await this.getCollection();
+    const result = await collection.updateMany(filter, update);
+    return result.modifiedCount;
+  }
+
+  async deleteOne(filter: Filter<T>): Promise<boolean> {
+    const collection = await this.getCollection();
+    const result = await collection.deleteOne(filter);
+    return result.deletedCount === 1;
+  }
+
+  async deleteMany(filter: Filter<T>): Promise<number> {
+    const collection = await this.getCollection();
+    const result = await collection.deleteMany(filter);
+    return result.deletedCount;
+  }
+
+  async distinct(field: string, filter: Filter<T> = {}): Promise<unknown[]> {
+    const collection = await this.getCollection();
+    return collection.distinct(field, filter);
+  }
+}
@@ -0,0 +1,27 @@
+import { Filter, ObjectId, UpdateFilter } from 'mongodb';
+
+export interface BaseDocument {
+  _id?: ObjectId;
+}
+
+export type SortSpec = Record<string, 1 | -1 | { $meta: 'textScore' }>;
+
+export interface FindOptions {
+  sort?: SortSpec;
+  skip?: number;
+  limit?: number;
+}
+
+// Persistence operations shared by every collection-backed store.
+// Filters and updates use MongoDB syntax so that both implementations accept the same queries.
+export interface Repository<T extends BaseDocument> {
+  find(filter?: Filter<T>, options?: FindOptions): Promise<T[]>;
+  findOne(filter: Filter<T>): Promise<T | null>;
+  countDocuments(filter?: Filter<T>): Promise<number>;
+  insertOne(document: T): Promise<T>;
+  findOneAndUpdate(filter: Filter<T>, update: UpdateFilter<T>): Promise<T | null>;
+  updateMany(filter: Filter<T>, update: UpdateFilter<T>): Promise<number>;
+  deleteOne(filter: Filter<T>): Promise<boolean>;
+  deleteMany(filter: Filter<T>): Promise<number>;
+  distinct(field: string, filter?: Filter<T>): Promise<unknown[]>;
+}
@@ -0,0 +1,325 @@
+import { ObjectId } from 'mongodb';
+import { createRepository, getImageRepository, Repository } from '../repositories';
+import { buildViewerFilter } from '../imageFilter';
+import { Album, AlbumSummary, AlbumWithImages, CreateAlbumRequest, GalleryImage, PublicUser, UpdateAlbumRequest } from '../../types/gallery';
+
+// An album change names images that do not exist, are in the trash, or that the user may not see.
+// All three are reported alike, so private images cannot be discovered by their IDs
+export class AlbumImageError extends Error {
+  readonly imageIds: string[];
+
+  constructor(imageIds: string[]) {
+    super(`No images found with the IDs ${imageIds.join(', ')}`);
+    this.name = 'AlbumImageError';
+    this.imageIds = imageIds;
+  }
+}
+
+// Whether a user, or an anonymous visitor when null, may open an album: private albums are only
+// shown to their creator and admins
+export function canViewAlbum(album: Album, user: PublicUser | null): boolean {
+  return album.isPublic || (!!user && (user.role === 'admin' || album.createdBy === user.username));
+}
+
+// Albums a viewer may list, on the same terms as canViewAlbum
+function buildAlbumViewerFilter(viewer: PublicUser | null): Record<string, unknown> | null {
+  if (viewer?.role === 'admin') {
+    return null;
+  }
+  return viewer
+    ? { $or: [{ isPublic: true }, { createdBy: viewer.username }] }
+    : { isPublic: true };
+}
+
+export class AlbumService {
+  private repository: Repository<Album> | null = null;
+
+  private getRepository(): Repository<Album> {
+    if (!this.repository) {
+      this.repository = createRepository<Album>('albums', {
+        indexes: [{ key: { createdAt: -1 } }, { key: { imageIds: 1 } }],
+      });
+    }
+    return this.repository;
+  }
+
+  // Load the active (not trashed) images a viewer may see by ID, in the order given
+  private async getActiveImages(imageIds: ObjectId[], viewer: PublicUser | null): Promise<GalleryImage[]> {
+    if (imageIds.length === 0) {
+      return [];
+    }
+
+    const viewerFilter = buildViewerFilter(viewer);
+    const images = await getImageRepository().find({
+      _id: { $in: imageIds },
+      deletedAt: null,
+      ...(viewerFilter ? { $and: [viewerFilter] } : {}),
+    });
+    const imagesById = new Map(images.map(image => [image._id!.toString(), image]));
+
+    return imageIds
+      .map(id => imagesById.get(id.toString()))
+      .filter((image): image is GalleryImage => image !== undefined);
+  }
+
+  // Turn image IDs into ObjectIds without duplicates, throwing AlbumImageError unless every one is
+  // an active image the user may see
+  private async resolveImageIds(imageIds: string[], user: PublicUser): Promise<ObjectId[]> {
+    const uniqueIds = [...new Set(imageIds)];
+    const images = await this.getActiveImages(
+      uniqueIds.filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id)),
+      user
+    );
+
+    const foundIds = new Set(images.map(image => image._id!.toString()));
+    const missingIds = uniqueIds.filter(id => !ObjectId.isValid(id) || !foundIds.has(new ObjectId(id).toString()));
+    if (missingIds.length > 0) {
+      throw new AlbumImageError(missingIds);
+    }
+
+    return images.map(image => image._id!);
+  }
+
+  private toSummary(album: Album, images: GalleryImage[]): AlbumSummary {
+    const cover = images.find(image => album.coverImageId && image._id!.equals(album.coverImageId)) || images[0];
+    return {
+      ...album,
+      imageCount: images.length,
+      coverUrl: cover?.cloudinaryUrl,
+    };
+  }
+
+  // Get the albums a viewer may see, newest first, optionally only those containing an image.
+  // Counts and covers only take in the images the viewer may see
+  async getAlbums(options: { isPublic?: boolean; imageId?: string } = {}, viewer: PublicUser | null = null): Promise<AlbumSummary[]> {
+    try {
+      const filter: Record<string, unknown> = {};
+      const albumViewerFilter = buildAlbumViewerFilter(viewer);
+      if (albumViewerFilter) {
+        filter.$and = [albumViewerFilter];
+      }
+      if (options.isPublic !== undefined) {
+        filter.isPublic = options.isPublic;
+      }
+      if (options.imageId) {
+        if (!ObjectId.isValid(options.imageId)) {
+          throw new Error('Invalid image ID format');
+        }
+        filter.imageIds = new ObjectId(options.imageId);
+      }
+
+      const albums = await this.getRepository().find(filter, { sort: { createdAt: -1 } });
+
+      const summaries: AlbumSummary[] = [];
+      for (const album of albums) {
+        summaries.push(this.toSummary(album, await this.getActiveImages(album.imageIds, viewer)));
+      }
+      return summaries;
+    } catch (error) {
+      console.error('Error getting albums:', error);
+      throw new Error(`Failed to retrieve albums: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Get a single album with the images in it the viewer may see, in order. Whether the viewer may
+  // open the album itself is for the caller to check with canViewAlbum
+  async getAlbumById(id: string, viewer: PublicUser | null = null): Promise<AlbumWithImages | null> {
+    try {
+      if (!ObjectId.isValid(id)) {
+        throw new Error('Invalid album ID format');
+      }
+
+      const album = await this.getRepository().findOne({ _id: new ObjectId(id) });
+      if (!album) {
+        return null;
+      }
+
+      return {
+        ...album,
+        images: await this.getActiveImages(album.imageIds, viewer),
+      };
+    } catch (error) {
+      console.error('Error getting album by ID:', error);
+      throw new Error(`Failed to retrieve album: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Create a new album owned by the given user, from images they may see
+  async createAlbum(albumData: CreateAlbumRequest, user: PublicUser): Promise<Album> {
+    try {
+      const imageIds = await this.resolveImageIds(albumData.imageIds || [], user);
+      const coverImageId = albumData.coverImageId && ObjectId.isValid(albumData.coverImageId)
+        ? new ObjectId(albumData.coverImageId)
+        : null;
+
+      return await this.getRepository().insertOne({
+        title: albumData.title,
+        description: albumData.description || '',
+        coverImageId: coverImageId && imageIds.some(id => id.equals(coverImageId)) ? coverImageId : null,
+        imageIds,
+        isPublic: albumData.isPublic !== undefined ? albumData.isPublic : true,
+        createdBy: user.username,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+    } catch (error) {
+      if (error instanceof AlbumImageError) {
+        throw error;
+      }
+      console.error('Error creating album:', error);
+      throw new Error(`Failed to create album: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Update an album's details, cover or image order on behalf of a user
+  async updateAlbum(id: string, updateData: UpdateAlbumRequest, user: PublicUser): Promise<Album | null> {
+    try {
+      const repository = this.getRepository();
+
+      if (!ObjectId.isValid(id)) {
+        throw new Error('Invalid album ID format');
+      }
+
+      const existingAlbum = await repository.findOne({ _id: new ObjectId(id) });
+      if (!existingAlbum) {
+        return null;
+      }
+
+      const updateObject: Partial<Album> = {
+        updatedAt: new Date(),
+      };
+
+      if (updateData.title !== undefined) {
+        updateObject.title = updateData.title;
+      }
+      if (updateData.description !== undefined) {
+        updateObject.description = updateData.description;
+      }
+      if (updateData.isPublic !== undefined) {
+        updateObject.isPublic = updateData.isPublic;
+      }
+      if (updateData.imageIds !== undefined) {
+        updateObject.imageIds = await this.resolveImageIds(updateData.imageIds, user);
+      }
+
+      // The cover has to be one of the album's images
+      const imageIds = updateObject.imageIds || existingAlbum.imageIds;
+      if (updateData.coverImageId !== undefined) {
+        const coverImageId = updateData.coverImageId && ObjectId.isValid(updateData.coverImageId)
+          ? new ObjectId(updateData.coverImageId)
+          : null;
+        if (coverImageId && !imageIds.some(imageId => imageId.equals(coverImageId))) {
+          throw new Error('Cover image must belong to the album');
+        }
+        updateObject.coverImageId = coverImageId;
+      } else if (existingAlbum.coverImageId && !imageIds.some(imageId => imageId.equals(existingAlbum.coverImageId!))) {
+        updateObject.coverImageId = null;
+      }
+
+      return await repository.findOneAndUpdate(
+        { _id: new ObjectId(id) },
+        { $set: updateObject }
+      );
+    } catch (error) {
+      if (error instanceof AlbumImageError) {
+        throw error;
+      }
+      console.error('Error updating album:', error);
+      throw new Error(`Failed to update album: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Delete an album; its images stay in the gallery
+  async deleteAlbum(id: string): Promise<boolean> {
+    try {
+      if (!ObjectId.isValid(id)) {
+        throw new Error('Invalid album ID format');
+      }
+
+      return await this.getRepository().deleteOne({ _id: new ObjectId(id) });
+    } catch (error) {
+      console.error('Error deleting album:', error);
+      throw new Error(`Failed to delete album: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Add images a user may see to an album, at the end or at a position; images already in it are
+  // left where they are
+  async addImages(id: string, imageIds: string[], user: PublicUser, position?: number): Promise<Album | null> {
+    try {
+      const repository = this.getRepository();
+
+      if (!ObjectId.isValid(id)) {
+        throw new Error('Invalid album ID format');
+      }
+
+      const album = await repository.findOne({ _id: new ObjectId(id) });
+      if (!album) {
+        return null;
+      }
+
+      const newIds = (await this.resolveImageIds(imageIds, user))
+        .filter(imageId => !album.imageIds.some(existingId => existingId.equals(imageId)));
+
+      const push = position !== undefined
+        ? { $each: newIds, $position: position }
+        : { $each: newIds };
+
+      return await repository.findOneAndUpdate(
+        { _id: album._id },
+        {
+          $push: { imageIds: push },
+          $set: { updatedAt: new Date() },
+        }
+      );
+    } catch (error) {
+      if (error instanceof AlbumImageError) {
+        throw error;
+      }
+      console.error('Error adding images to album:', error);
+      throw new Error(`Failed to add images to album: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Remove images from an album
+  async removeImages(id: string, imageIds: string[]): Promise<Album | null> {
+    try {
+      const repository = this.getRepository();
+
+      if (!ObjectId.isValid(id)) {
+        throw new Error('Invalid album ID format');
+      }
+
+      const album = await repository.findOne({ _id: new ObjectId(id) });
+      if (!album) {
+        return null;
+      }
+
+      const removedIds = imageIds.filter(imageId => ObjectId.isValid(imageId)).map(imageId => new ObjectId(imageId));
+      const coverRemoved = album.coverImageId && removedIds.some(imageId => imageId.equals(album.coverImageId!));
+
+      return await repository.findOneAndUpdate(
+        { _id: album._id },
+        {
+          $pullAll: { imageIds: removedIds },
+          $set: {
+            updatedAt: new Date(),
+            ...(coverRemoved ? { coverImageId: null } : {}),
+          },
+        }
+      );
+    } catch (error) {
+      console.error('Error removing images from album:', error);
+      throw new Error(`Failed to remove images from album: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Drop a permanently deleted image from every album
+  async detachImage(imageId: ObjectId): Promise<void> {
+    const repository = this.getRepository();
+    await repository.updateMany({ imageIds: imageId }, { $pull: { imageIds: imageId } });
+    await repository.updateMany({ coverImageId: imageId }, { $set: { coverImageId: null } });
+  }
+}
+
+export const albumService = new AlbumService();
@@ -0,0 +1,188 @@
+import { createHash, randomBytes } from 'crypto';
+import { createRepository, Repository } from '../repositories';
+import { hashPassword, verifyPassword } from '../auth/passwords';
+import { ObjectId } from 'mongodb';
+import { AuthCredentials, PublicUser, ResizeSettings, Session, User } from '../../types/gallery';
+
+// Workspace names, compared in lower case like usernames
+export const WORKSPACE_PATTERN = /^[a-zA-Z0-9_.-]{1,64}$/;
+
+// Sessions last SESSION_TTL_HOURS (default one week)
+const DEFAULT_SESSION_TTL_HOURS = 24 * 7;
+
+export interface LoginResult {
+  user: PublicUser;
+  token: string;
+  expiresAt: Date;
+}
+
+function getSessionTtlMs(): number {
+  const hours = Number(process.env.SESSION_TTL_HOURS);
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_SESSION_TTL_HOURS) * 60 * 60 * 1000;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Strip credentials from a stored user
+export function toPublicUser(user: User): PublicUser {
+  return {
+    id: user._id!.toString(),
+    username: user.username,
+    role: user.role,
+    ...(user.uploadSettings ? { uploadSettings: user.uploadSettings } : {}),
+    ...(user.workspace ? { workspace: user.workspace } : {}),
+  };
+}
+
+// Local accounts with password login and database-backed sessions
+export class AuthService {
+  private users: Repository<User> | null = null;
+  private sessions: Repository<Session> | null = null;
+
+  private getUsers(): Repository<User> {
+    if (!this.users) {
+      this.users = createRepository<User>('users', {
+        indexes: [{ key: { username: 1 }, unique: true }],
+      });
+    }
+    return this.users;
+  }
+
+  private getSessions(): Repository<Session> {
+    if (!this.sessions) {
+      this.sessions = createRepository<Session>('sessions', {
+        indexes: [
+          { key: { tokenHash: 1 }, unique: true },
+          { key: { expiresAt: 1 }, expireAfterSeconds: 0 },
+        ],
+      });
+    }
+    return this.sessions;
+  }
+
+  // Create an account; the first account becomes an admin. Returns null when the username is taken.
+  async register(credentials: AuthCredentials): Promise<PublicUser | null> {
+    try {
+      const users = this.getUsers();
+      const username = credentials.username.trim().toLowerCase();
+
+      if (await users.findOne({ username })) {
+        return null;
+      }
+
+      const isFirstUser = (await users.countDocuments()) === 0;
+      const user = await users.insertOne({
+        username,
+        passwordHash: await hashPassword(credentials.password),
+        role: isFirstUser ? 'admin' : 'user',
+        createdAt: new Date(),
+      });
+
+      return toPublicUser(user);
+    } catch (error) {
+      console.error('Error registering user:', error);
+      throw new Error(`Failed to register user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Check credentials and open a session. Returns null when they do not match.
+  async login(credentials: AuthCredentials): Promise<LoginResult | null> {
+    try {
+      const users = this.getUsers();
+      const user = await users.findOne({ username: credentials.username.trim().toLowerCase() });
+
+      if (!user || !(await verifyPassword(credentials.password, user.passwordHash))) {
+        return null;
+      }
+
+      const token = randomBytes(32).toString('base64url');
+      const now = new Date();
+      const expiresAt = new Date(now.getTime() + getSessionTtlMs());
+
+      await this.getSessions().insertOne({
+        tokenHash: hashToken(token),
+        userId: user._id!,
+        createdAt: now,
+        expiresAt,
+      });
+      await users.findOneAndUpdate({ _id: user._id }, { $set: { lastLoginAt: now } });
+
+      return { user: toPublicUser(user), token, expiresAt };
+    } catch (error) {
+      console.error('Error logging in:', error);
+      throw new Error(`Failed to log in: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Remember how the user wants images resized before upload; returns null when the user no longer exists
+  async updateUploadSettings(userId: string, uploadSettings: ResizeSettings): Promise<PublicUser | null> {
+    try {
+      const user = await this.getUsers().findOneAndUpdate(
+        { _id: new ObjectId(userId) },
+        { $set: { uploadSettings } }
+      );
+      return user ? toPublicUser(user) : null;
+    } catch (error) {
+      console.error('Error updating upload settings:', error);
+      throw new Error(`Failed to update upload settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Look up an account by username, or null when there is none
+  async getUserByUsername(username: string): Promise<PublicUser | null> {
+    try {
+      const user = await this.getUsers().findOne({ username: username.trim().toLowerCase() });
+      return user ? toPublicUser(user) : null;
+    } catch (error) {
+      console.error('Error getting user:', error);
+      throw new Error(`Failed to get user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Move a user into a workspace, or back to the default policy with null; returns null when the user does not exist
+  async setWorkspace(username: string, workspace: string | null): Promise<PublicUser | null> {
+    try {
+      const user = await this.getUsers().findOneAndUpdate(
+        { username: username.trim().toLowerCase() },
+        workspace ? { $set: { workspace: workspace.trim().toLowerCase() } } : { $unset: { workspace: true } }
+      );
+      return user ? toPublicUser(user) : null;
+    } catch (error) {
+      console.error('Error setting workspace:', error);
+      throw new Error(`Failed to set workspace: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // End a session
+  async logout(token: string): Promise<void> {
+    try {
+      await this.getSessions().deleteOne({ tokenHash: hashToken(token) });
+    } catch (error) {
+      console.error('Error logging out:', error);
+      throw new Error(`Failed to log out: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Resolve the user behind a session token, or null when the session is unknown or expired
+  async getUserBySessionToken(token: string): Promise<PublicUser | null> {
+    try {
+      const session = await this.getSessions().findOne({
+        tokenHash: hashToken(token),
+        expiresAt: { $gt: new Date() },
+      });
+      if (!session) {
+        return null;
+      }
+
+      const user = await this.getUsers().findOne({ _id: session.userId });
+      return user ? toPublicUser(user) : null;
+    } catch (error) {
+      console.error('Error resolving session:', error);
+      throw new Error(`Failed to resolve session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export const authService = new AuthService();
@@ -1,143 +1,515 @@
-import { Collection, ObjectId } from 'mongodb';
-import { getDatabase } from '../mongodb';
-import { GalleryImage, CreateImageRequest, UpdateImageRequest, PaginationQuery, PaginatedResponse, DatabaseStats, SyncStatus } from '../../types/gallery';
-import { uploadImage, updateImage, deleteImage, listImages } from '../cloudinary';
+import { Filter, ObjectId } from 'mongodb';
+import { getImageRepository, ImageRepository, SortSpec } from '../repositories';
+import { GalleryImage, CreateImageRequest, UpdateImageRequest, PaginationQuery, PaginatedResponse, DatabaseStats, SyncStatus, SyncDiscrepancy, SyncField, SyncFieldDifference, SyncRepairAction, SyncRepairItem, SyncRepairRequest, SyncRepairResult, SyncRepairReport, OperationLogEntry, RecoveryReport, RecoveryResult, TrashPurgeReport, TrashPurgeResult, ImageVersion, DuplicatePolicy, DuplicateGroup, DuplicateReport, HashBackfillReport, PublicUser } from '../../types/gallery';
+import { getStorageProvider, hasBackupFile, readBackupFile, StoredAsset } from '../storage';
+import { operationLog } from './operationLog';
+import { albumService } from './albumService';
+import { shareService } from './shareService';
+import { checkFileAgainstPolicy, checkRequiredFields, DuplicateImageError, UploadCancelledError, UploadValidationError } from '../uploadValidation';
+import { uploadPolicyService } from './uploadPolicyService';
+import { processImageMetadata } from '../imageMetadata';
+import { buildViewerFilter, ImageFilterError, parseImageFilter } from '../imageFilter';
+import { buildCursorFilter, decodeCursor, encodeCursor, getKeysetSort, InvalidCursorError, reverseSort } from '../pageCursor';
+import { computeContentHash, computePerceptualHash, getHashBands, getNearDuplicateDistance, hashDistance } from '../imageHash';
+
+// Pending operations younger than this may still be in flight on another instance
+export const DEFAULT_RECOVERY_MIN_AGE_MS = 60 * 1000;
+
+// Trashed images are purged after TRASH_RETENTION_DAYS (default 30)
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Expired trash is purged at most this often, as a side effect of normal use
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Most of the uploader's images a new upload is compared against when looking for near-duplicates
+const MAX_NEAR_DUPLICATE_CANDIDATES = 500;
+
+// Get the configured trash retention period in days
+export function getTrashRetentionDays(): number {
+  const value = process.env.TRASH_RETENTION_DAYS;
+  if (!value) {
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  }
+
+  const days = Number(value);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+// Document fields behind each sort key; capture dates live in the metadata sub-document
+const SORT_FIELDS: Record<NonNullable<PaginationQuery['sortBy']>, string> = {
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  title: 'title',
+  capturedAt: 'metadata.capturedAt',
+};
+
+// Build a sort object; images without a capture date keep their upload order among themselves
+function buildSort(sortBy: NonNullable<PaginationQuery['sortBy']>, sortOrder: 'asc' | 'desc'): Record<string, 1 | -1> {
+  const direction = sortOrder === 'asc' ? 1 : -1;
+  return sortBy === 'capturedAt'
+    ? { [SORT_FIELDS.capturedAt]: direction, createdAt: direction }
+    : { [SORT_FIELDS[sortBy] || 'createdAt']: direction };
+}
+
+// Build the filter shared by image listing and search: live images the viewer may see, narrowed by
+// the tag list, visibility and structured filter of the query
+function buildImageFilter(query: PaginationQuery, viewer: PublicUser | null): Filter<GalleryImage> {
+  const { tags, isPublic, filter: filterText } = query;
+
+  const filter: Filter<GalleryImage> = { deletedAt: null };
+  if (tags) {
+    filter.tags = { $in: tags.split(',').map(tag => tag.trim()) };
+  }
+  if (isPublic !== undefined) {
+    filter.isPublic = isPublic;
+  }
+
+  const viewerFilter = buildViewerFilter(viewer);
+  const conditions = [
+    ...(viewerFilter ? [viewerFilter] : []),
+    ...(filterText ? parseImageFilter(filterText) : []),
+  ];
+  if (conditions.length > 0) {
+    filter.$and = conditions;
+  }
+  return filter;
+}
+
+// Largest page Cloudinary's admin API returns in one listing call
+const SYNC_PAGE_SIZE = 500;
+
+// Compare the file fields of an image record against the stored file
+function compareStoredFields(image: GalleryImage, asset: StoredAsset): SyncFieldDifference[] {
+  const pairs: [SyncField, string | number | undefined, string | number | undefined][] = [
+    ['bytes', image.bytes, asset.bytes],
+    ['width', image.width, asset.width],
+    ['height', image.height, asset.height],
+    ['format', image.format, asset.format],
+    ['secure_url', image.cloudinaryUrl, asset.url],
+  ];
+
+  return pairs
+    .filter(([, mongoValue, cloudinaryValue]) => mongoValue !== cloudinaryValue)
+    .map(([field, mongoValue, cloudinaryValue]) => ({
+      field,
+      mongoValue: mongoValue ?? null,
+      cloudinaryValue: cloudinaryValue ?? null,
+    }));
+}
 
 export class GalleryService {
-  private collection: Collection<GalleryImage> | null = null;
+  private repository: ImageRepository | null;
+  private recoveryScheduled = false;
+  private lastTrashPurgeAt = 0;
 
-  // Initialize the database collection
-  private async getCollection(): Promise<Collection<GalleryImage>> {
-    if (!this.collection) {
-      const db = await getDatabase();
-      this.collection = db.collection<GalleryImage>('images');
-      
-      // Create indexes for better performance
-      await this.collection.createIndex({ cloudinaryId: 1 }, { unique: true });
-      await this.collection.createIndex({ createdAt: -1 });
-      await this.collection.createIndex({ tags: 1 });
-      await this.collection.createIndex({ isPublic: 1 });
-      await this.collection.createIndex({ title: 'text', description: 'text' });
+  // A repository can be injected, e.g. an in-memory one for tests
+  constructor(repository?: ImageRepository) {
+    this.repository = repository || null;
+  }
+
+  // Resolve the image repository for the configured data store
+  private getRepository(): ImageRepository {
+    if (!this.repository) {
+      this.repository = getImageRepository();
     }
-    return this.collection;
+    this.scheduleStartupRecovery();
+    this.scheduleTrashPurge();
+    return this.repository;
   }
 
-  // Create a new image record
-  async createImage(imageData: CreateImageRequest, file: Buffer): Promise<GalleryImage> {
+  // Recover operations interrupted by a previous crash the first time the service is used
+  private scheduleStartupRecovery(): void {
+    if (this.recoveryScheduled) {
+      return;
+    }
+    this.recoveryScheduled = true;
+
+    this.recoverPendingOperations(DEFAULT_RECOVERY_MIN_AGE_MS)
+      .then(report => {
+        if (report.examined > 0) {
+          console.log(`Recovered ${report.completed + report.rolledBack} of ${report.examined} pending operations`);
+        }
+      })
+      .catch(error => console.error('Error recovering pending operations:', error));
+  }
+
+  // Purge expired trash in the background, at most once per TRASH_PURGE_INTERVAL_MS
+  private scheduleTrashPurge(): void {
+    if (Date.now() - this.lastTrashPurgeAt < TRASH_PURGE_INTERVAL_MS) {
+      return;
+    }
+    this.lastTrashPurgeAt = Date.now();
+
+    this.purgeTrash()
+      .then(report => {
+        if (report.examined > 0) {
+          console.log(`Purged ${report.purged} of ${report.examined} expired images from the trash`);
+        }
+      })
+      .catch(error => console.error('Error purging trash:', error));
+  }
+
+  // Create a new image record, stamped with the username of the uploader
+  async createImage(imageData: CreateImageRequest, file: Buffer, uploadedBy?: string): Promise<GalleryImage> {
     try {
-      const collection = await this.getCollection();
-
-      // Upload to Cloudinary first
-      const cloudinaryResult = await uploadImage(file);
-
-      // Create the image document
-      const newImage: Omit<GalleryImage, '_id'> = {
-        title: imageData.title,
-        description: imageData.description || '',
-        cloudinaryId: cloudinaryResult.public_id,
-        cloudinaryUrl: cloudinaryResult.secure_url,
-        publicId: cloudinaryResult.public_id,
-        format: cloudinaryResult.format,
-        width: cloudinaryResult.width,
-        height: cloudinaryResult.height,
-        bytes: cloudinaryResult.bytes,
-        tags: imageData.tags || [],
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        isPublic: imageData.isPublic !== undefined ? imageData.isPublic : true,
-      };
+      const repository = this.getRepository();
+      const storage = getStorageProvider();
+      const imageId = new ObjectId();
+      const policy = await uploadPolicyService.getPolicyForUser(uploadedBy);
 
-      // Insert into MongoDB
-      const result = await collection.insertOne(newImage);
-      
-      if (!result.insertedId) {
-        // If MongoDB insert fails, cleanup Cloudinary upload
-        await deleteImage(cloudinaryResult.public_id);
-        throw new Error('Failed to create image record in database');
+      const missingField = checkRequiredFields(imageData, policy);
+      if (missingField) {
+        throw new UploadValidationError(missingField);
       }
+      const detectedType = checkFileAgainstPolicy(file, imageData.mimeType, policy);
+      // Location data is removed here, before the file reaches storage
+      const processed = processImageMetadata(file, { stripGps: imageData.stripGps });
 
-      // Return the created image with the MongoDB _id
-      return {
-        ...newImage,
-        _id: result.insertedId,
+      // The same file is stored only once per uploader
+      const contentHash = computeContentHash(processed.file);
+      const existingImage = await repository.findOne({ contentHash, uploadedBy, deletedAt: null });
+      if (existingImage) {
+        throw new DuplicateImageError(existingImage);
+      }
+
+      const perceptualHash = await computePerceptualHash(processed.file);
+      const possibleDuplicates = perceptualHash ? await this.findNearDuplicates(perceptualHash, uploadedBy) : [];
+
+      // A file the browser shrank still records the size it was taken at
+      const metadata = imageData.resizedFrom ? { ...processed.metadata, original: imageData.resizedFrom } : processed.metadata;
+
+      // The client may cancel at any point, so check before each step that is costly to undo
+      const { uploadId } = imageData;
+      const throwIfCancelled = async () => {
+        if (uploadId && await operationLog.isUploadCancelled(uploadId, uploadedBy)) {
+          throw new UploadCancelledError();
+        }
       };
+      await throwIfCancelled();
+
+      // Log the operation before any side effect so that an interrupted create can be recovered
+      const operation = await operationLog.begin('create', imageId, uploadId ? { uploadId, requestedBy: uploadedBy } : {});
+
+      let storedAsset: StoredAsset | null = null;
+      let createdImage: GalleryImage;
+
+      try {
+        // Upload to storage first
+        storedAsset = await storage.upload(processed.file);
+        await operationLog.advance(operation, 'stored', { storageId: storedAsset.publicId });
+        await throwIfCancelled();
+
+        // Insert into the database
+        createdImage = await repository.insertOne(
+          this.buildImageDocument(imageId, { ...imageData, isPublic: imageData.isPublic ?? policy.defaultIsPublic }, storedAsset, uploadedBy, {
+            mimeType: detectedType.mimeType,
+            ...(metadata ? { metadata } : {}),
+            contentHash,
+            ...(perceptualHash ? { perceptualHash, perceptualHashBands: getHashBands(perceptualHash) } : {}),
+            ...(possibleDuplicates.length > 0 ? { possibleDuplicates } : {}),
+          })
+        );
+      } catch (error) {
+        // Undo the upload now; if that fails too, recovery will retry it later
+        await this.rollbackCreate(operation, storedAsset?.publicId)
+          .catch(rollbackError => console.error('Error rolling back image create:', rollbackError));
+        throw error;
+      }
+
+      await this.finishOperation(operation);
+
+      // A cancel that arrived while the image was being saved removes it again
+      if (uploadId && await operationLog.isUploadCancelled(uploadId, uploadedBy)) {
+        await this.removeCancelledImage(imageId);
+        throw new UploadCancelledError();
+      }
+      return createdImage;
     } catch (error) {
+      if (error instanceof UploadValidationError || error instanceof DuplicateImageError || error instanceof UploadCancelledError) {
+        throw error;
+      }
       console.error('Error creating image:', error);
       throw new Error(`Failed to create image: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  // Get all images with pagination and filtering
-  async getImages(query: PaginationQuery = {}): Promise<PaginatedResponse<GalleryImage>> {
+  // Cancel an upload the client started with the given upload ID. If the image was already saved it
+  // is deleted; otherwise the create in progress sees the cancellation and rolls itself back.
+  async cancelUpload(uploadId: string, requestedBy: string): Promise<'cancelled' | 'removed'> {
     try {
-      const collection = await this.getCollection();
+      const entry = await operationLog.requestCancel(uploadId, requestedBy);
+      if (entry.status !== 'completed') {
+        return 'cancelled';
+      }
 
-      const {
-        page = 1,
-        limit = 20,
-        sortBy = 'createdAt',
-        sortOrder = 'desc',
-        tags,
-        isPublic,
-      } = query;
+      await this.removeCancelledImage(entry.imageId);
+      return 'removed';
+    } catch (error) {
+      console.error('Error cancelling upload:', error);
+      throw new Error(`Failed to cancel upload: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      // Build the filter
-      const filter: any = {};
-      if (tags) {
-        filter.tags = { $in: tags.split(',').map(tag => tag.trim()) };
-      }
-      if (isPublic !== undefined) {
-        filter.isPublic = isPublic;
+  // Delete an image saved by a cancelled upload, unless the create or an earlier cancel already has
+  private async removeCancelledImage(imageId: ObjectId): Promise<void> {
+    if (await this.getRepository().findOne({ _id: imageId })) {
+      await this.permanentlyDeleteImage(imageId.toString());
+    }
+  }
+
+  // Create an image, or with the "link" policy return the uploader's existing image when the file is already stored
+  async createOrLinkImage(
+    imageData: CreateImageRequest,
+    file: Buffer,
+    uploadedBy: string | undefined,
+    onDuplicate: DuplicatePolicy
+  ): Promise<{ image: GalleryImage; linked: boolean }> {
+    try {
+      return { image: await this.createImage(imageData, file, uploadedBy), linked: false };
+    } catch (error) {
+      if (error instanceof DuplicateImageError && onDuplicate === 'link') {
+        return { image: error.existing, linked: true };
       }
+      throw error;
+    }
+  }
 
-      // Build the sort object
-      const sort: any = {};
-      sort[sortBy] = sortOrder === 'asc' ? 1 : -1;
+  // Find the uploader's images whose perceptual hash is close to the given one. Only images sharing a
+  // hash band can be close enough, so only those are loaded, newest first and a bounded number of
+  // them; images hashed before bands were stored are included until the backfill adds theirs
+  private async findNearDuplicates(perceptualHash: string, uploadedBy?: string): Promise<ObjectId[]> {
+    const maxDistance = getNearDuplicateDistance();
+    const candidates = await this.getRepository().find(
+      {
+        uploadedBy,
+        deletedAt: null,
+        $or: [
+          { perceptualHashBands: { $in: getHashBands(perceptualHash) } },
+          { perceptualHash: { $exists: true }, perceptualHashBands: { $exists: false } },
+        ],
+      },
+      { sort: { createdAt: -1 }, limit: MAX_NEAR_DUPLICATE_CANDIDATES }
+    );
 
-      // Calculate pagination
-      const skip = (page - 1) * limit;
+    return candidates
+      .filter(candidate => candidate.perceptualHash && hashDistance(perceptualHash, candidate.perceptualHash) <= maxDistance)
+      .map(candidate => candidate._id!);
+  }
 
-      // Get total count for pagination
-      const totalItems = await collection.countDocuments(filter);
-      const totalPages = Math.ceil(totalItems / limit);
+  // Build the database document for a newly stored image; fileFields describe the stored file
+  private buildImageDocument(
+    imageId: ObjectId,
+    imageData: CreateImageRequest,
+    storedAsset: StoredAsset,
+    uploadedBy?: string,
+    fileFields: Pick<GalleryImage, 'mimeType' | 'metadata' | 'contentHash' | 'perceptualHash' | 'perceptualHashBands' | 'possibleDuplicates'> = {}
+  ): GalleryImage {
+    return {
+      _id: imageId,
+      title: imageData.title,
+      description: imageData.description || '',
+      cloudinaryId: storedAsset.publicId,
+      cloudinaryUrl: storedAsset.url,
+      publicId: storedAsset.publicId,
+      format: storedAsset.format,
+      width: storedAsset.width,
+      height: storedAsset.height,
+      bytes: storedAsset.bytes,
+      tags: imageData.tags || [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      isPublic: imageData.isPublic !== undefined ? imageData.isPublic : true,
+      ...(uploadedBy ? { uploadedBy } : {}),
+      ...(imageData.sourceUrl ? { sourceUrl: imageData.sourceUrl } : {}),
+      ...(imageData.originalFilename ? { originalFilename: imageData.originalFilename } : {}),
+      ...fileFields,
+    };
+  }
+
+  // Record fields that mirror the stored file
+  private buildStoredFieldsUpdate(storedAsset: StoredAsset): Partial<GalleryImage> {
+    return {
+      cloudinaryUrl: storedAsset.url,
+      format: storedAsset.format,
+      width: storedAsset.width,
+      height: storedAsset.height,
+      bytes: storedAsset.bytes,
+      updatedAt: new Date(),
+    };
+  }
+
+  // Copy an image's current file to a new numbered version
+  private async archiveCurrentFile(image: GalleryImage): Promise<ImageVersion> {
+    const versions = image.versions || [];
+    const version = versions.reduce((max, entry) => Math.max(max, entry.version), 0) + 1;
+    const archivedAsset = await getStorageProvider().copy(image.cloudinaryId, `${image.cloudinaryId}_v${version}`);
+
+    return {
+      version,
+      cloudinaryId: archivedAsset.publicId,
+      cloudinaryUrl: archivedAsset.url,
+      format: archivedAsset.format,
+      width: archivedAsset.width,
+      height: archivedAsset.height,
+      bytes: archivedAsset.bytes,
+      ...(image.mimeType ? { mimeType: image.mimeType } : {}),
+      ...(image.originalFilename ? { originalFilename: image.originalFilename } : {}),
+      ...(image.metadata ? { metadata: image.metadata } : {}),
+      ...(image.contentHash ? { contentHash: image.contentHash } : {}),
+      ...(image.perceptualHash ? { perceptualHash: image.perceptualHash } : {}),
+      createdAt: versions.length > 0 ? versions[versions.length - 1].archivedAt : image.createdAt,
+      archivedAt: new Date(),
+    };
+  }
+
+  // Overwrite an image's file after archiving it, removing the archived copy if that fails
+  private async replaceArchivedFile(archivedVersion: ImageVersion, replace: () => Promise<StoredAsset>): Promise<StoredAsset> {
+    try {
+      return await replace();
+    } catch (error) {
+      await getStorageProvider().delete(archivedVersion.cloudinaryId).catch(cleanupError => {
+        console.error(`Error removing unused version ${archivedVersion.cloudinaryId}:`, cleanupError);
+      });
+      throw error;
+    }
+  }
+
+  // Remove the stored file of a create that did not finish
+  private async rollbackCreate(operation: OperationLogEntry, storageId?: string): Promise<void> {
+    if (storageId) {
+      await getStorageProvider().delete(storageId);
+    }
+    await operationLog.finish(operation, 'rolled_back');
+  }
+
+  // Remove the stored files of an image's earlier versions
+  private async deleteVersionFiles(image: GalleryImage): Promise<void> {
+    const storage = getStorageProvider();
+    for (const version of image.versions || []) {
+      await storage.delete(version.cloudinaryId);
+    }
+  }
 
-      // Get the images
-      const images = await collection
-        .find(filter)
-        .sort(sort)
-        .skip(skip)
-        .limit(limit)
-        .toArray();
+  // Delete an image record and everything that points at it: album entries and covers, and share links.
+  // Callers deal with the stored files themselves
+  private async removeImageRecord(imageId: ObjectId): Promise<boolean> {
+    const deleted = await this.getRepository().deleteOne({ _id: imageId });
+    await albumService.detachImage(imageId);
+    await shareService.deleteLinksForImage(imageId);
+    return deleted;
+  }
 
+  // Mark an operation completed; if the log write fails, recovery will complete it later
+  private async finishOperation(operation: OperationLogEntry): Promise<void> {
+    try {
+      await operationLog.finish(operation, 'completed');
+    } catch (error) {
+      console.error('Error completing operation log entry:', error);
+    }
+  }
+
+  // Fetch one page of images by page number or by cursor, counting the matches and facets when asked to
+  private async findPage(
+    filter: Filter<GalleryImage>,
+    sort: SortSpec,
+    query: PaginationQuery,
+    message: string
+  ): Promise<PaginatedResponse<GalleryImage>> {
+    const repository = this.getRepository();
+    const { page = 1, limit = 20, cursor } = query;
+    const useCursor = query.pagination === 'cursor' || cursor !== undefined;
+    // Counting visits every match, so cursor pages only do it on request
+    const includeTotal = query.includeTotal ?? !useCursor;
+
+    const totalItems = includeTotal ? await repository.countDocuments(filter) : undefined;
+    const totals = totalItems !== undefined ? { totalItems, totalPages: Math.ceil(totalItems / limit) } : {};
+    // Every facet comes from a single aggregation over the whole filter
+    const facets = query.includeFacets ? { facets: await repository.getFacets(filter) } : {};
+
+    if (!useCursor) {
+      // One image more than the page tells whether there is a next page without counting
+      const images = await repository.find(filter, { sort, skip: (page - 1) * limit, limit: limit + 1 });
       return {
         success: true,
-        message: 'Images retrieved successfully',
-        data: images,
+        message,
+        data: images.slice(0, limit),
         pagination: {
           currentPage: page,
-          totalPages,
-          totalItems,
+          ...totals,
           itemsPerPage: limit,
-          hasNextPage: page < totalPages,
+          hasNextPage: images.length > limit,
           hasPrevPage: page > 1,
         },
+        ...facets,
       };
+    }
+
+    const keysetSort = getKeysetSort(sort);
+    const position = cursor ? decodeCursor(cursor, keysetSort) : null;
+    const backwards = position?.direction === 'before';
+    const pageFilter = position
+      ? { $and: [filter, buildCursorFilter(position, keysetSort)] } as Filter<GalleryImage>
+      : filter;
+
+    // The page before a cursor is read backwards from it, then put back in order
+    const images = await repository.find(pageFilter, { sort: backwards ? reverseSort(keysetSort) : keysetSort, limit: limit + 1 });
+    const hasMore = images.length > limit;
+    const data = images.slice(0, limit);
+    if (backwards) {
+      data.reverse();
+    }
+
+    const hasNextPage = backwards || hasMore;
+    const hasPrevPage = backwards ? hasMore : position !== null;
+    return {
+      success: true,
+      message,
+      data,
+      pagination: {
+        ...totals,
+        itemsPerPage: limit,
+        hasNextPage,
+        hasPrevPage,
+        nextCursor: hasNextPage && data.length > 0 ? encodeCursor(data[data.length - 1], keysetSort, 'after') : null,
+        prevCursor: hasPrevPage && data.length > 0 ? encodeCursor(data[0], keysetSort, 'before') : null,
+      },
+      ...facets,
+    };
+  }
+
+  // Get the images a viewer may see with pagination and filtering; null is an anonymous visitor
+  async getImages(query: PaginationQuery = {}, viewer: PublicUser | null = null): Promise<PaginatedResponse<GalleryImage>> {
+    try {
+      const { sortBy = 'createdAt', sortOrder = 'desc' } = query;
+
+      // Build the filter, leaving out trashed images and those the viewer may not see
+      const filter = buildImageFilter(query, viewer);
+
+      // Build the sort object
+      const sort = buildSort(sortBy, sortOrder);
+
+      return await this.findPage(filter, sort, query, 'Images retrieved successfully');
     } catch (error) {
+      if (error instanceof ImageFilterError || error instanceof InvalidCursorError) {
+        throw error;
+      }
       console.error('Error getting images:', error);
       throw new Error(`Failed to retrieve images: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  // Get a single image by ID
-  async getImageById(id: string): Promise<GalleryImage | null> {
+  // Get a single image by ID; trashed images are only returned with includeDeleted, for the trash routes
+  async getImageById(id: string, options: { includeDeleted?: boolean } = {}): Promise<GalleryImage | null> {
     try {
-      const collection = await this.getCollection();
+      const repository = this.getRepository();
       
       if (!ObjectId.isValid(id)) {
         throw new Error('Invalid image ID format');
       }
 
-      const image = await collection.findOne({ _id: new ObjectId(id) });
+      const image = await repository.findOne(
+        options.includeDeleted ? { _id: new ObjectId(id) } : { _id: new ObjectId(id), deletedAt: null }
+      );
       return image;
     } catch (error) {
       console.error('Error getting image by ID:', error);
@@ -145,11 +517,23 @@ export class GalleryService {
     }
   }
 
+  // Get the image a stored file belongs to, as its current file or an earlier version, trashed or not
+  async getImageByStoredFile(cloudinaryId: string): Promise<GalleryImage | null> {
+    try {
+      return await this.getRepository().findOne({
+        $or: [{ cloudinaryId }, { 'versions.cloudinaryId': cloudinaryId }],
+      });
+    } catch (error) {
+      console.error('Error getting image by stored file:', error);
+      throw new Error(`Failed to retrieve image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   // Get image by Cloudinary ID
   async getImageByCloudinaryId(cloudinaryId: string): Promise<GalleryImage | null> {
     try {
-      const collection = await this.getCollection();
-      const image = await collection.findOne({ cloudinaryId });
+      const repository = this.getRepository();
+      const image = await repository.findOne({ cloudinaryId });
       return image;
     } catch (error) {
       console.error('Error getting image by Cloudinary ID:', error);
@@ -160,22 +544,38 @@ export class GalleryService {
   // Update an image
   async updateImage(id: string, updateData: UpdateImageRequest, file?: Buffer): Promise<GalleryImage | null> {
     try {
-      const collection = await this.getCollection();
+      const repository = this.getRepository();
 
       if (!ObjectId.isValid(id)) {
         throw new Error('Invalid image ID format');
       }
 
-      const existingImage = await collection.findOne({ _id: new ObjectId(id) });
+      // Trashed images cannot be edited until they are restored
+      const existingImage = await repository.findOne({ _id: new ObjectId(id), deletedAt: null });
       if (!existingImage) {
         throw new Error('Image not found');
       }
 
-      let cloudinaryResult = null;
+      // Edits may not clear a field the uploader's policy requires, and a new file must meet its limits
+      const policy = await uploadPolicyService.getPolicyForUser(existingImage.uploadedBy);
+      const missingField = checkRequiredFields({
+        description: updateData.description ?? existingImage.description,
+        tags: updateData.tags ?? existingImage.tags,
+      }, policy);
+      if (missingField && (updateData.description !== undefined || updateData.tags !== undefined)) {
+        throw new UploadValidationError(missingField);
+      }
 
-      // If a new file is provided, update the image in Cloudinary
-      if (file) {
-        cloudinaryResult = await updateImage(existingImage.cloudinaryId, file);
+      let storedAsset = null;
+      let archivedVersion: ImageVersion | null = null;
+      const detectedType = file ? checkFileAgainstPolicy(file, updateData.mimeType, policy) : null;
+      const processed = file ? processImageMetadata(file, { stripGps: updateData.stripGps }) : null;
+      const perceptualHash = processed ? await computePerceptualHash(processed.file) : null;
+
+      // If a new file is provided, keep the current one as a version, then replace it in storage
+      if (processed) {
+        archivedVersion = await this.archiveCurrentFile(existingImage);
+        storedAsset = await this.replaceArchivedFile(archivedVersion, () => getStorageProvider().replace(existingImage.cloudinaryId, processed.file));
       }
 
       // Build the update object
@@ -196,106 +596,192 @@ export class GalleryService {
         updateObject.isPublic = updateData.isPublic;
       }
 
-      // If Cloudinary was updated, update those fields too
-      if (cloudinaryResult) {
-        updateObject.cloudinaryUrl = cloudinaryResult.secure_url;
-        updateObject.format = cloudinaryResult.format;
-        updateObject.width = cloudinaryResult.width;
-        updateObject.height = cloudinaryResult.height;
-        updateObject.bytes = cloudinaryResult.bytes;
+      // If the stored file was replaced, update those fields too
+      if (storedAsset) {
+        updateObject.cloudinaryUrl = storedAsset.url;
+        updateObject.format = storedAsset.format;
+        updateObject.width = storedAsset.width;
+        updateObject.height = storedAsset.height;
+        updateObject.bytes = storedAsset.bytes;
+        updateObject.mimeType = detectedType!.mimeType;
+        updateObject.originalFilename = updateData.originalFilename || existingImage.originalFilename;
+        updateObject.contentHash = computeContentHash(processed!.file);
+        if (processed!.metadata) {
+          updateObject.metadata = processed!.metadata;
+        }
+        if (perceptualHash) {
+          updateObject.perceptualHash = perceptualHash;
+          updateObject.perceptualHashBands = getHashBands(perceptualHash);
+        }
+      }
+
+      // The previous file's metadata and hash must not carry over to one without them, and a new file
+      // is worth hashing again even if the old one could not be
+      const unsetFields: Record<string, true> = processed ? { hashFailedAt: true, hashError: true } : {};
+      if (processed && !processed.metadata) {
+        unsetFields.metadata = true;
       }
+      if (processed && !perceptualHash) {
+        unsetFields.perceptualHash = true;
+        unsetFields.perceptualHashBands = true;
+      }
+      const unsetObject = Object.keys(unsetFields).length > 0 ? { $unset: unsetFields } : {};
 
       // Update the document in MongoDB
-      const result = await collection.findOneAndUpdate(
+      const result = await repository.findOneAndUpdate(
         { _id: new ObjectId(id) },
-        { $set: updateObject },
-        { returnDocument: 'after' }
+        archivedVersion
+          ? { $set: updateObject, $push: { versions: archivedVersion }, ...unsetObject }
+          : { $set: updateObject }
       );
 
       return result;
     } catch (error) {
+      if (error instanceof UploadValidationError) {
+        throw error;
+      }
       console.error('Error updating image:', error);
       throw new Error(`Failed to update image: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  // Delete an image
+  // Get the earlier files of an image, newest first
+  async getImageVersions(id: string): Promise<ImageVersion[] | null> {
+    try {
+      const image = await this.getImageById(id);
+      if (!image) {
+        return null;
+      }
+      return [...(image.versions || [])].reverse();
+    } catch (error) {
+      console.error('Error getting image versions:', error);
+      throw new Error(`Failed to retrieve image versions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Get a single earlier file of an image
+  async getImageVersion(id: string, version: number): Promise<ImageVersion | null> {
+    try {
+      const image = await this.getImageById(id);
+      return image?.versions?.find(entry => entry.version === version) || null;
+    } catch (error) {
+      console.error('Error getting image version:', error);
+      throw new Error(`Failed to retrieve image version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Make an earlier file current again; the file it replaces is kept as a new version
+  async rollbackImage(id: string, version: number): Promise<GalleryImage | null> {
+    try {
+      const repository = this.getRepository();
+
+      const image = await this.getImageById(id);
+      const target = image?.versions?.find(entry => entry.version === version);
+      if (!image || !target) {
+        return null;
+      }
+
+      const archivedVersion = await this.archiveCurrentFile(image);
+      const storedAsset = await this.replaceArchivedFile(archivedVersion, () => getStorageProvider().copy(target.cloudinaryId, image.cloudinaryId));
+
+      // Fields the restored file has no value for are cleared rather than left from the file it replaces,
+      // along with any hashing failure of that file
+      const unsetFields = [
+        ...(['metadata', 'contentHash', 'perceptualHash'] as const).filter(field => !target[field]),
+        ...(target.perceptualHash ? [] : ['perceptualHashBands']),
+        'hashFailedAt',
+        'hashError',
+      ];
+
+      return await repository.findOneAndUpdate(
+        { _id: image._id },
+        {
+          $set: {
+            ...this.buildStoredFieldsUpdate(storedAsset),
+            ...(target.mimeType ? { mimeType: target.mimeType } : {}),
+            ...(target.originalFilename ? { originalFilename: target.originalFilename } : {}),
+            ...(target.metadata ? { metadata: target.metadata } : {}),
+            ...(target.contentHash ? { contentHash: target.contentHash } : {}),
+            ...(target.perceptualHash ? { perceptualHash: target.perceptualHash, perceptualHashBands: getHashBands(target.perceptualHash) } : {}),
+          },
+          $push: { versions: archivedVersion },
+          ...(unsetFields.length > 0 ? { $unset: Object.fromEntries(unsetFields.map(field => [field, true as const])) } : {}),
+        }
+      );
+    } catch (error) {
+      console.error('Error rolling back image:', error);
+      throw new Error(`Failed to roll back image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Move an image to the trash; it stays restorable until the trash is purged
   async deleteImage(id: string): Promise<boolean> {
     try {
-      const collection = await this.getCollection();
+      const repository = this.getRepository();
 
       if (!ObjectId.isValid(id)) {
         throw new Error('Invalid image ID format');
       }
 
-      const existingImage = await collection.findOne({ _id: new ObjectId(id) });
+      const existingImage = await repository.findOne({ _id: new ObjectId(id) });
       if (!existingImage) {
         throw new Error('Image not found');
       }
 
-      // Delete from Cloudinary first
-      await deleteImage(existingImage.cloudinaryId);
-
-      // Delete from MongoDB
-      const result = await collection.deleteOne({ _id: new ObjectId(id) });
+      if (existingImage.deletedAt) {
+        return true;
+      }
 
-      return result.deletedCount === 1;
+      const trashed = await repository.findOneAndUpdate(
+        { _id: new ObjectId(id) },
+        { $set: { deletedAt: new Date() } }
+      );
+      return trashed !== null;
     } catch (error) {
       console.error('Error deleting image:', error);
       throw new Error(`Failed to delete image: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  // Search images by text
-  async searchImages(searchTerm: string, query: PaginationQuery = {}): Promise<PaginatedResponse<GalleryImage>> {
+  // Restore an image from the trash
+  async restoreImage(id: string): Promise<GalleryImage | null> {
     try {
-      const collection = await this.getCollection();
-
-      const {
-        page = 1,
-        limit = 20,
-        sortBy = 'createdAt',
-        sortOrder = 'desc',
-        tags,
-        isPublic,
-      } = query;
-
-      // Build the filter with text search
-      const filter: any = {
-        $text: { $search: searchTerm },
-      };
+      const repository = this.getRepository();
 
-      if (tags) {
-        filter.tags = { $in: tags.split(',').map(tag => tag.trim()) };
-      }
-      if (isPublic !== undefined) {
-        filter.isPublic = isPublic;
+      if (!ObjectId.isValid(id)) {
+        throw new Error('Invalid image ID format');
       }
 
-      // Build the sort object
-      const sort: any = { score: { $meta: 'textScore' } };
-      if (sortBy) {
-        sort[sortBy] = sortOrder === 'asc' ? 1 : -1;
-      }
+      return await repository.findOneAndUpdate(
+        { _id: new ObjectId(id), deletedAt: { $ne: null } },
+        { $set: { deletedAt: null, updatedAt: new Date() } }
+      );
+    } catch (error) {
+      console.error('Error restoring image:', error);
+      throw new Error(`Failed to restore image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      // Calculate pagination
+  // Get the trashed images a user may manage, most recently deleted first
+  async getTrash(query: PaginationQuery, user: PublicUser): Promise<PaginatedResponse<GalleryImage>> {
+    try {
+      const repository = this.getRepository();
+      const { page = 1, limit = 20 } = query;
+
+      // Users see what they trashed themselves; admins see everyone's
+      const filter: Filter<GalleryImage> = user.role === 'admin'
+        ? { deletedAt: { $ne: null } }
+        : { deletedAt: { $ne: null }, uploadedBy: user.username };
       const skip = (page - 1) * limit;
 
-      // Get total count for pagination
-      const totalItems = await collection.countDocuments(filter);
+      const totalItems = await repository.countDocuments(filter);
       const totalPages = Math.ceil(totalItems / limit);
 
-      // Get the images
-      const images = await collection
-        .find(filter)
-        .sort(sort)
-        .skip(skip)
-        .limit(limit)
-        .toArray();
+      const images = await repository.find(filter, { sort: { deletedAt: -1 }, skip, limit });
 
       return {
         success: true,
-        message: 'Search completed successfully',
+        message: 'Trash retrieved successfully',
         data: images,
         pagination: {
           currentPage: page,
@@ -307,37 +793,332 @@ export class GalleryService {
         },
       };
     } catch (error) {
+      console.error('Error getting trash:', error);
+      throw new Error(`Failed to retrieve trash: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Permanently delete images that have been in the trash longer than the retention period
+  async purgeTrash(retentionDays: number = getTrashRetentionDays()): Promise<TrashPurgeReport> {
+    try {
+      const repository = this.getRepository();
+      const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+      const expired = await repository.find(
+        { deletedAt: { $ne: null, $lte: cutoff } },
+        { sort: { deletedAt: 1 } }
+      );
+      const results: TrashPurgeResult[] = [];
+
+      for (const image of expired) {
+        const imageId = image._id!.toString();
+        try {
+          await this.permanentlyDeleteImage(imageId);
+          results.push({ imageId, title: image.title, outcome: 'purged' });
+        } catch (error) {
+          results.push({
+            imageId,
+            title: image.title,
+            outcome: 'failed',
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      return {
+        retentionDays,
+        examined: expired.length,
+        purged: results.filter(result => result.outcome === 'purged').length,
+        failed: results.filter(result => result.outcome === 'failed').length,
+        results,
+      };
+    } catch (error) {
+      console.error('Error purging trash:', error);
+      throw new Error(`Failed to purge trash: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Permanently delete an image and its stored file
+  async permanentlyDeleteImage(id: string): Promise<boolean> {
+    try {
+      const repository = this.getRepository();
+
+      if (!ObjectId.isValid(id)) {
+        throw new Error('Invalid image ID format');
+      }
+
+      const existingImage = await repository.findOne({ _id: new ObjectId(id) });
+      if (!existingImage) {
+        throw new Error('Image not found');
+      }
+
+      // Log the operation before any side effect so that an interrupted delete can be recovered
+      const operation = await operationLog.begin('delete', existingImage._id!, {
+        storageId: existingImage.cloudinaryId,
+        snapshot: existingImage,
+      });
+
+      // Delete from storage first
+      try {
+        await getStorageProvider().delete(existingImage.cloudinaryId);
+      } catch (error) {
+        // Nothing has been removed yet, so the delete is simply abandoned
+        await operationLog.finish(operation, 'rolled_back');
+        throw error;
+      }
+      await operationLog.advance(operation, 'storage_deleted');
+
+      // Earlier versions go too; if this fails, recovery will finish the delete
+      await this.deleteVersionFiles(existingImage);
+
+      // Delete from the database; if this fails, recovery will finish the delete
+      const deleted = await this.removeImageRecord(existingImage._id!);
+
+      await this.finishOperation(operation);
+      return deleted;
+    } catch (error) {
+      console.error('Error permanently deleting image:', error);
+      throw new Error(`Failed to permanently delete image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Search the images a viewer may see by text
+  async searchImages(searchTerm: string, query: PaginationQuery = {}, viewer: PublicUser | null = null): Promise<PaginatedResponse<GalleryImage>> {
+    try {
+      const { sortBy = 'createdAt', sortOrder = 'desc' } = query;
+
+      // Build the filter with text search, leaving out trashed images
+      const filter: Filter<GalleryImage> = {
+        $text: { $search: searchTerm },
+        ...buildImageFilter(query, viewer),
+      };
+
+      // Build the sort object; cursor pages cannot resume a relevance order and use the sort field alone
+      const sort: any = { score: { $meta: 'textScore' } };
+      if (sortBy) {
+        Object.assign(sort, buildSort(sortBy, sortOrder));
+      }
+
+      return await this.findPage(filter, sort, query, 'Search completed successfully');
+    } catch (error) {
+      if (error instanceof ImageFilterError || error instanceof InvalidCursorError) {
+        throw error;
+      }
       console.error('Error searching images:', error);
       throw new Error(`Failed to search images: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  // Get database statistics
-  async getStats(): Promise<DatabaseStats> {
+  // Count the images a listing or search would return to the viewer, without fetching them
+  async countImages(query: PaginationQuery = {}, searchTerm?: string, viewer: PublicUser | null = null): Promise<number> {
+    try {
+      const filter: Filter<GalleryImage> = {
+        ...(searchTerm ? { $text: { $search: searchTerm } } : {}),
+        ...buildImageFilter(query, viewer),
+      };
+      return await this.getRepository().countDocuments(filter);
+    } catch (error) {
+      if (error instanceof ImageFilterError) {
+        throw error;
+      }
+      console.error('Error counting images:', error);
+      throw new Error(`Failed to count images: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Group images that share a file or look alike, leaving out trashed ones; without an uploader, covers every image.
+  // Groups come largest first, a page at a time
+  async findDuplicateGroups(uploadedBy?: string, page: number = 1, limit: number = 20): Promise<DuplicateReport> {
+    try {
+      const repository = this.getRepository();
+      const scope: Filter<GalleryImage> = { deletedAt: null, ...(uploadedBy ? { uploadedBy } : {}) };
+
+      const images = await repository.find({ ...scope, contentHash: { $exists: true } }, { sort: { createdAt: 1 } });
+      const unhashed = await repository.countDocuments({ ...scope, contentHash: { $exists: false }, hashFailedAt: { $exists: false } });
+      const unhashable = await repository.countDocuments({ ...scope, contentHash: { $exists: false }, hashFailedAt: { $exists: true } });
+      const maxDistance = getNearDuplicateDistance();
+
+      // Link every pair of matching images, then read off the connected groups
+      const parents = images.map((_, index) => index);
+      const findRoot = (index: number): number => {
+        while (parents[index] !== index) {
+          parents[index] = parents[parents[index]];
+          index = parents[index];
+        }
+        return index;
+      };
+      const link = (first: number, second: number) => {
+        parents[findRoot(second)] = findRoot(first);
+      };
+
+      // Images with the same file or the same perceptual hash are linked without comparing them
+      const firstByContentHash = new Map<string, number>();
+      const firstByPerceptualHash = new Map<string, number>();
+      images.forEach((image, index) => {
+        for (const [firstByHash, hash] of [[firstByContentHash, image.contentHash], [firstByPerceptualHash, image.perceptualHash]] as const) {
+          if (!hash) {
+            continue;
+          }
+          const first = firstByHash.get(hash);
+          if (first === undefined) {
+            firstByHash.set(hash, index);
+          } else {
+            link(first, index);
+          }
+        }
+      });
+
+      // Distinct perceptual hashes are only compared when they share a band, as every close enough pair does
+      const imagesByBand = new Map<string, number[]>();
+      for (const [hash, index] of firstByPerceptualHash) {
+        for (const band of getHashBands(hash)) {
+          imagesByBand.set(band, [...(imagesByBand.get(band) || []), index]);
+        }
+      }
+      for (const members of imagesByBand.values()) {
+        for (let first = 0; first < members.length; first++) {
+          for (let second = first + 1; second < members.length; second++) {
+            const [firstIndex, secondIndex] = [members[first], members[second]];
+            if (findRoot(firstIndex) !== findRoot(secondIndex) &&
+                hashDistance(images[firstIndex].perceptualHash!, images[secondIndex].perceptualHash!) <= maxDistance) {
+              link(firstIndex, secondIndex);
+            }
+          }
+        }
+      }
+
+      const members = new Map<number, GalleryImage[]>();
+      images.forEach((image, index) => {
+        const root = findRoot(index);
+        members.set(root, [...(members.get(root) || []), image]);
+      });
+
+      // Largest groups first, as they free the most storage
+      const allGroups = [...members.values()]
+        .filter(group => group.length > 1)
+        .sort((a, b) => b.length - a.length);
+
+      // Distances within a group are only worked out for the groups on the requested page
+      const groups: DuplicateGroup[] = allGroups
+        .slice((page - 1) * limit, page * limit)
+        .map(group => {
+          const distinctHashes = [...new Set(group.map(image => image.perceptualHash).filter((hash): hash is string => !!hash))];
+          let groupDistance = 0;
+          for (const [index, first] of distinctHashes.entries()) {
+            for (const second of distinctHashes.slice(index + 1)) {
+              groupDistance = Math.max(groupDistance, hashDistance(first, second));
+            }
+          }
+          return {
+            exact: group.every(image => image.contentHash === group[0].contentHash),
+            maxDistance: groupDistance,
+            images: group,
+          };
+        });
+
+      return {
+        groups,
+        examined: images.length,
+        unhashed,
+        unhashable,
+        totalGroups: allGroups.length,
+        page,
+        totalPages: Math.ceil(allGroups.length / limit),
+      };
+    } catch (error) {
+      console.error('Error finding duplicate images:', error);
+      throw new Error(`Failed to find duplicate images: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Hash images stored before duplicate detection existed, a batch at a time, so they show up in duplicate reports.
+  // Images that fail are marked so later batches move on to the rest instead of retrying them
+  async hashExistingImages(uploadedBy?: string, limit: number = 50): Promise<HashBackfillReport> {
+    try {
+      const repository = this.getRepository();
+      const storage = getStorageProvider();
+      const unhashed: Filter<GalleryImage> = { deletedAt: null, contentHash: { $exists: false }, ...(uploadedBy ? { uploadedBy } : {}) };
+      const filter: Filter<GalleryImage> = { ...unhashed, hashFailedAt: { $exists: false } };
+
+      // Images hashed before bands were stored get them from the hash they already have, without a download
+      const unbanded: Filter<GalleryImage> = {
+        deletedAt: null,
+        perceptualHash: { $exists: true },
+        perceptualHashBands: { $exists: false },
+        ...(uploadedBy ? { uploadedBy } : {}),
+      };
+      const legacyImages = await repository.find(unbanded, { limit });
+      for (const image of legacyImages) {
+        await repository.findOneAndUpdate(
+          { _id: image._id },
+          { $set: { perceptualHashBands: getHashBands(image.perceptualHash!) } }
+        );
+      }
+
+      const images = await repository.find(filter, { sort: { createdAt: 1 }, limit });
+      let hashed = 0;
+      let failed = 0;
+
+      for (const image of images) {
+        try {
+          const file = await storage.download(image.cloudinaryId);
+          if (!file) {
+            throw new Error('Stored file not found');
+          }
+
+          const perceptualHash = await computePerceptualHash(file);
+          await repository.findOneAndUpdate(
+            { _id: image._id },
+            { $set: { contentHash: computeContentHash(file), ...(perceptualHash ? { perceptualHash, perceptualHashBands: getHashBands(perceptualHash) } : {}) } }
+          );
+          hashed++;
+        } catch (error) {
+          console.error(`Error hashing image ${image._id}:`, error);
+          await repository.findOneAndUpdate(
+            { _id: image._id },
+            { $set: { hashFailedAt: new Date(), hashError: error instanceof Error ? error.message : 'Unknown error' } }
+          );
+          failed++;
+        }
+      }
+
+      return {
+        hashed,
+        failed,
+        remaining: await repository.countDocuments(filter) + await repository.countDocuments(unbanded),
+        unhashable: await repository.countDocuments({ ...unhashed, hashFailedAt: { $exists: true } }),
+      };
+    } catch (error) {
+      console.error('Error hashing existing images:', error);
+      throw new Error(`Failed to hash existing images: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Get statistics over the images a viewer may see; null is an anonymous visitor
+  async getStats(viewer: PublicUser | null = null): Promise<DatabaseStats> {
     try {
-      const collection = await this.getCollection();
+      const repository = this.getRepository();
+      const viewerFilter = buildViewerFilter(viewer);
+      const live: Filter<GalleryImage> = viewerFilter ? { deletedAt: null, $and: [viewerFilter] } : { deletedAt: null };
 
-      const totalImages = await collection.countDocuments();
-      const publicImages = await collection.countDocuments({ isPublic: true });
-      const privateImages = await collection.countDocuments({ isPublic: false });
+      // Trashed images are counted separately, and only the viewer's own unless they are an admin
+      const totalImages = await repository.countDocuments(live);
+      const publicImages = await repository.countDocuments({ ...live, isPublic: true });
+      const privateImages = await repository.countDocuments({ ...live, isPublic: false });
+      const trashedImages = !viewer ? 0 : await repository.countDocuments(
+        viewer.role === 'admin' ? { deletedAt: { $ne: null } } : { deletedAt: { $ne: null }, uploadedBy: viewer.username }
+      );
 
       // Get size statistics
-      const sizeStats = await collection.aggregate([
-        {
-          $group: {
-            _id: null,
-            totalSize: { $sum: '$bytes' },
-            averageSize: { $avg: '$bytes' },
-          },
-        },
-      ]).toArray();
+      const sizeStats = await repository.getSizeStats(live);
 
       return {
         totalImages,
         publicImages,
         privateImages,
-        totalSize: sizeStats[0]?.totalSize || 0,
-        averageSize: Math.round(sizeStats[0]?.averageSize || 0),
+        totalSize: sizeStats.totalSize,
+        averageSize: Math.round(sizeStats.averageSize),
+        trashedImages,
       };
     } catch (error) {
       console.error('Error getting stats:', error);
@@ -348,37 +1129,73 @@ export class GalleryService {
   // Sync with Cloudinary
   async syncWithCloudinary(): Promise<SyncStatus> {
     try {
-      const collection = await this.getCollection();
+      const startedAt = Date.now();
+      const repository = this.getRepository();
 
       // Get MongoDB images
-      const mongoImages = await collection.find({}, { projection: { cloudinaryId: 1 } }).toArray();
-      const mongoCloudinaryIds = new Set(mongoImages.map(img => img.cloudinaryId));
+      const mongoImages = await repository.find();
+      const mongoImagesByCloudinaryId = new Map(mongoImages.map(img => [img.cloudinaryId, img]));
+      // Files of earlier versions are referenced from their image rather than having records of their own
+      const versionIds = new Set(mongoImages.flatMap(img => (img.versions || []).map(version => version.cloudinaryId)));
+
+      // Page through every stored image
+      const storedAssets = new Map<string, StoredAsset>();
+      let nextCursor: string | undefined;
+      let pagesScanned = 0;
+      do {
+        const page = await getStorageProvider().list({ maxResults: SYNC_PAGE_SIZE, nextCursor });
+        page.assets.forEach(asset => storedAssets.set(asset.publicId, asset));
+        nextCursor = page.nextCursor;
+        pagesScanned++;
+      } while (nextCursor);
+
+      const discrepancies: SyncDiscrepancy[] = [];
 
-      // Get Cloudinary images
-      const cloudinaryResponse = await listImages(500); // Get up to 500 images
-      const cloudinaryIds = new Set(cloudinaryResponse.resources.map((img: any) => img.public_id));
+      // Check for images in MongoDB but not in Cloudinary, and for field drift
+      for (const [cloudinaryId, image] of mongoImagesByCloudinaryId) {
+        const asset = storedAssets.get(cloudinaryId);
 
-      const discrepancies: string[] = [];
+        if (!asset) {
+          discrepancies.push({
+            kind: 'missing_in_storage',
+            cloudinaryId,
+            mongoId: image._id?.toString(),
+            message: `Image ${cloudinaryId} exists in MongoDB but not in Cloudinary`,
+          });
+          continue;
+        }
 
-      // Check for images in MongoDB but not in Cloudinary
-      for (const mongoId of mongoCloudinaryIds) {
-        if (!cloudinaryIds.has(mongoId)) {
-          discrepancies.push(`Image ${mongoId} exists in MongoDB but not in Cloudinary`);
+        const differences = compareStoredFields(image, asset);
+        if (differences.length > 0) {
+          discrepancies.push({
+            kind: 'field_mismatch',
+            cloudinaryId,
+            mongoId: image._id?.toString(),
+            message: `Image ${cloudinaryId} differs from Cloudinary in ${differences.map(difference => difference.field).join(', ')}`,
+            differences,
+          });
         }
       }
 
       // Check for images in Cloudinary but not in MongoDB
-      for (const cloudinaryId of cloudinaryIds) {
-        if (!mongoCloudinaryIds.has(cloudinaryId as string)) {
-          discrepancies.push(`Image ${cloudinaryId} exists in Cloudinary but not in MongoDB`);
+      for (const cloudinaryId of storedAssets.keys()) {
+        if (!mongoImagesByCloudinaryId.has(cloudinaryId) && !versionIds.has(cloudinaryId)) {
+          discrepancies.push({
+            kind: 'missing_in_database',
+            cloudinaryId,
+            message: `Image ${cloudinaryId} exists in Cloudinary but not in MongoDB`,
+          });
         }
       }
 
       return {
         inSync: discrepancies.length === 0,
         mongoCount: mongoImages.length,
-        cloudinaryCount: cloudinaryResponse.resources.length,
+        cloudinaryCount: storedAssets.size,
         discrepancies,
+        scannedAt: new Date(startedAt),
+        durationMs: Date.now() - startedAt,
+        pagesScanned,
       };
     } catch (error) {
       console.error('Error syncing with Cloudinary:', error);
@@ -386,14 +1203,222 @@ export class GalleryService {
     }
   }
 
+  // Repair sync discrepancies, either all of them or a selection, optionally as a dry run. Imported
+  // files are recorded as uploaded by the admin running the repair
+  async repairSync(request: SyncRepairRequest, repairedBy: string): Promise<SyncRepairReport> {
+    try {
+      const dryRun = request.dryRun === true;
+      const { discrepancies } = await this.syncWithCloudinary();
+      const discrepanciesById = new Map(discrepancies.map(discrepancy => [discrepancy.cloudinaryId, discrepancy]));
+
+      const items: SyncRepairItem[] = request.items || discrepancies.map(discrepancy => ({ cloudinaryId: discrepancy.cloudinaryId }));
+      const results: SyncRepairResult[] = [];
+
+      for (const item of items) {
+        const discrepancy = discrepanciesById.get(item.cloudinaryId);
+
+        if (!discrepancy) {
+          results.push({
+            cloudinaryId: item.cloudinaryId,
+            action: item.action,
+            status: 'skipped',
+            message: 'No discrepancy found for this image',
+          });
+          continue;
+        }
+
+        results.push(await this.repairDiscrepancy(discrepancy, item.action, dryRun, repairedBy));
+      }
+
+      return {
+        dryRun,
+        repaired: results.filter(result => result.status === 'repaired').length,
+        skipped: results.filter(result => result.status === 'skipped').length,
+        failed: results.filter(result => result.status === 'failed').length,
+        results,
+      };
+    } catch (error) {
+      console.error('Error repairing sync discrepancies:', error);
+      throw new Error(`Failed to repair sync discrepancies: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async repairDiscrepancy(
+    discrepancy: SyncDiscrepancy,
+    requestedAction: SyncRepairAction | undefined,
+    dryRun: boolean,
+    repairedBy: string
+  ): Promise<SyncRepairResult> {
+    const { kind, cloudinaryId, mongoId } = discrepancy;
+
+    // Stored files without a record are imported; records without a file are restored
+    // from backup when one exists, otherwise removed
+    const action = requestedAction || (kind === 'missing_in_database'
+      ? 'import'
+      : kind === 'field_mismatch'
+        ? 'refresh'
+        : (await hasBackupFile(cloudinaryId)) ? 'reupload' : 'remove');
+
+    const allowedActions: SyncRepairAction[] = kind === 'missing_in_database'
+      ? ['import']
+      : kind === 'field_mismatch' ? ['refresh'] : ['remove', 'reupload'];
+    if (!allowedActions.includes(action)) {
+      return { cloudinaryId, kind, action, mongoId, status: 'skipped', message: `Action "${action}" does not apply to ${kind} discrepancies` };
+    }
+
+    if (action === 'reupload' && !(await hasBackupFile(cloudinaryId))) {
+      return { cloudinaryId, kind, action, mongoId, status: 'skipped', message: 'No backup file found for this image' };
+    }
+
+    if (dryRun) {
+      return { cloudinaryId, kind, action, mongoId, status: 'planned', message: `Would ${action} image ${cloudinaryId}` };
+    }
+
+    try {
+      const repository = this.getRepository();
+      const storage = getStorageProvider();
+
+      switch (action) {
+        case 'import': {
+          const asset = await storage.getDetails(cloudinaryId);
+          if (!asset) {
+            return { cloudinaryId, kind, action, status: 'skipped', message: 'Stored file no longer exists' };
+          }
+          // Nobody chose to publish an orphaned file, so it gets the policy's default visibility
+          const policy = await uploadPolicyService.getPolicyForUser(repairedBy);
+          const title = cloudinaryId.split('/').pop()!.replace(/[_-]/g, ' ');
+          const image = await repository.insertOne({
+            ...this.buildImageDocument(new ObjectId(), { title, isPublic: policy.defaultIsPublic }, asset, repairedBy),
+            createdAt: asset.createdAt || new Date(),
+          });
+          return { cloudinaryId, kind, action, mongoId: image._id?.toString(), status: 'repaired', message: `Imported ${cloudinaryId} as a new image` };
+        }
+
+        case 'remove': {
+          // The file is already gone, so only the record and what refers to it are removed
+          const image = await repository.findOne({ cloudinaryId });
+          if (image) {
+            await this.removeImageRecord(image._id!);
+          }
+          return { cloudinaryId, kind, action, mongoId, status: 'repaired', message: `Removed the record for ${cloudinaryId}` };
+        }
+
+        case 'reupload': {
+          const file = await readBackupFile(cloudinaryId);
+          if (!file) {
+            return { cloudinaryId, kind, action, mongoId, status: 'skipped', message: 'No backup file found for this image' };
+          }
+          const asset = await storage.upload(file, cloudinaryId);
+          // The record keeps its ID, so a copy stored anywhere else would leave it still missing
+          if (asset.publicId !== cloudinaryId) {
+            await storage.delete(asset.publicId);
+            return { cloudinaryId, kind, action, mongoId, status: 'failed', message: `Backup was stored as ${asset.publicId} instead of ${cloudinaryId}` };
+          }
+          await repository.findOneAndUpdate({ cloudinaryId }, { $set: this.buildStoredFieldsUpdate(asset) });
+          return { cloudinaryId, kind, action, mongoId, status: 'repaired', message: `Restored ${cloudinaryId} from backup` };
+        }
+
+        case 'refresh': {
+          const asset = await storage.getDetails(cloudinaryId);
+          if (!asset) {
+            return { cloudinaryId, kind, action, mongoId, status: 'skipped', message: 'Stored file no longer exists' };
+          }
+          await repository.findOneAndUpdate({ cloudinaryId }, { $set: this.buildStoredFieldsUpdate(asset) });
+          return { cloudinaryId, kind, action, mongoId, status: 'repaired', message: `Refreshed ${cloudinaryId} from Cloudinary` };
+        }
+      }
+    } catch (error) {
+      console.error(`Error repairing ${cloudinaryId}:`, error);
+      return {
+        cloudinaryId,
+        kind,
+        action,
+        mongoId,
+        status: 'failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  // Complete or roll back operations that were interrupted before they finished
+  async recoverPendingOperations(minAgeMs: number = DEFAULT_RECOVERY_MIN_AGE_MS): Promise<RecoveryReport> {
+    try {
+      const pending = await operationLog.getPending(minAgeMs);
+      const results: RecoveryResult[] = [];
+
+      for (const operation of pending) {
+        results.push(await this.recoverOperation(operation));
+      }
+
+      return {
+        examined: pending.length,
+        completed: results.filter(result => result.outcome === 'completed').length,
+        rolledBack: results.filter(result => result.outcome === 'rolled_back').length,
+        failed: results.filter(result => result.outcome === 'failed').length,
+        results,
+      };
+    } catch (error) {
+      console.error('Error recovering operations:', error);
+      throw new Error(`Failed to recover operations: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Get operations that have not finished yet
+  async getPendingOperations(): Promise<OperationLogEntry[]> {
+    try {
+      return await operationLog.getPending();
+    } catch (error) {
+      console.error('Error getting pending operations:', error);
+      throw new Error(`Failed to retrieve pending operations: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async recoverOperation(operation: OperationLogEntry): Promise<RecoveryResult> {
+    const repository = this.getRepository();
+    const storage = getStorageProvider();
+    const operationId = operation._id!.toString();
+
+    try {
+      if (operation.type === 'create') {
+        // The record was written, so the create actually succeeded
+        const image = await repository.findOne({ _id: operation.imageId });
+        if (image) {
+          await operationLog.finish(operation, 'completed');
+          return { operationId, type: operation.type, outcome: 'completed' };
+        }
+
+        // Otherwise remove the uploaded file so it does not become an orphan
+        await this.rollbackCreate(operation, operation.storageId);
+        return { operationId, type: operation.type, outcome: 'rolled_back' };
+      }
+
+      // Deletes are rolled forward: the file may already be gone, so finish removing the record
+      if (operation.storageId) {
+        await storage.delete(operation.storageId);
+      }
+      if (operation.snapshot) {
+        await this.deleteVersionFiles(operation.snapshot);
+      }
+      await this.removeImageRecord(operation.imageId);
+      await operationLog.finish(operation, 'completed');
+      return { operationId, type: operation.type, outcome: 'completed' };
+    } catch (error) {
+      console.error(`Error recovering operation ${operationId}:`, error);
+      await operationLog.recordFailure(operation, error);
+      return {
+        operationId,
+        type: operation.type,
+        outcome: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
   // Get images by tags
   async getImagesByTags(tags: string[]): Promise<GalleryImage[]> {
     try {
-      const collection = await this.getCollection();
-      const images = await collection
-        .find({ tags: { $in: tags } })
-        .sort({ createdAt: -1 })
-        .toArray();
+      const repository = this.getRepository();
+      const images = await repository.find({ tags: { $in: tags }, deletedAt: null }, { sort: { createdAt: -1 } });
       return images;
     } catch (error) {
       console.error('Error getting images by tags:', error);
@@ -401,11 +1426,15 @@ export class GalleryService {
     }
   }
 
-  // Get all unique tags
-  async getAllTags(): Promise<string[]> {
+  // Get the unique tags on the images a viewer may see
+  async getAllTags(viewer: PublicUser | null = null): Promise<string[]> {
     try {
-      const collection = await this.getCollection();
-      const tags = await collection.distinct('tags');
+      const repository = this.getRepository();
+      const viewerFilter = buildViewerFilter(viewer);
+      const tags = await repository.distinct(
+        'tags',
+        viewerFilter ? { deletedAt: null, $and: [viewerFilter] } : { deletedAt: null }
+      ) as string[];
       return tags.sort();
     } catch (error) {
       console.error('Error getting all tags:', error);
@@ -0,0 +1,358 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { ReadableStream as NodeReadableStream } from 'stream/web';
+import { ObjectId } from 'mongodb';
+import { createRepository, Repository } from '../repositories';
+import { galleryService } from './galleryService';
+import { uploadPolicyService } from './uploadPolicyService';
+import { getUploadTempDir } from './uploadSessionService';
+import { readZipEntries, ZipEntry } from '../zipArchive';
+import { ImportManifest, isManifestFile, parseManifest } from '../importManifest';
+import { buildCreateImageRequest, DuplicateImageError, getMaxResumableUploadBytes, titleFromFilename, validateImageFile } from '../uploadValidation';
+import { BatchUploadItem, DuplicatePolicy, ImportJob, ImportJobEntry, ImportJobEntryRecord } from '../../types/gallery';
+
+// A running job that has not advanced for this long was cut off, e.g. by a server restart
+const STALE_JOB_MS = 10 * 60 * 1000;
+
+// Largest page of entries attached to a job
+export const MAX_IMPORT_ENTRY_PAGE_SIZE = 500;
+
+// Image types recognised by file extension inside an archive
+const IMAGE_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+  '.avif': 'image/avif',
+  '.heic': 'image/heic',
+  '.heif': 'image/heif',
+  '.svg': 'image/svg+xml',
+};
+
+// Outcome of starting an import; an unreadable archive is reported before any job is created
+export type StartImportResult =
+  | { status: 'ok'; job: ImportJob }
+  | { status: 'invalid_archive'; error: string };
+
+// Archives are kept next to unfinished uploads while their job runs, named after the job
+function getArchivePath(jobId: ObjectId): string {
+  return path.join(getUploadTempDir(), `import-${jobId.toHexString()}.zip`);
+}
+
+// Folders and files added by archivers and operating systems rather than by the user
+function isSystemEntry(name: string): boolean {
+  return name.split('/').some(part => part.startsWith('.') || part === '__MACOSX');
+}
+
+// Pair each file with its manifest fields; manifest paths may be relative to the archive root or
+// bare file names. Also returns the manifest paths that match no file.
+function matchManifest(files: ZipEntry[], manifest: ImportManifest): { items: BatchUploadItem[]; missing: string[] } {
+  const unmatched = new Set(manifest.keys());
+
+  const items = files.map(file => {
+    const basename = path.posix.basename(file.name);
+    const key = manifest.has(file.name) ? file.name : manifest.has(basename) ? basename : undefined;
+    if (!key) {
+      return {};
+    }
+    unmatched.delete(key);
+    return manifest.get(key)!;
+  });
+
+  return { items, missing: [...unmatched] };
+}
+
+// ZIP archives imported in the background, one entry at a time, with a report of every entry
+export class ImportJobService {
+  private repository: Repository<ImportJob> | null = null;
+  private entryRepository: Repository<ImportJobEntryRecord> | null = null;
+  private cleanupScheduled = false;
+
+  private getRepository(): Repository<ImportJob> {
+    if (!this.repository) {
+      this.repository = createRepository<ImportJob>('importJobs', {
+        indexes: [{ key: { createdBy: 1, createdAt: -1 } }],
+      });
+    }
+    this.scheduleArchiveCleanup();
+    return this.repository;
+  }
+
+  private getEntryRepository(): Repository<ImportJobEntryRecord> {
+    if (!this.entryRepository) {
+      this.entryRepository = createRepository<ImportJobEntryRecord>('importJobEntries', {
+        indexes: [{ key: { jobId: 1, position: 1 } }],
+      });
+    }
+    return this.entryRepository;
+  }
+
+  // Remove archives left behind by jobs a previous server cut off, the first time the service is used
+  private scheduleArchiveCleanup(): void {
+    if (this.cleanupScheduled) {
+      return;
+    }
+    this.cleanupScheduled = true;
+
+    this.removeAbandonedArchives()
+      .catch(error => console.error('Error removing abandoned import archives:', error));
+  }
+
+  // Delete every stored archive older than a stale job whose job has finished, was interrupted or no longer exists
+  private async removeAbandonedArchives(): Promise<void> {
+    let names: string[];
+    try {
+      names = await fs.readdir(getUploadTempDir());
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    for (const name of names) {
+      const match = /^import-([0-9a-f]{24})\.zip$/.exec(name);
+      if (!match) {
+        continue;
+      }
+
+      // An archive written moments ago may belong to a job that is still being recorded
+      const archivePath = path.join(getUploadTempDir(), name);
+      const { mtimeMs } = await fs.stat(archivePath);
+      if (Date.now() - mtimeMs < STALE_JOB_MS) {
+        continue;
+      }
+
+      const job = await this.getRepository().findOne({ _id: new ObjectId(match[1]) });
+      const status = job ? this.withInterruption(job).status : null;
+      if (status !== 'queued' && status !== 'running') {
+        await fs.rm(archivePath, { force: true });
+      }
+    }
+  }
+
+  // Save the archive to disk, read its manifest, record a queued job, then run it without waiting
+  // for it. Fields from the manifest win over the shared defaults.
+  async startZipImport(
+    archive: Blob,
+    filename: string,
+    defaults: BatchUploadItem,
+    createdBy: string,
+    options: { stripGps?: boolean; onDuplicate?: DuplicatePolicy } = {}
+  ): Promise<StartImportResult> {
+    const jobId = new ObjectId();
+    const archivePath = getArchivePath(jobId);
+    let started = false;
+
+    try {
+      await fs.mkdir(getUploadTempDir(), { recursive: true });
+      await fs.writeFile(archivePath, Readable.fromWeb(archive.stream() as NodeReadableStream<Uint8Array>));
+
+      let entries: ZipEntry[];
+      let manifestEntry: ZipEntry | undefined;
+      let manifest: ImportManifest = new Map();
+
+      try {
+        entries = (await readZipEntries(archivePath)).filter(entry => !entry.isDirectory && !isSystemEntry(entry.name));
+
+        // The shallowest manifest applies, so one inside a subfolder does not replace the top-level one
+        manifestEntry = entries
+          .filter(entry => isManifestFile(entry.name))
+          .sort((a, b) => a.name.split('/').length - b.name.split('/').length)[0];
+        if (manifestEntry) {
+          manifest = parseManifest(manifestEntry.name, await manifestEntry.read(getMaxResumableUploadBytes()));
+        }
+      } catch (error) {
+        return { status: 'invalid_archive', error: error instanceof Error ? error.message : 'The archive could not be read' };
+      }
+
+      const files = entries.filter(entry => entry !== manifestEntry);
+      const { items, missing } = matchManifest(files, manifest);
+
+      const now = new Date();
+      const job = await this.getRepository().insertOne({
+        _id: jobId,
+        filename,
+        status: 'queued',
+        ...(manifestEntry ? { manifest: manifestEntry.name } : {}),
+        total: files.length + missing.length,
+        imported: 0,
+        skipped: 0,
+        failed: 0,
+        ...(options.stripGps ? { stripGps: true } : {}),
+        onDuplicate: options.onDuplicate || 'reject',
+        createdBy,
+        createdAt: now,
+        updatedAt: now,
+      });
+
+      this.runJob(job, files, items, missing, defaults)
+        .catch(error => console.error('Error running import job:', error))
+        .finally(() => fs.rm(archivePath, { force: true }));
+      started = true;
+
+      return { status: 'ok', job };
+    } catch (error) {
+      console.error('Error starting import job:', error);
+      throw new Error(`Failed to start import: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      if (!started) {
+        await fs.rm(archivePath, { force: true });
+      }
+    }
+  }
+
+  // Get a job by ID with a page of its entries, optionally only those with the given outcomes
+  async getJob(
+    id: string,
+    options: { page?: number; limit?: number; outcomes?: ImportJobEntry['outcome'][] } = {}
+  ): Promise<ImportJob | null> {
+    try {
+      const { page = 1, limit = 100, outcomes } = options;
+
+      if (!ObjectId.isValid(id)) {
+        throw new Error('Invalid import job ID format');
+      }
+
+      const job = await this.getRepository().findOne({ _id: new ObjectId(id) });
+      if (!job) {
+        return null;
+      }
+
+      const entryRepository = this.getEntryRepository();
+      const filter = { jobId: job._id!, ...(outcomes ? { outcome: { $in: outcomes } } : {}) };
+      const records = await entryRepository.find(filter, { sort: { position: 1 }, skip: (page - 1) * limit, limit });
+      const total = await entryRepository.countDocuments(filter);
+
+      return {
+        ...this.withInterruption(job),
+        entries: records.map(({ path: entryPath, outcome, imageId, title, reason }) => ({
+          path: entryPath,
+          outcome,
+          ...(imageId ? { imageId } : {}),
+          ...(title !== undefined ? { title } : {}),
+          ...(reason !== undefined ? { reason } : {}),
+        })),
+        entryPages: Math.ceil(total / limit),
+      };
+    } catch (error) {
+      console.error('Error getting import job:', error);
+      throw new Error(`Failed to retrieve import job: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Get a user's most recent jobs, newest first
+  async getJobsForUser(username: string, limit: number = 20): Promise<ImportJob[]> {
+    try {
+      const jobs = await this.getRepository().find({ createdBy: username }, { sort: { createdAt: -1 }, limit });
+      return jobs.map(job => this.withInterruption(job));
+    } catch (error) {
+      console.error('Error getting import jobs:', error);
+      throw new Error(`Failed to retrieve import jobs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Report a job that stopped advancing as failed; its finished entries are still listed
+  private withInterruption(job: ImportJob): ImportJob {
+    const unfinished = job.status === 'queued' || job.status === 'running';
+    if (unfinished && Date.now() - new Date(job.updatedAt).getTime() > STALE_JOB_MS) {
+      return { ...job, status: 'failed', error: 'The import was interrupted before it finished' };
+    }
+    return job;
+  }
+
+  // Import each file in turn, saving its outcome as soon as it is known
+  private async runJob(job: ImportJob, files: ZipEntry[], items: BatchUploadItem[], missing: string[], defaults: BatchUploadItem): Promise<void> {
+    const repository = this.getRepository();
+    await repository.findOneAndUpdate({ _id: job._id }, { $set: { status: 'running', updatedAt: new Date() } });
+
+    try {
+      for (const [index, file] of files.entries()) {
+        await this.recordEntry(job, index, await this.importEntry(file, items[index], defaults, job));
+      }
+
+      for (const [index, name] of missing.entries()) {
+        await this.recordEntry(job, files.length + index, { path: name, outcome: 'skipped', reason: 'Listed in the manifest but not found in the archive' });
+      }
+
+      await repository.findOneAndUpdate(
+        { _id: job._id },
+        { $set: { status: 'completed', updatedAt: new Date(), finishedAt: new Date() } }
+      );
+    } catch (error) {
+      console.error('Error running import job:', error);
+      await repository.findOneAndUpdate(
+        { _id: job._id },
+        {
+          $set: {
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Unknown error',
+            updatedAt: new Date(),
+            finishedAt: new Date(),
+          },
+        }
+      );
+    }
+  }
+
+  // Create an image from one archive file, or say why it was skipped or failed
+  private async importEntry(entry: ZipEntry, item: BatchUploadItem, defaults: BatchUploadItem, job: ImportJob): Promise<ImportJobEntry> {
+    const mimeType = IMAGE_TYPES[path.posix.extname(entry.name).toLowerCase()];
+    if (!mimeType) {
+      return { path: entry.name, outcome: 'skipped', reason: 'Not a supported image file' };
+    }
+    if (entry.encrypted) {
+      return { path: entry.name, outcome: 'failed', reason: 'Encrypted entries cannot be imported' };
+    }
+
+    const policy = await uploadPolicyService.getPolicyForUser(job.createdBy);
+    const invalidFile = validateImageFile({ type: mimeType, size: entry.uncompressedSize }, policy.maxBytes, policy.allowedFormats);
+    if (invalidFile) {
+      return { path: entry.name, outcome: 'failed', reason: invalidFile.error };
+    }
+
+    try {
+      const imageData = buildCreateImageRequest({
+        title: item.title || defaults.title?.trim() || titleFromFilename(path.posix.basename(entry.name)),
+        description: item.description ?? defaults.description,
+        tags: item.tags ?? defaults.tags,
+        isPublic: item.isPublic ?? defaults.isPublic,
+      });
+
+      const { image, linked } = await galleryService.createOrLinkImage(
+        { ...imageData, originalFilename: path.posix.basename(entry.name), mimeType, stripGps: job.stripGps },
+        await entry.read(policy.maxBytes),
+        job.createdBy,
+        job.onDuplicate || 'reject'
+      );
+      return linked
+        ? { path: entry.name, outcome: 'skipped', imageId: image._id, title: image.title, reason: 'Already in the gallery' }
+        : { path: entry.name, outcome: 'imported', imageId: image._id, title: image.title };
+    } catch (error) {
+      return {
+        path: entry.name,
+        outcome: 'failed',
+        reason: error instanceof Error ? error.message : 'Unknown error',
+        ...(error instanceof DuplicateImageError ? { imageId: error.existing._id } : {}),
+      };
+    }
+  }
+
+  // Store an entry's outcome and count it in the job
+  private async recordEntry(job: ImportJob, position: number, result: ImportJobEntry): Promise<void> {
+    await this.getEntryRepository().insertOne({ ...result, jobId: job._id!, position });
+    await this.getRepository().findOneAndUpdate(
+      { _id: job._id },
+      {
+        $inc: { [result.outcome]: 1 },
+        $set: { updatedAt: new Date() },
+      }
+    );
+  }
+}
+
+export const importJobService = new ImportJobService();
@@ -0,0 +1,115 @@
+import { ObjectId } from 'mongodb';
+import { createRepository, Repository } from '../repositories';
+import { GalleryImage, OperationLogEntry, OperationType } from '../../types/gallery';
+
+// Persisted log of multi-step operations that touch both storage and the database.
+// Each entry is written before the first side effect and finished after the last one,
+// so an entry left pending means the operation was interrupted and needs recovery.
+export class OperationLog {
+  private repository: Repository<OperationLogEntry> | null = null;
+
+  private getRepository(): Repository<OperationLogEntry> {
+    if (!this.repository) {
+      this.repository = createRepository<OperationLogEntry>('operations', {
+        indexes: [{ key: { status: 1, updatedAt: 1 } }, { key: { uploadId: 1 }, sparse: true }],
+      });
+    }
+    return this.repository;
+  }
+
+  // Record the start of an operation
+  async begin(
+    type: OperationType,
+    imageId: ObjectId,
+    details: { storageId?: string; snapshot?: GalleryImage; uploadId?: string; requestedBy?: string } = {}
+  ): Promise<OperationLogEntry> {
+    const now = new Date();
+    return this.getRepository().insertOne({
+      type,
+      status: 'pending',
+      step: 'started',
+      imageId,
+      ...details,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  // Record progress of a pending operation
+  async advance(entry: OperationLogEntry, step: OperationLogEntry['step'], details: { storageId?: string } = {}): Promise<void> {
+    await this.getRepository().findOneAndUpdate(
+      { _id: entry._id },
+      { $set: { step, ...(details.storageId ? { storageId: details.storageId } : {}), updatedAt: new Date() } }
+    );
+  }
+
+  // Mark an operation as finished, either rolled forward or compensated
+  async finish(entry: OperationLogEntry, status: 'completed' | 'rolled_back'): Promise<void> {
+    const now = new Date();
+    await this.getRepository().findOneAndUpdate(
+      { _id: entry._id },
+      { $set: { status, updatedAt: now, finishedAt: now } }
+    );
+  }
+
+  // Record a failed recovery attempt, leaving the entry pending
+  async recordFailure(entry: OperationLogEntry, error: unknown): Promise<void> {
+    await this.getRepository().findOneAndUpdate(
+      { _id: entry._id },
+      {
+        $set: {
+          lastError: error instanceof Error ? error.message : String(error),
+          updatedAt: new Date(),
+        },
+        $inc: { attempts: 1 },
+      }
+    );
+  }
+
+  // Mark a client's upload as cancelled and return its create operation as it now stands. When the
+  // upload has not reached the server yet, a finished placeholder entry records the cancellation so
+  // the create is refused if it arrives later.
+  async requestCancel(uploadId: string, requestedBy: string): Promise<OperationLogEntry> {
+    const now = new Date();
+    const entry = await this.getRepository().findOneAndUpdate(
+      { type: 'create', uploadId, requestedBy },
+      { $set: { cancelRequested: true, updatedAt: now } }
+    );
+    if (entry) {
+      return entry;
+    }
+
+    return this.getRepository().insertOne({
+      type: 'create',
+      status: 'rolled_back',
+      step: 'started',
+      imageId: new ObjectId(),
+      uploadId,
+      requestedBy,
+      cancelRequested: true,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+      finishedAt: now,
+    });
+  }
+
+  // Whether the client that started an upload has cancelled it
+  async isUploadCancelled(uploadId: string, requestedBy?: string): Promise<boolean> {
+    return !!(await this.getRepository().findOne({ uploadId, requestedBy, cancelRequested: true }));
+  }
+
+  // Get pending operations that have not been touched for at least minAgeMs
+  async getPending(minAgeMs: number = 0): Promise<OperationLogEntry[]> {
+    return this.getRepository().find(
+      {
+        status: 'pending',
+        updatedAt: { $lte: new Date(Date.now() - minAgeMs) },
+      },
+      { sort: { createdAt: 1 } }
+    );
+  }
+}
+
+export const operationLog = new OperationLog();
@@ -0,0 +1,209 @@
+import { ObjectId } from 'mongodb';
+import { createRepository, Repository } from '../repositories';
+import { galleryService } from './galleryService';
+import { ImageFilterError, parseImageFilter } from '../imageFilter';
+import { InvalidCursorError } from '../pageCursor';
+import { CreateSavedSearchRequest, GalleryImage, PaginatedResponse, PaginationQuery, PublicUser, SavedSearch, SavedSearchQuery, SavedSearchSummary, UpdateSavedSearchRequest } from '../../types/gallery';
+
+const SORT_BY_VALUES: NonNullable<SavedSearchQuery['sortBy']>[] = ['createdAt', 'updatedAt', 'title', 'capturedAt'];
+const TEXT_FIELDS = ['search', 'tags', 'filter'] as const;
+
+// Check the query of a saved search; returns the error to report, or the cleaned-up query
+export function parseSavedSearchQuery(value: unknown): SavedSearchQuery | string {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'query must be an object of /api/images parameters';
+  }
+  const input = value as Record<string, unknown>;
+  const query: SavedSearchQuery = {};
+
+  for (const field of TEXT_FIELDS) {
+    const text = input[field];
+    if (text === undefined || text === null) {
+      continue;
+    }
+    if (typeof text !== 'string') {
+      return `${field} must be a string`;
+    }
+    if (text.trim()) {
+      query[field] = text.trim();
+    }
+  }
+
+  if (input.isPublic !== undefined && input.isPublic !== null) {
+    if (typeof input.isPublic !== 'boolean') {
+      return 'isPublic must be true or false';
+    }
+    query.isPublic = input.isPublic;
+  }
+
+  if (input.sortBy !== undefined) {
+    if (!SORT_BY_VALUES.includes(input.sortBy as NonNullable<SavedSearchQuery['sortBy']>)) {
+      return `sortBy must be one of ${SORT_BY_VALUES.join(', ')}`;
+    }
+    query.sortBy = input.sortBy as SavedSearchQuery['sortBy'];
+  }
+
+  if (input.sortOrder !== undefined) {
+    if (input.sortOrder !== 'asc' && input.sortOrder !== 'desc') {
+      return 'sortOrder must be "asc" or "desc"';
+    }
+    query.sortOrder = input.sortOrder;
+  }
+
+  // Reject a filter now rather than every time the search is opened
+  if (query.filter) {
+    try {
+      parseImageFilter(query.filter);
+    } catch (error) {
+      if (error instanceof ImageFilterError) {
+        return error.message;
+      }
+      throw error;
+    }
+  }
+
+  return query;
+}
+
+// Whether a user may open a saved search: shared ones are open to everyone signed in
+export function canViewSavedSearch(savedSearch: SavedSearch, user: PublicUser): boolean {
+  return savedSearch.shared || savedSearch.createdBy === user.username || user.role === 'admin';
+}
+
+export class SavedSearchService {
+  private repository: Repository<SavedSearch> | null = null;
+
+  private getRepository(): Repository<SavedSearch> {
+    if (!this.repository) {
+      this.repository = createRepository<SavedSearch>('saved_searches', {
+        indexes: [{ key: { createdBy: 1 } }, { key: { shared: 1 } }],
+      });
+    }
+    return this.repository;
+  }
+
+  // Count the images a saved search matches right now that the viewer may see
+  private async countMatches(savedSearch: SavedSearch, viewer: PublicUser | null): Promise<number> {
+    const { search, ...query } = savedSearch.query;
+    return galleryService.countImages(query, search, viewer);
+  }
+
+  // Get the searches shared with the team and the user's own, by name, with their current counts
+  async getSavedSearches(user: PublicUser): Promise<SavedSearchSummary[]> {
+    try {
+      const savedSearches = await this.getRepository().find(
+        { $or: [{ shared: true }, { createdBy: user.username }] },
+        { sort: { name: 1 } }
+      );
+
+      const summaries: SavedSearchSummary[] = [];
+      for (const savedSearch of savedSearches) {
+        summaries.push({ ...savedSearch, imageCount: await this.countMatches(savedSearch, user) });
+      }
+      return summaries;
+    } catch (error) {
+      console.error('Error getting saved searches:', error);
+      throw new Error(`Failed to retrieve saved searches: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Get a single saved search with its current count of images the viewer may see
+  async getSavedSearchById(id: string, viewer: PublicUser | null = null): Promise<SavedSearchSummary | null> {
+    try {
+      if (!ObjectId.isValid(id)) {
+        throw new Error('Invalid saved search ID format');
+      }
+
+      const savedSearch = await this.getRepository().findOne({ _id: new ObjectId(id) });
+      if (!savedSearch) {
+        return null;
+      }
+
+      return { ...savedSearch, imageCount: await this.countMatches(savedSearch, viewer) };
+    } catch (error) {
+      console.error('Error getting saved search by ID:', error);
+      throw new Error(`Failed to retrieve saved search: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Save a new search owned by the given username
+  async createSavedSearch(searchData: CreateSavedSearchRequest, createdBy: string): Promise<SavedSearch> {
+    try {
+      return await this.getRepository().insertOne({
+        name: searchData.name,
+        description: searchData.description || '',
+        query: searchData.query,
+        shared: searchData.shared ?? false,
+        createdBy,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+    } catch (error) {
+      console.error('Error creating saved search:', error);
+      throw new Error(`Failed to create saved search: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Rename, share or change the query of a saved search
+  async updateSavedSearch(id: string, updateData: UpdateSavedSearchRequest): Promise<SavedSearch | null> {
+    try {
+      if (!ObjectId.isValid(id)) {
+        throw new Error('Invalid saved search ID format');
+      }
+
+      const updateObject: Partial<SavedSearch> = {
+        updatedAt: new Date(),
+      };
+      if (updateData.name !== undefined) {
+        updateObject.name = updateData.name;
+      }
+      if (updateData.description !== undefined) {
+        updateObject.description = updateData.description;
+      }
+      if (updateData.query !== undefined) {
+        updateObject.query = updateData.query;
+      }
+      if (updateData.shared !== undefined) {
+        updateObject.shared = updateData.shared;
+      }
+
+      return await this.getRepository().findOneAndUpdate({ _id: new ObjectId(id) }, { $set: updateObject });
+    } catch (error) {
+      console.error('Error updating saved search:', error);
+      throw new Error(`Failed to update saved search: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Delete a saved search; the images it matched are not affected
+  async deleteSavedSearch(id: string): Promise<boolean> {
+    try {
+      if (!ObjectId.isValid(id)) {
+        throw new Error('Invalid saved search ID format');
+      }
+
+      return await this.getRepository().deleteOne({ _id: new ObjectId(id) });
+    } catch (error) {
+      console.error('Error deleting saved search:', error);
+      throw new Error(`Failed to delete saved search: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Run a saved search as a smart album for a viewer, paged like /api/images
+  async getImages(savedSearch: SavedSearch, pagination: PaginationQuery = {}, viewer: PublicUser | null = null): Promise<PaginatedResponse<GalleryImage>> {
+    try {
+      const { search, ...query } = savedSearch.query;
+      const fullQuery: PaginationQuery = { ...pagination, ...query };
+      return search
+        ? await galleryService.searchImages(search, fullQuery, viewer)
+        : await galleryService.getImages(fullQuery, viewer);
+    } catch (error) {
+      if (error instanceof InvalidCursorError || error instanceof ImageFilterError) {
+        throw error;
+      }
+      console.error('Error getting saved search images:', error);
+      throw new Error(`Failed to retrieve saved search images: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export const savedSearchService = new SavedSearchService();
@@ -0,0 +1,281 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { ObjectId } from 'mongodb';
+import { createRepository, getImageRepository, Repository } from '../repositories';
+import { hashPassword, verifyPassword } from '../auth/passwords';
+import { CreateShareLinkRequest, GalleryImage, ShareLink, ShareLinkStatus, ShareLinkSummary, SharedImage } from '../../types/gallery';
+
+type ShareDeniedStatus = 'not_found' | 'expired' | 'revoked' | 'password_required' | 'invalid_password';
+
+// Outcome of opening a share link; anything but 'ok' carries no image
+export type ShareAccessResult =
+  | { status: 'ok'; image: SharedImage }
+  | { status: ShareDeniedStatus };
+
+// Outcome of fetching the file behind a share link
+export type ShareFileResult =
+  | { status: 'ok'; image: GalleryImage }
+  | { status: ShareDeniedStatus };
+
+// How long the file URL handed out for a password protected link keeps working
+const FILE_ACCESS_TTL_MS = 10 * 60 * 1000;
+
+let generatedSecret: string | null = null;
+
+// Key for signing share tokens, from SHARE_LINK_SECRET. Without it a per-process key is used,
+// so links stop working when the server restarts.
+function getShareSecret(): string {
+  if (process.env.SHARE_LINK_SECRET) {
+    return process.env.SHARE_LINK_SECRET;
+  }
+  if (!generatedSecret) {
+    console.warn('SHARE_LINK_SECRET is not set; share links will not survive a restart');
+    generatedSecret = randomBytes(32).toString('hex');
+  }
+  return generatedSecret;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getShareSecret()).update(payload).digest('base64url');
+}
+
+// Tokens are "<link ID>.<signature>", so forged or mistyped tokens are rejected before any lookup
+function createToken(linkId: ObjectId): string {
+  const payload = Buffer.from(linkId.toHexString(), 'hex').toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+// Get the link ID from a token, or null when the signature does not match
+function parseToken(token: string): ObjectId | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  const id = Buffer.from(payload, 'base64url').toString('hex');
+  return ObjectId.isValid(id) && id.length === 24 ? new ObjectId(id) : null;
+}
+
+// Proof that the password of a link was given, for loading its file: "<expiry ms>.<signature>"
+function createFileAccess(linkId: ObjectId): string {
+  const expires = Date.now() + FILE_ACCESS_TTL_MS;
+  return `${expires}.${sign(`file.${linkId.toHexString()}.${expires}`)}`;
+}
+
+function isValidFileAccess(linkId: ObjectId, access: string): boolean {
+  const [expires, signature] = access.split('.');
+  if (!expires || !signature || !/^\d+$/.test(expires) || Number(expires) <= Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(`file.${linkId.toHexString()}.${expires}`));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function getStatus(link: ShareLink, now: Date = new Date()): ShareLinkStatus {
+  if (link.revokedAt) {
+    return 'revoked';
+  }
+  if (link.expiresAt && link.expiresAt <= now) {
+    return 'expired';
+  }
+  return 'active';
+}
+
+function toSummary(link: ShareLink): ShareLinkSummary {
+  return {
+    id: link._id!.toString(),
+    imageId: link.imageId.toString(),
+    token: createToken(link._id!),
+    status: getStatus(link),
+    hasPassword: !!link.passwordHash,
+    expiresAt: link.expiresAt,
+    createdBy: link.createdBy,
+    createdAt: link.createdAt,
+    revokedAt: link.revokedAt,
+    viewCount: link.viewCount,
+    lastViewedAt: link.lastViewedAt,
+  };
+}
+
+// Signed links that show a single image read-only to people without an account
+export class ShareService {
+  private repository: Repository<ShareLink> | null = null;
+
+  private getRepository(): Repository<ShareLink> {
+    if (!this.repository) {
+      this.repository = createRepository<ShareLink>('shareLinks', {
+        indexes: [{ key: { imageId: 1, createdAt: -1 } }],
+      });
+    }
+    return this.repository;
+  }
+
+  // Create a share link for an image
+  async createLink(imageId: ObjectId, options: CreateShareLinkRequest, createdBy?: string): Promise<ShareLinkSummary> {
+    try {
+      const now = new Date();
+      const link = await this.getRepository().insertOne({
+        imageId,
+        expiresAt: options.expiresInHours ? new Date(now.getTime() + options.expiresInHours * 60 * 60 * 1000) : null,
+        passwordHash: options.password ? await hashPassword(options.password) : null,
+        ...(createdBy ? { createdBy } : {}),
+        createdAt: now,
+        revokedAt: null,
+        viewCount: 0,
+      });
+
+      return toSummary(link);
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      throw new Error(`Failed to create share link: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Get every link created for an image, including expired and revoked ones, newest first
+  async getLinksForImage(imageId: ObjectId): Promise<ShareLinkSummary[]> {
+    try {
+      const links = await this.getRepository().find({ imageId }, { sort: { createdAt: -1 } });
+      return links.map(toSummary);
+    } catch (error) {
+      console.error('Error getting share links:', error);
+      throw new Error(`Failed to retrieve share links: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Revoke a link of an image; revoked links stay listed for auditing
+  async revokeLink(imageId: ObjectId, linkId: string): Promise<ShareLinkSummary | null> {
+    try {
+      if (!ObjectId.isValid(linkId)) {
+        throw new Error('Invalid share link ID format');
+      }
+
+      const repository = this.getRepository();
+      const link = await repository.findOne({ _id: new ObjectId(linkId), imageId });
+      if (!link) {
+        return null;
+      }
+      if (link.revokedAt) {
+        return toSummary(link);
+      }
+
+      const revokedLink = await repository.findOneAndUpdate(
+        { _id: link._id },
+        { $set: { revokedAt: new Date() } }
+      );
+      return revokedLink ? toSummary(revokedLink) : null;
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      throw new Error(`Failed to revoke share link: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Find the link behind a token and its image, as long as the link is still active
+  private async findActiveLink(token: string): Promise<{ link: ShareLink; image: GalleryImage } | { status: ShareDeniedStatus }> {
+    const linkId = parseToken(token);
+    if (!linkId) {
+      return { status: 'not_found' };
+    }
+
+    const link = await this.getRepository().findOne({ _id: linkId });
+    if (!link) {
+      return { status: 'not_found' };
+    }
+
+    const status = getStatus(link);
+    if (status !== 'active') {
+      return { status };
+    }
+
+    const image = await getImageRepository().findOne({ _id: link.imageId, deletedAt: null });
+    if (!image) {
+      return { status: 'not_found' };
+    }
+
+    return { link, image };
+  }
+
+  // Open a share link, checking its signature, state and password, and count the view
+  async openLink(token: string, password?: string): Promise<ShareAccessResult> {
+    try {
+      const found = await this.findActiveLink(token);
+      if ('status' in found) {
+        return found;
+      }
+      const { link, image } = found;
+
+      if (link.passwordHash) {
+        if (!password) {
+          return { status: 'password_required' };
+        }
+        if (!(await verifyPassword(password, link.passwordHash))) {
+          return { status: 'invalid_password' };
+        }
+      }
+
+      await this.getRepository().findOneAndUpdate(
+        { _id: link._id },
+        { $inc: { viewCount: 1 }, $set: { lastViewedAt: new Date() } }
+      );
+
+      // The file is served by a route that checks the link again on every request; for a protected
+      // link the URL carries short-lived proof that the password was given
+      const fileUrl = `/api/share/${encodeURIComponent(token)}/file` +
+        (link.passwordHash ? `?access=${encodeURIComponent(createFileAccess(link._id!))}` : '');
+
+      return {
+        status: 'ok',
+        image: {
+          title: image.title,
+          description: image.description,
+          fileUrl,
+          format: image.format,
+          width: image.width,
+          height: image.height,
+          bytes: image.bytes,
+          tags: image.tags,
+          createdAt: image.createdAt,
+          uploadedBy: image.uploadedBy,
+          expiresAt: link.expiresAt,
+        },
+      };
+    } catch (error) {
+      console.error('Error opening share link:', error);
+      throw new Error(`Failed to open share link: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Check a share link again before serving its file: it must still be active, and a protected link
+  // needs the access proof handed out when its password was given
+  async openLinkFile(token: string, access?: string): Promise<ShareFileResult> {
+    try {
+      const found = await this.findActiveLink(token);
+      if ('status' in found) {
+        return found;
+      }
+      const { link, image } = found;
+
+      if (link.passwordHash && !(access && isValidFileAccess(link._id!, access))) {
+        return { status: access ? 'invalid_password' : 'password_required' };
+      }
+
+      return { status: 'ok', image };
+    } catch (error) {
+      console.error('Error opening shared file:', error);
+      throw new Error(`Failed to open shared file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Drop the links of a permanently deleted image
+  async deleteLinksForImage(imageId: ObjectId): Promise<void> {
+    await this.getRepository().deleteMany({ imageId });
+  }
+}
+
+export const shareService = new ShareService();
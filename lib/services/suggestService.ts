@@ -0,0 +1,181 @@
+import { getImageRepository, ImageRepository } from '../repositories';
+import { SuggestionMatch, SuggestResults, TagSuggestion, TitleSuggestion } from '../../types/gallery';
+
+// Tags and titles are read from the database at most this often; suggestions are answered from memory
+const SUGGEST_INDEX_TTL_MS = 15 * 1000;
+
+export const MAX_SUGGEST_QUERY_LENGTH = 100;
+export const MAX_SUGGEST_LIMIT = 20;
+
+export type SuggestType = 'all' | 'tags' | 'titles';
+
+export interface SuggestOptions {
+  type?: SuggestType;
+  limit?: number;
+}
+
+interface IndexEntry {
+  value: string;
+  key: string;
+  words: string[];
+  count: number;
+}
+
+interface SuggestIndex {
+  tags: IndexEntry[];
+  titles: IndexEntry[];
+  loadedAt: number;
+}
+
+const MATCH_RANK: Record<SuggestionMatch, number> = { exact: 0, prefix: 1, word: 2, fuzzy: 3 };
+
+// Compare case-insensitively and ignore stray spaces, so "Beach " matches "beach"
+function normalize(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function toEntry(value: string, count = 0): IndexEntry {
+  const key = normalize(value);
+  return { value, key, words: key.split(/[\s\-_,.]+/).filter(word => word), count };
+}
+
+// Typos allowed for a query of this length; short queries must match exactly
+function allowedTypos(query: string): number {
+  if (query.length < 3) return 0;
+  return query.length < 6 ? 1 : 2;
+}
+
+// Edit distance counting swapped neighbours as one edit, or max + 1 once it is over max
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforePrevious[j - 2] + 1);
+      }
+      current[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// How an entry matches the query, if at all. Fuzzy matches compare against the whole value and
+// against its start, so a typo is forgiven while the rest is still being typed
+function matchEntry(entry: IndexEntry, query: string): SuggestionMatch | null {
+  if (entry.key === query) return 'exact';
+  if (entry.key.startsWith(query)) return 'prefix';
+  if (entry.words.some(word => word.startsWith(query))) return 'word';
+
+  const typos = allowedTypos(query);
+  if (typos === 0) return null;
+
+  const candidates = [entry.key, entry.key.slice(0, query.length), ...entry.words.map(word => word.slice(0, query.length))];
+  return candidates.some(candidate => editDistance(query, candidate, typos) <= typos) ? 'fuzzy' : null;
+}
+
+// The best matching entries: closest match first, then the most used, then the shortest
+function findMatches(entries: IndexEntry[], query: string, limit: number): [IndexEntry, SuggestionMatch][] {
+  const matches: [IndexEntry, SuggestionMatch][] = [];
+  for (const entry of entries) {
+    const match = matchEntry(entry, query);
+    if (match) {
+      matches.push([entry, match]);
+    }
+  }
+
+  return matches
+    .sort(([a, aMatch], [b, bMatch]) =>
+      MATCH_RANK[aMatch] - MATCH_RANK[bMatch] ||
+      b.count - a.count ||
+      a.key.length - b.key.length ||
+      (a.key < b.key ? -1 : a.key > b.key ? 1 : 0)
+    )
+    .slice(0, limit);
+}
+
+// Autocomplete for tags and titles over the live public images, answered from a short-lived in-memory index
+class SuggestService {
+  private repository: ImageRepository | null = null;
+  private index: SuggestIndex | null = null;
+  private loading: Promise<SuggestIndex> | null = null;
+
+  private getRepository(): ImageRepository {
+    if (!this.repository) {
+      this.repository = getImageRepository();
+    }
+    return this.repository;
+  }
+
+  // Get the index, reloading it when it is older than the TTL; concurrent requests share one load.
+  // Only public images are indexed, since the index is shared by every caller
+  private async getIndex(): Promise<SuggestIndex> {
+    if (this.index && Date.now() - this.index.loadedAt < SUGGEST_INDEX_TTL_MS) {
+      return this.index;
+    }
+
+    if (!this.loading) {
+      this.loading = (async () => {
+        const repository = this.getRepository();
+        const [tagCounts, titles] = await Promise.all([
+          repository.getTagCounts({ deletedAt: null, isPublic: true }),
+          repository.distinct('title', { deletedAt: null, isPublic: true }),
+        ]);
+
+        return {
+          tags: tagCounts.map(tag => toEntry(tag.value, tag.count)),
+          titles: titles.filter((title): title is string => typeof title === 'string' && title.trim() !== '').map(title => toEntry(title)),
+          loadedAt: Date.now(),
+        };
+      })().finally(() => {
+        this.loading = null;
+      });
+    }
+
+    this.index = await this.loading;
+    return this.index;
+  }
+
+  // Suggest tags and titles for what has been typed so far; with nothing typed, the most used tags
+  async suggest(text: string, options: SuggestOptions = {}): Promise<SuggestResults> {
+    try {
+      const { type = 'all', limit = 8 } = options;
+      const query = normalize(text);
+      const index = await this.getIndex();
+
+      let tags: TagSuggestion[] = [];
+      let titles: TitleSuggestion[] = [];
+
+      if (type !== 'titles') {
+        tags = query
+          ? findMatches(index.tags, query, limit).map(([entry, match]) => ({ value: entry.value, count: entry.count, match }))
+          : index.tags.slice(0, limit).map(entry => ({ value: entry.value, count: entry.count, match: 'prefix' as const }));
+      }
+
+      if (type !== 'tags' && query) {
+        titles = findMatches(index.titles, query, limit).map(([entry, match]) => ({ value: entry.value, match }));
+      }
+
+      return { query: text, tags, titles };
+    } catch (error) {
+      console.error('Error getting suggestions:', error);
+      throw new Error(`Failed to get suggestions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export const suggestService = new SuggestService();
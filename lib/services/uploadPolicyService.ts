@@ -0,0 +1,100 @@
+import { createRepository, Repository } from '../repositories';
+import { authService } from './authService';
+import { getAllowedImageTypes, getMaxResumableUploadBytes, toImageFormat } from '../uploadValidation';
+import { UpdateUploadPolicyRequest, UploadPolicy } from '../../types/gallery';
+
+// Dimension limits, which are removed rather than set when a change gives null
+const DIMENSION_FIELDS = ['minWidth', 'minHeight', 'maxWidth', 'maxHeight'] as const;
+
+// The policy in force before an admin saves one, from the environment
+export function getDefaultUploadPolicy(): UploadPolicy {
+  const allowedFormats = getAllowedImageTypes()
+    .map(toImageFormat)
+    .filter((format): format is string => format !== null);
+
+  return {
+    maxBytes: getMaxResumableUploadBytes(),
+    allowedFormats: Array.from(new Set(allowedFormats)),
+    requiredFields: [],
+    defaultIsPublic: false,
+  };
+}
+
+// Upload policies are kept per workspace, with one default policy (no workspace) for users outside
+// any workspace and for workspaces without a policy of their own. Every upload route enforces the
+// policy of the uploader's workspace
+class UploadPolicyService {
+  private repository: Repository<UploadPolicy> | null = null;
+
+  private getRepository(): Repository<UploadPolicy> {
+    if (!this.repository) {
+      this.repository = createRepository<UploadPolicy>('upload_policies', {
+        indexes: [{ key: { workspace: 1 }, unique: true }],
+      });
+    }
+    return this.repository;
+  }
+
+  // Get the policy in force for a workspace, falling back to the default policy when the workspace
+  // has none, and filling anything not saved yet from the environment
+  async getPolicy(workspace?: string): Promise<UploadPolicy> {
+    try {
+      const repository = this.getRepository();
+      const stored = (workspace ? await repository.findOne({ workspace }) : null) ||
+        await repository.findOne({ workspace: { $exists: false } });
+      return { ...getDefaultUploadPolicy(), ...stored };
+    } catch (error) {
+      console.error('Error fetching upload policy:', error);
+      throw new Error(`Failed to fetch upload policy: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Get the policy for uploads by a username, as used where only the uploader's name is known
+  async getPolicyForUser(username?: string): Promise<UploadPolicy> {
+    const user = username ? await authService.getUserByUsername(username) : null;
+    return this.getPolicy(user?.workspace);
+  }
+
+  // Save changes to a workspace's policy, or the default policy without one, and return the policy
+  // now in force. A workspace's first change starts from the current default policy
+  async updatePolicy(changes: UpdateUploadPolicyRequest, updatedBy: string, workspace?: string): Promise<UploadPolicy> {
+    try {
+      const repository = this.getRepository();
+      const set: Partial<UploadPolicy> = { updatedAt: new Date(), updatedBy };
+      const unset: Record<string, true> = {};
+
+      for (const [field, value] of Object.entries(changes)) {
+        if (value === undefined) {
+          continue;
+        }
+        if (value === null && (DIMENSION_FIELDS as readonly string[]).includes(field)) {
+          unset[field] = true;
+        } else {
+          Object.assign(set, { [field]: value });
+        }
+      }
+
+      const existing = await repository.findOne(workspace ? { workspace } : { workspace: { $exists: false } });
+      if (!existing) {
+        const current = await this.getPolicy(workspace);
+        delete current._id;
+        for (const field of Object.keys(unset)) {
+          delete current[field as typeof DIMENSION_FIELDS[number]];
+        }
+        await repository.insertOne({ ...current, ...set, ...(workspace ? { workspace } : {}) });
+      } else {
+        await repository.findOneAndUpdate(
+          { _id: existing._id },
+          Object.keys(unset).length > 0 ? { $set: set, $unset: unset } : { $set: set }
+        );
+      }
+
+      return this.getPolicy(workspace);
+    } catch (error) {
+      console.error('Error updating upload policy:', error);
+      throw new Error(`Failed to update upload policy: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
+
+export const uploadPolicyService = new UploadPolicyService();
@@ -0,0 +1,268 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ObjectId } from 'mongodb';
+import { createRepository, Repository } from '../repositories';
+import { galleryService } from './galleryService';
+import { DuplicateImageError, UploadCancelledError, UploadValidationError } from '../uploadValidation';
+import { CreateImageRequest, DuplicatePolicy, GalleryImage, UploadSession, UploadSessionProgress } from '../../types/gallery';
+
+// Unfinished uploads are kept for a day after their last chunk
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Outcome of writing a chunk; a mismatched offset reports where the client should resume
+export type ChunkWriteResult =
+  | { status: 'ok'; session: UploadSession }
+  | { status: 'offset_mismatch'; offset: number }
+  | { status: 'too_large' };
+
+export type CompleteUploadResult =
+  | { status: 'ok'; image: GalleryImage; linked?: boolean }
+  | { status: 'incomplete'; offset: number }
+  | { status: 'in_progress' }
+  | { status: 'image_not_found' }
+  | { status: 'rejected'; error: UploadValidationError }
+  | { status: 'duplicate'; error: DuplicateImageError }
+  | { status: 'cancelled'; error: UploadCancelledError };
+
+// Directory for partially uploaded files, from UPLOAD_TEMP_DIR
+export function getUploadTempDir(): string {
+  return process.env.UPLOAD_TEMP_DIR || path.join(os.tmpdir(), 'gallery-uploads');
+}
+
+function getPartPath(sessionId: ObjectId): string {
+  return path.join(getUploadTempDir(), `${sessionId.toHexString()}.part`);
+}
+
+export function toUploadProgress(session: UploadSession): UploadSessionProgress {
+  return {
+    id: session._id!.toString(),
+    filename: session.filename,
+    totalBytes: session.totalBytes,
+    offset: session.receivedBytes,
+    status: session.status,
+    imageId: session.imageId?.toString(),
+    expiresAt: session.expiresAt,
+  };
+}
+
+// Resumable uploads: a session is started, filled chunk by chunk at known offsets, then completed
+export class UploadSessionService {
+  private repository: Repository<UploadSession> | null = null;
+
+  private getRepository(): Repository<UploadSession> {
+    if (!this.repository) {
+      this.repository = createRepository<UploadSession>('uploadSessions', {
+        indexes: [{ key: { expiresAt: 1 } }],
+      });
+    }
+    return this.repository;
+  }
+
+  // Start a session and create its empty part file
+  async startSession(
+    upload: {
+      filename: string;
+      mimeType: string;
+      totalBytes: number;
+      image: CreateImageRequest;
+      onDuplicate?: DuplicatePolicy;
+      replaceImageId?: ObjectId;
+    },
+    uploadedBy: string
+  ): Promise<UploadSession> {
+    try {
+      await this.purgeExpiredSessions();
+
+      const now = new Date();
+      const session = await this.getRepository().insertOne({
+        filename: upload.filename,
+        mimeType: upload.mimeType,
+        totalBytes: upload.totalBytes,
+        receivedBytes: 0,
+        image: upload.image,
+        ...(upload.onDuplicate ? { onDuplicate: upload.onDuplicate } : {}),
+        ...(upload.replaceImageId ? { replaceImageId: upload.replaceImageId } : {}),
+        status: 'active',
+        uploadedBy,
+        createdAt: now,
+        updatedAt: now,
+        expiresAt: new Date(now.getTime() + SESSION_TTL_MS),
+      });
+
+      await fs.mkdir(getUploadTempDir(), { recursive: true });
+      await fs.writeFile(getPartPath(session._id!), Buffer.alloc(0));
+
+      return session;
+    } catch (error) {
+      console.error('Error starting upload session:', error);
+      throw new Error(`Failed to start upload: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Get a session that has not expired
+  async getSession(id: string): Promise<UploadSession | null> {
+    try {
+      if (!ObjectId.isValid(id)) {
+        throw new Error('Invalid upload ID format');
+      }
+
+      const session = await this.getRepository().findOne({ _id: new ObjectId(id) });
+      if (!session || (session.status !== 'completed' && session.expiresAt <= new Date())) {
+        return null;
+      }
+      return session;
+    } catch (error) {
+      console.error('Error getting upload session:', error);
+      throw new Error(`Failed to retrieve upload: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Write a chunk at the given offset. The offset has to match the bytes received so far,
+  // so a chunk resent after a dropped connection is not written twice.
+  async writeChunk(session: UploadSession, offset: number, chunk: Buffer): Promise<ChunkWriteResult> {
+    try {
+      if (session.status !== 'active' || offset !== session.receivedBytes) {
+        return { status: 'offset_mismatch', offset: session.receivedBytes };
+      }
+      if (offset + chunk.length > session.totalBytes) {
+        return { status: 'too_large' };
+      }
+
+      const file = await fs.open(getPartPath(session._id!), 'r+');
+      try {
+        await file.write(chunk, 0, chunk.length, offset);
+      } finally {
+        await file.close();
+      }
+
+      // Only advance if no other request moved the offset in the meantime
+      const now = new Date();
+      const updatedSession = await this.getRepository().findOneAndUpdate(
+        { _id: session._id, receivedBytes: offset, status: 'active' },
+        {
+          $set: {
+            receivedBytes: offset + chunk.length,
+            updatedAt: now,
+            expiresAt: new Date(now.getTime() + SESSION_TTL_MS),
+          },
+        }
+      );
+
+      if (!updatedSession) {
+        const current = await this.getRepository().findOne({ _id: session._id });
+        return { status: 'offset_mismatch', offset: current?.receivedBytes ?? 0 };
+      }
+      return { status: 'ok', session: updatedSession };
+    } catch (error) {
+      console.error('Error writing upload chunk:', error);
+      throw new Error(`Failed to write upload chunk: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Turn a fully received upload into a gallery image, or a new file for the image it replaces.
+  // Completing an already completed session returns its image again.
+  async completeSession(session: UploadSession): Promise<CompleteUploadResult> {
+    try {
+      const repository = this.getRepository();
+
+      if (session.status === 'completed' && session.imageId) {
+        const image = await galleryService.getImageById(session.imageId.toString());
+        return image ? { status: 'ok', image } : { status: 'image_not_found' };
+      }
+      if (session.receivedBytes < session.totalBytes) {
+        return { status: 'incomplete', offset: session.receivedBytes };
+      }
+
+      // Claim the session so a repeated request does not create the image twice
+      const claimed = await repository.findOneAndUpdate(
+        { _id: session._id, status: 'active' },
+        { $set: { status: 'finalizing', updatedAt: new Date() } }
+      );
+      if (!claimed) {
+        return { status: 'in_progress' };
+      }
+
+      let image: GalleryImage | null;
+      let linked = false;
+      try {
+        const file = await fs.readFile(getPartPath(session._id!));
+        if (session.replaceImageId) {
+          image = await galleryService.updateImage(
+            session.replaceImageId.toString(),
+            { originalFilename: session.filename, mimeType: session.mimeType, stripGps: session.image.stripGps },
+            file
+          );
+        } else {
+          // The session ID doubles as the upload ID, so aborting the session cancels the create
+          ({ image, linked } = await galleryService.createOrLinkImage(
+            { ...session.image, uploadId: session._id!.toString() },
+            file,
+            session.uploadedBy,
+            session.onDuplicate || 'reject'
+          ));
+        }
+      } catch (error) {
+        // A file that is not an accepted image, or is already stored, will never complete, so discard it
+        if (error instanceof UploadValidationError) {
+          await this.abortSession(session);
+          return { status: 'rejected', error };
+        }
+        if (error instanceof DuplicateImageError) {
+          await this.abortSession(session);
+          return { status: 'duplicate', error };
+        }
+        if (error instanceof UploadCancelledError) {
+          // The session was already discarded by the abort that cancelled it
+          return { status: 'cancelled', error };
+        }
+        // Let the client try again; the received bytes are still on disk
+        await repository.findOneAndUpdate({ _id: session._id }, { $set: { status: 'active', updatedAt: new Date() } });
+        throw error;
+      }
+
+      if (!image) {
+        await this.abortSession(session);
+        return { status: 'image_not_found' };
+      }
+
+      await repository.findOneAndUpdate(
+        { _id: session._id },
+        { $set: { status: 'completed', imageId: image._id, updatedAt: new Date() } }
+      );
+      await fs.rm(getPartPath(session._id!), { force: true });
+
+      return { status: 'ok', image, linked };
+    } catch (error) {
+      console.error('Error completing upload session:', error);
+      throw new Error(`Failed to complete upload: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Cancel an upload and discard what was received; an image being created from it is removed too
+  async abortSession(session: UploadSession): Promise<void> {
+    try {
+      if (session.status === 'finalizing' && !session.replaceImageId && session.uploadedBy) {
+        await galleryService.cancelUpload(session._id!.toString(), session.uploadedBy);
+      }
+      await fs.rm(getPartPath(session._id!), { force: true });
+      await this.getRepository().deleteOne({ _id: session._id });
+    } catch (error) {
+      console.error('Error aborting upload session:', error);
+      throw new Error(`Failed to cancel upload: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Discard unfinished sessions that have expired, and completed ones past their expiry
+  private async purgeExpiredSessions(): Promise<void> {
+    const repository = this.getRepository();
+    const expired = await repository.find({ expiresAt: { $lte: new Date() } });
+
+    for (const session of expired) {
+      await fs.rm(getPartPath(session._id!), { force: true });
+      await repository.deleteOne({ _id: session._id });
+    }
+  }
+}
+
+export const uploadSessionService = new UploadSessionService();
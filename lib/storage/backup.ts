@@ -0,0 +1,41 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Find the backup copy of a stored file in STORAGE_BACKUP_DIR.
+// Backups are laid out by public ID with any file extension, e.g. gallery/abc123.jpg.
+async function findBackupPath(publicId: string): Promise<string | null> {
+  const backupDir = process.env.STORAGE_BACKUP_DIR;
+  if (!backupDir) {
+    return null;
+  }
+
+  const root = path.resolve(backupDir);
+  const folder = path.resolve(root, path.dirname(publicId));
+  const baseName = path.basename(publicId);
+
+  if (folder !== root && !folder.startsWith(root + path.sep)) {
+    return null;
+  }
+
+  try {
+    const entries = await fs.readdir(folder);
+    const match = entries.find(entry => path.parse(entry).name === baseName && !entry.endsWith('.json'));
+    return match ? path.join(folder, match) : null;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Check whether a backup copy exists for a public ID
+export async function hasBackupFile(publicId: string): Promise<boolean> {
+  return (await findBackupPath(publicId)) !== null;
+}
+
+// Read the backup copy of a stored file, or null when there is none
+export async function readBackupFile(publicId: string): Promise<Buffer | null> {
+  const backupPath = await findBackupPath(publicId);
+  return backupPath ? fs.readFile(backupPath) : null;
+}
@@ -0,0 +1,82 @@
+import cloudinary, { uploadImage, updateImage, copyImage, deleteImage, getImageDetails, listImages } from '../cloudinary';
+import { CloudinaryUploadResult } from '../../types/gallery';
+import { ListAssetsOptions, ListAssetsResult, StorageProvider, StoredAsset } from './storageProvider';
+
+type CloudinaryResource = Pick<CloudinaryUploadResult, 'public_id' | 'secure_url' | 'format' | 'width' | 'height' | 'bytes' | 'created_at'>;
+
+// Convert a Cloudinary resource into a provider-neutral asset
+function toStoredAsset(resource: CloudinaryResource): StoredAsset {
+  return {
+    publicId: resource.public_id,
+    url: resource.secure_url,
+    format: resource.format,
+    width: resource.width,
+    height: resource.height,
+    bytes: resource.bytes,
+    createdAt: resource.created_at ? new Date(resource.created_at) : undefined,
+  };
+}
+
+function isNotFoundError(error: unknown): boolean {
+  const details = (error as { error?: { http_code?: number } })?.error;
+  return details?.http_code === 404;
+}
+
+export class CloudinaryStorageProvider implements StorageProvider {
+  readonly name = 'cloudinary';
+
+  async upload(file: Buffer, publicId?: string): Promise<StoredAsset> {
+    const result: CloudinaryUploadResult = await uploadImage(file, publicId);
+    return toStoredAsset(result);
+  }
+
+  async replace(publicId: string, file: Buffer): Promise<StoredAsset> {
+    const result: CloudinaryUploadResult = await updateImage(publicId, file);
+    return toStoredAsset(result);
+  }
+
+  async copy(sourcePublicId: string, targetPublicId: string): Promise<StoredAsset> {
+    return toStoredAsset(await copyImage(sourcePublicId, targetPublicId));
+  }
+
+  async delete(publicId: string): Promise<void> {
+    await deleteImage(publicId);
+  }
+
+  async list(options: ListAssetsOptions = {}): Promise<ListAssetsResult> {
+    const result = await listImages(options.maxResults, options.nextCursor);
+    return {
+      assets: (result.resources as CloudinaryResource[]).map(toStoredAsset),
+      nextCursor: result.next_cursor || undefined,
+    };
+  }
+
+  async getDetails(publicId: string): Promise<StoredAsset | null> {
+    try {
+      const result: CloudinaryResource = await getImageDetails(publicId);
+      return toStoredAsset(result);
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async download(publicId: string): Promise<Buffer | null> {
+    const asset = await this.getDetails(publicId);
+    if (!asset) {
+      return null;
+    }
+
+    const response = await fetch(asset.url);
+    if (!response.ok) {
+      throw new Error(`Failed to download ${publicId}: HTTP ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  getPublicUrl(publicId: string, format: string): string {
+    return cloudinary.url(publicId, { secure: true, format });
+  }
+}
@@ -0,0 +1,29 @@
+import { CloudinaryStorageProvider } from './cloudinaryStorage';
+import { LocalFileStorageProvider } from './localFileStorage';
+import { StorageProvider } from './storageProvider';
+
+export type { StorageProvider, StoredAsset, ListAssetsOptions, ListAssetsResult } from './storageProvider';
+export { CloudinaryStorageProvider } from './cloudinaryStorage';
+export { InvalidPublicIdError, LocalFileStorageProvider } from './localFileStorage';
+export { hasBackupFile, readBackupFile } from './backup';
+
+let provider: StorageProvider | null = null;
+
+// Get the storage backend selected by STORAGE_PROVIDER ("cloudinary" or "local")
+export function getStorageProvider(): StorageProvider {
+  if (!provider) {
+    const name = process.env.STORAGE_PROVIDER || 'cloudinary';
+
+    switch (name) {
+      case 'cloudinary':
+        provider = new CloudinaryStorageProvider();
+        break;
+      case 'local':
+        provider = new LocalFileStorageProvider(process.env.LOCAL_STORAGE_DIR || '.storage');
+        break;
+      default:
+        throw new Error(`Invalid STORAGE_PROVIDER "${name}". Expected "cloudinary" or "local"`);
+    }
+  }
+  return provider;
+}
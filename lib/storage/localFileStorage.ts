@@ -0,0 +1,175 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { readImageInfo } from '../imageInfo';
+import { ListAssetsOptions, ListAssetsResult, StorageProvider, StoredAsset } from './storageProvider';
+
+const FOLDER = 'gallery';
+
+// Thrown for a public ID that is malformed or would reach outside the storage root
+export class InvalidPublicIdError extends Error {
+  constructor(publicId: string) {
+    super(`Invalid public ID: ${publicId}`);
+    this.name = 'InvalidPublicIdError';
+  }
+}
+
+// Sidecar metadata written next to every stored file
+interface AssetMetadata {
+  publicId: string;
+  format: string;
+  width: number;
+  height: number;
+  bytes: number;
+  createdAt: string;
+}
+
+// Stores image files on the local disk and serves them through /api/storage
+export class LocalFileStorageProvider implements StorageProvider {
+  readonly name = 'local';
+
+  constructor(
+    private readonly rootDir: string,
+    private readonly baseUrl: string = '/api/storage',
+  ) {}
+
+  async upload(file: Buffer, publicId?: string): Promise<StoredAsset> {
+    const id = publicId || `${FOLDER}/${randomUUID().replace(/-/g, '')}`;
+    return this.writeAsset(id, file);
+  }
+
+  async replace(publicId: string, file: Buffer): Promise<StoredAsset> {
+    await this.delete(publicId);
+    return this.writeAsset(publicId, file);
+  }
+
+  async copy(sourcePublicId: string, targetPublicId: string): Promise<StoredAsset> {
+    const source = await this.readAsset(sourcePublicId);
+    if (!source) {
+      throw new Error(`Stored file not found: ${sourcePublicId}`);
+    }
+    return this.writeAsset(targetPublicId, source.data);
+  }
+
+  async delete(publicId: string): Promise<void> {
+    const filePath = this.resolvePath(publicId);
+    await fs.rm(filePath, { force: true });
+    await fs.rm(`${filePath}.json`, { force: true });
+  }
+
+  async list(options: ListAssetsOptions = {}): Promise<ListAssetsResult> {
+    const { maxResults = 50, nextCursor } = options;
+
+    const publicIds = (await this.listPublicIds()).sort();
+    const start = nextCursor ? publicIds.findIndex(id => id > nextCursor) : 0;
+    const page = start === -1 ? [] : publicIds.slice(start, start + maxResults);
+
+    const assets: StoredAsset[] = [];
+    for (const publicId of page) {
+      const asset = await this.getDetails(publicId);
+      if (asset) {
+        assets.push(asset);
+      }
+    }
+
+    const hasMore = start !== -1 && start + maxResults < publicIds.length;
+    return {
+      assets,
+      nextCursor: hasMore ? page[page.length - 1] : undefined,
+    };
+  }
+
+  async getDetails(publicId: string): Promise<StoredAsset | null> {
+    try {
+      const raw = await fs.readFile(`${this.resolvePath(publicId)}.json`, 'utf8');
+      return this.toStoredAsset(JSON.parse(raw) as AssetMetadata);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async download(publicId: string): Promise<Buffer | null> {
+    const stored = await this.readAsset(publicId);
+    return stored ? stored.data : null;
+  }
+
+  getPublicUrl(publicId: string, format: string): string {
+    return `${this.baseUrl}/${publicId}.${format}`;
+  }
+
+  // Read a stored file and its metadata, or null when it does not exist
+  async readAsset(publicId: string): Promise<{ asset: StoredAsset; data: Buffer } | null> {
+    const asset = await this.getDetails(publicId);
+    if (!asset) {
+      return null;
+    }
+    const data = await fs.readFile(this.resolvePath(publicId));
+    return { asset, data };
+  }
+
+  private async writeAsset(publicId: string, file: Buffer): Promise<StoredAsset> {
+    const info = readImageInfo(file);
+    if (!info) {
+      throw new Error('Unsupported or corrupt image file');
+    }
+
+    const metadata: AssetMetadata = {
+      publicId,
+      format: info.format,
+      width: info.width,
+      height: info.height,
+      bytes: file.length,
+      createdAt: new Date().toISOString(),
+    };
+
+    const filePath = this.resolvePath(publicId);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, file);
+    await fs.writeFile(`${filePath}.json`, JSON.stringify(metadata));
+
+    return this.toStoredAsset(metadata);
+  }
+
+  private async listPublicIds(): Promise<string[]> {
+    const folderPath = this.resolvePath(FOLDER);
+    try {
+      const entries = await fs.readdir(folderPath);
+      return entries
+        .filter(entry => entry.endsWith('.json'))
+        .map(entry => `${FOLDER}/${entry.slice(0, -'.json'.length)}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  // Map a public ID to a path inside the storage root, rejecting traversal attempts
+  private resolvePath(publicId: string): string {
+    if (!/^[\w-]+(\/[\w-]+)*$/.test(publicId)) {
+      throw new InvalidPublicIdError(publicId);
+    }
+    const root = path.resolve(this.rootDir);
+    const resolved = path.resolve(root, publicId);
+    if (!resolved.startsWith(root + path.sep)) {
+      throw new InvalidPublicIdError(publicId);
+    }
+    return resolved;
+  }
+
+  private toStoredAsset(metadata: AssetMetadata): StoredAsset {
+    return {
+      publicId: metadata.publicId,
+      url: this.getPublicUrl(metadata.publicId, metadata.format),
+      format: metadata.format,
+      width: metadata.width,
+      height: metadata.height,
+      bytes: metadata.bytes,
+      createdAt: new Date(metadata.createdAt),
+    };
+  }
+}
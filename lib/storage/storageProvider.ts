@@ -0,0 +1,49 @@
+// A stored image asset, independent of the backend that holds it
+export interface StoredAsset {
+  publicId: string;
+  url: string;
+  format: string;
+  width: number;
+  height: number;
+  bytes: number;
+  createdAt?: Date;
+}
+
+export interface ListAssetsOptions {
+  maxResults?: number;
+  nextCursor?: string;
+}
+
+export interface ListAssetsResult {
+  assets: StoredAsset[];
+  nextCursor?: string;
+}
+
+// Backend used by the gallery to persist image files
+export interface StorageProvider {
+  readonly name: string;
+
+  // Store a new file, optionally under a fixed public ID
+  upload(file: Buffer, publicId?: string): Promise<StoredAsset>;
+
+  // Replace the file stored under an existing public ID
+  replace(publicId: string, file: Buffer): Promise<StoredAsset>;
+
+  // Copy a stored file to another public ID, overwriting any file already there
+  copy(sourcePublicId: string, targetPublicId: string): Promise<StoredAsset>;
+
+  // Remove a stored file
+  delete(publicId: string): Promise<void>;
+
+  // List stored files, one page at a time
+  list(options?: ListAssetsOptions): Promise<ListAssetsResult>;
+
+  // Get the details of a stored file, or null when it does not exist
+  getDetails(publicId: string): Promise<StoredAsset | null>;
+
+  // Read the contents of a stored file, or null when it does not exist
+  download(publicId: string): Promise<Buffer | null>;
+
+  // Build the URL a browser can load the file from
+  getPublicUrl(publicId: string, format: string): string;
+}
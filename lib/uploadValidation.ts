@@ -0,0 +1,382 @@
+import { detectImageType, DetectedImageType, readImageInfo } from './imageInfo';
+import { CreateImageRequest, DuplicatePolicy, GalleryImage, OriginalImageInfo, ResizeSettings, UploadedImage, UploadErrorCode, UploadPolicy } from '../types/gallery';
+
+// Largest image file the single-request upload routes accept: 10MB
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Largest file a single-request upload accepts under the given policy
+export function getSingleUploadLimit(policy: UploadPolicy): number {
+  return Math.min(MAX_UPLOAD_BYTES, policy.maxBytes);
+}
+
+// Largest file accepted through a resumable upload, from MAX_RESUMABLE_UPLOAD_MB (default 200MB).
+// This is the upload policy's size limit until an admin sets one.
+export function getMaxResumableUploadBytes(): number {
+  const megabytes = Number(process.env.MAX_RESUMABLE_UPLOAD_MB);
+  return (Number.isFinite(megabytes) && megabytes > 0 ? megabytes : 200) * 1024 * 1024;
+}
+
+// Largest ZIP archive accepted for import, from MAX_IMPORT_ARCHIVE_MB (default 500MB)
+export function getMaxImportArchiveBytes(): number {
+  const megabytes = Number(process.env.MAX_IMPORT_ARCHIVE_MB);
+  return (Number.isFinite(megabytes) && megabytes > 0 ? megabytes : 500) * 1024 * 1024;
+}
+
+export interface UploadValidationFailure {
+  code: UploadErrorCode;
+  message: string;
+  error: string;
+}
+
+// Thrown when a file's contents are not an accepted image; routes report it with its code
+export class UploadValidationError extends Error {
+  readonly code: UploadErrorCode;
+  readonly title: string;
+
+  constructor(failure: UploadValidationFailure) {
+    super(failure.error);
+    this.name = 'UploadValidationError';
+    this.code = failure.code;
+    this.title = failure.message;
+  }
+}
+
+// HTTP status for a rejected upload: the file's type and size have their own statuses, and
+// anything else the policy rejects is a plain bad request
+export function getUploadErrorStatus(code: UploadErrorCode): number {
+  switch (code) {
+    case 'file_too_large':
+      return 413;
+    case 'invalid_type':
+    case 'unrecognized_type':
+    case 'type_not_allowed':
+    case 'type_mismatch':
+      return 415;
+    case 'dimensions_too_small':
+    case 'dimensions_too_large':
+      return 422;
+    default:
+      return 400;
+  }
+}
+
+// Thrown when the uploader already has an image with exactly the same file; routes report it with the existing image
+export class DuplicateImageError extends Error {
+  readonly code: UploadErrorCode = 'duplicate';
+  readonly existing: GalleryImage;
+
+  constructor(existing: GalleryImage) {
+    super(`This file was already uploaded as "${existing.title}"`);
+    this.name = 'DuplicateImageError';
+    this.existing = existing;
+  }
+}
+
+// Thrown when the uploader cancels an upload while the server is still storing it; nothing is kept
+export class UploadCancelledError extends Error {
+  readonly code: UploadErrorCode = 'cancelled';
+
+  constructor() {
+    super('The upload was cancelled');
+    this.name = 'UploadCancelledError';
+  }
+}
+
+// Client-chosen upload IDs: letters, digits and dashes, like a UUID
+const UPLOAD_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+// Read an optional client upload ID, ignoring values that do not look like one
+export function parseUploadId(value: unknown): string | undefined {
+  return typeof value === 'string' && UPLOAD_ID_PATTERN.test(value) ? value : undefined;
+}
+
+// Read the original size the browser reports for a file it resized, sent as an object or as JSON
+// text; values that do not look like an image size are ignored
+export function parseOriginalImageInfo(value: unknown): OriginalImageInfo | undefined {
+  let info = value;
+  if (typeof value === 'string') {
+    try {
+      info = JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+  if (!info || typeof info !== 'object') {
+    return undefined;
+  }
+
+  const { width, height, bytes, mimeType } = info as Record<string, unknown>;
+  const isPositive = (number: unknown): number is number => Number.isInteger(number) && (number as number) > 0;
+  if (!isPositive(width) || !isPositive(height) || !isPositive(bytes)) {
+    return undefined;
+  }
+
+  return {
+    width,
+    height,
+    bytes,
+    ...(typeof mimeType === 'string' && mimeType.startsWith('image/') ? { mimeType: normalizeType(mimeType) } : {}),
+  };
+}
+
+// Check resize settings sent by the upload form; returns null when they are not usable
+export function parseResizeSettings(value: unknown): ResizeSettings | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const { enabled, maxLongEdge, quality } = value as Record<string, unknown>;
+  if (typeof enabled !== 'boolean' ||
+      !Number.isInteger(maxLongEdge) || (maxLongEdge as number) < 256 || (maxLongEdge as number) > 16384 ||
+      typeof quality !== 'number' || quality < 0.1 || quality > 1) {
+    return null;
+  }
+
+  return { enabled, maxLongEdge: maxLongEdge as number, quality };
+}
+
+// Read what to do with an exact duplicate: "link" returns the existing image, anything else rejects the upload
+export function parseDuplicatePolicy(value: unknown): DuplicatePolicy {
+  return value === 'link' ? 'link' : 'reject';
+}
+
+// Formats accepted when ALLOWED_IMAGE_TYPES is not set. SVG is left out because it can carry scripts.
+const DEFAULT_ALLOWED_FORMATS = ['jpg', 'png', 'gif', 'webp', 'avif', 'heic', 'tiff'];
+
+// Every format that can be identified from a file's contents
+export const KNOWN_IMAGE_FORMATS = [...DEFAULT_ALLOWED_FORMATS, 'svg'];
+
+// Other names for detected formats and MIME types
+const FORMAT_ALIASES: Record<string, string> = {
+  jpeg: 'jpg',
+  tif: 'tiff',
+  heif: 'heic',
+  'image/jpg': 'image/jpeg',
+  'image/pjpeg': 'image/jpeg',
+  'image/x-png': 'image/png',
+  'image/x-tiff': 'image/tiff',
+  'image/heif': 'image/heic',
+  'image/heic-sequence': 'image/heic',
+  'image/heif-sequence': 'image/heic',
+  'image/avif-sequence': 'image/avif',
+  'svg+xml': 'svg',
+};
+
+function normalizeType(value: string): string {
+  const type = value.split(';')[0].trim().toLowerCase();
+  return FORMAT_ALIASES[type] || type;
+}
+
+// Get the format named by a format or MIME type, e.g. "image/jpeg" gives "jpg"; null when it is not a known image format
+export function toImageFormat(value: string): string | null {
+  let type = normalizeType(value);
+  if (type.startsWith('image/')) {
+    type = normalizeType(type.slice('image/'.length));
+  }
+  return KNOWN_IMAGE_FORMATS.includes(type) ? type : null;
+}
+
+// Formats accepted for upload, from ALLOWED_IMAGE_TYPES: a comma-separated list of formats
+// or MIME types, e.g. "jpeg,png,image/webp"
+export function getAllowedImageTypes(): string[] {
+  const configured = (process.env.ALLOWED_IMAGE_TYPES || '').split(',').map(normalizeType).filter(type => type.length > 0);
+  return configured.length > 0 ? configured : DEFAULT_ALLOWED_FORMATS;
+}
+
+// Check an uploaded file's declared type and size; returns the failure to report, or null when the file is acceptable.
+// Files sent without a specific type are let through here and identified by their contents later.
+export function validateImageFile(
+  file: { type: string; size: number },
+  maxBytes: number = MAX_UPLOAD_BYTES,
+  allowedFormats?: string[]
+): UploadValidationFailure | null {
+  const declaredType = normalizeType(file.type);
+  if (declaredType && declaredType !== 'application/octet-stream' && !declaredType.startsWith('image/')) {
+    return {
+      code: 'invalid_type',
+      message: 'Invalid file type',
+      error: 'Only image files are allowed',
+    };
+  }
+
+  const declaredFormat = declaredType ? toImageFormat(declaredType) : null;
+  if (allowedFormats && declaredFormat && !allowedFormats.includes(declaredFormat)) {
+    return {
+      code: 'type_not_allowed',
+      message: 'File type not allowed',
+      error: `${declaredFormat.toUpperCase()} images are not accepted`,
+    };
+  }
+
+  if (file.size > maxBytes) {
+    return {
+      code: 'file_too_large',
+      message: 'File too large',
+      error: `File size must be less than ${maxBytes >= 1024 * 1024 ? `${Math.round(maxBytes / (1024 * 1024))}MB` : `${Math.ceil(maxBytes / 1024)}KB`}`,
+    };
+  }
+
+  return null;
+}
+
+// Identify an image from its bytes and check it against the allowlist and the type the client
+// declared, if any. Throws an UploadValidationError when the file is rejected.
+export function detectAllowedImageType(
+  file: Buffer,
+  declaredType?: string,
+  allowed: string[] = getAllowedImageTypes()
+): DetectedImageType {
+  const detected = detectImageType(file);
+  if (!detected) {
+    throw new UploadValidationError({
+      code: 'unrecognized_type',
+      message: 'Unrecognized file type',
+      error: 'The file is not a JPEG, PNG, GIF, WebP, AVIF, HEIC, TIFF or SVG image',
+    });
+  }
+
+  if (!allowed.includes(detected.format) && !allowed.includes(detected.mimeType)) {
+    throw new UploadValidationError({
+      code: 'type_not_allowed',
+      message: 'File type not allowed',
+      error: `${detected.format.toUpperCase()} images are not accepted`,
+    });
+  }
+
+  const declared = declaredType ? normalizeType(declaredType) : '';
+  if (declared.startsWith('image/') && declared !== detected.mimeType) {
+    throw new UploadValidationError({
+      code: 'type_mismatch',
+      message: 'File type mismatch',
+      error: `The file was sent as ${declared} but its contents are ${detected.mimeType}`,
+    });
+  }
+
+  return detected;
+}
+
+// Check an image's pixel dimensions against the policy's limits; returns the failure to report, or null
+export function checkImageDimensions(size: { width: number; height: number }, policy: UploadPolicy): UploadValidationFailure | null {
+  const { width, height } = size;
+  const tooSmall = [
+    policy.minWidth && width < policy.minWidth ? `at least ${policy.minWidth} pixels wide` : null,
+    policy.minHeight && height < policy.minHeight ? `at least ${policy.minHeight} pixels high` : null,
+  ].filter(Boolean);
+  if (tooSmall.length > 0) {
+    return {
+      code: 'dimensions_too_small',
+      message: 'Image too small',
+      error: `The image is ${width}x${height} pixels; it must be ${tooSmall.join(' and ')}`,
+    };
+  }
+
+  const tooLarge = [
+    policy.maxWidth && width > policy.maxWidth ? `at most ${policy.maxWidth} pixels wide` : null,
+    policy.maxHeight && height > policy.maxHeight ? `at most ${policy.maxHeight} pixels high` : null,
+  ].filter(Boolean);
+  if (tooLarge.length > 0) {
+    return {
+      code: 'dimensions_too_large',
+      message: 'Image too large',
+      error: `The image is ${width}x${height} pixels; it must be ${tooLarge.join(' and ')}`,
+    };
+  }
+
+  return null;
+}
+
+// Check that the fields the policy requires are filled in; returns the failure to report, or null
+export function checkRequiredFields(fields: { description?: string; tags?: string[] }, policy: UploadPolicy): UploadValidationFailure | null {
+  if (policy.requiredFields.includes('description') && !fields.description?.trim()) {
+    return {
+      code: 'missing_field',
+      message: 'Description required',
+      error: 'Every image needs a description',
+    };
+  }
+
+  if (policy.requiredFields.includes('tags') && !fields.tags?.length) {
+    return {
+      code: 'missing_field',
+      message: 'Tags required',
+      error: 'Every image needs at least one tag',
+    };
+  }
+
+  return null;
+}
+
+// Check a file against the upload policy's size, format and dimension limits, and identify it.
+// Throws an UploadValidationError when the file is rejected.
+export function checkFileAgainstPolicy(file: Buffer, declaredType: string | undefined, policy: UploadPolicy): DetectedImageType {
+  const tooLarge = validateImageFile({ type: '', size: file.length }, policy.maxBytes);
+  if (tooLarge) {
+    throw new UploadValidationError(tooLarge);
+  }
+
+  const detected = detectAllowedImageType(file, declaredType, policy.allowedFormats);
+
+  const info = readImageInfo(file);
+  const wrongSize = info ? checkImageDimensions(info, policy) : null;
+  if (wrongSize) {
+    throw new UploadValidationError(wrongSize);
+  }
+
+  return detected;
+}
+
+// Split a comma-separated tag list, dropping empty entries
+export function parseTags(tags: string | string[]): string[] {
+  const list = Array.isArray(tags) ? tags : tags.split(',');
+  return list.map(tag => tag.trim()).filter(tag => tag.length > 0);
+}
+
+// Read a form checkbox or boolean field
+export function parseBoolean(value: string | boolean): boolean {
+  return value === true || value === 'true' || value === '1' || value === 'on';
+}
+
+// Derive a title from a file name, e.g. "summer_trip-01.jpg" becomes "summer trip 01"
+export function titleFromFilename(filename: string): string {
+  return filename.replace(/\.[^.]+$/, '').replace(/[_-]/g, ' ').trim() || filename;
+}
+
+// Build image data from form fields, trimming text and parsing tags and visibility. Without an
+// isPublic field the upload policy's default visibility applies.
+export function buildCreateImageRequest(fields: {
+  title: string;
+  description?: string | null;
+  tags?: string | string[] | null;
+  isPublic?: string | boolean | null;
+}): CreateImageRequest {
+  return {
+    title: fields.title.trim(),
+    description: fields.description?.trim() || '',
+    tags: fields.tags ? parseTags(fields.tags) : [],
+    ...(fields.isPublic !== null && fields.isPublic !== undefined ? { isPublic: parseBoolean(fields.isPublic) } : {}),
+  };
+}
+
+// The image fields returned by the upload and update routes
+export function toUploadedImageData(image: GalleryImage): UploadedImage {
+  return {
+    id: image._id,
+    title: image.title,
+    description: image.description,
+    cloudinaryUrl: image.cloudinaryUrl,
+    cloudinaryId: image.cloudinaryId,
+    format: image.format,
+    width: image.width,
+    height: image.height,
+    bytes: image.bytes,
+    tags: image.tags,
+    isPublic: image.isPublic,
+    uploadedBy: image.uploadedBy,
+    sourceUrl: image.sourceUrl,
+    mimeType: image.mimeType,
+    originalFilename: image.originalFilename,
+    possibleDuplicates: image.possibleDuplicates,
+    createdAt: image.createdAt,
+    updatedAt: image.updatedAt,
+  };
+}
@@ -0,0 +1,141 @@
+import { promises as fs } from 'fs';
+import zlib from 'zlib';
+
+export interface ZipEntry {
+  // Path inside the archive, with forward slashes
+  name: string;
+  isDirectory: boolean;
+  compressedSize: number;
+  uncompressedSize: number;
+  encrypted: boolean;
+  // Decompress the entry; fails if it is larger than maxBytes
+  read(maxBytes: number): Promise<Buffer>;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+// Read up to length bytes of a file from the given position
+async function readRange(filePath: string, position: number, length: number): Promise<Buffer> {
+  const file = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await file.read(buffer, 0, length, position);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await file.close();
+  }
+}
+
+// The end record is 22 bytes, followed by a comment of up to 64KB
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  for (let offset = buffer.length - 22; offset >= 0; offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  return -1;
+}
+
+// Only the entry's own bytes are read from disk, so the archive is never held in memory whole
+async function readEntryData(filePath: string, localOffset: number, method: number, compressedSize: number, uncompressedSize: number, maxBytes: number): Promise<Buffer> {
+  const header = await readRange(filePath, localOffset, 30);
+  if (header.length < 30 || header.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+    throw new Error('Corrupt archive entry');
+  }
+
+  if (uncompressedSize > maxBytes) {
+    throw new Error(`File size must be less than ${Math.round(maxBytes / (1024 * 1024))}MB`);
+  }
+
+  const nameLength = header.readUInt16LE(26);
+  const extraLength = header.readUInt16LE(28);
+  const data = await readRange(filePath, localOffset + 30 + nameLength + extraLength, compressedSize);
+  if (data.length < compressedSize) {
+    throw new Error('Corrupt archive entry');
+  }
+
+  let content: Buffer;
+  if (method === METHOD_STORED) {
+    content = data;
+  } else if (method === METHOD_DEFLATED) {
+    // The size in the header is not trusted; inflation stops once the limit is passed
+    try {
+      content = zlib.inflateRawSync(data, { maxOutputLength: maxBytes });
+    } catch {
+      throw new Error('The entry could not be decompressed or is too large');
+    }
+  } else {
+    throw new Error(`Unsupported compression method ${method}`);
+  }
+
+  if (content.length !== uncompressedSize) {
+    throw new Error('Corrupt archive entry');
+  }
+  return content;
+}
+
+// List the entries of a ZIP archive stored on disk; only its central directory is read until an
+// entry is. Stored and deflated entries can be read; ZIP64 archives are not supported.
+export async function readZipEntries(filePath: string): Promise<ZipEntry[]> {
+  const { size } = await fs.stat(filePath);
+  const tailStart = Math.max(0, size - 22 - 0xffff);
+  const tail = await readRange(filePath, tailStart, size - tailStart);
+
+  const endOffset = findEndOfCentralDirectory(tail);
+  if (endOffset < 0) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const entryCount = tail.readUInt16LE(endOffset + 10);
+  const directorySize = tail.readUInt32LE(endOffset + 12);
+  const directoryOffset = tail.readUInt32LE(endOffset + 16);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+  if (directoryOffset + directorySize > size) {
+    throw new Error('Corrupt ZIP central directory');
+  }
+
+  const directory = await readRange(filePath, directoryOffset, directorySize);
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (let index = 0; index < entryCount; index++) {
+    if (offset + 46 > directory.length || directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const flags = directory.readUInt16LE(offset + 8);
+    const method = directory.readUInt16LE(offset + 10);
+    const compressedSize = directory.readUInt32LE(offset + 20);
+    const uncompressedSize = directory.readUInt32LE(offset + 24);
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const extraLength = directory.readUInt16LE(offset + 30);
+    const commentLength = directory.readUInt16LE(offset + 32);
+    const localOffset = directory.readUInt32LE(offset + 42);
+
+    // Bit 11 marks UTF-8 names; older tools write the DOS code page, read here as Latin-1
+    const name = directory
+      .subarray(offset + 46, offset + 46 + nameLength)
+      .toString(flags & 0x800 ? 'utf8' : 'latin1')
+      .replace(/\\/g, '/');
+
+    entries.push({
+      name,
+      isDirectory: name.endsWith('/'),
+      compressedSize,
+      uncompressedSize,
+      encrypted: (flags & 0x1) !== 0,
+      read: (maxBytes: number) => readEntryData(filePath, localOffset, method, compressedSize, uncompressedSize, maxBytes),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
@@ -16,6 +16,91 @@ export interface GalleryImage {
   updatedAt: Date;
   uploadedBy?: string;
   isPublic: boolean;
+  // The address the file was fetched from, for images imported from a URL
+  sourceUrl?: string;
+  // Type detected from the file's contents, and the file's name on the uploader's device
+  mimeType?: string;
+  originalFilename?: string;
+  // Camera, capture and rights details read from the file's EXIF, IPTC and XMP data
+  metadata?: ImageMetadata;
+  // SHA-256 of the stored file, and a 64-bit perceptual hash of the picture as hex
+  contentHash?: string;
+  perceptualHash?: string;
+  // The perceptual hash split into bands, for finding near-duplicates without comparing every image
+  perceptualHashBands?: string[];
+  // When the hash backfill last failed to hash this image's file, and why; the backfill skips such
+  // images until the file is replaced
+  hashFailedAt?: Date;
+  hashError?: string;
+  // The uploader's images that looked like near-duplicates of this one when it was uploaded
+  possibleDuplicates?: ObjectId[];
+  // Set when the image is moved to the trash; trashed images are purged after the retention period
+  deletedAt?: Date | null;
+  // Earlier files of this image, oldest first; each is kept in storage under its own ID
+  versions?: ImageVersion[];
+}
+
+// An image as returned by the upload and update routes
+export interface UploadedImage extends Omit<GalleryImage, '_id' | 'publicId' | 'deletedAt' | 'versions'> {
+  id?: ObjectId;
+}
+
+// Embedded metadata of an image file; fields missing from the file are left out
+export interface ImageMetadata {
+  cameraMake?: string;
+  cameraModel?: string;
+  lensModel?: string;
+  // When the photo was taken. Times recorded without a UTC offset are read as UTC.
+  capturedAt?: Date;
+  // EXIF orientation, 1 (upright) to 8
+  orientation?: number;
+  // Exposure time in seconds
+  exposureTime?: number;
+  fNumber?: number;
+  iso?: number;
+  // Focal length in millimetres
+  focalLength?: number;
+  gps?: {
+    latitude: number;
+    longitude: number;
+    altitude?: number;
+  };
+  // Set when location data was removed from the file before it was stored
+  gpsStripped?: boolean;
+  title?: string;
+  caption?: string;
+  keywords?: string[];
+  artist?: string;
+  copyright?: string;
+  software?: string;
+  // Size of the file before the uploader's browser shrank it
+  original?: OriginalImageInfo;
+}
+
+export interface OriginalImageInfo {
+  width: number;
+  height: number;
+  bytes: number;
+  mimeType?: string;
+}
+
+export interface ImageVersion {
+  version: number;
+  cloudinaryId: string;
+  cloudinaryUrl: string;
+  format: string;
+  width: number;
+  height: number;
+  bytes: number;
+  mimeType?: string;
+  originalFilename?: string;
+  metadata?: ImageMetadata;
+  contentHash?: string;
+  perceptualHash?: string;
+  // When this file became the image's current file
+  createdAt: Date;
+  // When it was replaced and archived as a version
+  archivedAt: Date;
 }
 
 export interface CreateImageRequest {
@@ -23,6 +108,16 @@ export interface CreateImageRequest {
   description?: string;
   tags?: string[];
   isPublic?: boolean;
+  sourceUrl?: string;
+  // The file's name and the type the client declared for it; the stored type is detected from the contents
+  originalFilename?: string;
+  mimeType?: string;
+  // Remove GPS location data from the file before it is stored
+  stripGps?: boolean;
+  // ID chosen by the client so it can cancel the upload while the server is still storing it
+  uploadId?: string;
+  // Set when the browser resized the file before sending it
+  resizedFrom?: OriginalImageInfo;
 }
 
 export interface UpdateImageRequest {
@@ -30,6 +125,10 @@ export interface UpdateImageRequest {
   description?: string;
   tags?: string[];
   isPublic?: boolean;
+  // Name and declared type of a replacement file, when one is sent
+  originalFilename?: string;
+  mimeType?: string;
+  stripGps?: boolean;
 }
 
 export interface CloudinaryUploadResult {
@@ -57,26 +156,87 @@ export interface ApiResponse<T = any> {
   message: string;
   data?: T;
   error?: string;
+  // Machine-readable reason for a failure, where the route provides one
+  code?: string;
 }
 
+// Why an uploaded file was rejected
+export type UploadErrorCode =
+  | 'invalid_type'
+  | 'file_too_large'
+  | 'unrecognized_type'
+  | 'type_not_allowed'
+  | 'type_mismatch'
+  | 'duplicate'
+  | 'cancelled'
+  | 'dimensions_too_small'
+  | 'dimensions_too_large'
+  | 'missing_field';
+
+// What an upload does when the uploader already has an image with exactly the same file:
+// fail with the existing image, or return the existing image as if it had just been uploaded
+export type DuplicatePolicy = 'reject' | 'link';
+
 export interface PaginationQuery {
   page?: number;
   limit?: number;
-  sortBy?: 'createdAt' | 'updatedAt' | 'title';
+  sortBy?: 'createdAt' | 'updatedAt' | 'title' | 'capturedAt';
   sortOrder?: 'asc' | 'desc';
   tags?: string;
   isPublic?: boolean;
+  // Structured filter such as "tag:beach -tag:draft created:2024-03 width:>3000" (see lib/imageFilter.ts)
+  filter?: string;
+  // Page with opaque cursors instead of page numbers; sending a cursor implies it
+  pagination?: 'offset' | 'cursor';
+  cursor?: string;
+  // Count every match; on by default for page numbers and off for cursors
+  includeTotal?: boolean;
+  // Also count the matches by tag, format, visibility, upload month and file size
+  includeFacets?: boolean;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// Images whose size is at least min bytes and, when max is set, less than max bytes
+export interface SizeFacetCount {
+  min: number;
+  max?: number;
+  count: number;
+}
+
+// How the images matching a filter break down; values with no images are left out
+export interface ImageFacets {
+  // Most common tags first
+  tags: FacetCount[];
+  formats: FacetCount[];
+  visibility: {
+    public: number;
+    private: number;
+  };
+  // Upload months as YYYY-MM in UTC, most recent first
+  months: FacetCount[];
+  sizes: SizeFacetCount[];
 }
 
 export interface PaginatedResponse<T> extends ApiResponse<T[]> {
   pagination: {
-    currentPage: number;
-    totalPages: number;
-    totalItems: number;
+    // Left out when paging with cursors
+    currentPage?: number;
+    // Left out when the matches were not counted
+    totalPages?: number;
+    totalItems?: number;
     itemsPerPage: number;
     hasNextPage: boolean;
     hasPrevPage: boolean;
+    // Cursors for the neighbouring pages when paging with cursors; null when there is none
+    nextCursor?: string | null;
+    prevCursor?: string | null;
   };
+  // Counts over every match, not just this page, when requested
+  facets?: ImageFacets;
 }
 
 export interface DatabaseStats {
@@ -85,11 +245,539 @@ export interface DatabaseStats {
   privateImages: number;
   totalSize: number;
   averageSize: number;
+  trashedImages: number;
+}
+
+export type SyncDiscrepancyKind = 'missing_in_storage' | 'missing_in_database' | 'field_mismatch';
+
+// Fields compared between an image record and its stored file
+export type SyncField = 'bytes' | 'width' | 'height' | 'format' | 'secure_url';
+
+export interface SyncFieldDifference {
+  field: SyncField;
+  mongoValue: string | number | null;
+  cloudinaryValue: string | number | null;
+}
+
+export interface SyncDiscrepancy {
+  kind: SyncDiscrepancyKind;
+  cloudinaryId: string;
+  mongoId?: string;
+  message: string;
+  // Only set for field_mismatch discrepancies
+  differences?: SyncFieldDifference[];
 }
 
 export interface SyncStatus {
   inSync: boolean;
   mongoCount: number;
   cloudinaryCount: number;
-  discrepancies: string[];
-}
\ No newline at end of file
+  discrepancies: SyncDiscrepancy[];
+  scannedAt: Date;
+  durationMs: number;
+  // Number of storage listing pages fetched during the scan
+  pagesScanned: number;
+}
+
+// import: create a record for a stored file; remove: delete a record whose file is gone;
+// reupload: restore a missing file from the backup directory;
+// refresh: overwrite a record's file fields with the values from storage
+export type SyncRepairAction = 'import' | 'remove' | 'reupload' | 'refresh';
+
+export interface SyncRepairItem {
+  cloudinaryId: string;
+  action?: SyncRepairAction;
+}
+
+export interface SyncRepairRequest {
+  dryRun?: boolean;
+  // When omitted, every current discrepancy is repaired with its default action
+  items?: SyncRepairItem[];
+}
+
+export interface SyncRepairResult {
+  cloudinaryId: string;
+  kind?: SyncDiscrepancyKind;
+  action?: SyncRepairAction;
+  status: 'planned' | 'repaired' | 'skipped' | 'failed';
+  mongoId?: string;
+  message: string;
+}
+
+export interface SyncRepairReport {
+  dryRun: boolean;
+  repaired: number;
+  skipped: number;
+  failed: number;
+  results: SyncRepairResult[];
+}
+export type OperationType = 'create' | 'delete';
+
+export type OperationStatus = 'pending' | 'completed' | 'rolled_back';
+
+export interface OperationLogEntry {
+  _id?: ObjectId;
+  type: OperationType;
+  status: OperationStatus;
+  step: 'started' | 'stored' | 'storage_deleted';
+  imageId: ObjectId;
+  storageId?: string;
+  snapshot?: GalleryImage;
+  // For creates: the ID the client chose for the upload, who sent it, and whether they cancelled it
+  uploadId?: string;
+  requestedBy?: string;
+  cancelRequested?: boolean;
+  attempts: number;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  finishedAt?: Date;
+}
+
+export interface RecoveryResult {
+  operationId: string;
+  type: OperationType;
+  outcome: 'completed' | 'rolled_back' | 'failed';
+  error?: string;
+}
+
+export interface RecoveryReport {
+  examined: number;
+  completed: number;
+  rolledBack: number;
+  failed: number;
+  results: RecoveryResult[];
+}
+
+export interface TrashPurgeResult {
+  imageId: string;
+  title: string;
+  outcome: 'purged' | 'failed';
+  error?: string;
+}
+
+export interface TrashPurgeReport {
+  retentionDays: number;
+  examined: number;
+  purged: number;
+  failed: number;
+  results: TrashPurgeResult[];
+}
+
+export interface Album {
+  _id?: ObjectId;
+  title: string;
+  description?: string;
+  // Falls back to the first image when not set
+  coverImageId?: ObjectId | null;
+  // Images in display order; an image can belong to several albums
+  imageIds: ObjectId[];
+  isPublic: boolean;
+  // Username of the account that created the album
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AlbumSummary extends Album {
+  imageCount: number;
+  coverUrl?: string;
+}
+
+export interface AlbumWithImages extends Album {
+  images: GalleryImage[];
+}
+
+export interface CreateAlbumRequest {
+  title: string;
+  description?: string;
+  coverImageId?: string;
+  imageIds?: string[];
+  isPublic?: boolean;
+}
+
+export interface UpdateAlbumRequest {
+  title?: string;
+  description?: string;
+  coverImageId?: string | null;
+  // Replaces the image list, e.g. to reorder it
+  imageIds?: string[];
+  isPublic?: boolean;
+}
+
+// The /api/images parameters a saved search repeats each time it is opened
+export interface SavedSearchQuery {
+  search?: string;
+  tags?: string;
+  isPublic?: boolean;
+  filter?: string;
+  sortBy?: PaginationQuery['sortBy'];
+  sortOrder?: 'asc' | 'desc';
+}
+
+// A named query; opened, it is a smart album that always shows the current matches
+export interface SavedSearch {
+  _id?: ObjectId;
+  name: string;
+  description?: string;
+  query: SavedSearchQuery;
+  // Shared searches are listed for every signed-in user, others only for their creator
+  shared: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SavedSearchSummary extends SavedSearch {
+  // Images matching the query right now
+  imageCount: number;
+}
+
+export interface CreateSavedSearchRequest {
+  name: string;
+  description?: string;
+  query: SavedSearchQuery;
+  shared?: boolean;
+}
+
+export interface UpdateSavedSearchRequest {
+  name?: string;
+  description?: string;
+  query?: SavedSearchQuery;
+  shared?: boolean;
+}
+
+// How a suggestion matched what was typed, best first: the whole value, its start, the start of
+// one of its words, or within a typo or two
+export type SuggestionMatch = 'exact' | 'prefix' | 'word' | 'fuzzy';
+
+export interface TagSuggestion {
+  value: string;
+  // Live images with the tag
+  count: number;
+  match: SuggestionMatch;
+}
+
+export interface TitleSuggestion {
+  value: string;
+  match: SuggestionMatch;
+}
+
+export interface SuggestResults {
+  query: string;
+  tags: TagSuggestion[];
+  titles: TitleSuggestion[];
+}
+
+export type UserRole = 'admin' | 'user';
+
+export interface User {
+  _id?: ObjectId;
+  username: string;
+  passwordHash: string;
+  role: UserRole;
+  createdAt: Date;
+  lastLoginAt?: Date;
+  uploadSettings?: ResizeSettings;
+  // Team whose upload policy applies to this user's uploads; unset users get the default policy.
+  // Only admins assign it
+  workspace?: string;
+}
+
+// How the upload form shrinks images in the browser before sending them; remembered per user
+export interface ResizeSettings {
+  enabled: boolean;
+  // Longest side of a resized image, in pixels
+  maxLongEdge: number;
+  // Encoder quality, from 0.1 to 1
+  quality: number;
+}
+
+// A user as exposed to clients, without credentials
+export interface PublicUser {
+  id: string;
+  username: string;
+  role: UserRole;
+  uploadSettings?: ResizeSettings;
+  workspace?: string;
+}
+
+export interface Session {
+  _id?: ObjectId;
+  // SHA-256 of the cookie token; the token itself is never stored
+  tokenHash: string;
+  userId: ObjectId;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface AuthCredentials {
+  username: string;
+  password: string;
+}
+
+export interface ShareLink {
+  _id?: ObjectId;
+  imageId: ObjectId;
+  // Null for links that never expire
+  expiresAt: Date | null;
+  // Hash from lib/auth/passwords, or null when the link needs no password
+  passwordHash: string | null;
+  createdBy?: string;
+  createdAt: Date;
+  revokedAt: Date | null;
+  viewCount: number;
+  lastViewedAt?: Date;
+}
+
+export type ShareLinkStatus = 'active' | 'expired' | 'revoked';
+
+// A share link as listed to the image's owner
+export interface ShareLinkSummary {
+  id: string;
+  imageId: string;
+  token: string;
+  status: ShareLinkStatus;
+  hasPassword: boolean;
+  expiresAt: Date | null;
+  createdBy?: string;
+  createdAt: Date;
+  revokedAt: Date | null;
+  viewCount: number;
+  lastViewedAt?: Date;
+}
+
+export interface CreateShareLinkRequest {
+  // Omit for a link that never expires
+  expiresInHours?: number;
+  password?: string;
+}
+
+// The read-only view of an image that a share link reveals
+export interface SharedImage {
+  title: string;
+  description?: string;
+  // Where the file is served once the link has been checked; the stored file's own URL is never revealed
+  fileUrl: string;
+  format: string;
+  width: number;
+  height: number;
+  bytes: number;
+  tags: string[];
+  createdAt: Date;
+  uploadedBy?: string;
+  expiresAt: Date | null;
+}
+
+// Per-file fields for a batch upload; anything left out falls back to the shared fields
+export interface BatchUploadItem {
+  title?: string;
+  description?: string;
+  tags?: string[] | string;
+  isPublic?: boolean;
+}
+
+export interface BatchUploadResult {
+  index: number;
+  filename: string;
+  // "linked" means the file was already uploaded and image is the existing copy
+  outcome: 'uploaded' | 'linked' | 'failed';
+  image?: GalleryImage;
+  error?: string;
+  code?: UploadErrorCode;
+}
+
+export interface BatchUploadReport {
+  uploaded: number;
+  linked: number;
+  failed: number;
+  results: BatchUploadResult[];
+}
+
+// Images that look like the same picture
+export interface DuplicateGroup {
+  // Whether every image in the group has exactly the same file
+  exact: boolean;
+  // Largest perceptual hash distance between two images of the group
+  maxDistance: number;
+  images: GalleryImage[];
+}
+
+export interface DuplicateReport {
+  groups: DuplicateGroup[];
+  // Images compared, images left out because they have not been hashed yet, and images left out
+  // because their file could not be hashed
+  examined: number;
+  unhashed: number;
+  unhashable: number;
+  // Groups are reported largest first, a page at a time
+  totalGroups: number;
+  page: number;
+  totalPages: number;
+}
+
+// Result of hashing images uploaded before duplicate detection existed
+export interface HashBackfillReport {
+  hashed: number;
+  failed: number;
+  remaining: number;
+  // Images that failed in this or an earlier batch; they are not retried and do not count as remaining
+  unhashable: number;
+}
+
+// One URL to import, with optional fields that override the shared ones
+export interface ImportUrlItem extends BatchUploadItem {
+  url: string;
+}
+
+export interface ImportUrlRequest {
+  urls: (string | ImportUrlItem)[];
+  title?: string;
+  description?: string;
+  tags?: string[] | string;
+  isPublic?: boolean;
+  stripGps?: boolean;
+  onDuplicate?: DuplicatePolicy;
+}
+
+export interface ImportUrlResult {
+  index: number;
+  url: string;
+  outcome: 'imported' | 'linked' | 'failed';
+  image?: UploadedImage;
+  error?: string;
+  code?: UploadErrorCode;
+}
+
+export interface ImportUrlReport {
+  imported: number;
+  linked: number;
+  failed: number;
+  results: ImportUrlResult[];
+}
+
+export type ImportJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// What happened to one entry of an import archive
+export interface ImportJobEntry {
+  path: string;
+  outcome: 'imported' | 'skipped' | 'failed';
+  imageId?: ObjectId;
+  title?: string;
+  reason?: string;
+}
+
+// An entry's outcome as stored, apart from its job so a large archive cannot grow the job document
+export interface ImportJobEntryRecord extends ImportJobEntry {
+  _id?: ObjectId;
+  jobId: ObjectId;
+  // Order in which the entry was processed
+  position: number;
+}
+
+// A ZIP import that runs in the background; the counts grow as it goes
+export interface ImportJob {
+  _id?: ObjectId;
+  filename: string;
+  status: ImportJobStatus;
+  // Path of the manifest that supplied per-file fields, if the archive had one
+  manifest?: string;
+  // Entries the report will list: every file in the archive apart from the manifest,
+  // plus manifest rows that match no file
+  total: number;
+  imported: number;
+  skipped: number;
+  failed: number;
+  // Not stored with the job: when a single job is retrieved, a page of its entries in the order
+  // they were processed is attached, with the number of pages
+  entries?: ImportJobEntry[];
+  entryPages?: number;
+  error?: string;
+  // Whether location data is removed from the imported images
+  stripGps?: boolean;
+  // Files already in the gallery are skipped with "link" and fail with "reject"
+  onDuplicate?: DuplicatePolicy;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  finishedAt?: Date;
+}
+
+export type UploadSessionStatus = 'active' | 'finalizing' | 'completed';
+
+// A resumable upload: chunks are written to a temporary file until every byte has arrived
+export interface UploadSession {
+  _id?: ObjectId;
+  filename: string;
+  mimeType: string;
+  totalBytes: number;
+  receivedBytes: number;
+  // Fields for the new image, or the image whose file the upload replaces
+  image: CreateImageRequest;
+  onDuplicate?: DuplicatePolicy;
+  replaceImageId?: ObjectId;
+  status: UploadSessionStatus;
+  imageId?: ObjectId;
+  uploadedBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  // Unfinished sessions are discarded after this, along with their chunks
+  expiresAt: Date;
+}
+
+export interface CreateUploadSessionRequest extends Partial<CreateImageRequest> {
+  filename: string;
+  mimeType: string;
+  totalBytes: number;
+  replaceImageId?: string;
+  onDuplicate?: DuplicatePolicy;
+}
+
+// Progress of a resumable upload as reported to clients
+export interface UploadSessionProgress {
+  id: string;
+  filename: string;
+  totalBytes: number;
+  offset: number;
+  status: UploadSessionStatus;
+  imageId?: string;
+  expiresAt: Date;
+}
+
+// Fields an upload policy can make mandatory: a non-empty description, or at least one tag
+export type UploadRequiredField = 'description' | 'tags';
+
+// Rules every upload to a workspace must meet. Admins change them at runtime; until then they
+// come from the default policy, and that from the environment (MAX_RESUMABLE_UPLOAD_MB and
+// ALLOWED_IMAGE_TYPES).
+export interface UploadPolicy {
+  _id?: ObjectId;
+  // Workspace the policy applies to; unset on the default policy
+  workspace?: string;
+  // Largest file accepted, in bytes; single-request uploads are also held to 10MB
+  maxBytes: number;
+  // Pixel dimension limits; unset means no limit
+  minWidth?: number;
+  minHeight?: number;
+  maxWidth?: number;
+  maxHeight?: number;
+  // Accepted formats, e.g. ["jpg", "png"]
+  allowedFormats: string[];
+  requiredFields: UploadRequiredField[];
+  // Visibility of uploads that do not say whether they are public
+  defaultIsPublic: boolean;
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+// Changes to the upload policy; null removes a dimension limit
+export interface UpdateUploadPolicyRequest {
+  maxBytes?: number;
+  minWidth?: number | null;
+  minHeight?: number | null;
+  maxWidth?: number | null;
+  maxHeight?: number | null;
+  allowedFormats?: string[];
+  requiredFields?: UploadRequiredField[];
+  defaultIsPublic?: boolean;
+}